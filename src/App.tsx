@@ -4,6 +4,7 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { AuthProvider, useAuth } from "./hooks/useAuth";
+import { AccountProvider } from "./hooks/useAccounts";
 import { ThemeProvider } from "./hooks/useTheme";
 
 import Auth from "./pages/Auth";
@@ -13,10 +14,22 @@ import NewTrade from "./pages/NewTrade";
 import Analytics from "./pages/Analytics";
 import ImportCSV from "./pages/ImportCSV";
 import Calendar from "./pages/Calendar";
+import Journal from "./pages/Journal";
+import Goals from "./pages/Goals";
+import Challenges from "./pages/Challenges";
+import ChallengeDetail from "./pages/ChallengeDetail";
 import ResetPassword from "./pages/ResetPassword";
 import Profile from "./pages/Profile";
 import MT5Settings from "./pages/MT5Settings";
+import Accounts from "./pages/Accounts";
+import Instruments from "./pages/Instruments";
+import Tags from "./pages/Tags";
+import ChecklistRules from "./pages/ChecklistRules";
+import RiskRules from "./pages/RiskRules";
+import Playbooks from "./pages/Playbooks";
+import PlaybookDetail from "./pages/PlaybookDetail";
 import Tools from "./pages/Tools";
+import Trash from "./pages/Trash";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -67,11 +80,23 @@ function AppRoutes() {
       <Route path="/trades" element={<ProtectedRoute><Trades /></ProtectedRoute>} />
       <Route path="/trades/new" element={<ProtectedRoute><NewTrade /></ProtectedRoute>} />
       <Route path="/trades/:id" element={<ProtectedRoute><NewTrade /></ProtectedRoute>} />
+      <Route path="/trash" element={<ProtectedRoute><Trash /></ProtectedRoute>} />
       <Route path="/analytics" element={<ProtectedRoute><Analytics /></ProtectedRoute>} />
       <Route path="/calendar" element={<ProtectedRoute><Calendar /></ProtectedRoute>} />
+      <Route path="/journal" element={<ProtectedRoute><Journal /></ProtectedRoute>} />
+      <Route path="/goals" element={<ProtectedRoute><Goals /></ProtectedRoute>} />
+      <Route path="/challenges" element={<ProtectedRoute><Challenges /></ProtectedRoute>} />
+      <Route path="/challenges/:id" element={<ProtectedRoute><ChallengeDetail /></ProtectedRoute>} />
+      <Route path="/playbooks" element={<ProtectedRoute><Playbooks /></ProtectedRoute>} />
+      <Route path="/playbooks/:id" element={<ProtectedRoute><PlaybookDetail /></ProtectedRoute>} />
       <Route path="/import" element={<ProtectedRoute><ImportCSV /></ProtectedRoute>} />
       <Route path="/profile" element={<ProtectedRoute><Profile /></ProtectedRoute>} />
       <Route path="/settings/mt5" element={<ProtectedRoute><MT5Settings /></ProtectedRoute>} />
+      <Route path="/settings/accounts" element={<ProtectedRoute><Accounts /></ProtectedRoute>} />
+      <Route path="/settings/instruments" element={<ProtectedRoute><Instruments /></ProtectedRoute>} />
+      <Route path="/settings/tags" element={<ProtectedRoute><Tags /></ProtectedRoute>} />
+      <Route path="/settings/checklist" element={<ProtectedRoute><ChecklistRules /></ProtectedRoute>} />
+      <Route path="/settings/risk" element={<ProtectedRoute><RiskRules /></ProtectedRoute>} />
       <Route path="/tools" element={<ProtectedRoute><Tools /></ProtectedRoute>} />
       <Route path="*" element={<NotFound />} />
     </Routes>
@@ -82,13 +107,15 @@ const App = () => (
   <QueryClientProvider client={queryClient}>
     <ThemeProvider>
       <AuthProvider>
-        <TooltipProvider>
-          <Toaster />
-          <Sonner />
-          <BrowserRouter>
-            <AppRoutes />
-          </BrowserRouter>
-        </TooltipProvider>
+        <AccountProvider>
+          <TooltipProvider>
+            <Toaster />
+            <Sonner />
+            <BrowserRouter>
+              <AppRoutes />
+            </BrowserRouter>
+          </TooltipProvider>
+        </AccountProvider>
       </AuthProvider>
     </ThemeProvider>
   </QueryClientProvider>
@@ -0,0 +1,316 @@
+import { useState, useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { format } from 'date-fns';
+import { useAccounts, ALL_ACCOUNTS } from '@/hooks/useAccounts';
+import { useCashFlows } from '@/hooks/useCashFlows';
+import { useToast } from '@/hooks/use-toast';
+import { CashFlow, CashFlowType } from '@/types/trade';
+import { toDateTimeInput } from '@/utils/timezone';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ArrowDownUp, Loader2, Trash2 } from 'lucide-react';
+
+const cashFlowSchema = z.object({
+  account_id: z.string().min(1, 'Choose an account'),
+  flow_type: z.enum(['deposit', 'withdrawal', 'transfer', 'adjustment']),
+  amount: z.coerce.number().refine(v => v !== 0, 'Amount cannot be zero'),
+  occurred_at: z.string().min(1, 'Date is required'),
+  to_account_id: z.string().optional(),
+  note: z.string().max(200, 'Note too long').optional(),
+}).refine(data => data.flow_type === 'adjustment' || data.amount > 0, {
+  message: 'Enter a positive amount',
+  path: ['amount'],
+}).refine(data => data.flow_type !== 'transfer' || (data.to_account_id && data.to_account_id !== data.account_id), {
+  message: 'Choose a different destination account',
+  path: ['to_account_id'],
+});
+
+type CashFlowFormValues = z.infer<typeof cashFlowSchema>;
+
+const FLOW_TYPE_LABELS: Record<CashFlowType, string> = {
+  deposit: 'Deposit',
+  withdrawal: 'Withdrawal',
+  transfer: 'Transfer',
+  adjustment: 'Adjustment',
+};
+
+export function CashFlowLedger() {
+  const { accounts, selectedAccountId } = useAccounts();
+  const { cashFlows, loading, addCashFlow, deleteCashFlow } = useCashFlows();
+  const { toast } = useToast();
+  const [saving, setSaving] = useState(false);
+
+  const defaultAccountId = selectedAccountId !== ALL_ACCOUNTS ? selectedAccountId : accounts[0]?.id ?? '';
+
+  const form = useForm<CashFlowFormValues>({
+    resolver: zodResolver(cashFlowSchema),
+    defaultValues: {
+      account_id: defaultAccountId,
+      flow_type: 'deposit',
+      amount: 0,
+      occurred_at: toDateTimeInput(new Date()),
+      to_account_id: '',
+      note: '',
+    },
+  });
+
+  // Accounts may still be loading when the form mounts
+  useEffect(() => {
+    if (!form.getValues('account_id') && defaultAccountId) {
+      form.setValue('account_id', defaultAccountId);
+    }
+  }, [defaultAccountId, form]);
+
+  const flowType = form.watch('flow_type');
+  const accountName = (id: string | null) => accounts.find(a => a.id === id)?.name ?? 'Deleted account';
+
+  const visibleFlows = selectedAccountId === ALL_ACCOUNTS
+    ? cashFlows
+    : cashFlows.filter(f => f.account_id === selectedAccountId);
+
+  const onSubmit = async (data: CashFlowFormValues) => {
+    setSaving(true);
+    const { error } = await addCashFlow({
+      account_id: data.account_id,
+      flow_type: data.flow_type,
+      amount: data.amount,
+      occurred_at: new Date(data.occurred_at),
+      to_account_id: data.to_account_id || undefined,
+      note: data.note,
+    });
+    setSaving(false);
+
+    if (error) {
+      toast({
+        title: 'Error recording cash flow',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      form.reset({ ...form.getValues(), amount: 0, note: '' });
+    }
+  };
+
+  const handleDelete = async (flow: CashFlow) => {
+    const { error } = await deleteCashFlow(flow);
+    if (error) {
+      toast({
+        title: 'Error deleting entry',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const describeFlow = (flow: CashFlow) => {
+    if (flow.flow_type === 'transfer') {
+      return flow.amount < 0
+        ? `To ${accountName(flow.counterparty_account_id)}`
+        : `From ${accountName(flow.counterparty_account_id)}`;
+    }
+    return flow.note || FLOW_TYPE_LABELS[flow.flow_type];
+  };
+
+  const formatAmount = (flow: CashFlow) => {
+    const currency = accounts.find(a => a.id === flow.account_id)?.currency ?? '';
+    const value = Math.abs(Number(flow.amount)).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+    return `${flow.amount < 0 ? '-' : '+'}${value} ${currency}`;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2"><ArrowDownUp className="w-5 h-5" /> Balance Ledger</CardTitle>
+        <CardDescription>
+          Record deposits, withdrawals and transfers so balances and returns stay accurate
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {accounts.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Create an account before recording cash flows.</p>
+        ) : (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="account_id"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{flowType === 'transfer' ? 'From Account' : 'Account'}</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select account" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {accounts.map(account => (
+                            <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="flow_type"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Type</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {(Object.keys(FLOW_TYPE_LABELS) as CashFlowType[]).map(type => (
+                            <SelectItem
+                              key={type}
+                              value={type}
+                              disabled={type === 'transfer' && accounts.length < 2}
+                            >
+                              {FLOW_TYPE_LABELS[type]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {flowType === 'transfer' && (
+                  <FormField
+                    control={form.control}
+                    name="to_account_id"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>To Account</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select account" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {accounts.map(account => (
+                              <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
+                <FormField
+                  control={form.control}
+                  name="amount"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{flowType === 'adjustment' ? 'Amount (+/-)' : 'Amount'}</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="0.01" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="occurred_at"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Date</FormLabel>
+                      <FormControl>
+                        <Input type="datetime-local" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="note"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Note</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Optional" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="flex justify-end">
+                <Button type="submit" disabled={saving}>
+                  {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Record
+                </Button>
+              </div>
+            </form>
+          </Form>
+        )}
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading ledger...</p>
+        ) : visibleFlows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No cash flows recorded yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {visibleFlows.map(flow => (
+              <div key={flow.id} className="flex items-center justify-between p-3 rounded-lg border">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">{FLOW_TYPE_LABELS[flow.flow_type]}</Badge>
+                    <span className="text-sm">{describeFlow(flow)}</span>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {accountName(flow.account_id)} · {format(new Date(flow.occurred_at), 'MMM d, yyyy HH:mm')}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className={`font-mono text-sm ${flow.amount < 0 ? 'text-destructive' : 'text-success'}`}>
+                    {formatAmount(flow)}
+                  </span>
+                  <Button variant="ghost" size="icon" onClick={() => handleDelete(flow)}>
+                    <Trash2 className="w-4 h-4 text-destructive" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
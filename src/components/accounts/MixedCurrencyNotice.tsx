@@ -0,0 +1,18 @@
+import { useCurrency } from '@/hooks/useCurrency';
+import { Coins } from 'lucide-react';
+
+// Totals across accounts add amounts as recorded; there are no exchange rates to convert them with
+export function MixedCurrencyNotice() {
+  const { mixed, currencies } = useCurrency();
+  if (!mixed) return null;
+
+  return (
+    <div className="p-3 rounded-xl bg-muted/50 border border-border flex items-center gap-3 text-sm text-muted-foreground">
+      <Coins className="w-4 h-4 shrink-0" />
+      <p>
+        Your accounts use different currencies ({currencies.join(', ')}). Totals add the amounts as recorded without
+        converting them, so they are shown without a currency. Select an account to see its figures in its own currency.
+      </p>
+    </div>
+  );
+}
@@ -1,12 +1,19 @@
 import { Trade } from '@/types/trade';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
-import { getRulePerformance, getEmotionPerformance, getSetupQualityStats } from '@/utils/analytics';
-import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, Tooltip, Cell } from 'recharts';
+import { getRulePerformance, getEmotionPerformance, getSetupQualityStats, getChecklistScorePerformance } from '@/utils/analytics';
+import { usePnLBasis } from '@/hooks/usePnLBasis';
+import { useChecklistRules } from '@/hooks/useChecklistRules';
+import { useCurrency } from '@/hooks/useCurrency';
+import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, Tooltip, Cell, Legend } from 'recharts';
 
 export function ConfluenceAnalytics({ trades }: { trades: Trade[] }) {
-    const ruleData = getRulePerformance(trades);
-    const emotionData = getEmotionPerformance(trades);
-    const qualityData = getSetupQualityStats(trades);
+    const pnlBasis = usePnLBasis();
+    const { rules } = useChecklistRules();
+    const { format: formatCurrency } = useCurrency();
+    const ruleData = getRulePerformance(trades, rules, pnlBasis);
+    const scoreData = getChecklistScorePerformance(trades, rules, pnlBasis);
+    const emotionData = getEmotionPerformance(trades, pnlBasis);
+    const qualityData = getSetupQualityStats(trades, pnlBasis);
 
     // Use profit/loss colors dynamically for bars
     const getPLColor = (pl: number) => {
@@ -31,13 +38,13 @@ export function ConfluenceAnalytics({ trades }: { trades: Trade[] }) {
                 {/* Win Rate by Technical Rule */}
                 <Card className="gradient-card">
                     <CardHeader>
-                        <CardTitle className="font-display">Technical Rules</CardTitle>
-                        <CardDescription>Performance when rule is checked "Yes"</CardDescription>
+                        <CardTitle className="font-display">Checklist Rules</CardTitle>
+                        <CardDescription>Win rate when each rule was followed vs broken</CardDescription>
                     </CardHeader>
                     <CardContent>
                         {ruleData.length === 0 ? (
                             <div className="h-[300px] flex items-center justify-center text-muted-foreground text-sm">
-                                No technical rule data recorded yet
+                                No rule answers recorded yet
                             </div>
                         ) : (
                             <div className="h-[300px]">
@@ -59,7 +66,7 @@ export function ConfluenceAnalytics({ trades }: { trades: Trade[] }) {
                                             fontSize={12}
                                             tickLine={false}
                                             axisLine={false}
-                                            width={80}
+                                            width={110}
                                         />
                                         <Tooltip
                                             contentStyle={{
@@ -68,20 +75,22 @@ export function ConfluenceAnalytics({ trades }: { trades: Trade[] }) {
                                                 borderRadius: '8px',
                                             }}
                                             cursor={{ fill: 'transparent' }}
-                                            formatter={(val: number, name: string, props: any) => {
-                                                if (name === 'winRate') return [`${val.toFixed(1)}%`, 'Win Rate'];
-                                                return [val, name];
-                                            }}
+                                            formatter={(val: number, name: string) => [`${val.toFixed(1)}%`, name]}
                                             labelFormatter={(label) => `Rule: ${label}`}
                                         />
+                                        <Legend wrapperStyle={{ fontSize: 11 }} />
                                         <Bar
                                             dataKey="winRate"
+                                            name="Followed"
                                             radius={[0, 4, 4, 0]}
-                                        >
-                                            {ruleData.map((entry, index) => (
-                                                <Cell key={`cell-${index}`} fill={entry.winRate >= 50 ? "hsl(var(--primary))" : "hsl(var(--muted-foreground))"} />
-                                            ))}
-                                        </Bar>
+                                            fill="hsl(var(--primary))"
+                                        />
+                                        <Bar
+                                            dataKey="brokenWinRate"
+                                            name="Broken"
+                                            radius={[0, 4, 4, 0]}
+                                            fill="hsl(var(--muted-foreground))"
+                                        />
                                     </BarChart>
                                 </ResponsiveContainer>
                             </div>
@@ -110,7 +119,7 @@ export function ConfluenceAnalytics({ trades }: { trades: Trade[] }) {
                                             fontSize={11}
                                             tickLine={false}
                                             axisLine={false}
-                                            tickFormatter={(val) => `$${val}`}
+                                            tickFormatter={(val) => formatCurrency(val, { digits: 0 })}
                                         />
                                         <YAxis
                                             type="category"
@@ -130,7 +139,7 @@ export function ConfluenceAnalytics({ trades }: { trades: Trade[] }) {
                                             cursor={{ fill: 'transparent' }}
                                             formatter={(val: number, name: string, props: any) => {
                                                 const data = props.payload;
-                                                if (name === 'expectancy') return [`$${val.toFixed(2)}`, 'Expectancy'];
+                                                if (name === 'expectancy') return [formatCurrency(val), 'Expectancy'];
                                                 if (name === 'winRate') return [`${val.toFixed(1)}%`, 'Win Rate'];
                                                 if (name === 'count') return [val, 'Trade Count'];
                                                 return [val, name];
@@ -154,6 +163,62 @@ export function ConfluenceAnalytics({ trades }: { trades: Trade[] }) {
                     </CardContent>
                 </Card>
 
+                {/* Weighted Checklist Score */}
+                <Card className="gradient-card lg:col-span-2">
+                    <CardHeader>
+                        <CardTitle className="font-display">Checklist Score</CardTitle>
+                        <CardDescription>Expectancy by weighted share of rules followed</CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        {scoreData.length === 0 ? (
+                            <div className="h-[240px] flex items-center justify-center text-muted-foreground text-sm">
+                                No scored trades yet
+                            </div>
+                        ) : (
+                            <div className="h-[240px]">
+                                <ResponsiveContainer width="100%" height="100%">
+                                    <BarChart data={scoreData}>
+                                        <XAxis
+                                            dataKey="bucket"
+                                            stroke="hsl(var(--muted-foreground))"
+                                            fontSize={12}
+                                            tickLine={false}
+                                            axisLine={false}
+                                        />
+                                        <YAxis
+                                            stroke="hsl(var(--muted-foreground))"
+                                            fontSize={11}
+                                            tickLine={false}
+                                            axisLine={false}
+                                            tickFormatter={(val) => formatCurrency(val, { digits: 0 })}
+                                        />
+                                        <Tooltip
+                                            contentStyle={{
+                                                backgroundColor: 'hsl(var(--card))',
+                                                border: '1px solid hsl(var(--border))',
+                                                borderRadius: '8px',
+                                            }}
+                                            cursor={{ fill: 'transparent' }}
+                                            formatter={(val: number, name: string, props: { payload?: { trades: number; winRate: number } }) => {
+                                                const data = props.payload;
+                                                if (name === 'expectancy' && data) {
+                                                    return [`${formatCurrency(val)} · ${data.winRate.toFixed(1)}% win · ${data.trades} trades`, 'Expectancy'];
+                                                }
+                                                return [val, name];
+                                            }}
+                                        />
+                                        <Bar dataKey="expectancy" radius={[4, 4, 0, 0]}>
+                                            {scoreData.map((entry, index) => (
+                                                <Cell key={`cell-${index}`} fill={getPLColor(entry.expectancy)} />
+                                            ))}
+                                        </Bar>
+                                    </BarChart>
+                                </ResponsiveContainer>
+                            </div>
+                        )}
+                    </CardContent>
+                </Card>
+
                 {/* Setup Quality Distribution */}
                 <Card className="gradient-card lg:col-span-2">
                     <CardHeader>
@@ -175,7 +240,7 @@ export function ConfluenceAnalytics({ trades }: { trades: Trade[] }) {
                                             fontSize={11}
                                             tickLine={false}
                                             axisLine={false}
-                                            tickFormatter={(val) => `$${val}`}
+                                            tickFormatter={(val) => formatCurrency(val, { digits: 0 })}
                                         />
                                         <YAxis
                                             type="category"
@@ -194,7 +259,7 @@ export function ConfluenceAnalytics({ trades }: { trades: Trade[] }) {
                                             }}
                                             cursor={{ fill: 'transparent' }}
                                             formatter={(val: number, name: string, props: any) => {
-                                                if (name === 'expectancy') return [`$${val.toFixed(2)}`, 'Expectancy Value'];
+                                                if (name === 'expectancy') return [formatCurrency(val), 'Expectancy Value'];
                                                 return [val, name];
                                             }}
                                         />
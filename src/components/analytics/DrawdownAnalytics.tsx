@@ -0,0 +1,135 @@
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Trade } from '@/types/trade';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { StatCard } from '@/components/dashboard/StatCard';
+import { DrawdownStats } from '@/utils/analytics';
+import { useCurrency } from '@/hooks/useCurrency';
+import { ArrowDownToLine, Clock, TrendingDown, Waves } from 'lucide-react';
+
+interface DrawdownAnalyticsProps {
+  trades: Trade[];
+  drawdowns: DrawdownStats;
+}
+
+const MAX_EPISODES = 5;
+const MAX_TRADE_LINKS = 4;
+
+const formatPct = (value: number | null) => (value === null ? null : `${value.toFixed(2)}%`);
+const formatDays = (days: number) => {
+  if (days < 1) return '< 1 day';
+  const rounded = Math.round(days);
+  return `${rounded} ${rounded === 1 ? 'day' : 'days'}`;
+};
+const formatDate = (iso: string) => format(new Date(iso), 'MMM d, yyyy');
+
+export function DrawdownAnalytics({ trades, drawdowns }: DrawdownAnalyticsProps) {
+  const { format: formatMoney } = useCurrency();
+  const formatCurrency = (value: number) => formatMoney(Math.abs(value));
+  const tradeById = new Map(trades.map(t => [t.id, t]));
+  const episodes = drawdowns.episodes.slice(0, MAX_EPISODES);
+
+  if (drawdowns.underwater.length === 0) return null;
+
+  return (
+    <div className="space-y-6 mt-12 animate-fade-in">
+      <div>
+        <h2 className="text-2xl font-display font-semibold">Drawdowns</h2>
+        <p className="text-muted-foreground mt-1 text-sm">
+          Falls in cumulative trade P&L from a previous high, measured at each trade's exit, on the same basis as the equity curve above. Deposits and withdrawals don't count.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        <StatCard
+          title="Max Drawdown"
+          value={formatCurrency(drawdowns.maxDrawdown)}
+          subtitle={formatPct(drawdowns.maxDrawdownPct) ?? 'Deepest fall from a peak'}
+          icon={ArrowDownToLine}
+          trend={drawdowns.maxDrawdown > 0 ? 'down' : 'neutral'}
+        />
+        <StatCard
+          title="Current Drawdown"
+          value={formatCurrency(drawdowns.currentDrawdown)}
+          subtitle={drawdowns.currentDrawdown > 0 ? formatPct(drawdowns.currentDrawdownPct) ?? 'Below the last peak' : 'At a new high'}
+          icon={TrendingDown}
+          trend={drawdowns.currentDrawdown > 0 ? 'down' : 'up'}
+        />
+        <StatCard
+          title="Longest Drawdown"
+          value={formatDays(drawdowns.longestDrawdownDays)}
+          subtitle="From peak back to a new high"
+          icon={Clock}
+        />
+        <StatCard
+          title="Time to Recovery"
+          value={drawdowns.maxDrawdownRecoveryDays === null ? 'Not yet' : formatDays(drawdowns.maxDrawdownRecoveryDays)}
+          subtitle={drawdowns.averageRecoveryDays === null
+            ? 'Deepest drawdown, trough to new high'
+            : `Average ${formatDays(drawdowns.averageRecoveryDays)} across recoveries`}
+          icon={Waves}
+        />
+      </div>
+
+      {episodes.length > 0 && (
+        <Card className="gradient-card">
+          <CardHeader>
+            <CardTitle className="font-display">Worst Drawdowns</CardTitle>
+            <CardDescription>The losing trades listed are the ones that took the curve to each new low</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Peak</TableHead>
+                  <TableHead>Trough</TableHead>
+                  <TableHead>Recovered</TableHead>
+                  <TableHead className="text-right">Depth</TableHead>
+                  <TableHead className="text-right">Duration</TableHead>
+                  <TableHead>Trades</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {episodes.map(episode => {
+                  const causes = episode.tradeIds
+                    .map(id => tradeById.get(id))
+                    .filter((t): t is Trade => !!t);
+                  return (
+                    <TableRow key={episode.start}>
+                      <TableCell>{formatDate(episode.start)}</TableCell>
+                      <TableCell>{formatDate(episode.trough)}</TableCell>
+                      <TableCell>
+                        {episode.recovered ? formatDate(episode.recovered) : <Badge variant="outline">Ongoing</Badge>}
+                      </TableCell>
+                      <TableCell className="text-right text-destructive font-medium">
+                        -{formatCurrency(episode.depth)}
+                        {episode.depthPct !== null && (
+                          <span className="block text-xs text-muted-foreground font-normal">{formatPct(-episode.depthPct)}</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{formatDays(episode.durationDays)}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-x-2 gap-y-1 text-sm">
+                          {causes.slice(0, MAX_TRADE_LINKS).map(trade => (
+                            <Link key={trade.id} to={`/trades/${trade.id}`} className="text-primary hover:underline">
+                              {trade.symbol} {format(new Date(trade.exit_date ?? trade.entry_date), 'MMM d')}
+                            </Link>
+                          ))}
+                          {causes.length > MAX_TRADE_LINKS && (
+                            <span className="text-muted-foreground">+{causes.length - MAX_TRADE_LINKS} more</span>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,181 @@
+import { useNavigate } from 'react-router-dom';
+import { Trade } from '@/types/trade';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { StatCard } from '@/components/dashboard/StatCard';
+import { formatDuration, formatR } from '@/utils/analytics';
+import { DurationPoint, getDurationPerformance, getDurationVsR, getHoldingTimeStats } from '@/utils/timeAnalysis';
+import { usePnLBasis } from '@/hooks/usePnLBasis';
+import { useCurrency } from '@/hooks/useCurrency';
+import { cn } from '@/lib/utils';
+import { ScatterChart, Scatter, XAxis, YAxis, ZAxis, Tooltip, ResponsiveContainer, ReferenceLine, Legend } from 'recharts';
+import { Clock, Hourglass, TrendingDown, TrendingUp } from 'lucide-react';
+
+const plClass = (value: number) => value > 0 ? 'text-success' : value < 0 ? 'text-destructive' : undefined;
+const formatMinutes = (minutes: number | null) => (minutes === null ? '—' : formatDuration(minutes));
+
+// The log scale can't start at zero, so anything under a minute is drawn at one minute
+const toPlotPoint = (point: DurationPoint) => ({ ...point, x: Math.max(point.minutes, 1) });
+
+export function HoldingTimeAnalytics({ trades }: { trades: Trade[] }) {
+  const navigate = useNavigate();
+  const pnlBasis = usePnLBasis();
+  const { format: formatCurrency } = useCurrency();
+  const holding = getHoldingTimeStats(trades);
+  const buckets = getDurationPerformance(trades, pnlBasis);
+  const points = getDurationVsR(trades, pnlBasis).map(toPlotPoint);
+
+  if (holding.trades === 0) return null;
+
+  const { averageWinMinutes: winHold, averageLossMinutes: lossHold } = holding;
+  const holdRatio = winHold && lossHold ? lossHold / winHold : null;
+
+  return (
+    <div className="space-y-6 mt-12 animate-fade-in">
+      <div>
+        <h2 className="text-2xl font-display font-semibold">Holding Time</h2>
+        <p className="text-muted-foreground mt-1 text-sm">
+          How long closed trades were held from entry to exit.
+          {holdRatio !== null && holdRatio > 1.2 && ` Losers are held ${holdRatio.toFixed(1)}× as long as winners, which can mean letting losses run or cutting winners early.`}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        <StatCard
+          title="Average Hold"
+          value={formatMinutes(holding.averageMinutes)}
+          subtitle={`${holding.trades} closed trades`}
+          icon={Clock}
+        />
+        <StatCard
+          title="Winners"
+          value={formatMinutes(winHold)}
+          subtitle={`Median ${formatMinutes(holding.medianWinMinutes)}`}
+          icon={TrendingUp}
+          trend="up"
+        />
+        <StatCard
+          title="Losers"
+          value={formatMinutes(lossHold)}
+          subtitle={`Median ${formatMinutes(holding.medianLossMinutes)}`}
+          icon={TrendingDown}
+          trend="down"
+        />
+        <StatCard
+          title="Loser / Winner Hold"
+          value={holdRatio === null ? '—' : `${holdRatio.toFixed(2)}×`}
+          subtitle="Average time held, losers against winners"
+          icon={Hourglass}
+          trend={holdRatio === null ? 'neutral' : holdRatio > 1 ? 'down' : 'up'}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+        <Card className="gradient-card">
+          <CardHeader>
+            <CardTitle className="font-display">By Duration</CardTitle>
+            <CardDescription>Closed trades grouped by how long they were held</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Style</TableHead>
+                  <TableHead className="text-right">Trades</TableHead>
+                  <TableHead className="text-right">Win Rate</TableHead>
+                  <TableHead className="text-right">Avg R</TableHead>
+                  <TableHead className="text-right">P&L</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {buckets.map(row => (
+                  <TableRow key={row.key} className={cn(row.trades === 0 && 'text-muted-foreground')}>
+                    <TableCell>
+                      <p className="font-medium">{row.label}</p>
+                      <p className="text-xs text-muted-foreground">{row.description}</p>
+                    </TableCell>
+                    <TableCell className="text-right">{row.trades}</TableCell>
+                    <TableCell className="text-right">{row.trades > 0 ? `${row.winRate.toFixed(0)}%` : '—'}</TableCell>
+                    <TableCell className="text-right">{row.averageR === null ? '—' : formatR(row.averageR)}</TableCell>
+                    <TableCell className={cn('text-right font-medium', row.trades > 0 && plClass(row.totalPL))}>
+                      {row.trades > 0 ? formatCurrency(row.totalPL) : '—'}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <Card className="gradient-card">
+          <CardHeader>
+            <CardTitle className="font-display">Duration vs R</CardTitle>
+            <CardDescription>Each dot is a trade; click one to open it</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {points.length === 0 ? (
+              <div className="h-[300px] flex items-center justify-center text-muted-foreground text-center">
+                Record a risk amount on your trades to compare duration with R
+              </div>
+            ) : (
+              <div className="h-[300px]">
+                <ResponsiveContainer width="100%" height="100%">
+                  <ScatterChart>
+                    <XAxis
+                      type="number"
+                      dataKey="x"
+                      scale="log"
+                      domain={['auto', 'auto']}
+                      stroke="hsl(var(--muted-foreground))"
+                      fontSize={12}
+                      tickLine={false}
+                      axisLine={false}
+                      tickFormatter={(value) => formatDuration(value)}
+                    />
+                    <YAxis
+                      type="number"
+                      dataKey="r"
+                      stroke="hsl(var(--muted-foreground))"
+                      fontSize={12}
+                      tickLine={false}
+                      axisLine={false}
+                      tickFormatter={(value) => `${value}R`}
+                    />
+                    <ZAxis range={[40, 40]} />
+                    <ReferenceLine y={0} stroke="hsl(var(--border))" />
+                    <Tooltip
+                      cursor={{ strokeDasharray: '3 3' }}
+                      contentStyle={{
+                        backgroundColor: 'hsl(var(--card))',
+                        border: '1px solid hsl(var(--border))',
+                        borderRadius: '8px',
+                      }}
+                      formatter={(value: number, name) => name === 'x' || name === 'Held'
+                        ? [formatDuration(value), 'Held']
+                        : [formatR(value), 'Result']}
+                    />
+                    <Legend />
+                    <Scatter
+                      name="Winners"
+                      data={points.filter(p => p.r >= 0)}
+                      fill="hsl(var(--chart-profit))"
+                      className="cursor-pointer"
+                      onClick={(point: DurationPoint) => navigate(`/trades/${point.id}`)}
+                    />
+                    <Scatter
+                      name="Losers"
+                      data={points.filter(p => p.r < 0)}
+                      fill="hsl(var(--chart-loss))"
+                      className="cursor-pointer"
+                      onClick={(point: DurationPoint) => navigate(`/trades/${point.id}`)}
+                    />
+                  </ScatterChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -12,18 +12,16 @@ import {
   Cell,
 } from 'recharts';
 import { TrendingUp, TrendingDown, Minus } from 'lucide-react';
+import { useCurrency } from '@/hooks/useCurrency';
 
 interface PairPerformanceProps {
   pairData: PairStats[];
 }
 
 export function PairPerformance({ pairData }: PairPerformanceProps) {
-  if (pairData.length === 0) return null;
+  const { format: formatCurrency } = useCurrency();
 
-  const formatCurrency = (value: number) => {
-    const formatted = Math.abs(value).toFixed(2);
-    return value >= 0 ? `$${formatted}` : `-$${formatted}`;
-  };
+  if (pairData.length === 0) return null;
 
   // Sort by total trades descending
   const sorted = [...pairData].sort((a, b) => b.trades - a.trades);
@@ -0,0 +1,121 @@
+import { Trade } from '@/types/trade';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { StatCard } from '@/components/dashboard/StatCard';
+import { TradeStats, formatR, getRDistribution } from '@/utils/analytics';
+import { usePnLBasis } from '@/hooks/usePnLBasis';
+import { BarChart, Bar, Cell, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import { Activity, Percent, Scale, Sigma } from 'lucide-react';
+
+interface RMultipleAnalyticsProps {
+  trades: Trade[];
+  stats: TradeStats;
+}
+
+// Van Tharp's rough bands for the system quality number
+const describeSqn = (sqn: number) => {
+  if (sqn >= 3) return 'Excellent system';
+  if (sqn >= 2) return 'Good system';
+  if (sqn >= 1.6) return 'Average system';
+  if (sqn > 0) return 'Hard to trade';
+  return 'No edge yet';
+};
+
+export function RMultipleAnalytics({ trades, stats }: RMultipleAnalyticsProps) {
+  const pnlBasis = usePnLBasis();
+  const distribution = getRDistribution(trades, pnlBasis);
+
+  return (
+    <div className="space-y-6 mt-12 animate-fade-in">
+      <div>
+        <h2 className="text-2xl font-display font-semibold">R Multiples</h2>
+        <p className="text-muted-foreground mt-1 text-sm">
+          Results measured against each trade's risk amount. Synced and imported trades get one from their
+          stop loss when the instrument is in your registry.
+          {stats.rTrades < stats.totalTrades && ` ${stats.totalTrades - stats.rTrades} of ${stats.totalTrades} closed trades have no risk amount and are left out.`}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        <StatCard
+          title="Total R"
+          value={formatR(stats.totalR)}
+          subtitle={`${stats.rTrades} trades`}
+          icon={Activity}
+          trend={stats.totalR > 0 ? 'up' : stats.totalR < 0 ? 'down' : 'neutral'}
+        />
+        <StatCard
+          title="Average R"
+          value={formatR(stats.averageR)}
+          subtitle={`Win ${formatR(stats.averageWinR)} / Loss ${formatR(-stats.averageLossR)}`}
+          icon={Scale}
+          trend={stats.averageR > 0 ? 'up' : stats.averageR < 0 ? 'down' : 'neutral'}
+        />
+        <StatCard
+          title="Expectancy"
+          value={formatR(stats.expectancyR)}
+          subtitle="Expected R per trade"
+          icon={Percent}
+          trend={stats.expectancyR > 0 ? 'up' : 'down'}
+        />
+        <StatCard
+          title="SQN"
+          value={stats.sqn.toFixed(2)}
+          subtitle={describeSqn(stats.sqn)}
+          icon={Sigma}
+          trend={stats.sqn >= 1.6 ? 'up' : stats.sqn > 0 ? 'neutral' : 'down'}
+        />
+      </div>
+
+      <Card className="gradient-card">
+        <CardHeader>
+          <CardTitle className="font-display">R-Multiple Distribution</CardTitle>
+          <CardDescription>Closed trades per 1R bucket</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {stats.rTrades === 0 ? (
+            <div className="h-[300px] flex items-center justify-center text-muted-foreground">
+              Record a risk amount on your trades to see their R multiples
+            </div>
+          ) : (
+            <div className="h-[300px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={distribution}>
+                  <XAxis
+                    dataKey="label"
+                    stroke="hsl(var(--muted-foreground))"
+                    fontSize={12}
+                    tickLine={false}
+                    axisLine={false}
+                  />
+                  <YAxis
+                    stroke="hsl(var(--muted-foreground))"
+                    fontSize={12}
+                    tickLine={false}
+                    axisLine={false}
+                    allowDecimals={false}
+                  />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: 'hsl(var(--card))',
+                      border: '1px solid hsl(var(--border))',
+                      borderRadius: '8px',
+                    }}
+                    formatter={(value: number) => [value, 'Trades']}
+                  />
+                  <Bar dataKey="count" radius={[4, 4, 0, 0]}>
+                    {distribution.map(bucket => (
+                      <Cell
+                        key={bucket.label}
+                        fill={bucket.min < 0 ? 'hsl(var(--chart-loss))' : 'hsl(var(--chart-profit))'}
+                      />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
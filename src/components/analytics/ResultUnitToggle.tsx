@@ -0,0 +1,24 @@
+import { ResultUnit } from '@/types/trade';
+import { useResultUnit } from '@/hooks/useResultUnit';
+import { useCurrency } from '@/hooks/useCurrency';
+import { getCurrencySymbol } from '@/utils/currency';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+
+export function ResultUnitToggle() {
+  const { unit, setUnit } = useResultUnit();
+  const { currency } = useCurrency();
+
+  return (
+    <ToggleGroup
+      type="single"
+      variant="outline"
+      size="sm"
+      value={unit}
+      onValueChange={(value) => value && setUnit(value as ResultUnit)}
+      aria-label="Show results in"
+    >
+      <ToggleGroupItem value="currency" aria-label="Currency" className="px-3">{getCurrencySymbol(currency)}</ToggleGroupItem>
+      <ToggleGroupItem value="r" aria-label="R multiples" className="px-3">R</ToggleGroupItem>
+    </ToggleGroup>
+  );
+}
@@ -0,0 +1,241 @@
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Trade } from '@/types/trade';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { StatCard } from '@/components/dashboard/StatCard';
+import { getTradePL, isClosedTrade } from '@/utils/analytics';
+import {
+  REVENGE_BURST_TRADES,
+  REVENGE_SIZE_MULTIPLE,
+  REVENGE_WINDOW_MINUTES,
+  RevengeSignal,
+  Streak,
+  getAfterLossStats,
+  getRevengeTrades,
+  getStreakStats,
+} from '@/utils/streaks';
+import { usePnLBasis } from '@/hooks/usePnLBasis';
+import { useCurrency } from '@/hooks/useCurrency';
+import { cn } from '@/lib/utils';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { Flame, Repeat, TrendingDown, TrendingUp } from 'lucide-react';
+
+const MAX_FLAGGED = 10;
+
+const SIGNAL_LABELS: Record<RevengeSignal, string> = {
+  size: 'Sized up',
+  frequency: 'Burst',
+  emotion: 'Tagged revenge',
+};
+
+const describeStreak = (streak: Streak | null) => {
+  if (!streak) return '—';
+  const noun = streak.kind === 'win' ? (streak.length === 1 ? 'win' : 'wins') : (streak.length === 1 ? 'loss' : 'losses');
+  return `${streak.length} ${noun}`;
+};
+const plClass = (value: number) => value > 0 ? 'text-success' : value < 0 ? 'text-destructive' : undefined;
+
+export function StreakAnalytics({ trades }: { trades: Trade[] }) {
+  const pnlBasis = usePnLBasis();
+  const { format: formatCurrency } = useCurrency();
+  const streaks = getStreakStats(trades);
+  const afterLoss = getAfterLossStats(trades, pnlBasis);
+  const revenge = getRevengeTrades(trades, pnlBasis);
+
+  if (!streaks.longestWin && !streaks.longestLoss) return null;
+
+  return (
+    <div className="space-y-6 mt-12 animate-fade-in">
+      <div>
+        <h2 className="text-2xl font-display font-semibold">Streaks & Tilt</h2>
+        <p className="text-muted-foreground mt-1 text-sm">
+          Runs of wins and losses in the order trades closed, and how you trade once losses start piling up.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        <StatCard
+          title="Current Streak"
+          value={describeStreak(streaks.current)}
+          subtitle={streaks.current ? 'Since the last change' : 'Last trade broke even'}
+          icon={Repeat}
+          trend={streaks.current?.kind === 'win' ? 'up' : streaks.current?.kind === 'loss' ? 'down' : 'neutral'}
+        />
+        <StatCard
+          title="Longest Win Streak"
+          value={describeStreak(streaks.longestWin)}
+          icon={TrendingUp}
+          trend="up"
+        />
+        <StatCard
+          title="Longest Loss Streak"
+          value={describeStreak(streaks.longestLoss)}
+          icon={TrendingDown}
+          trend="down"
+        />
+        <StatCard
+          title="Revenge Trades"
+          value={String(revenge.flagged.length)}
+          subtitle={revenge.trades > 0
+            ? `${revenge.winRate.toFixed(0)}% win rate vs ${revenge.otherWinRate.toFixed(0)}% otherwise`
+            : 'None closed yet'}
+          icon={Flame}
+          trend={revenge.flagged.length === 0 ? 'up' : revenge.winRate < revenge.otherWinRate ? 'down' : 'neutral'}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+        <Card className="gradient-card">
+          <CardHeader>
+            <CardTitle className="font-display">Streak Lengths</CardTitle>
+            <CardDescription>How many runs of each length you've had</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="h-[260px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={streaks.distribution}>
+                  <XAxis
+                    dataKey="length"
+                    stroke="hsl(var(--muted-foreground))"
+                    fontSize={12}
+                    tickLine={false}
+                    axisLine={false}
+                  />
+                  <YAxis
+                    stroke="hsl(var(--muted-foreground))"
+                    fontSize={12}
+                    tickLine={false}
+                    axisLine={false}
+                    allowDecimals={false}
+                  />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: 'hsl(var(--card))',
+                      border: '1px solid hsl(var(--border))',
+                      borderRadius: '8px',
+                    }}
+                    labelFormatter={(label) => `${label} in a row`}
+                  />
+                  <Legend />
+                  <Bar dataKey="wins" name="Win streaks" fill="hsl(var(--chart-profit))" radius={[4, 4, 0, 0]} />
+                  <Bar dataKey="losses" name="Loss streaks" fill="hsl(var(--chart-loss))" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="gradient-card">
+          <CardHeader>
+            <CardTitle className="font-display">After Losses</CardTitle>
+            <CardDescription>The next trade you opened, by how many losses in a row came just before it</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Next trade</TableHead>
+                  <TableHead className="text-right">Trades</TableHead>
+                  <TableHead className="text-right">Win Rate</TableHead>
+                  <TableHead className="text-right">Expectancy</TableHead>
+                  <TableHead className="text-right">Avg Size</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {afterLoss.map(row => (
+                  <TableRow key={row.label} className={cn(row.trades === 0 && 'text-muted-foreground')}>
+                    <TableCell>{row.label}</TableCell>
+                    <TableCell className="text-right">{row.trades}</TableCell>
+                    <TableCell className="text-right">{row.trades > 0 ? `${row.winRate.toFixed(0)}%` : '—'}</TableCell>
+                    <TableCell className={cn('text-right', row.trades > 0 && plClass(row.expectancy))}>
+                      {row.trades > 0 ? formatCurrency(row.expectancy) : '—'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {row.trades > 0 ? (
+                        <>
+                          {row.averageLotSize.toFixed(2)}
+                          {Math.abs(row.sizeChangePct) >= 1 && (
+                            <span className={cn('ml-1 text-xs', row.sizeChangePct > 0 ? 'text-destructive' : 'text-muted-foreground')}>
+                              {row.sizeChangePct > 0 ? '+' : ''}{row.sizeChangePct.toFixed(0)}%
+                            </span>
+                          )}
+                        </>
+                      ) : '—'}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+
+      {revenge.flagged.length > 0 && (
+        <Card className="gradient-card">
+          <CardHeader>
+            <CardTitle className="font-display">Possible Revenge Trades</CardTitle>
+            <CardDescription>
+              Opened within {REVENGE_WINDOW_MINUTES} minutes of a loss at {REVENGE_SIZE_MULTIPLE}× its size or more, or as one of
+              {' '}{REVENGE_BURST_TRADES}+ trades in that window, or tagged with the Revenge emotion
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Trade</TableHead>
+                  <TableHead>Opened</TableHead>
+                  <TableHead>After Loss</TableHead>
+                  <TableHead>Signals</TableHead>
+                  <TableHead className="text-right">P&L</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {revenge.flagged.slice(0, MAX_FLAGGED).map(({ trade, afterLoss: loss, minutesAfterLoss, signals }) => {
+                  const pl = isClosedTrade(trade) ? getTradePL(trade, pnlBasis) : null;
+                  return (
+                    <TableRow key={trade.id}>
+                      <TableCell>
+                        <Link to={`/trades/${trade.id}`} className="font-medium text-primary hover:underline">
+                          {trade.symbol}
+                        </Link>
+                        <span className="ml-2 text-xs text-muted-foreground">{Number(trade.lot_size)} lots</span>
+                      </TableCell>
+                      <TableCell>{format(new Date(trade.entry_date), 'MMM d, HH:mm')}</TableCell>
+                      <TableCell>
+                        {loss ? (
+                          <Link to={`/trades/${loss.id}`} className="hover:underline">
+                            {loss.symbol} {Number(loss.lot_size)} lots · {minutesAfterLoss} min before
+                          </Link>
+                        ) : '—'}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {signals.map(signal => (
+                            <Badge key={signal} variant="outline" className="text-xs border-destructive/30 text-destructive">
+                              {SIGNAL_LABELS[signal]}
+                            </Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell className={cn('text-right', pl !== null && plClass(pl))}>
+                        {pl === null ? 'Open' : formatCurrency(pl)}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+            {revenge.flagged.length > MAX_FLAGGED && (
+              <p className="mt-3 text-xs text-muted-foreground">
+                Showing the latest {MAX_FLAGGED} of {revenge.flagged.length}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import { Link } from 'react-router-dom';
+import { Trade } from '@/types/trade';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { TagBadge } from '@/components/tags/TagBadge';
+import { getTagCoOccurrence, getTagPerformance } from '@/utils/analytics';
+import { usePnLBasis } from '@/hooks/usePnLBasis';
+import { useTags } from '@/hooks/useTags';
+import { useCurrency } from '@/hooks/useCurrency';
+import { cn } from '@/lib/utils';
+
+const MAX_PAIRS = 10;
+
+export function TagAnalytics({ trades }: { trades: Trade[] }) {
+  const pnlBasis = usePnLBasis();
+  const { tags } = useTags();
+  const tagData = getTagPerformance(trades, pnlBasis);
+  const pairData = getTagCoOccurrence(trades, pnlBasis).slice(0, MAX_PAIRS);
+  const { format: formatCurrency } = useCurrency();
+  const colorOf = (name: string) => tags.find(t => t.name === name)?.color;
+
+  if (tagData.length === 0) return null;
+
+  const plClass = (value: number) => value > 0 ? 'text-success' : value < 0 ? 'text-destructive' : undefined;
+
+  return (
+    <div className="space-y-6 mt-12 animate-fade-in">
+      <div>
+        <h2 className="text-2xl font-display font-semibold">Tags</h2>
+        <p className="text-muted-foreground mt-1 text-sm">
+          How trades perform under each tag, and which tags tend to appear together. <Link to="/settings/tags" className="text-primary hover:underline">Manage tags</Link>
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+        <Card className="gradient-card xl:col-span-2">
+          <CardHeader>
+            <CardTitle className="font-display">Tag Performance</CardTitle>
+            <CardDescription>Closed trades only; a trade counts toward every tag it carries</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Tag</TableHead>
+                  <TableHead className="text-right">Trades</TableHead>
+                  <TableHead className="text-right">Win Rate</TableHead>
+                  <TableHead className="text-right">Expectancy</TableHead>
+                  <TableHead className="text-right">P&L</TableHead>
+                  <TableHead className="text-right">Avg R</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {tagData.map(row => (
+                  <TableRow key={row.tag}>
+                    <TableCell><TagBadge name={row.tag} color={colorOf(row.tag)} /></TableCell>
+                    <TableCell className="text-right">{row.trades}</TableCell>
+                    <TableCell className="text-right">{row.winRate.toFixed(0)}%</TableCell>
+                    <TableCell className={cn('text-right', plClass(row.expectancy))}>{formatCurrency(row.expectancy)}</TableCell>
+                    <TableCell className={cn('text-right font-medium', plClass(row.totalPL))}>{formatCurrency(row.totalPL)}</TableCell>
+                    <TableCell className={cn('text-right', row.averageR !== null && plClass(row.averageR))}>
+                      {row.averageR !== null ? `${row.averageR.toFixed(2)}R` : '—'}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <Card className="gradient-card">
+          <CardHeader>
+            <CardTitle className="font-display">Tags Used Together</CardTitle>
+            <CardDescription>Most common tag pairs on the same trade</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {pairData.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No trades carry more than one tag yet.</p>
+            ) : (
+              <div className="space-y-3">
+                {pairData.map(pair => (
+                  <div key={pair.tags.join('\u0000')} className="flex items-center justify-between gap-3">
+                    <div className="flex flex-wrap items-center gap-1 min-w-0">
+                      <TagBadge name={pair.tags[0]} color={colorOf(pair.tags[0])} />
+                      <span className="text-xs text-muted-foreground">+</span>
+                      <TagBadge name={pair.tags[1]} color={colorOf(pair.tags[1])} />
+                    </div>
+                    <div className="text-right text-xs whitespace-nowrap">
+                      <p className={cn('font-semibold text-sm', plClass(pair.totalPL))}>{formatCurrency(pair.totalPL)}</p>
+                      <p className="text-muted-foreground">{pair.trades} trades · {pair.winRate.toFixed(0)}% win</p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Trade } from '@/types/trade';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { HeatmapCell, getHourPerformance, getSessionPerformance, getWeekdayHourHeatmap } from '@/utils/timeAnalysis';
+import { formatHour } from '@/utils/timezone';
+import { usePnLBasis } from '@/hooks/usePnLBasis';
+import { useTimeZone } from '@/hooks/useTimeZone';
+import { useCurrency } from '@/hooks/useCurrency';
+import { cn } from '@/lib/utils';
+import { BarChart, Bar, Cell, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
+
+type HeatmapMetric = 'pl' | 'winRate' | 'trades';
+
+const METRIC_LABELS: Record<HeatmapMetric, string> = {
+  pl: 'P&L',
+  winRate: 'Win rate',
+  trades: 'Trades',
+};
+
+const plClass = (value: number) => value > 0 ? 'text-success' : value < 0 ? 'text-destructive' : undefined;
+
+function cellColor(cell: HeatmapCell, metric: HeatmapMetric, maxPL: number, maxTrades: number): string | undefined {
+  if (cell.trades === 0) return undefined;
+  if (metric === 'trades') return `hsl(var(--primary) / ${0.15 + (cell.trades / maxTrades) * 0.75})`;
+  if (metric === 'winRate') {
+    const strength = Math.abs(cell.winRate - 50) / 50;
+    return `hsl(var(${cell.winRate >= 50 ? '--chart-profit' : '--chart-loss'}) / ${0.15 + strength * 0.75})`;
+  }
+  if (cell.totalPL === 0 || maxPL === 0) return 'hsl(var(--muted-foreground) / 0.2)';
+  return `hsl(var(${cell.totalPL > 0 ? '--chart-profit' : '--chart-loss'}) / ${0.15 + (Math.abs(cell.totalPL) / maxPL) * 0.75})`;
+}
+
+export function TimeAnalytics({ trades }: { trades: Trade[] }) {
+  const [metric, setMetric] = useState<HeatmapMetric>('pl');
+  const pnlBasis = usePnLBasis();
+  const timeZone = useTimeZone();
+  const { format: formatCurrency } = useCurrency();
+  const sessions = getSessionPerformance(trades, pnlBasis);
+  const hours = getHourPerformance(trades, timeZone, pnlBasis);
+  const heatmap = getWeekdayHourHeatmap(trades, timeZone, pnlBasis);
+
+  if (sessions.length === 0) return null;
+
+  const cells = heatmap.flat();
+  const maxPL = Math.max(...cells.map(c => Math.abs(c.totalPL)));
+  const maxTrades = Math.max(...cells.map(c => c.trades));
+  const describeCell = (cell: HeatmapCell) => cell.trades === 0
+    ? `${cell.label}: no trades`
+    : `${cell.label}: ${cell.trades} ${cell.trades === 1 ? 'trade' : 'trades'} · ${cell.winRate.toFixed(0)}% win rate · ${formatCurrency(cell.totalPL)}`;
+
+  return (
+    <div className="space-y-6 mt-12 animate-fade-in">
+      <div>
+        <h2 className="text-2xl font-display font-semibold">Time of Day</h2>
+        <p className="text-muted-foreground mt-1 text-sm">
+          Closed trades by when they were entered. Hours are in {timeZone.replace(/_/g, ' ')}; <Link to="/profile" className="text-primary hover:underline">change time zone</Link>.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+        <Card className="gradient-card">
+          <CardHeader>
+            <CardTitle className="font-display">Sessions</CardTitle>
+            <CardDescription>Market hours follow each centre's daylight saving; overlaps get their own row</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Session</TableHead>
+                  <TableHead className="text-right">Trades</TableHead>
+                  <TableHead className="text-right">Win Rate</TableHead>
+                  <TableHead className="text-right">Expectancy</TableHead>
+                  <TableHead className="text-right">P&L</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sessions.map(row => (
+                  <TableRow key={row.key}>
+                    <TableCell className="font-medium">{row.label}</TableCell>
+                    <TableCell className="text-right">{row.trades}</TableCell>
+                    <TableCell className="text-right">{row.winRate.toFixed(0)}%</TableCell>
+                    <TableCell className={cn('text-right', plClass(row.expectancy))}>{formatCurrency(row.expectancy)}</TableCell>
+                    <TableCell className={cn('text-right font-medium', plClass(row.totalPL))}>{formatCurrency(row.totalPL)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <Card className="gradient-card">
+          <CardHeader>
+            <CardTitle className="font-display">Hour of Entry</CardTitle>
+            <CardDescription>P&L by the hour trades were opened</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="h-[300px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={hours}>
+                  <XAxis
+                    dataKey="label"
+                    stroke="hsl(var(--muted-foreground))"
+                    fontSize={12}
+                    tickLine={false}
+                    axisLine={false}
+                    interval={2}
+                  />
+                  <YAxis
+                    stroke="hsl(var(--muted-foreground))"
+                    fontSize={12}
+                    tickLine={false}
+                    axisLine={false}
+                    tickFormatter={(value) => formatCurrency(value, { digits: 0 })}
+                  />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: 'hsl(var(--card))',
+                      border: '1px solid hsl(var(--border))',
+                      borderRadius: '8px',
+                    }}
+                    formatter={(value: number, _name, item) => [
+                      `${formatCurrency(value)} · ${item.payload.trades} trades · ${item.payload.winRate.toFixed(0)}% win rate`,
+                      'P&L',
+                    ]}
+                  />
+                  <Bar dataKey="totalPL" radius={[4, 4, 0, 0]}>
+                    {hours.map(hour => (
+                      <Cell key={hour.key} fill={hour.totalPL >= 0 ? 'hsl(var(--chart-profit))' : 'hsl(var(--chart-loss))'} />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="gradient-card">
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle className="font-display">Day × Hour</CardTitle>
+            <CardDescription>Hover a cell for its trades, win rate and P&L</CardDescription>
+          </div>
+          <Tabs value={metric} onValueChange={(v) => setMetric(v as HeatmapMetric)}>
+            <TabsList className="h-8">
+              {(Object.keys(METRIC_LABELS) as HeatmapMetric[]).map(key => (
+                <TabsTrigger key={key} value={key} className="text-xs px-2">
+                  {METRIC_LABELS[key]}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+        </CardHeader>
+        <CardContent className="overflow-x-auto">
+          <div className="grid min-w-[640px] gap-1" style={{ gridTemplateColumns: '2.5rem repeat(24, minmax(0, 1fr))' }}>
+            <div />
+            {Array.from({ length: 24 }, (_, hour) => (
+              <div key={hour} className="text-[10px] text-muted-foreground text-center">
+                {hour % 3 === 0 ? formatHour(hour).slice(0, 2) : ''}
+              </div>
+            ))}
+            {heatmap.map(row => [
+              <div key={`label-${row[0].weekday}`} className="text-xs text-muted-foreground flex items-center">
+                {row[0].label.split(' ')[0]}
+              </div>,
+              ...row.map(cell => (
+                <div
+                  key={cell.key}
+                  title={describeCell(cell)}
+                  className={cn('h-7 rounded-sm', cell.trades === 0 && 'bg-muted/30')}
+                  style={{ backgroundColor: cellColor(cell, metric, maxPL, maxTrades) }}
+                />
+              )),
+            ])}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
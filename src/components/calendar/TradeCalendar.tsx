@@ -1,7 +1,14 @@
 import { useState, useMemo } from 'react';
-import { Trade } from '@/types/trade';
+import { Link } from 'react-router-dom';
+import { JournalEntry, Trade } from '@/types/trade';
+import { formatR, getRMultiple, getTradePL, isOpenTrade } from '@/utils/analytics';
+import { getTradeDayKey, MARKET_BIAS_LABELS, RATING_FIELDS } from '@/utils/journal';
+import { MarkdownView } from '@/components/journal/MarkdownView';
+import { usePnLBasis } from '@/hooks/usePnLBasis';
+import { useResultUnit } from '@/hooks/useResultUnit';
+import { useCurrency } from '@/hooks/useCurrency';
 import { Button } from '@/components/ui/button';
-import { ChevronLeft, ChevronRight, CalendarIcon, ArrowLeftRight, ArrowUpRight, ArrowDownRight } from 'lucide-react';
+import { ChevronLeft, ChevronRight, CalendarIcon, ArrowLeftRight, ArrowUpRight, ArrowDownRight, NotebookPen, AlertTriangle } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import {
   Dialog,
@@ -25,6 +32,8 @@ import {
 
 interface TradeCalendarProps {
   trades: Trade[];
+  journalEntries?: JournalEntry[];
+  breaches?: Record<string, string[]>; // Behavioural goals broken on each day
 }
 
 interface DayData {
@@ -33,24 +42,35 @@ interface DayData {
   trades: Trade[];
 }
 
-export function TradeCalendar({ trades }: TradeCalendarProps) {
+export function TradeCalendar({ trades, journalEntries = [], breaches = {} }: TradeCalendarProps) {
   const [currentDate, setCurrentDate] = useState(new Date());
-  const [selectedDay, setSelectedDay] = useState<{ date: string; data: DayData } | null>(null);
+  const [selectedDay, setSelectedDay] = useState<{ date: string; data?: DayData } | null>(null);
+  const pnlBasis = usePnLBasis();
+  const { unit } = useResultUnit();
+  const { format: formatCurrency, formatTrade } = useCurrency();
+  const inR = unit === 'r';
+
+  // In R mode a trade without a known risk shows no result and adds nothing to its day
+  const getResult = (trade: Trade) => (inR ? getRMultiple(trade, pnlBasis) : getTradePL(trade, pnlBasis));
 
   // Aggregate trades by day
   const dayMap = useMemo(() => {
     const map: Record<string, DayData> = {};
-    trades.forEach(trade => {
-      const dateStr = trade.exit_date
-        ? format(new Date(trade.exit_date), 'yyyy-MM-dd')
-        : format(new Date(trade.entry_date), 'yyyy-MM-dd');
+    trades.filter(trade => !isOpenTrade(trade)).forEach(trade => {
+      const dateStr = getTradeDayKey(trade);
       if (!map[dateStr]) map[dateStr] = { pnl: 0, count: 0, trades: [] };
-      map[dateStr].pnl += trade.profit_loss || 0;
+      map[dateStr].pnl += (inR ? getRMultiple(trade, pnlBasis) : getTradePL(trade, pnlBasis)) ?? 0;
       map[dateStr].count += 1;
       map[dateStr].trades.push(trade);
     });
     return map;
-  }, [trades]);
+  }, [trades, pnlBasis, inR]);
+
+  const journalMap = useMemo(
+    () => Object.fromEntries(journalEntries.map(entry => [entry.entry_date, entry])),
+    [journalEntries]
+  );
+  const selectedEntry = selectedDay ? journalMap[selectedDay.date] as JournalEntry | undefined : undefined;
 
   // Monthly summary
   const monthlySummary = useMemo(() => {
@@ -75,13 +95,13 @@ export function TradeCalendar({ trades }: TradeCalendarProps) {
   const weekDays = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
 
   const formatPnl = (value: number) => {
-    const abs = Math.abs(value).toFixed(0);
-    return value >= 0 ? `$${abs}` : `-$${abs}`;
+    if (inR) return formatR(value, 1);
+    return formatCurrency(value, { digits: 0 });
   };
 
   const formatPnlDetailed = (value: number) => {
-    const abs = Math.abs(value).toFixed(2);
-    return value >= 0 ? `$${abs}` : `-$${abs}`;
+    if (inR) return formatR(value);
+    return formatCurrency(value);
   };
 
   return (
@@ -122,6 +142,8 @@ export function TradeCalendar({ trades }: TradeCalendarProps) {
           {days.map(day => {
             const key = format(day, 'yyyy-MM-dd');
             const data = dayMap[key];
+            const hasJournal = !!journalMap[key];
+            const dayBreaches = breaches[key];
             const inMonth = isSameMonth(day, currentDate);
             const today = isToday(day);
             const isProfit = data && data.pnl > 0;
@@ -131,7 +153,7 @@ export function TradeCalendar({ trades }: TradeCalendarProps) {
             return (
               <div
                 key={key}
-                onClick={() => inMonth && data && setSelectedDay({ date: key, data })}
+                onClick={() => inMonth && setSelectedDay({ date: key, data })}
                 className={cn(
                   'min-h-[100px] border border-border/30 p-2 flex flex-col items-center transition-colors rounded-lg m-0.5',
                   !inMonth && 'opacity-30',
@@ -139,15 +161,17 @@ export function TradeCalendar({ trades }: TradeCalendarProps) {
                   isLoss && 'bg-red-100 dark:bg-red-900/40',
                   isBreakeven && 'bg-muted/50',
                   today && 'ring-2 ring-primary ring-inset',
-                  inMonth && data && 'cursor-pointer hover:opacity-80',
+                  inMonth && 'cursor-pointer hover:opacity-80',
                 )}
               >
                 <div className={cn(
-                  'text-base font-bold',
+                  'text-base font-bold flex items-center gap-1',
                   today ? 'text-foreground' : 'text-muted-foreground',
                   data && inMonth && 'text-foreground',
                 )}>
                   {format(day, 'd')}
+                  {inMonth && hasJournal && <NotebookPen className="w-3 h-3 text-primary" />}
+                  {inMonth && dayBreaches && <AlertTriangle className="w-3 h-3 text-destructive" />}
                 </div>
                 {inMonth && data && (
                   <div className="mt-auto flex flex-col items-center gap-0.5">
@@ -179,22 +203,68 @@ export function TradeCalendar({ trades }: TradeCalendarProps) {
               <DialogHeader>
                 <DialogTitle className="flex items-center justify-between">
                   <span>{format(new Date(selectedDay.date + 'T00:00:00'), 'EEEE, MMM d, yyyy')}</span>
-                  <span className={cn(
-                    'text-base font-bold',
-                    selectedDay.data.pnl >= 0 ? 'text-success' : 'text-destructive',
-                  )}>
-                    {formatPnlDetailed(selectedDay.data.pnl)}
-                  </span>
+                  {selectedDay.data && (
+                    <span className={cn(
+                      'text-base font-bold',
+                      selectedDay.data.pnl >= 0 ? 'text-success' : 'text-destructive',
+                    )}>
+                      {formatPnlDetailed(selectedDay.data.pnl)}
+                    </span>
+                  )}
                 </DialogTitle>
               </DialogHeader>
+              {breaches[selectedDay.date] && (
+                <div className="rounded-lg border border-destructive/30 bg-destructive/5 p-3 space-y-1">
+                  <span className="text-sm font-semibold flex items-center gap-1.5 text-destructive">
+                    <AlertTriangle className="w-4 h-4" /> Goal breached
+                  </span>
+                  {breaches[selectedDay.date].map((note, i) => (
+                    <p key={i} className="text-xs text-muted-foreground">{note}</p>
+                  ))}
+                </div>
+              )}
+              <div className="rounded-lg border border-dashed p-3 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-semibold flex items-center gap-1.5">
+                    <NotebookPen className="w-4 h-4" /> Journal
+                  </span>
+                  <Button variant="link" size="sm" asChild className="h-auto p-0">
+                    <Link to={`/journal?date=${selectedDay.date}`}>{selectedEntry ? 'Open' : 'Write entry'}</Link>
+                  </Button>
+                </div>
+                {selectedEntry ? (
+                  <>
+                    <div className="flex flex-wrap gap-1">
+                      {selectedEntry.market_bias && (
+                        <Badge variant="outline" className="text-xs">{MARKET_BIAS_LABELS[selectedEntry.market_bias]}</Badge>
+                      )}
+                      {RATING_FIELDS.filter(rating => selectedEntry[rating.key] !== null).map(rating => (
+                        <Badge key={rating.key} variant="secondary" className="text-xs">
+                          {rating.label} {selectedEntry[rating.key]}/5
+                        </Badge>
+                      ))}
+                    </div>
+                    {(selectedEntry.reflection || selectedEntry.premarket_plan) && (
+                      <MarkdownView
+                        source={(selectedEntry.reflection || selectedEntry.premarket_plan)!}
+                        className="max-h-32 overflow-hidden text-muted-foreground"
+                      />
+                    )}
+                  </>
+                ) : (
+                  <p className="text-xs text-muted-foreground">No journal entry for this day.</p>
+                )}
+              </div>
               <div className="space-y-3 mt-2">
-                {selectedDay.data.trades.map(trade => (
+                {(selectedDay.data?.trades ?? []).map(trade => {
+                  const pl = getResult(trade);
+                  return (
                   <div
                     key={trade.id}
                     className={cn(
                       'rounded-lg border p-3 flex items-center gap-3',
-                      trade.profit_loss && trade.profit_loss > 0 && 'border-success/30 bg-success/5',
-                      trade.profit_loss && trade.profit_loss < 0 && 'border-destructive/30 bg-destructive/5',
+                      pl !== null && pl > 0 && 'border-success/30 bg-success/5',
+                      pl !== null && pl < 0 && 'border-destructive/30 bg-destructive/5',
                     )}
                   >
                     <div className={cn(
@@ -223,12 +293,13 @@ export function TradeCalendar({ trades }: TradeCalendarProps) {
                     </div>
                     <div className={cn(
                       'text-sm font-bold whitespace-nowrap',
-                      (trade.profit_loss ?? 0) >= 0 ? 'text-success' : 'text-destructive',
+                      pl === null ? 'text-muted-foreground' : pl >= 0 ? 'text-success' : 'text-destructive',
                     )}>
-                      {formatPnlDetailed(trade.profit_loss ?? 0)}
+                      {pl === null ? '—' : inR ? formatR(pl) : formatTrade(trade, pl)}
                     </div>
                   </div>
-                ))}
+                  );
+                })}
               </div>
             </>
           )}
@@ -0,0 +1,346 @@
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { PropChallenge, PropChallengeFormData } from '@/types/trade';
+import { useAccounts, ALL_ACCOUNTS } from '@/hooks/useAccounts';
+import { CHALLENGE_TEMPLATES, DRAWDOWN_TYPE_LABELS } from '@/utils/propFirm';
+import { toDayKey } from '@/utils/journal';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Loader2 } from 'lucide-react';
+
+const CUSTOM_TEMPLATE = 'custom';
+
+const optionalPct = z.coerce.number().positive('Must be greater than zero').max(100, 'Cannot exceed 100%').optional().or(z.literal(''));
+
+const challengeSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100, 'Name too long'),
+  account_id: z.string().min(1, 'Pick the account the challenge runs on'),
+  template: z.string(),
+  account_size: z.coerce.number().positive('Account size must be positive'),
+  profit_target_pct: z.coerce.number().positive('Must be greater than zero').optional().or(z.literal('')),
+  max_daily_drawdown_pct: optionalPct,
+  max_overall_drawdown_pct: optionalPct,
+  drawdown_type: z.enum(['static', 'trailing']),
+  min_trading_days: z.coerce.number().int('Whole days only').positive('Must be greater than zero').optional().or(z.literal('')),
+  consistency_pct: optionalPct,
+  starts_on: z.string().min(1, 'Start date is required'),
+  ends_on: z.string().optional(),
+}).refine(
+  data => !data.ends_on || data.ends_on >= data.starts_on,
+  { message: 'End date must be after the start', path: ['ends_on'] }
+);
+
+type ChallengeFormValues = z.infer<typeof challengeSchema>;
+
+const RULE_FIELDS = [
+  { name: 'profit_target_pct', label: 'Profit target (%)', step: '0.1' },
+  { name: 'max_daily_drawdown_pct', label: 'Max daily drawdown (%)', step: '0.1' },
+  { name: 'max_overall_drawdown_pct', label: 'Max overall drawdown (%)', step: '0.1' },
+  { name: 'min_trading_days', label: 'Min trading days', step: '1' },
+  { name: 'consistency_pct', label: 'Best day max share (%)', step: '1' },
+] as const;
+
+interface ChallengeDialogProps {
+  open: boolean;
+  challenge?: PropChallenge | null;
+  onOpenChange: (open: boolean) => void;
+  onSave: (data: PropChallengeFormData) => Promise<{ error: Error | null }>;
+}
+
+export function ChallengeDialog({ open, challenge, onOpenChange, onSave }: ChallengeDialogProps) {
+  const { accounts, selectedAccountId } = useAccounts();
+  const [saving, setSaving] = useState(false);
+
+  const form = useForm<ChallengeFormValues>({
+    resolver: zodResolver(challengeSchema),
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    if (challenge) {
+      form.reset({
+        name: challenge.name,
+        account_id: challenge.account_id,
+        template: challenge.template ?? CUSTOM_TEMPLATE,
+        account_size: Number(challenge.account_size),
+        profit_target_pct: challenge.profit_target_pct ?? '',
+        max_daily_drawdown_pct: challenge.max_daily_drawdown_pct ?? '',
+        max_overall_drawdown_pct: challenge.max_overall_drawdown_pct ?? '',
+        drawdown_type: challenge.drawdown_type,
+        min_trading_days: challenge.min_trading_days ?? '',
+        consistency_pct: challenge.consistency_pct ?? '',
+        starts_on: challenge.starts_on,
+        ends_on: challenge.ends_on ?? '',
+      });
+      return;
+    }
+    const account = accounts.find(a => a.id === selectedAccountId)
+      ?? (selectedAccountId === ALL_ACCOUNTS ? accounts.find(a => a.account_type === 'prop') : undefined);
+    const template = CHALLENGE_TEMPLATES[0];
+    form.reset({
+      name: '',
+      account_id: account?.id ?? '',
+      template: template.id,
+      account_size: Number(account?.starting_balance) || 100000,
+      profit_target_pct: template.profit_target_pct ?? '',
+      max_daily_drawdown_pct: template.max_daily_drawdown_pct ?? '',
+      max_overall_drawdown_pct: template.max_overall_drawdown_pct ?? '',
+      drawdown_type: template.drawdown_type,
+      min_trading_days: template.min_trading_days ?? '',
+      consistency_pct: template.consistency_pct ?? '',
+      starts_on: toDayKey(new Date()),
+      ends_on: '',
+    });
+  }, [open, challenge, accounts, selectedAccountId, form]);
+
+  const applyTemplate = (id: string) => {
+    form.setValue('template', id);
+    const template = CHALLENGE_TEMPLATES.find(t => t.id === id);
+    if (!template) return;
+    form.setValue('profit_target_pct', template.profit_target_pct ?? '');
+    form.setValue('max_daily_drawdown_pct', template.max_daily_drawdown_pct ?? '');
+    form.setValue('max_overall_drawdown_pct', template.max_overall_drawdown_pct ?? '');
+    form.setValue('drawdown_type', template.drawdown_type);
+    form.setValue('min_trading_days', template.min_trading_days ?? '');
+    form.setValue('consistency_pct', template.consistency_pct ?? '');
+  };
+
+  const onSubmit = async (data: ChallengeFormValues) => {
+    const toRule = (value: number | '' | undefined) => (value === '' || value === undefined ? null : Number(value));
+    setSaving(true);
+    const { error } = await onSave({
+      name: data.name,
+      account_id: data.account_id,
+      template: data.template !== CUSTOM_TEMPLATE ? data.template : null,
+      account_size: data.account_size,
+      profit_target_pct: toRule(data.profit_target_pct),
+      max_daily_drawdown_pct: toRule(data.max_daily_drawdown_pct),
+      max_overall_drawdown_pct: toRule(data.max_overall_drawdown_pct),
+      drawdown_type: data.drawdown_type,
+      min_trading_days: toRule(data.min_trading_days),
+      consistency_pct: toRule(data.consistency_pct),
+      starts_on: data.starts_on,
+      ends_on: data.ends_on || null,
+    });
+    setSaving(false);
+    if (!error) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{challenge ? 'Edit Challenge' : 'New Challenge'}</DialogTitle>
+          <DialogDescription>
+            Copy the rules from your prop firm; every trade on the account is measured against them
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. 100k Challenge, attempt 2" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="account_id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Account</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select account" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {accounts.map(account => (
+                          <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="template"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Template</FormLabel>
+                    <Select value={field.value} onValueChange={applyTemplate}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {CHALLENGE_TEMPLATES.map(template => (
+                          <SelectItem key={template.id} value={template.id}>{template.label}</SelectItem>
+                        ))}
+                        <SelectItem value={CUSTOM_TEMPLATE}>Custom</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>Fills in the rules below</FormDescription>
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="account_size"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Account size ($)</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="1000" min="0" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+              {RULE_FIELDS.map(rule => (
+                <FormField
+                  key={rule.name}
+                  control={form.control}
+                  name={rule.name}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{rule.label}</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min="0"
+                          step={rule.step}
+                          placeholder="Off"
+                          {...field}
+                          onChange={e => {
+                            field.onChange(e);
+                            form.setValue('template', CUSTOM_TEMPLATE);
+                          }}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+
+              <FormField
+                control={form.control}
+                name="drawdown_type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Drawdown type</FormLabel>
+                    <Select
+                      value={field.value}
+                      onValueChange={value => {
+                        field.onChange(value);
+                        form.setValue('template', CUSTOM_TEMPLATE);
+                      }}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {Object.entries(DRAWDOWN_TYPE_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="starts_on"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Starts</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="ends_on"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Ends</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormDescription>Leave empty if there is no time limit</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                {challenge ? 'Save Changes' : 'Create Challenge'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,57 @@
+import { ChallengeRuleResult, ChallengeRuleState } from '@/utils/propFirm';
+import { Progress } from '@/components/ui/progress';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+
+const STATE_BADGES: Record<ChallengeRuleState, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  ok: { label: 'On track', variant: 'outline' },
+  warning: { label: 'Careful', variant: 'secondary' },
+  violated: { label: 'Broken', variant: 'destructive' },
+  met: { label: 'Met', variant: 'default' },
+};
+
+interface ChallengeRulesProps {
+  rules: ChallengeRuleResult[];
+  compact?: boolean;
+}
+
+export function ChallengeRules({ rules, compact = false }: ChallengeRulesProps) {
+  if (rules.length === 0) {
+    return <p className="text-sm text-muted-foreground">This challenge has no rules set.</p>;
+  }
+
+  return (
+    <div className={cn(compact ? 'space-y-3' : 'space-y-5')}>
+      {rules.map(rule => (
+        <div key={rule.key} className="space-y-1.5">
+          <div className="flex items-center justify-between gap-2 text-sm">
+            <span className="font-medium">{rule.label}</span>
+            <Badge variant={STATE_BADGES[rule.state].variant} className="text-xs">
+              {STATE_BADGES[rule.state].label}
+            </Badge>
+          </div>
+          <Progress
+            value={rule.progress}
+            className={cn(
+              'h-1.5',
+              rule.state === 'met' && '[&>div]:bg-success',
+              rule.state === 'warning' && '[&>div]:bg-warning',
+              rule.state === 'violated' && '[&>div]:bg-destructive',
+            )}
+          />
+          {!compact && (
+            <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+              <span>{rule.value} · limit {rule.limit}</span>
+              {rule.room && (
+                <span className={cn(rule.state === 'violated' && 'text-destructive', rule.state === 'warning' && 'text-warning')}>
+                  {rule.room}
+                </span>
+              )}
+            </div>
+          )}
+          {compact && rule.room && <p className="text-xs text-muted-foreground">{rule.room}</p>}
+        </div>
+      ))}
+    </div>
+  );
+}
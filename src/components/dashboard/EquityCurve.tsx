@@ -1,14 +1,32 @@
+import { useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
-import { getEquityCurve } from '@/utils/analytics';
-import { Trade } from '@/types/trade';
+import { AccountLedger, TradePoint, getDrawdowns, getEquityCurve } from '@/utils/analytics';
+import { useCurrency } from '@/hooks/useCurrency';
+import { UnderwaterChart } from './UnderwaterChart';
 
 interface EquityCurveProps {
-  trades: Trade[];
+  points: TradePoint[]; // From getTradePoints or useTradeStats
+  ledger?: AccountLedger;
 }
 
-export function EquityCurve({ trades }: EquityCurveProps) {
-  const data = getEquityCurve(trades);
+type CurveView = 'balance' | 'equity' | 'returnPct';
+
+const VIEW_LABELS: Record<CurveView, string> = {
+  balance: 'Balance',
+  equity: 'P&L',
+  returnPct: 'Return',
+};
+
+export function EquityCurve({ points, ledger }: EquityCurveProps) {
+  const [view, setView] = useState<CurveView>(ledger ? 'balance' : 'equity');
+  const { format: formatCurrency } = useCurrency();
+  const data = getEquityCurve(points, ledger);
+  const drawdowns = getDrawdowns(points, ledger);
+  const activeView: CurveView = ledger ? view : 'equity';
+  const formatValue = (value: number) =>
+    activeView === 'returnPct' ? `${value.toFixed(2)}%` : formatCurrency(value);
 
   if (data.length === 0) {
     return (
@@ -27,10 +45,21 @@ export function EquityCurve({ trades }: EquityCurveProps) {
 
   return (
     <Card className="gradient-card">
-      <CardHeader>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
         <CardTitle className="font-display">Equity Curve</CardTitle>
+        {ledger && (
+          <Tabs value={view} onValueChange={(v) => setView(v as CurveView)}>
+            <TabsList className="h-8">
+              {(Object.keys(VIEW_LABELS) as CurveView[]).map(key => (
+                <TabsTrigger key={key} value={key} className="text-xs px-2">
+                  {VIEW_LABELS[key]}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+        )}
       </CardHeader>
-      <CardContent>
+      <CardContent className="space-y-4">
         <div className="h-[300px]">
           <ResponsiveContainer width="100%" height="100%">
             <LineChart data={data}>
@@ -46,7 +75,7 @@ export function EquityCurve({ trades }: EquityCurveProps) {
                 fontSize={12}
                 tickLine={false}
                 axisLine={false}
-                tickFormatter={(value) => `$${value}`}
+                tickFormatter={(value) => activeView === 'returnPct' ? `${value}%` : formatCurrency(value, { digits: 0 })}
               />
               <Tooltip
                 contentStyle={{
@@ -55,11 +84,11 @@ export function EquityCurve({ trades }: EquityCurveProps) {
                   borderRadius: '8px',
                 }}
                 labelStyle={{ color: 'hsl(var(--foreground))' }}
-                formatter={(value: number) => [`$${value.toFixed(2)}`, 'Equity']}
+                formatter={(value: number) => [formatValue(value), activeView === 'equity' ? 'Equity' : VIEW_LABELS[activeView]]}
               />
               <Line
                 type="monotone"
-                dataKey="equity"
+                dataKey={activeView}
                 stroke="hsl(var(--primary))"
                 strokeWidth={2}
                 dot={false}
@@ -67,6 +96,9 @@ export function EquityCurve({ trades }: EquityCurveProps) {
             </LineChart>
           </ResponsiveContainer>
         </div>
+        {drawdowns.maxDrawdown > 0 && (
+          <UnderwaterChart data={drawdowns.underwater} percent={activeView === 'returnPct'} />
+        )}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,100 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { CloseTradeDialog } from '@/components/trades/CloseTradeDialog';
+import { Trade, TradeFormData } from '@/types/trade';
+import { getOpenExposure, isOpenTrade } from '@/utils/analytics';
+import { cn } from '@/lib/utils';
+import { Activity } from 'lucide-react';
+import { useCurrency } from '@/hooks/useCurrency';
+
+interface OpenPositionsProps {
+  trades: Trade[];
+  onCloseTrade: (id: string, data: Partial<TradeFormData>) => Promise<{ error: Error | null }>;
+}
+
+export function OpenPositions({ trades, onCloseTrade }: OpenPositionsProps) {
+  const [closingTrade, setClosingTrade] = useState<Trade | null>(null);
+  const openTrades = trades.filter(isOpenTrade);
+  const exposure = getOpenExposure(trades);
+
+  const { format: formatCurrency } = useCurrency();
+
+  if (openTrades.length === 0) return null;
+
+  return (
+    <Card className="gradient-card">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="font-display flex items-center gap-2">
+          <Activity className="w-5 h-5 text-primary" />
+          Open Positions
+        </CardTitle>
+        <Badge variant="outline">{exposure.positions} open</Badge>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-3 gap-3 text-sm">
+          <div className="p-3 rounded-lg bg-secondary/30">
+            <p className="text-xs text-muted-foreground">Total Lots</p>
+            <p className="font-semibold">{exposure.totalLots.toFixed(2)}</p>
+          </div>
+          <div className="p-3 rounded-lg bg-secondary/30">
+            <p className="text-xs text-muted-foreground">Capital at Risk</p>
+            <p className="font-semibold">{formatCurrency(exposure.totalRisk)}</p>
+          </div>
+          <div className="p-3 rounded-lg bg-secondary/30">
+            <p className="text-xs text-muted-foreground">Floating P&L</p>
+            <p className={cn(
+              'font-semibold',
+              exposure.floatingPL > 0 && 'text-success',
+              exposure.floatingPL < 0 && 'text-destructive',
+            )}>
+              {formatCurrency(exposure.floatingPL)}
+            </p>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          {openTrades.map(trade => (
+            <div key={trade.id} className="flex items-center justify-between p-3 rounded-lg bg-secondary/30">
+              <Link to={`/trades/${trade.id}`} className="space-y-1 hover:text-primary">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{trade.symbol}</span>
+                  <Badge variant="outline" className="text-xs capitalize">{trade.direction}</Badge>
+                  <span className="text-xs text-muted-foreground">{trade.lot_size} lots @ {trade.entry_price}</span>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Opened {formatDistanceToNow(new Date(trade.entry_date), { addSuffix: true })}
+                  {trade.stop_loss ? ` · SL ${trade.stop_loss}` : ''}
+                  {trade.take_profit ? ` · TP ${trade.take_profit}` : ''}
+                </p>
+              </Link>
+              <div className="flex items-center gap-3">
+                {trade.floating_pl !== null && (
+                  <span className={cn(
+                    'font-mono text-sm',
+                    trade.floating_pl > 0 && 'text-success',
+                    trade.floating_pl < 0 && 'text-destructive',
+                  )}>
+                    {formatCurrency(trade.floating_pl)}
+                  </span>
+                )}
+                <Button size="sm" variant="outline" onClick={() => setClosingTrade(trade)}>
+                  Close
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+
+      <CloseTradeDialog
+        trade={closingTrade}
+        onOpenChange={(open) => !open && setClosingTrade(null)}
+        onClose={onCloseTrade}
+      />
+    </Card>
+  );
+}
@@ -1,5 +1,6 @@
-import { Trade } from '@/types/trade';
-import { TradeStats, StrategyStats, getExitReasonStats } from '@/utils/analytics';
+import { TradeStats, StrategyStats, ExitReasonStats, formatR } from '@/utils/analytics';
+import { useResultUnit } from '@/hooks/useResultUnit';
+import { useCurrency } from '@/hooks/useCurrency';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
@@ -12,21 +13,18 @@ import {
 } from 'lucide-react';
 
 interface PerformanceSummaryProps {
-  trades: Trade[];
   stats: TradeStats;
   strategyStats: StrategyStats[];
+  exitReasonStats: ExitReasonStats[];
 }
 
-export function PerformanceSummary({ trades, stats, strategyStats }: PerformanceSummaryProps) {
-  const exitReasonStats = getExitReasonStats(trades);
+export function PerformanceSummary({ stats, strategyStats, exitReasonStats }: PerformanceSummaryProps) {
+  const { unit } = useResultUnit();
   const topStrategies = strategyStats.slice(0, 3);
 
-  const formatCurrency = (value: number) => {
-    const formatted = Math.abs(value).toFixed(2);
-    return value >= 0 ? `$${formatted}` : `-$${formatted}`;
-  };
+  const { format: formatCurrency } = useCurrency();
 
-  if (trades.length === 0) {
+  if (stats.totalTrades === 0) {
     return (
       <Card className="glass-card">
         <CardContent className="flex flex-col items-center justify-center py-12 text-center">
@@ -65,16 +63,24 @@ export function PerformanceSummary({ trades, stats, strategyStats }: Performance
                     <Badge variant="outline" className="text-xs">#{index + 1}</Badge>
                     <span className="font-medium">{strat.strategy}</span>
                   </div>
-                  <span className={`font-semibold ${strat.totalPL >= 0 ? 'text-chart-profit' : 'text-chart-loss'}`}>
-                    {formatCurrency(strat.totalPL)}
-                  </span>
+                  {unit === 'r' ? (
+                    <span className={`font-semibold ${strat.totalR >= 0 ? 'text-chart-profit' : 'text-chart-loss'}`}>
+                      {formatR(strat.totalR)}
+                    </span>
+                  ) : (
+                    <span className={`font-semibold ${strat.totalPL >= 0 ? 'text-chart-profit' : 'text-chart-loss'}`}>
+                      {formatCurrency(strat.totalPL)}
+                    </span>
+                  )}
                 </div>
                 <div className="flex items-center gap-4 text-sm text-muted-foreground">
                   <span>{strat.trades} trades</span>
                   <span className={strat.winRate >= 50 ? 'text-chart-profit' : 'text-chart-loss'}>
                     {strat.winRate.toFixed(0)}% win rate
                   </span>
-                  {strat.averageRR > 0 && (
+                  {unit === 'r' ? (
+                    strat.averageR !== null && <span>Avg {formatR(strat.averageR)}</span>
+                  ) : strat.averageRR > 0 && (
                     <span>R:R {strat.averageRR.toFixed(1)}</span>
                   )}
                 </div>
@@ -2,9 +2,13 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Trade } from '@/types/trade';
 import { format } from 'date-fns';
-import { ArrowUpRight, ArrowDownRight, Minus } from 'lucide-react';
+import { ArrowUpRight, ArrowDownRight, Minus, Clock } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Link } from 'react-router-dom';
+import { formatR, getRMultiple, getTradePL, isClosedTrade } from '@/utils/analytics';
+import { usePnLBasis } from '@/hooks/usePnLBasis';
+import { useResultUnit } from '@/hooks/useResultUnit';
+import { useCurrency } from '@/hooks/useCurrency';
 
 interface RecentTradesProps {
   trades: Trade[];
@@ -12,23 +16,34 @@ interface RecentTradesProps {
 
 export function RecentTrades({ trades }: RecentTradesProps) {
   const recentTrades = trades.slice(0, 5);
+  const pnlBasis = usePnLBasis();
+  const { unit } = useResultUnit();
+  const { formatTrade } = useCurrency();
 
   const getStatusIcon = (status: string | null) => {
     if (status === 'win') return <ArrowUpRight className="w-4 h-4" />;
     if (status === 'loss') return <ArrowDownRight className="w-4 h-4" />;
+    if (status === 'open') return <Clock className="w-4 h-4" />;
     return <Minus className="w-4 h-4" />;
   };
 
   const getStatusColor = (status: string | null) => {
     if (status === 'win') return 'bg-success/10 text-success border-success/20';
     if (status === 'loss') return 'bg-destructive/10 text-destructive border-destructive/20';
+    if (status === 'open') return 'bg-primary/10 text-primary border-primary/20';
     return 'bg-muted text-muted-foreground border-muted';
   };
 
-  const formatPL = (pl: number | null) => {
+  const getPL = (trade: Trade) => {
+    if (!isClosedTrade(trade)) return null;
+    return unit === 'r' ? getRMultiple(trade, pnlBasis) : getTradePL(trade, pnlBasis);
+  };
+
+  const formatPL = (trade: Trade) => {
+    const pl = getPL(trade);
     if (pl === null) return '-';
-    const formatted = Math.abs(pl).toFixed(2);
-    return pl >= 0 ? `+$${formatted}` : `-$${formatted}`;
+    if (unit === 'r') return formatR(pl);
+    return formatTrade(trade, pl, { signed: true });
   };
 
   return (
@@ -85,10 +100,10 @@ export function RecentTrades({ trades }: RecentTradesProps) {
                 <div className="text-right">
                   <p className={cn(
                     'font-semibold',
-                    trade.profit_loss !== null && trade.profit_loss > 0 && 'text-success',
-                    trade.profit_loss !== null && trade.profit_loss < 0 && 'text-destructive',
+                    (getPL(trade) ?? 0) > 0 && 'text-success',
+                    (getPL(trade) ?? 0) < 0 && 'text-destructive',
                   )}>
-                    {formatPL(trade.profit_loss)}
+                    {formatPL(trade)}
                   </p>
                   <Badge variant="outline" className="text-xs capitalize">
                     {trade.direction}
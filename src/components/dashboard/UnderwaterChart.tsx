@@ -0,0 +1,52 @@
+import { AreaChart, Area, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import { DrawdownPoint } from '@/utils/analytics';
+import { useCurrency } from '@/hooks/useCurrency';
+
+interface UnderwaterChartProps {
+  data: DrawdownPoint[];
+  percent?: boolean;
+}
+
+// How far below its last peak the P&L curve sits after each trade
+export function UnderwaterChart({ data, percent = false }: UnderwaterChartProps) {
+  const { format: formatCurrency } = useCurrency();
+  const formatValue = (value: number) => (percent ? `${value.toFixed(2)}%` : formatCurrency(value));
+
+  return (
+    <div className="space-y-1">
+      <p className="text-xs font-medium text-muted-foreground">Underwater</p>
+      <div className="h-[120px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <AreaChart data={data}>
+            <XAxis dataKey="date" hide />
+            <YAxis
+              stroke="hsl(var(--muted-foreground))"
+              fontSize={12}
+              tickLine={false}
+              axisLine={false}
+              domain={['dataMin', 0]}
+              tickFormatter={(value) => (percent ? `${value.toFixed(0)}%` : formatCurrency(value, { digits: 0 }))}
+            />
+            <Tooltip
+              contentStyle={{
+                backgroundColor: 'hsl(var(--card))',
+                border: '1px solid hsl(var(--border))',
+                borderRadius: '8px',
+              }}
+              labelStyle={{ color: 'hsl(var(--foreground))' }}
+              formatter={(value: number) => [formatValue(value), 'Drawdown']}
+            />
+            <Area
+              type="stepAfter"
+              dataKey={percent ? 'drawdownPct' : 'drawdown'}
+              stroke="hsl(var(--chart-loss))"
+              fill="hsl(var(--chart-loss))"
+              fillOpacity={0.2}
+              strokeWidth={1.5}
+            />
+          </AreaChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
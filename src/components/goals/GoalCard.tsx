@@ -0,0 +1,146 @@
+import { format } from 'date-fns';
+import { Goal } from '@/types/trade';
+import { useCurrency } from '@/hooks/useCurrency';
+import {
+  formatGoalValue,
+  formatPeriod,
+  getAttainmentRate,
+  GoalResult,
+  GOAL_METRICS,
+  GOAL_PERIOD_LABELS,
+} from '@/utils/goals';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { cn } from '@/lib/utils';
+import { Archive, ArchiveRestore, Pencil, Trash2 } from 'lucide-react';
+
+interface GoalCardProps {
+  goal: Goal;
+  history: GoalResult[]; // Most recent period first
+  onEdit: () => void;
+  onArchive: () => void;
+  onDelete: () => void;
+}
+
+export function GoalCard({ goal, history, onEdit, onArchive, onDelete }: GoalCardProps) {
+  const { currencyOf } = useCurrency();
+  const info = GOAL_METRICS[goal.metric];
+  const currency = currencyOf(goal.account_id);
+  const current = history[0];
+  const attainment = getAttainmentRate(history);
+  const completed = history.filter(r => r.complete);
+  const breached = current && info.direction === 'at_most' && !current.achieved;
+  const title = `${GOAL_PERIOD_LABELS[goal.period]} ${info.label.toLowerCase()}`;
+
+  return (
+    <Card className={cn('gradient-card', goal.archived_at && 'opacity-70')}>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0 gap-2">
+        <div>
+          <CardTitle className="font-display">{title}</CardTitle>
+          <CardDescription>
+            {info.direction === 'at_most' ? 'At most' : 'At least'} {formatGoalValue(goal.metric, Number(goal.target), currency)}
+            {' · '}since {format(new Date(`${goal.starts_on}T00:00:00`), 'MMM d, yyyy')}
+          </CardDescription>
+        </div>
+        <div className="flex items-center">
+          {!goal.archived_at && (
+            <Button variant="ghost" size="icon" onClick={onEdit}>
+              <Pencil className="w-4 h-4" />
+            </Button>
+          )}
+          <Button variant="ghost" size="icon" onClick={onArchive} title={goal.archived_at ? 'Restore' : 'Archive'}>
+            {goal.archived_at ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+          </Button>
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="ghost" size="icon">
+                <Trash2 className="w-4 h-4 text-destructive" />
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Delete Goal</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Delete the {title} goal? Archive it instead to keep its history.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction
+                  onClick={onDelete}
+                  className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                >
+                  Delete
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {current && !current.complete && !goal.archived_at && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-muted-foreground">{formatPeriod(goal.period, current.start)}</span>
+              <span className={cn(
+                'font-semibold',
+                current.achieved && !breached && 'text-success',
+                breached && 'text-destructive',
+              )}>
+                {current.current === null ? 'No trades yet' : formatGoalValue(goal.metric, current.current, currency)}
+              </span>
+            </div>
+            <Progress value={current.progress} className={cn('h-2', breached && '[&>div]:bg-destructive')} />
+            {breached && (
+              <p className="text-xs text-destructive">
+                Over the limit on {current.breachDays.map(day => format(new Date(`${day}T00:00:00`), 'EEE d')).join(', ')}
+              </p>
+            )}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-muted-foreground">History</span>
+            {attainment !== null ? (
+              <Badge variant="outline">
+                Hit {completed.filter(r => r.achieved).length} of {completed.length} ({attainment.toFixed(0)}%)
+              </Badge>
+            ) : (
+              <span className="text-xs text-muted-foreground">No completed periods yet</span>
+            )}
+          </div>
+          <div className="flex flex-row-reverse justify-end gap-1">
+            {history.map(result => (
+              <div
+                key={result.start.toISOString()}
+                title={`${formatPeriod(goal.period, result.start)}: ${
+                  result.current === null ? 'no trades' : formatGoalValue(goal.metric, result.current, currency)
+                }${result.complete ? '' : ' (in progress)'}`}
+                className={cn(
+                  'h-6 flex-1 max-w-8 rounded',
+                  !result.complete && 'border border-dashed border-muted-foreground/50',
+                  result.complete && result.achieved && 'bg-success/70',
+                  result.complete && !result.achieved && 'bg-destructive/60',
+                )}
+              />
+            ))}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
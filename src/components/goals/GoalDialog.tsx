@@ -0,0 +1,205 @@
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Goal, GoalFormData, GoalMetric, GoalPeriod } from '@/types/trade';
+import { GOAL_METRICS, GOAL_PERIOD_LABELS } from '@/utils/goals';
+import { toDayKey } from '@/utils/journal';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Loader2 } from 'lucide-react';
+
+const goalSchema = z.object({
+  metric: z.enum(['net_pl', 'win_rate', 'max_trades_per_day', 'rule_adherence']),
+  period: z.enum(['week', 'month', 'quarter']),
+  target: z.coerce.number().min(0, 'Target cannot be negative'),
+  starts_on: z.string().min(1, 'Start date is required'),
+}).refine(
+  data => GOAL_METRICS[data.metric].unit !== 'percent' || data.target <= 100,
+  { message: 'Percentages cannot exceed 100', path: ['target'] }
+);
+
+type GoalFormValues = z.infer<typeof goalSchema>;
+
+const TARGET_HINTS: Record<GoalMetric, string> = {
+  net_pl: 'Minimum P&L to finish the period with',
+  win_rate: 'Minimum percentage of closed trades that win',
+  max_trades_per_day: 'Any day above this many trades breaks the goal',
+  rule_adherence: 'Minimum average checklist score, in percent',
+};
+
+interface GoalDialogProps {
+  open: boolean;
+  goal?: Goal | null;
+  onOpenChange: (open: boolean) => void;
+  onSave: (data: GoalFormData) => Promise<{ error: Error | null }>;
+}
+
+export function GoalDialog({ open, goal, onOpenChange, onSave }: GoalDialogProps) {
+  const [saving, setSaving] = useState(false);
+
+  const form = useForm<GoalFormValues>({
+    resolver: zodResolver(goalSchema),
+    defaultValues: { metric: 'net_pl', period: 'week', target: 0, starts_on: toDayKey(new Date()) },
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    form.reset(goal ? {
+      metric: goal.metric,
+      period: goal.period,
+      target: Number(goal.target),
+      starts_on: goal.starts_on,
+    } : { metric: 'net_pl', period: 'week', target: 0, starts_on: toDayKey(new Date()) });
+  }, [open, goal, form]);
+
+  const metric = form.watch('metric');
+
+  const onSubmit = async (data: GoalFormValues) => {
+    setSaving(true);
+    const { error } = await onSave({
+      metric: data.metric,
+      period: data.period,
+      target: data.target,
+      starts_on: data.starts_on,
+    });
+    setSaving(false);
+    if (!error) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{goal ? 'Edit Goal' : 'New Goal'}</DialogTitle>
+          <DialogDescription>
+            Goals repeat every period, so you can see how often you hit them
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="metric"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Metric</FormLabel>
+                  <Select value={field.value} onValueChange={value => field.onChange(value as GoalMetric)}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {(Object.keys(GOAL_METRICS) as GoalMetric[]).map(key => (
+                        <SelectItem key={key} value={key}>{GOAL_METRICS[key].label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="period"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Period</FormLabel>
+                    <Select value={field.value} onValueChange={value => field.onChange(value as GoalPeriod)}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {(Object.keys(GOAL_PERIOD_LABELS) as GoalPeriod[]).map(key => (
+                          <SelectItem key={key} value={key}>{GOAL_PERIOD_LABELS[key]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="target"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>
+                      Target{GOAL_METRICS[metric].unit === 'currency' ? ' ($)' : GOAL_METRICS[metric].unit === 'percent' ? ' (%)' : ''}
+                    </FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        step={GOAL_METRICS[metric].unit === 'count' ? '1' : '0.01'}
+                        min="0"
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <p className="text-xs text-muted-foreground -mt-2">{TARGET_HINTS[metric]}</p>
+
+            <FormField
+              control={form.control}
+              name="starts_on"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Track From</FormLabel>
+                  <FormControl>
+                    <Input type="date" {...field} />
+                  </FormControl>
+                  <FormDescription>Earlier dates build attainment history from past trades</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                {goal ? 'Save Changes' : 'Create Goal'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
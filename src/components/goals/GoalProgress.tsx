@@ -0,0 +1,79 @@
+import { Link } from 'react-router-dom';
+import { Trade } from '@/types/trade';
+import { useGoals } from '@/hooks/useGoals';
+import { useChecklistRules } from '@/hooks/useChecklistRules';
+import { usePnLBasis } from '@/hooks/usePnLBasis';
+import { useCurrency } from '@/hooks/useCurrency';
+import { evaluateGoal, formatGoalValue, GOAL_METRICS, GOAL_PERIOD_LABELS } from '@/utils/goals';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { cn } from '@/lib/utils';
+import { Flag } from 'lucide-react';
+
+interface GoalProgressProps {
+  trades: Trade[];
+}
+
+export function GoalProgress({ trades }: GoalProgressProps) {
+  const { activeGoals, loading } = useGoals();
+  const { rules } = useChecklistRules();
+  const pnlBasis = usePnLBasis();
+  const { currencyOf } = useCurrency();
+
+  return (
+    <Card className="glass-card">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Flag className="w-5 h-5 text-primary" />
+          Goals
+        </CardTitle>
+        <Button variant="link" size="sm" asChild className="h-auto p-0">
+          <Link to="/goals">{activeGoals.length > 0 ? 'Manage' : 'Set goals'}</Link>
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? null : activeGoals.length === 0 ? (
+          <p className="text-muted-foreground text-sm text-center py-4">
+            Set weekly, monthly or quarterly targets to track your progress here
+          </p>
+        ) : (
+          activeGoals.map(goal => {
+            const info = GOAL_METRICS[goal.metric];
+            const result = evaluateGoal(goal, trades, rules, pnlBasis);
+            const breached = info.direction === 'at_most' && !result.achieved;
+
+            return (
+              <div key={goal.id} className="space-y-2">
+                <div className="flex items-center justify-between gap-2 text-sm">
+                  <span className="font-medium">
+                    {GOAL_PERIOD_LABELS[goal.period]} {info.label.toLowerCase()}
+                  </span>
+                  <span className={cn(
+                    'font-semibold',
+                    result.achieved && !breached && 'text-chart-profit',
+                    breached && 'text-chart-loss',
+                  )}>
+                    {result.current === null ? '—' : formatGoalValue(goal.metric, result.current, currencyOf(goal.account_id))}
+                    <span className="text-muted-foreground font-normal">
+                      {' '}/ {info.direction === 'at_most' ? '≤ ' : ''}{formatGoalValue(goal.metric, Number(goal.target), currencyOf(goal.account_id))}
+                    </span>
+                  </span>
+                </div>
+                <Progress
+                  value={result.progress}
+                  className={cn('h-1.5', breached && '[&>div]:bg-destructive')}
+                />
+                {breached && (
+                  <p className="text-xs text-chart-loss">
+                    Breached on {result.breachDays.length} day{result.breachDays.length === 1 ? '' : 's'} this period
+                  </p>
+                )}
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,239 @@
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { JournalEntry, JournalEntryFormData, MarketBias } from '@/types/trade';
+import { MARKET_BIAS_LABELS, RATING_FIELDS } from '@/utils/journal';
+import { MarkdownView } from './MarkdownView';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Loader2 } from 'lucide-react';
+
+const NO_BIAS = 'none';
+
+const journalSchema = z.object({
+  premarket_plan: z.string().max(20000, 'Plan is too long'),
+  reflection: z.string().max(20000, 'Reflection is too long'),
+  mood: z.number().int().min(1).max(5).nullable(),
+  energy: z.number().int().min(1).max(5).nullable(),
+  sleep: z.number().int().min(1).max(5).nullable(),
+  market_bias: z.string(),
+  key_levels: z.string().max(2000, 'Too many key levels'),
+});
+
+type JournalFormValues = z.infer<typeof journalSchema>;
+
+interface JournalEntryFormProps {
+  entry?: JournalEntry;
+  onSave: (data: JournalEntryFormData) => Promise<{ error: Error | null }>;
+}
+
+function MarkdownField({ value, onChange, placeholder }: { value: string; onChange: (value: string) => void; placeholder: string }) {
+  return (
+    <Tabs defaultValue="write">
+      <TabsList className="h-8">
+        <TabsTrigger value="write" className="text-xs">Write</TabsTrigger>
+        <TabsTrigger value="preview" className="text-xs">Preview</TabsTrigger>
+      </TabsList>
+      <TabsContent value="write">
+        <Textarea
+          value={value}
+          onChange={e => onChange(e.target.value)}
+          placeholder={placeholder}
+          className="min-h-[140px] font-mono text-sm"
+        />
+      </TabsContent>
+      <TabsContent value="preview">
+        <div className="min-h-[140px] rounded-md border border-border p-3">
+          {value.trim()
+            ? <MarkdownView source={value} />
+            : <p className="text-sm text-muted-foreground italic">Nothing written yet</p>}
+        </div>
+      </TabsContent>
+    </Tabs>
+  );
+}
+
+export function JournalEntryForm({ entry, onSave }: JournalEntryFormProps) {
+  const [saving, setSaving] = useState(false);
+
+  const form = useForm<JournalFormValues>({
+    resolver: zodResolver(journalSchema),
+    defaultValues: {
+      premarket_plan: '',
+      reflection: '',
+      mood: null,
+      energy: null,
+      sleep: null,
+      market_bias: NO_BIAS,
+      key_levels: '',
+    },
+  });
+
+  useEffect(() => {
+    form.reset({
+      premarket_plan: entry?.premarket_plan ?? '',
+      reflection: entry?.reflection ?? '',
+      mood: entry?.mood ?? null,
+      energy: entry?.energy ?? null,
+      sleep: entry?.sleep ?? null,
+      market_bias: entry?.market_bias ?? NO_BIAS,
+      key_levels: entry?.key_levels ?? '',
+    });
+  }, [entry, form]);
+
+  const onSubmit = async (values: JournalFormValues) => {
+    setSaving(true);
+    await onSave({
+      premarket_plan: values.premarket_plan.trim() || null,
+      reflection: values.reflection.trim() || null,
+      mood: values.mood,
+      energy: values.energy,
+      sleep: values.sleep,
+      market_bias: values.market_bias === NO_BIAS ? null : values.market_bias as MarketBias,
+      key_levels: values.key_levels.trim() || null,
+    });
+    setSaving(false);
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          {RATING_FIELDS.map(rating => (
+            <FormField
+              key={rating.key}
+              control={form.control}
+              name={rating.key}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{rating.label}</FormLabel>
+                  <div className="flex gap-1">
+                    {[1, 2, 3, 4, 5].map(value => (
+                      <Button
+                        key={value}
+                        type="button"
+                        variant={field.value === value ? 'default' : 'outline'}
+                        size="sm"
+                        className="w-9 px-0"
+                        onClick={() => field.onChange(field.value === value ? null : value)}
+                      >
+                        {value}
+                      </Button>
+                    ))}
+                  </div>
+                  <FormDescription className="flex justify-between text-xs">
+                    <span>{rating.low}</span>
+                    <span>{rating.high}</span>
+                  </FormDescription>
+                </FormItem>
+              )}
+            />
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="market_bias"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Market Bias</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value={NO_BIAS}>No bias</SelectItem>
+                    {(Object.keys(MARKET_BIAS_LABELS) as MarketBias[]).map(bias => (
+                      <SelectItem key={bias} value={bias}>{MARKET_BIAS_LABELS[bias]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="key_levels"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Key Levels</FormLabel>
+                <FormControl>
+                  <Textarea
+                    placeholder={'EURUSD 1.0850 support\nXAUUSD 2400 round number'}
+                    className="min-h-[72px] font-mono text-sm"
+                    {...field}
+                  />
+                </FormControl>
+                <FormDescription>One level per line</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="premarket_plan"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Pre-Market Plan</FormLabel>
+              <MarkdownField
+                value={field.value}
+                onChange={field.onChange}
+                placeholder="What are you watching today, and what would make you sit on your hands?"
+              />
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="reflection"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>End-of-Day Reflection</FormLabel>
+              <MarkdownField
+                value={field.value}
+                onChange={field.onChange}
+                placeholder="How did you follow the plan? What would you do differently?"
+              />
+              <FormDescription>Supports markdown: **bold**, *italic*, lists, headings and links</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={saving}>
+            {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {entry ? 'Update Entry' : 'Save Entry'}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
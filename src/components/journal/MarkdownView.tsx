@@ -0,0 +1,115 @@
+import { ReactNode } from 'react';
+import { cn } from '@/lib/utils';
+
+interface MarkdownViewProps {
+  source: string;
+  className?: string;
+}
+
+const INLINE_PATTERN = /(\*\*[^*]+\*\*|\*[^*]+\*|`[^`]+`|\[[^\]]+\]\([^)\s]+\))/g;
+
+// Covers the subset of markdown people write in a journal: headings, lists,
+// quotes, bold, italic, code and links. Output is plain React elements, never raw HTML.
+function renderInline(text: string): ReactNode[] {
+  return text.split(INLINE_PATTERN).filter(Boolean).map((part, i) => {
+    if (part.startsWith('**') && part.endsWith('**')) {
+      return <strong key={i}>{part.slice(2, -2)}</strong>;
+    }
+    if (part.startsWith('`') && part.endsWith('`')) {
+      return <code key={i} className="px-1 rounded bg-muted text-xs">{part.slice(1, -1)}</code>;
+    }
+    const link = part.match(/^\[([^\]]+)\]\(([^)\s]+)\)$/);
+    if (link) {
+      const safe = /^https?:\/\//i.test(link[2]);
+      return safe ? (
+        <a key={i} href={link[2]} target="_blank" rel="noopener noreferrer" className="text-primary underline">
+          {link[1]}
+        </a>
+      ) : link[1];
+    }
+    if (part.startsWith('*') && part.endsWith('*') && part.length > 2) {
+      return <em key={i}>{part.slice(1, -1)}</em>;
+    }
+    return part;
+  });
+}
+
+export function MarkdownView({ source, className }: MarkdownViewProps) {
+  const blocks: ReactNode[] = [];
+  const lines = source.replace(/\r\n/g, '\n').split('\n');
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const key = blocks.length;
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,3})\s+(.*)$/);
+    if (heading) {
+      const level = heading[1].length;
+      blocks.push(
+        <p key={key} className={cn('font-semibold', level === 1 ? 'text-lg' : level === 2 ? 'text-base' : 'text-sm')}>
+          {renderInline(heading[2])}
+        </p>
+      );
+      i++;
+      continue;
+    }
+
+    const listMatcher = /^\s*([-*]|\d+\.)\s+/;
+    if (listMatcher.test(line)) {
+      const ordered = /^\s*\d+\./.test(line);
+      const items: string[] = [];
+      while (i < lines.length && listMatcher.test(lines[i])) {
+        items.push(lines[i].replace(listMatcher, ''));
+        i++;
+      }
+      const ListTag = ordered ? 'ol' : 'ul';
+      blocks.push(
+        <ListTag key={key} className={cn('pl-5 space-y-0.5', ordered ? 'list-decimal' : 'list-disc')}>
+          {items.map((item, j) => <li key={j}>{renderInline(item)}</li>)}
+        </ListTag>
+      );
+      continue;
+    }
+
+    if (line.startsWith('>')) {
+      const quoted: string[] = [];
+      while (i < lines.length && lines[i].startsWith('>')) {
+        quoted.push(lines[i].replace(/^>\s?/, ''));
+        i++;
+      }
+      blocks.push(
+        <blockquote key={key} className="border-l-2 border-primary/50 pl-3 text-muted-foreground italic">
+          {renderInline(quoted.join(' '))}
+        </blockquote>
+      );
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (
+      i < lines.length && lines[i].trim()
+      && !/^(#{1,3})\s/.test(lines[i]) && !listMatcher.test(lines[i]) && !lines[i].startsWith('>')
+    ) {
+      paragraph.push(lines[i]);
+      i++;
+    }
+    blocks.push(
+      <p key={key}>
+        {paragraph.map((text, j) => (
+          <span key={j}>
+            {j > 0 && <br />}
+            {renderInline(text)}
+          </span>
+        ))}
+      </p>
+    );
+  }
+
+  return <div className={cn('space-y-2 text-sm leading-relaxed break-words', className)}>{blocks}</div>;
+}
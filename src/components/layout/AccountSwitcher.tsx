@@ -0,0 +1,45 @@
+import { useNavigate } from 'react-router-dom';
+import { useAccounts, ALL_ACCOUNTS } from '@/hooks/useAccounts';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Wallet } from 'lucide-react';
+
+const MANAGE_ACCOUNTS = '__manage__';
+
+export function AccountSwitcher() {
+  const { accounts, selectedAccountId, setSelectedAccountId } = useAccounts();
+  const navigate = useNavigate();
+
+  const handleChange = (value: string) => {
+    if (value === MANAGE_ACCOUNTS) {
+      navigate('/settings/accounts');
+      return;
+    }
+    setSelectedAccountId(value);
+  };
+
+  return (
+    <Select value={selectedAccountId} onValueChange={handleChange}>
+      <SelectTrigger className="h-9 w-[170px] text-xs">
+        <Wallet className="w-4 h-4 mr-2 shrink-0 text-muted-foreground" />
+        <SelectValue placeholder="All accounts" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL_ACCOUNTS}>All accounts</SelectItem>
+        {accounts.map(account => (
+          <SelectItem key={account.id} value={account.id}>
+            {account.name}
+          </SelectItem>
+        ))}
+        <SelectSeparator />
+        <SelectItem value={MANAGE_ACCOUNTS}>Manage accounts…</SelectItem>
+      </SelectContent>
+    </Select>
+  );
+}
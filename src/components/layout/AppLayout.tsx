@@ -23,15 +23,28 @@ import {
   User,
   Plug,
   Wrench,
+  Wallet,
+  Globe,
+  ListChecks,
+  BookOpen,
+  NotebookPen,
+  Flag,
+  ShieldAlert,
+  Trophy,
+  Tags,
 } from 'lucide-react';
 import { MT5ReviewPrompt } from '@/components/trades/MT5ReviewPrompt';
 import { PWAInstallButton } from '@/components/layout/PWAInstallButton';
+import { AccountSwitcher } from '@/components/layout/AccountSwitcher';
+import { RiskBanner } from '@/components/risk/RiskBanner';
 
 const navItems = [
   { href: '/dashboard', label: 'Dashboard', icon: LayoutDashboard },
   { href: '/trades', label: 'Trade Log', icon: ClipboardList },
   { href: '/calendar', label: 'Calendar', icon: CalendarDays },
+  { href: '/journal', label: 'Journal', icon: NotebookPen },
   { href: '/analytics', label: 'Analytics', icon: BarChart3 },
+  { href: '/playbooks', label: 'Playbooks', icon: BookOpen },
   { href: '/tools', label: 'Tools', icon: Wrench },
 ];
 
@@ -86,6 +99,9 @@ export function AppLayout({ children }: { children: React.ReactNode }) {
             {/* Actions */}
             <div className="flex items-center gap-3">
               <PWAInstallButton />
+              <div className="hidden sm:block">
+                <AccountSwitcher />
+              </div>
               <Button asChild size="sm" className="hidden sm:flex">
                 <Link to="/trades/new">
                   <Plus className="w-4 h-4 mr-1" />
@@ -141,6 +157,48 @@ export function AppLayout({ children }: { children: React.ReactNode }) {
                       Profile
                     </Link>
                   </DropdownMenuItem>
+                  <DropdownMenuItem asChild>
+                    <Link to="/settings/accounts" className="cursor-pointer">
+                      <Wallet className="w-4 h-4 mr-2" />
+                      Trading Accounts
+                    </Link>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem asChild>
+                    <Link to="/settings/instruments" className="cursor-pointer">
+                      <Globe className="w-4 h-4 mr-2" />
+                      Instruments
+                    </Link>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem asChild>
+                    <Link to="/settings/tags" className="cursor-pointer">
+                      <Tags className="w-4 h-4 mr-2" />
+                      Tags
+                    </Link>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem asChild>
+                    <Link to="/goals" className="cursor-pointer">
+                      <Flag className="w-4 h-4 mr-2" />
+                      Goals
+                    </Link>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem asChild>
+                    <Link to="/challenges" className="cursor-pointer">
+                      <Trophy className="w-4 h-4 mr-2" />
+                      Prop Challenges
+                    </Link>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem asChild>
+                    <Link to="/settings/risk" className="cursor-pointer">
+                      <ShieldAlert className="w-4 h-4 mr-2" />
+                      Risk Rules
+                    </Link>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem asChild>
+                    <Link to="/settings/checklist" className="cursor-pointer">
+                      <ListChecks className="w-4 h-4 mr-2" />
+                      Checklist Rules
+                    </Link>
+                  </DropdownMenuItem>
                   <DropdownMenuItem asChild>
                     <Link to="/settings/mt5" className="cursor-pointer">
                       <Plug className="w-4 h-4 mr-2" />
@@ -189,6 +247,10 @@ export function AppLayout({ children }: { children: React.ReactNode }) {
 
       {/* Main Content */}
       <main className="container mx-auto px-4 py-6 pb-24 md:pb-6">
+        <div className="sm:hidden mb-4">
+          <AccountSwitcher />
+        </div>
+        <RiskBanner />
         {children}
       </main>
       <MT5ReviewPrompt />
@@ -0,0 +1,268 @@
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Playbook, PlaybookFormData, TradingSession } from '@/types/trade';
+import { useChecklistRules } from '@/hooks/useChecklistRules';
+import { SESSION_LABELS } from '@/utils/playbooks';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Loader2 } from 'lucide-react';
+
+const playbookSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100, 'Name too long'),
+  description: z.string().max(2000, 'Description too long').optional(),
+  entry_criteria: z.string().max(2000, 'Entry criteria too long').optional(),
+  exit_criteria: z.string().max(2000, 'Exit criteria too long').optional(),
+  target_r: z.coerce.number().positive('Target R must be positive').optional().or(z.literal('')),
+  allowed_symbols: z.string().max(500, 'Too many symbols').optional(),
+  allowed_sessions: z.array(z.enum(['sydney', 'tokyo', 'london', 'new_york'])),
+  rule_ids: z.array(z.string()),
+});
+
+type PlaybookFormValues = z.infer<typeof playbookSchema>;
+
+const EMPTY_VALUES: PlaybookFormValues = {
+  name: '',
+  description: '',
+  entry_criteria: '',
+  exit_criteria: '',
+  target_r: '',
+  allowed_symbols: '',
+  allowed_sessions: [],
+  rule_ids: [],
+};
+
+interface PlaybookDialogProps {
+  open: boolean;
+  playbook?: Playbook | null;
+  defaultName?: string;
+  onOpenChange: (open: boolean) => void;
+  onSave: (data: PlaybookFormData) => Promise<{ error: Error | null }>;
+}
+
+export function PlaybookDialog({ open, playbook, defaultName, onOpenChange, onSave }: PlaybookDialogProps) {
+  const { activeRules } = useChecklistRules();
+  const [saving, setSaving] = useState(false);
+
+  const form = useForm<PlaybookFormValues>({
+    resolver: zodResolver(playbookSchema),
+    defaultValues: EMPTY_VALUES,
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    form.reset(playbook ? {
+      name: playbook.name,
+      description: playbook.description ?? '',
+      entry_criteria: playbook.entry_criteria ?? '',
+      exit_criteria: playbook.exit_criteria ?? '',
+      target_r: playbook.target_r ?? '',
+      allowed_symbols: playbook.allowed_symbols.join(', '),
+      allowed_sessions: playbook.allowed_sessions,
+      rule_ids: playbook.rule_ids,
+    } : { ...EMPTY_VALUES, name: defaultName ?? '' });
+  }, [open, playbook, defaultName, form]);
+
+  const onSubmit = async (data: PlaybookFormValues) => {
+    setSaving(true);
+    const { error } = await onSave({
+      name: data.name,
+      description: data.description?.trim() || null,
+      entry_criteria: data.entry_criteria?.trim() || null,
+      exit_criteria: data.exit_criteria?.trim() || null,
+      target_r: data.target_r ? Number(data.target_r) : null,
+      allowed_symbols: data.allowed_symbols ? data.allowed_symbols.split(',') : [],
+      allowed_sessions: data.allowed_sessions,
+      rule_ids: data.rule_ids,
+    });
+    setSaving(false);
+    if (!error) onOpenChange(false);
+  };
+
+  const toggle = <T extends string>(values: T[], value: T) =>
+    values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{playbook ? 'Edit Playbook' : 'New Playbook'}</DialogTitle>
+          <DialogDescription>
+            Document the setup so every trade taken on it is measured against the same plan
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-[1fr_140px] gap-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. London Breakout" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="target_r"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Target R</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.1" placeholder="2" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Textarea rows={2} placeholder="What is this setup and why does it work?" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="entry_criteria"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Entry Criteria</FormLabel>
+                    <FormControl>
+                      <Textarea rows={4} placeholder="Conditions that must be met to enter" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="exit_criteria"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Exit Criteria</FormLabel>
+                    <FormControl>
+                      <Textarea rows={4} placeholder="Where the stop and targets go, when to bail" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="allowed_symbols"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Allowed Symbols</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. EURUSD, GBPUSD" {...field} />
+                  </FormControl>
+                  <FormDescription>Separate with commas. Leave empty to allow any symbol.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="allowed_sessions"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Allowed Sessions</FormLabel>
+                  <div className="flex flex-wrap gap-4">
+                    {(Object.keys(SESSION_LABELS) as TradingSession[]).map(session => (
+                      <label key={session} className="flex items-center gap-2 text-sm cursor-pointer">
+                        <Checkbox
+                          checked={field.value.includes(session)}
+                          onCheckedChange={() => field.onChange(toggle(field.value, session))}
+                        />
+                        {SESSION_LABELS[session]}
+                      </label>
+                    ))}
+                  </div>
+                  <FormDescription>Leave all unchecked to allow any session.</FormDescription>
+                </FormItem>
+              )}
+            />
+
+            {activeRules.length > 0 && (
+              <FormField
+                control={form.control}
+                name="rule_ids"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Linked Checklist</FormLabel>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                      {activeRules.map(rule => (
+                        <label key={rule.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                          <Checkbox
+                            checked={field.value.includes(rule.id)}
+                            onCheckedChange={() => field.onChange(toggle(field.value, rule.id))}
+                          />
+                          {rule.label}
+                        </label>
+                      ))}
+                    </div>
+                    <FormDescription>
+                      Rules shown when logging a trade with this playbook. Leave empty to use your full checklist.
+                    </FormDescription>
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                {playbook ? 'Save Changes' : 'Create Playbook'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
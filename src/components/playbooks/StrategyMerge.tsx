@@ -0,0 +1,85 @@
+import { useState } from 'react';
+import { Playbook } from '@/types/trade';
+import { StrategyNameUsage } from '@/utils/playbooks';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { GitMerge, Loader2, Plus } from 'lucide-react';
+
+interface StrategyMergeProps {
+  strategyNames: StrategyNameUsage[];
+  playbooks: Playbook[];
+  onMerge: (playbookId: string, names: string[]) => Promise<{ error: Error | null }>;
+  onCreateFromNames: (names: string[]) => void;
+}
+
+export function StrategyMerge({ strategyNames, playbooks, onMerge, onCreateFromNames }: StrategyMergeProps) {
+  const [selected, setSelected] = useState<string[]>([]);
+  const [targetId, setTargetId] = useState('');
+  const [merging, setMerging] = useState(false);
+
+  if (strategyNames.length === 0) return null;
+
+  const toggle = (name: string) =>
+    setSelected(prev => prev.includes(name) ? prev.filter(n => n !== name) : [...prev, name]);
+
+  const handleMerge = async () => {
+    if (!targetId || selected.length === 0) return;
+    setMerging(true);
+    const { error } = await onMerge(targetId, selected);
+    setMerging(false);
+    if (!error) setSelected([]);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2"><GitMerge className="w-5 h-5" /> Unlinked Strategy Names</CardTitle>
+        <CardDescription>
+          Free-text strategies from older trades. Select the variants of one setup and link them to a playbook.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          {strategyNames.map(({ name, trades }) => (
+            <label key={name} className="flex items-center justify-between gap-2 p-2 rounded-md border cursor-pointer hover:bg-muted/50">
+              <span className="flex items-center gap-2 text-sm">
+                <Checkbox checked={selected.includes(name)} onCheckedChange={() => toggle(name)} />
+                {name}
+              </span>
+              <Badge variant="outline">{trades}</Badge>
+            </label>
+          ))}
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Select value={targetId} onValueChange={setTargetId}>
+            <SelectTrigger className="sm:w-64">
+              <SelectValue placeholder="Choose a playbook" />
+            </SelectTrigger>
+            <SelectContent>
+              {playbooks.map(playbook => (
+                <SelectItem key={playbook.id} value={playbook.id}>{playbook.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={handleMerge} disabled={!targetId || selected.length === 0 || merging}>
+            {merging && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Link {selected.length || ''} selected
+          </Button>
+          <Button variant="outline" onClick={() => onCreateFromNames(selected)} disabled={selected.length === 0}>
+            <Plus className="w-4 h-4 mr-1" /> New playbook from selection
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,93 @@
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { RiskBreach, TradingAccount } from '@/types/trade';
+import { describeBreach, RISK_RULE_LABELS } from '@/utils/risk';
+import { CHANGE_SOURCE_LABELS } from '@/utils/revisions';
+import { useCurrency } from '@/hooks/useCurrency';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+import { Check, ShieldCheck } from 'lucide-react';
+
+interface BreachLogProps {
+  breaches: RiskBreach[];
+  accounts: TradingAccount[];
+  onAcknowledge: (ids: string[]) => void;
+}
+
+export function BreachLog({ breaches, accounts, onAcknowledge }: BreachLogProps) {
+  const { currencyOf } = useCurrency();
+  const accountName = (id: string | null) => accounts.find(a => a.id === id)?.name ?? 'Unassigned';
+
+  if (breaches.length === 0) {
+    return (
+      <div className="text-center py-8 space-y-2">
+        <ShieldCheck className="w-10 h-10 mx-auto text-success" />
+        <p className="text-sm text-muted-foreground">No breaches logged. Keep it that way.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Day</TableHead>
+            <TableHead>Rule</TableHead>
+            <TableHead>Details</TableHead>
+            {accounts.length > 0 && <TableHead>Account</TableHead>}
+            <TableHead>Source</TableHead>
+            <TableHead></TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {breaches.map(breach => (
+            <TableRow key={breach.id} className={cn(breach.acknowledged_at && 'opacity-60')}>
+              <TableCell className="text-muted-foreground whitespace-nowrap">
+                {format(new Date(`${breach.breach_date}T00:00:00`), 'MMM d, yyyy')}
+              </TableCell>
+              <TableCell>
+                <Badge variant={breach.acknowledged_at ? 'outline' : 'destructive'} className="whitespace-nowrap">
+                  {RISK_RULE_LABELS[breach.rule]}
+                </Badge>
+              </TableCell>
+              <TableCell>
+                {breach.trade_id ? (
+                  <Link to={`/trades/${breach.trade_id}`} className="hover:underline">
+                    {describeBreach(breach, currencyOf(breach.account_id))}
+                  </Link>
+                ) : (
+                  describeBreach(breach, currencyOf(breach.account_id))
+                )}
+              </TableCell>
+              {accounts.length > 0 && (
+                <TableCell className="text-muted-foreground">{accountName(breach.account_id)}</TableCell>
+              )}
+              <TableCell className="text-muted-foreground whitespace-nowrap">{CHANGE_SOURCE_LABELS[breach.source]}</TableCell>
+              <TableCell className="text-right">
+                {breach.acknowledged_at ? (
+                  <span className="text-xs text-muted-foreground whitespace-nowrap">
+                    Reviewed {format(new Date(breach.acknowledged_at), 'MMM d')}
+                  </span>
+                ) : (
+                  <Button variant="ghost" size="sm" onClick={() => onAcknowledge([breach.id])}>
+                    <Check className="w-4 h-4 mr-1" /> Acknowledge
+                  </Button>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
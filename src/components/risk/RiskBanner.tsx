@@ -0,0 +1,50 @@
+import { Link, useLocation } from 'react-router-dom';
+import { useRiskBreaches } from '@/hooks/useRiskBreaches';
+import { useCurrency } from '@/hooks/useCurrency';
+import { RISK_RULE_LABELS, describeBreach } from '@/utils/risk';
+import { Button } from '@/components/ui/button';
+import { ShieldAlert } from 'lucide-react';
+
+export function RiskBanner() {
+  const { todaysBreaches, acknowledgeBreaches } = useRiskBreaches();
+  const location = useLocation();
+  const { currencyOf } = useCurrency();
+
+  // The risk page lists the same breaches with its own acknowledge controls
+  if (todaysBreaches.length === 0 || location.pathname === '/settings/risk') return null;
+
+  return (
+    <div className="mb-6 p-4 rounded-xl bg-destructive/10 border border-destructive/30 flex flex-col sm:flex-row sm:items-center justify-between gap-4 animate-in fade-in slide-in-from-top-4">
+      <div className="flex items-start gap-3">
+        <div className="p-2 rounded-lg bg-destructive/20">
+          <ShieldAlert className="w-5 h-5 text-destructive" />
+        </div>
+        <div>
+          <h3 className="font-semibold text-destructive">
+            {todaysBreaches.length === 1 ? 'Risk limit breached today' : `${todaysBreaches.length} risk limits breached today`}
+          </h3>
+          <ul className="text-sm text-muted-foreground">
+            {todaysBreaches.slice(0, 3).map(breach => (
+              <li key={breach.id}>
+                {RISK_RULE_LABELS[breach.rule]}: {describeBreach(breach, currencyOf(breach.account_id))}
+              </li>
+            ))}
+          </ul>
+          <p className="text-sm text-muted-foreground mt-1">Consider stopping for the day.</p>
+        </div>
+      </div>
+      <div className="flex gap-2 shrink-0">
+        <Button variant="outline" size="sm" asChild>
+          <Link to="/settings/risk">Review</Link>
+        </Button>
+        <Button
+          variant="destructive"
+          size="sm"
+          onClick={() => acknowledgeBreaches(todaysBreaches.map(b => b.id))}
+        >
+          Acknowledge
+        </Button>
+      </div>
+    </div>
+  );
+}
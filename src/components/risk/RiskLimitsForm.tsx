@@ -0,0 +1,144 @@
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { RiskLimits, RiskLimitsFormData } from '@/types/trade';
+import { formatSymbolLotLimits, parseSymbolLotLimits } from '@/utils/risk';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Loader2 } from 'lucide-react';
+
+const optionalLimit = z.coerce.number().positive('Must be greater than zero').optional().or(z.literal(''));
+
+const limitsSchema = z.object({
+  max_daily_loss: optionalLimit,
+  max_daily_loss_pct: z.coerce.number().positive('Must be greater than zero').max(100, 'Cannot exceed 100%').optional().or(z.literal('')),
+  max_consecutive_losses: z.coerce.number().int('Whole numbers only').positive('Must be greater than zero').optional().or(z.literal('')),
+  max_trades_per_day: z.coerce.number().int('Whole numbers only').positive('Must be greater than zero').optional().or(z.literal('')),
+  max_open_risk: optionalLimit,
+  max_lot_size: optionalLimit,
+  symbol_lot_limits: z.string().max(1000, 'Too many symbols').refine(
+    value => parseSymbolLotLimits(value) !== null,
+    'Use SYMBOL: lots, separated by commas'
+  ),
+});
+
+type LimitsFormValues = z.infer<typeof limitsSchema>;
+
+const EMPTY_VALUES: LimitsFormValues = {
+  max_daily_loss: '',
+  max_daily_loss_pct: '',
+  max_consecutive_losses: '',
+  max_trades_per_day: '',
+  max_open_risk: '',
+  max_lot_size: '',
+  symbol_lot_limits: '',
+};
+
+const LIMIT_FIELDS = [
+  { name: 'max_daily_loss', label: 'Max daily loss ($)', step: '0.01', placeholder: '500' },
+  { name: 'max_daily_loss_pct', label: 'Max daily loss (%)', step: '0.1', placeholder: '2' },
+  { name: 'max_consecutive_losses', label: 'Max consecutive losses', step: '1', placeholder: '3' },
+  { name: 'max_trades_per_day', label: 'Max trades per day', step: '1', placeholder: '5' },
+  { name: 'max_open_risk', label: 'Max open risk ($)', step: '0.01', placeholder: '300' },
+  { name: 'max_lot_size', label: 'Max lot size', step: '0.01', placeholder: '1' },
+] as const;
+
+interface RiskLimitsFormProps {
+  limits: RiskLimits | null;
+  onSave: (data: RiskLimitsFormData) => Promise<{ error: Error | null }>;
+}
+
+export function RiskLimitsForm({ limits, onSave }: RiskLimitsFormProps) {
+  const [saving, setSaving] = useState(false);
+
+  const form = useForm<LimitsFormValues>({
+    resolver: zodResolver(limitsSchema),
+    defaultValues: EMPTY_VALUES,
+  });
+
+  useEffect(() => {
+    form.reset(limits ? {
+      max_daily_loss: limits.max_daily_loss ?? '',
+      max_daily_loss_pct: limits.max_daily_loss_pct ?? '',
+      max_consecutive_losses: limits.max_consecutive_losses ?? '',
+      max_trades_per_day: limits.max_trades_per_day ?? '',
+      max_open_risk: limits.max_open_risk ?? '',
+      max_lot_size: limits.max_lot_size ?? '',
+      symbol_lot_limits: formatSymbolLotLimits(limits.symbol_lot_limits || {}),
+    } : EMPTY_VALUES);
+  }, [limits, form]);
+
+  const onSubmit = async (data: LimitsFormValues) => {
+    const toLimit = (value: number | '' | undefined) => (value === '' || value === undefined ? null : Number(value));
+    setSaving(true);
+    await onSave({
+      max_daily_loss: toLimit(data.max_daily_loss),
+      max_daily_loss_pct: toLimit(data.max_daily_loss_pct),
+      max_consecutive_losses: toLimit(data.max_consecutive_losses),
+      max_trades_per_day: toLimit(data.max_trades_per_day),
+      max_open_risk: toLimit(data.max_open_risk),
+      max_lot_size: toLimit(data.max_lot_size),
+      symbol_lot_limits: parseSymbolLotLimits(data.symbol_lot_limits) ?? {},
+    });
+    setSaving(false);
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {LIMIT_FIELDS.map(limit => (
+            <FormField
+              key={limit.name}
+              control={form.control}
+              name={limit.name}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{limit.label}</FormLabel>
+                  <FormControl>
+                    <Input type="number" min="0" step={limit.step} placeholder={limit.placeholder} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          ))}
+        </div>
+
+        <FormField
+          control={form.control}
+          name="symbol_lot_limits"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Per-symbol lot limits</FormLabel>
+              <FormControl>
+                <Input placeholder="e.g. XAUUSD: 0.5, US30: 0.2" {...field} />
+              </FormControl>
+              <FormDescription>
+                Overrides the max lot size for these symbols. Leave any limit blank to switch it off.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={saving}>
+            {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save Limits
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
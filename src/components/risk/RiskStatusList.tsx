@@ -0,0 +1,47 @@
+import { formatRiskValue, RiskStatus, RISK_RULE_LABELS } from '@/utils/risk';
+import { useCurrency } from '@/hooks/useCurrency';
+import { Progress } from '@/components/ui/progress';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+
+interface RiskStatusListProps {
+  statuses: RiskStatus[];
+}
+
+export function RiskStatusList({ statuses }: RiskStatusListProps) {
+  const { currency } = useCurrency();
+
+  if (statuses.length === 0) {
+    return <p className="text-sm text-muted-foreground">No daily limits set.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {statuses.map(status => (
+        <div key={status.rule} className="space-y-1.5">
+          <div className="flex items-center justify-between gap-2 text-sm">
+            <span className="font-medium">{RISK_RULE_LABELS[status.rule]}</span>
+            <span className="flex items-center gap-2">
+              <span className="text-muted-foreground">
+                {formatRiskValue(status.rule, status.current, currency)} / {formatRiskValue(status.rule, status.limit, currency)}
+              </span>
+              {status.level !== 'ok' && (
+                <Badge variant={status.level === 'locked' ? 'destructive' : 'secondary'} className="text-xs">
+                  {status.level === 'locked' ? 'Limit hit' : 'Close'}
+                </Badge>
+              )}
+            </span>
+          </div>
+          <Progress
+            value={Math.min(100, (status.current / status.limit) * 100)}
+            className={cn(
+              'h-1.5',
+              status.level === 'warning' && '[&>div]:bg-warning',
+              status.level === 'locked' && '[&>div]:bg-destructive',
+            )}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
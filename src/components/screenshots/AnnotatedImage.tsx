@@ -0,0 +1,76 @@
+import { ScreenshotAnnotation } from '@/types/trade';
+import { cn } from '@/lib/utils';
+
+interface AnnotatedImageProps {
+  src: string;
+  alt: string;
+  annotations: ScreenshotAnnotation[];
+  className?: string;
+  imageClassName?: string;
+}
+
+// Shapes are drawn in a 0-100 box stretched over the image; text is positioned
+// in HTML instead so it is not distorted by the stretch.
+export function AnnotationLayer({ annotations }: { annotations: ScreenshotAnnotation[] }) {
+  return (
+    <>
+      <svg
+        className="absolute inset-0 w-full h-full pointer-events-none"
+        viewBox="0 0 100 100"
+        preserveAspectRatio="none"
+      >
+        {annotations.map(a => {
+          if (a.type === 'line') {
+            return (
+              <line
+                key={a.id}
+                x1={a.x1 * 100}
+                y1={a.y1 * 100}
+                x2={a.x2 * 100}
+                y2={a.y2 * 100}
+                stroke={a.color}
+                strokeWidth={2.5}
+                vectorEffect="non-scaling-stroke"
+              />
+            );
+          }
+          if (a.type === 'box') {
+            return (
+              <rect
+                key={a.id}
+                x={Math.min(a.x1, a.x2) * 100}
+                y={Math.min(a.y1, a.y2) * 100}
+                width={Math.abs(a.x2 - a.x1) * 100}
+                height={Math.abs(a.y2 - a.y1) * 100}
+                fill={a.color}
+                fillOpacity={0.12}
+                stroke={a.color}
+                strokeWidth={2}
+                vectorEffect="non-scaling-stroke"
+              />
+            );
+          }
+          return null;
+        })}
+      </svg>
+      {annotations.filter(a => a.type === 'text').map(a => (
+        <span
+          key={a.id}
+          className="absolute pointer-events-none text-xs sm:text-sm font-semibold px-1 rounded bg-background/70 whitespace-nowrap"
+          style={{ left: `${a.x1 * 100}%`, top: `${a.y1 * 100}%`, color: a.color }}
+        >
+          {a.text}
+        </span>
+      ))}
+    </>
+  );
+}
+
+export function AnnotatedImage({ src, alt, annotations, className, imageClassName }: AnnotatedImageProps) {
+  return (
+    <div className={cn('relative inline-block', className)}>
+      <img src={src} alt={alt} className={cn('block max-w-full', imageClassName)} draggable={false} />
+      <AnnotationLayer annotations={annotations} />
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+import { useEffect, useRef, useState } from 'react';
+import { ScreenshotAnnotation } from '@/types/trade';
+import { AnnotationLayer } from './AnnotatedImage';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { cn } from '@/lib/utils';
+import { Loader2, Minus, Square, Type, Undo2, Trash2 } from 'lucide-react';
+
+type Tool = ScreenshotAnnotation['type'];
+
+const COLORS = ['#ef4444', '#22c55e', '#3b82f6', '#eab308', '#ffffff'];
+
+interface AnnotationEditorProps {
+  open: boolean;
+  src: string | null;
+  annotations: ScreenshotAnnotation[];
+  onOpenChange: (open: boolean) => void;
+  onSave: (annotations: ScreenshotAnnotation[]) => Promise<{ error: Error | null }>;
+}
+
+export function AnnotationEditor({ open, src, annotations, onOpenChange, onSave }: AnnotationEditorProps) {
+  const [items, setItems] = useState<ScreenshotAnnotation[]>([]);
+  const [draft, setDraft] = useState<ScreenshotAnnotation | null>(null);
+  const [tool, setTool] = useState<Tool>('line');
+  const [color, setColor] = useState(COLORS[0]);
+  const [text, setText] = useState('');
+  const [saving, setSaving] = useState(false);
+  const surfaceRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (open) {
+      setItems(annotations);
+      setDraft(null);
+    }
+  }, [open, annotations]);
+
+  const toPoint = (e: React.PointerEvent) => {
+    const rect = surfaceRef.current!.getBoundingClientRect();
+    const clamp = (v: number) => Math.min(1, Math.max(0, v));
+    return {
+      x: clamp((e.clientX - rect.left) / rect.width),
+      y: clamp((e.clientY - rect.top) / rect.height),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    const { x, y } = toPoint(e);
+    if (tool === 'text') {
+      if (!text.trim()) return;
+      setItems(prev => [...prev, { id: crypto.randomUUID(), type: 'text', x1: x, y1: y, x2: x, y2: y, color, text: text.trim() }]);
+      return;
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDraft({ id: crypto.randomUUID(), type: tool, x1: x, y1: y, x2: x, y2: y, color });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!draft) return;
+    const { x, y } = toPoint(e);
+    setDraft({ ...draft, x2: x, y2: y });
+  };
+
+  const handlePointerUp = () => {
+    if (!draft) return;
+    // Ignore clicks that did not drag far enough to make a visible shape
+    if (Math.abs(draft.x2 - draft.x1) + Math.abs(draft.y2 - draft.y1) > 0.01) {
+      setItems(prev => [...prev, draft]);
+    }
+    setDraft(null);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    const { error } = await onSave(items);
+    setSaving(false);
+    if (!error) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Annotate Screenshot</DialogTitle>
+          <DialogDescription>
+            Drag to draw lines and boxes, or pick the text tool and click where the label should go.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <ToggleGroup type="single" value={tool} onValueChange={value => value && setTool(value as Tool)}>
+            <ToggleGroupItem value="line" aria-label="Line"><Minus className="w-4 h-4" /></ToggleGroupItem>
+            <ToggleGroupItem value="box" aria-label="Box"><Square className="w-4 h-4" /></ToggleGroupItem>
+            <ToggleGroupItem value="text" aria-label="Text"><Type className="w-4 h-4" /></ToggleGroupItem>
+          </ToggleGroup>
+          <div className="flex items-center gap-1">
+            {COLORS.map(c => (
+              <button
+                key={c}
+                type="button"
+                aria-label={`Colour ${c}`}
+                onClick={() => setColor(c)}
+                className={cn(
+                  'w-6 h-6 rounded-full border',
+                  color === c ? 'ring-2 ring-primary ring-offset-2 ring-offset-background' : 'border-border'
+                )}
+                style={{ backgroundColor: c }}
+              />
+            ))}
+          </div>
+          {tool === 'text' && (
+            <Input
+              value={text}
+              onChange={e => setText(e.target.value)}
+              placeholder="Label text"
+              className="w-48"
+            />
+          )}
+          <div className="flex items-center gap-1 ml-auto">
+            <Button type="button" variant="ghost" size="sm" onClick={() => setItems(prev => prev.slice(0, -1))} disabled={items.length === 0}>
+              <Undo2 className="w-4 h-4 mr-1" /> Undo
+            </Button>
+            <Button type="button" variant="ghost" size="sm" onClick={() => setItems([])} disabled={items.length === 0}>
+              <Trash2 className="w-4 h-4 mr-1" /> Clear
+            </Button>
+          </div>
+        </div>
+
+        {src && (
+          <div className="flex justify-center bg-muted/30 rounded-lg overflow-auto max-h-[65vh]">
+            <div
+              ref={surfaceRef}
+              className={cn('relative inline-block select-none touch-none', tool === 'text' ? 'cursor-text' : 'cursor-crosshair')}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+            >
+              <img src={src} alt="Screenshot being annotated" className="block max-w-full max-h-[65vh]" draggable={false} />
+              <AnnotationLayer annotations={draft ? [...items, draft] : items} />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save Annotations
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,109 @@
+import { useRef, useState } from 'react';
+import { ScreenshotPhase } from '@/types/trade';
+import { PHASE_LABELS, SCREENSHOT_ACCEPT, SCREENSHOT_PHASES, splitScreenshotFiles } from '@/utils/screenshots';
+import { useToast } from '@/hooks/use-toast';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { ImagePlus, Loader2 } from 'lucide-react';
+
+interface ScreenshotDropzoneProps {
+  onFiles: (files: File[], phase: ScreenshotPhase) => Promise<unknown> | void;
+  uploading?: boolean;
+}
+
+export function ScreenshotDropzone({ onFiles, uploading = false }: ScreenshotDropzoneProps) {
+  const [phase, setPhase] = useState<ScreenshotPhase>('before');
+  const [dragging, setDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const handleFiles = (files: Iterable<File>) => {
+    const { accepted, rejected } = splitScreenshotFiles(files);
+    if (rejected.length > 0) {
+      toast({
+        title: 'Some files were skipped',
+        description: rejected.join('. '),
+        variant: 'destructive',
+      });
+    }
+    if (accepted.length > 0) onFiles(accepted, phase);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setDragging(false);
+    handleFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLDivElement>) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length === 0) return;
+    e.preventDefault();
+    handleFiles(files);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm text-muted-foreground">Add as</span>
+        <Select value={phase} onValueChange={value => setPhase(value as ScreenshotPhase)}>
+          <SelectTrigger className="w-32">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SCREENSHOT_PHASES.map(p => (
+              <SelectItem key={p} value={p}>{PHASE_LABELS[p]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div
+        tabIndex={0}
+        onDrop={handleDrop}
+        onDragOver={e => {
+          e.preventDefault();
+          setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onPaste={handlePaste}
+        onClick={() => fileInputRef.current?.click()}
+        onKeyDown={e => {
+          if (e.key === 'Enter' || e.key === ' ') {
+            e.preventDefault();
+            fileInputRef.current?.click();
+          }
+        }}
+        className={cn(
+          'border-2 border-dashed rounded-lg p-6 text-center cursor-pointer transition-colors outline-none',
+          'hover:border-primary hover:bg-primary/5 focus-visible:border-primary',
+          dragging ? 'border-primary bg-primary/5' : 'border-muted-foreground/30'
+        )}
+      >
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={SCREENSHOT_ACCEPT}
+          multiple
+          onChange={e => {
+            handleFiles(Array.from(e.target.files || []));
+            e.target.value = '';
+          }}
+          className="hidden"
+        />
+        {uploading ? (
+          <Loader2 className="w-8 h-8 mx-auto text-muted-foreground animate-spin" />
+        ) : (
+          <ImagePlus className="w-8 h-8 mx-auto text-muted-foreground" />
+        )}
+        <p className="text-sm font-medium mt-2">Drop chart images here, click to browse, or paste</p>
+        <p className="text-xs text-muted-foreground mt-1">PNG, JPEG, WebP or GIF up to 10 MB</p>
+      </div>
+    </div>
+  );
+}
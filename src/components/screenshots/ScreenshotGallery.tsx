@@ -0,0 +1,214 @@
+import { useEffect, useState } from 'react';
+import { useTradeScreenshots } from '@/hooks/useTradeScreenshots';
+import { ScreenshotPhase } from '@/types/trade';
+import { PHASE_LABELS, SCREENSHOT_PHASES } from '@/utils/screenshots';
+import { AnnotatedImage } from './AnnotatedImage';
+import { AnnotationEditor } from './AnnotationEditor';
+import { ScreenshotDropzone } from './ScreenshotDropzone';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ChevronLeft, ChevronRight, PenLine, Trash2 } from 'lucide-react';
+
+interface ScreenshotGalleryProps {
+  tradeId: string;
+  editable?: boolean;
+}
+
+export function ScreenshotGallery({ tradeId, editable = true }: ScreenshotGalleryProps) {
+  const { screenshots, urls, loading, uploadScreenshots, updateScreenshot, deleteScreenshot } = useTradeScreenshots(tradeId);
+  const [uploading, setUploading] = useState(false);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [annotating, setAnnotating] = useState(false);
+  const [caption, setCaption] = useState('');
+
+  // Lightbox order follows the phase grouping shown in the thumbnails
+  const ordered = SCREENSHOT_PHASES.flatMap(phase => screenshots.filter(s => s.phase === phase));
+  const activeIndex = ordered.findIndex(s => s.id === activeId);
+  const active = activeIndex >= 0 ? ordered[activeIndex] : undefined;
+
+  const step = (offset: number) => {
+    const next = ordered[activeIndex + offset];
+    if (next) setActiveId(next.id);
+  };
+
+  useEffect(() => {
+    setCaption(active?.caption || '');
+  }, [active?.id, active?.caption]);
+
+  useEffect(() => {
+    if (!active) return;
+    const handleKey = (e: KeyboardEvent) => {
+      if (annotating || (e.target as HTMLElement).tagName === 'INPUT') return;
+      if (e.key === 'ArrowLeft') step(-1);
+      if (e.key === 'ArrowRight') step(1);
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  });
+
+  const handleUpload = async (files: File[], phase: ScreenshotPhase) => {
+    setUploading(true);
+    await uploadScreenshots(files, phase);
+    setUploading(false);
+  };
+
+  const handleDelete = async () => {
+    if (!active) return;
+    const { error } = await deleteScreenshot(active.id);
+    if (!error) {
+      const neighbour = ordered[activeIndex - 1] ?? ordered[activeIndex + 1];
+      setActiveId(neighbour ? neighbour.id : null);
+    }
+  };
+
+  const saveCaption = () => {
+    if (!active || (active.caption || '') === caption.trim()) return;
+    updateScreenshot(active.id, { caption: caption.trim() || null });
+  };
+
+  return (
+    <div className="space-y-4">
+      {loading ? (
+        <p className="text-sm text-muted-foreground">Loading screenshots...</p>
+      ) : ordered.length === 0 ? (
+        !editable && <p className="text-sm text-muted-foreground">No screenshots attached.</p>
+      ) : (
+        <div className="space-y-3">
+          {SCREENSHOT_PHASES.map(phase => {
+            const items = ordered.filter(s => s.phase === phase);
+            if (items.length === 0) return null;
+            return (
+              <div key={phase} className="space-y-2">
+                <p className="text-xs font-medium text-muted-foreground uppercase tracking-wide">{PHASE_LABELS[phase]}</p>
+                <div className="flex flex-wrap gap-2">
+                  {items.map(shot => (
+                    <button
+                      key={shot.id}
+                      type="button"
+                      onClick={() => setActiveId(shot.id)}
+                      className="relative w-32 h-20 rounded-md overflow-hidden border border-border hover:border-primary transition-colors bg-muted"
+                    >
+                      {urls[shot.storage_path] && (
+                        <AnnotatedImage
+                          src={urls[shot.storage_path]}
+                          alt={shot.caption || `${PHASE_LABELS[shot.phase]} screenshot`}
+                          annotations={shot.annotations}
+                          className="w-full h-full"
+                          imageClassName="w-full h-full object-cover"
+                        />
+                      )}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {editable && <ScreenshotDropzone onFiles={handleUpload} uploading={uploading} />}
+
+      <Dialog open={!!active} onOpenChange={open => !open && setActiveId(null)}>
+        <DialogContent className="max-w-5xl">
+          {active && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-2">
+                  Screenshot {activeIndex + 1} of {ordered.length}
+                  <Badge variant="outline">{PHASE_LABELS[active.phase]}</Badge>
+                </DialogTitle>
+                {active.caption && !editable && <DialogDescription>{active.caption}</DialogDescription>}
+              </DialogHeader>
+
+              <div className="relative flex items-center justify-center bg-muted/30 rounded-lg">
+                {urls[active.storage_path] && (
+                  <AnnotatedImage
+                    src={urls[active.storage_path]}
+                    alt={active.caption || `${PHASE_LABELS[active.phase]} screenshot`}
+                    annotations={active.annotations}
+                    imageClassName="max-h-[65vh]"
+                  />
+                )}
+                <Button
+                  type="button"
+                  variant="secondary"
+                  size="icon"
+                  className="absolute left-2 top-1/2 -translate-y-1/2"
+                  disabled={activeIndex === 0}
+                  onClick={() => step(-1)}
+                >
+                  <ChevronLeft className="w-4 h-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="secondary"
+                  size="icon"
+                  className="absolute right-2 top-1/2 -translate-y-1/2"
+                  disabled={activeIndex === ordered.length - 1}
+                  onClick={() => step(1)}
+                >
+                  <ChevronRight className="w-4 h-4" />
+                </Button>
+              </div>
+
+              {editable && (
+                <div className="flex flex-wrap items-center gap-2">
+                  <Select
+                    value={active.phase}
+                    onValueChange={value => updateScreenshot(active.id, { phase: value as ScreenshotPhase })}
+                  >
+                    <SelectTrigger className="w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SCREENSHOT_PHASES.map(p => (
+                        <SelectItem key={p} value={p}>{PHASE_LABELS[p]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    value={caption}
+                    onChange={e => setCaption(e.target.value)}
+                    onBlur={saveCaption}
+                    onKeyDown={e => e.key === 'Enter' && saveCaption()}
+                    placeholder="Caption"
+                    className="flex-1 min-w-48"
+                  />
+                  <Button type="button" variant="outline" onClick={() => setAnnotating(true)}>
+                    <PenLine className="w-4 h-4 mr-2" /> Annotate
+                  </Button>
+                  <Button type="button" variant="outline" className="text-destructive" onClick={handleDelete}>
+                    <Trash2 className="w-4 h-4 mr-2" /> Delete
+                  </Button>
+                </div>
+              )}
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AnnotationEditor
+        open={annotating && !!active}
+        src={active ? urls[active.storage_path] ?? null : null}
+        annotations={active?.annotations ?? []}
+        onOpenChange={setAnnotating}
+        onSave={annotations => updateScreenshot(active!.id, { annotations })}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+import { TagColor } from '@/types/trade';
+import { DEFAULT_TAG_COLOR, TAG_COLORS } from '@/utils/tags';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+
+interface TagBadgeProps {
+  name: string;
+  color?: TagColor;
+  className?: string;
+}
+
+export function TagBadge({ name, color = DEFAULT_TAG_COLOR, className }: TagBadgeProps) {
+  return (
+    <Badge variant="outline" className={cn('font-normal', TAG_COLORS[color].badge, className)}>
+      {name}
+    </Badge>
+  );
+}
@@ -0,0 +1,100 @@
+import { forwardRef, useState } from 'react';
+import { TagUsage } from '@/utils/tags';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+
+interface TagInputProps extends Omit<React.ComponentProps<'input'>, 'value' | 'onChange'> {
+  value: string;
+  onChange: (value: string) => void;
+  tags: TagUsage[];
+}
+
+const MAX_SUGGESTIONS = 8;
+
+// Comma separated tag input that suggests existing tags for the tag being typed
+export const TagInput = forwardRef<HTMLInputElement, TagInputProps>(
+  ({ value, onChange, tags, onBlur, onKeyDown, ...props }, ref) => {
+    const [open, setOpen] = useState(false);
+    const [highlighted, setHighlighted] = useState(0);
+
+    const parts = value.split(',');
+    const current = parts[parts.length - 1].trim().toLowerCase();
+    const entered = new Set(parts.slice(0, -1).map(p => p.trim()));
+    const suggestions = tags
+      .filter(t => !entered.has(t.name) && t.name.toLowerCase().includes(current) && t.name.toLowerCase() !== current)
+      .slice(0, MAX_SUGGESTIONS);
+
+    const choose = (name: string) => {
+      onChange([...parts.slice(0, -1).map(p => p.trim()).filter(Boolean), name].join(', ') + ', ');
+      setHighlighted(0);
+    };
+
+    const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+      if (open && suggestions.length > 0) {
+        if (event.key === 'ArrowDown') {
+          event.preventDefault();
+          setHighlighted(i => (i + 1) % suggestions.length);
+          return;
+        }
+        if (event.key === 'ArrowUp') {
+          event.preventDefault();
+          setHighlighted(i => (i - 1 + suggestions.length) % suggestions.length);
+          return;
+        }
+        if ((event.key === 'Enter' || event.key === 'Tab') && current) {
+          event.preventDefault();
+          choose(suggestions[Math.min(highlighted, suggestions.length - 1)].name);
+          return;
+        }
+        if (event.key === 'Escape') {
+          setOpen(false);
+          return;
+        }
+      }
+      onKeyDown?.(event);
+    };
+
+    return (
+      <div className="relative">
+        <Input
+          ref={ref}
+          autoComplete="off"
+          value={value}
+          onChange={(e) => {
+            onChange(e.target.value);
+            setOpen(true);
+            setHighlighted(0);
+          }}
+          onFocus={() => setOpen(true)}
+          onBlur={(e) => {
+            setOpen(false);
+            onBlur?.(e);
+          }}
+          onKeyDown={handleKeyDown}
+          {...props}
+        />
+        {open && suggestions.length > 0 && (
+          <div className="absolute z-50 mt-1 w-full rounded-md border bg-popover p-1 shadow-md">
+            {suggestions.map((tag, index) => (
+              <button
+                key={tag.name}
+                type="button"
+                className={cn(
+                  'flex w-full items-center justify-between rounded-sm px-2 py-1.5 text-sm',
+                  index === highlighted ? 'bg-accent text-accent-foreground' : 'hover:bg-muted',
+                )}
+                // Keeps focus in the input so the blur handler doesn't close the list first
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => choose(tag.name)}
+              >
+                <span>{tag.name}</span>
+                <span className="text-xs text-muted-foreground">{tag.trades} trade{tag.trades === 1 ? '' : 's'}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  },
+);
+TagInput.displayName = 'TagInput';
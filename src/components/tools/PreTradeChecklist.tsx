@@ -1,66 +1,19 @@
 import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
-import { ClipboardCheck, Target, Zap, AlertTriangle } from 'lucide-react';
+import { useChecklistRules } from '@/hooks/useChecklistRules';
+import { RuleAnswer } from '@/types/trade';
+import { getChecklistScore } from '@/utils/checklist';
+import { ClipboardCheck, Target, Zap, AlertTriangle, Settings2 } from 'lucide-react';
 
-const RULES = [
-  {
-    field: 'rule_in_plan',
-    label: 'In trading plan?',
-    description: 'Is this setup clearly defined in your trading plan?',
-  },
-  {
-    field: 'rule_bos',
-    label: 'BoS confirmed?',
-    description: 'Has market structure clearly broken in your trade direction?',
-  },
-  {
-    field: 'rule_liquidity',
-    label: 'Liquidity identified?',
-    description: 'Have you identified key liquidity pools and levels?',
-  },
-  {
-    field: 'rule_trend',
-    label: 'With the trend?',
-    description: 'Are you trading in line with the higher-timeframe trend?',
-  },
-  {
-    field: 'rule_news',
-    label: 'Checked news?',
-    description: 'Have you checked the calendar for high-impact news?',
-  },
-  {
-    field: 'rule_rr',
-    label: 'R:R ≥ 1:2?',
-    description: 'Is the minimum risk-to-reward ratio at least 1:2?',
-  },
-  {
-    field: 'rule_emotions',
-    label: 'Emotionally calm?',
-    description: 'Are you calm, focused and not trading from FOMO or revenge?',
-  },
-  {
-    field: 'rule_lot_size',
-    label: 'Correct lot size?',
-    description: 'Is your position size correct for your planned risk?',
-  },
-] as const;
-
-export type ChecklistRuleField = (typeof RULES)[number]['field'];
-export type ChecklistRuleAnswer = 'yes' | 'no' | 'n/a' | '';
+export type ChecklistRuleAnswer = RuleAnswer | '';
 
 export interface PreTradeChecklistValues {
   setup_type?: string;
   probability?: string;
-  rule_in_plan?: ChecklistRuleAnswer;
-  rule_bos?: ChecklistRuleAnswer;
-  rule_liquidity?: ChecklistRuleAnswer;
-  rule_trend?: ChecklistRuleAnswer;
-  rule_news?: ChecklistRuleAnswer;
-  rule_rr?: ChecklistRuleAnswer;
-  rule_emotions?: ChecklistRuleAnswer;
-  rule_lot_size?: ChecklistRuleAnswer;
+  rule_answers?: Record<string, ChecklistRuleAnswer>;
 }
 
 interface PreTradeChecklistProps {
@@ -68,19 +21,13 @@ interface PreTradeChecklistProps {
   onChange?: (values: PreTradeChecklistValues) => void;
   onReadyChange?: (ready: boolean) => void;
   hideStatusBanner?: boolean;
+  ruleIds?: string[]; // Limits the checklist to a playbook's linked rules
 }
 
 const DEFAULT_VALUES: PreTradeChecklistValues = {
   setup_type: '',
   probability: '',
-  rule_in_plan: '',
-  rule_bos: '',
-  rule_liquidity: '',
-  rule_trend: '',
-  rule_news: '',
-  rule_rr: '',
-  rule_emotions: '',
-  rule_lot_size: '',
+  rule_answers: {},
 };
 
 export function PreTradeChecklist({
@@ -88,10 +35,18 @@ export function PreTradeChecklist({
   onChange,
   onReadyChange,
   hideStatusBanner,
+  ruleIds,
 }: PreTradeChecklistProps) {
   const [internalValues, setInternalValues] = useState<PreTradeChecklistValues>(DEFAULT_VALUES);
+  const { rules, loading } = useChecklistRules();
 
   const currentValues = values ?? internalValues;
+  const answers = currentValues.rule_answers || {};
+  const inScope = (id: string) => !ruleIds?.length || ruleIds.includes(id);
+  const activeRules = rules.filter(rule => !rule.archived_at && inScope(rule.id));
+  // Archived or out-of-scope rules stay visible on trades that already answered them
+  const visibleRules = rules.filter(rule => activeRules.includes(rule) || !!answers[rule.id]);
+  const score = getChecklistScore(answers, visibleRules);
 
   const updateValues = (patch: Partial<PreTradeChecklistValues>) => {
     const next = { ...currentValues, ...patch };
@@ -102,12 +57,10 @@ export function PreTradeChecklist({
     }
   };
 
-  const allRulesAnswered = RULES.every((rule) => {
-    const value = currentValues[rule.field as ChecklistRuleField];
-    return value === 'yes' || value === 'no' || value === 'n/a';
-  });
+  const allRulesAnswered = activeRules.every((rule) => !!answers[rule.id]);
 
   const isReady =
+    !loading &&
     allRulesAnswered &&
     !!currentValues.setup_type &&
     !!currentValues.probability;
@@ -121,9 +74,18 @@ export function PreTradeChecklist({
   return (
     <Card className="gradient-card h-full">
       <CardHeader>
-        <CardTitle className="flex items-center gap-2">
-          <ClipboardCheck className="w-5 h-5 text-primary" />
-          Pre-Trade Checklist
+        <CardTitle className="flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            <ClipboardCheck className="w-5 h-5 text-primary" />
+            Pre-Trade Checklist
+          </span>
+          <Link
+            to="/settings/checklist"
+            className="text-xs font-normal text-muted-foreground hover:text-primary flex items-center gap-1"
+          >
+            <Settings2 className="w-3 h-3" />
+            Edit rules
+          </Link>
         </CardTitle>
         <CardDescription>
           Verify your rules before taking the setup
@@ -192,34 +154,49 @@ export function PreTradeChecklist({
           </RadioGroup>
         </div>
 
-        {/* Technical Rules */}
+        {/* Checklist Rules */}
         <div className="space-y-3">
-          <Label className="text-sm font-semibold flex items-center gap-2">
-            <ClipboardCheck className="w-4 h-4 text-primary" />
-            Technical Rules
+          <Label className="text-sm font-semibold flex items-center justify-between gap-2">
+            <span className="flex items-center gap-2">
+              <ClipboardCheck className="w-4 h-4 text-primary" />
+              Rules
+            </span>
+            {score !== null && (
+              <span className="text-xs font-normal text-muted-foreground">
+                Score {score.toFixed(0)}%
+              </span>
+            )}
           </Label>
+          {!loading && visibleRules.length === 0 && (
+            <p className="text-xs text-muted-foreground">
+              No rules yet. <Link to="/settings/checklist" className="text-primary hover:underline">Add your first rule</Link> to build your checklist.
+            </p>
+          )}
           <div className="space-y-2">
-            {RULES.map((rule) => {
-              const value = (currentValues[
-                rule.field as ChecklistRuleField
-              ] || '') as ChecklistRuleAnswer;
+            {visibleRules.map((rule) => {
+              const value = answers[rule.id] || '';
 
               return (
                 <div
-                  key={rule.field}
+                  key={rule.id}
                   className="flex flex-col space-y-1 p-2 rounded-md hover:bg-muted/50 transition-colors"
                 >
                   <div className="flex items-center justify-between gap-2">
                     <span className="text-xs font-medium">
                       {rule.label}
+                      {rule.archived_at && (
+                        <span className="ml-1 text-[10px] text-muted-foreground">(archived)</span>
+                      )}
                     </span>
                     <RadioGroup
                       value={value}
                       onValueChange={(answer) =>
                         updateValues({
-                          [rule.field]:
-                            answer as ChecklistRuleAnswer,
-                        } as Partial<PreTradeChecklistValues>)
+                          rule_answers: {
+                            ...answers,
+                            [rule.id]: answer as ChecklistRuleAnswer,
+                          },
+                        })
                       }
                       className="flex items-center gap-2"
                     >
@@ -230,11 +207,11 @@ export function PreTradeChecklist({
                         >
                           <RadioGroupItem
                             value={option}
-                            id={`${rule.field}-${option}`}
+                            id={`${rule.id}-${option}`}
                             className="h-3 w-3"
                           />
                           <Label
-                            htmlFor={`${rule.field}-${option}`}
+                            htmlFor={`${rule.id}-${option}`}
                             className="text-[11px] font-normal cursor-pointer uppercase"
                           >
                             {option}
@@ -243,9 +220,11 @@ export function PreTradeChecklist({
                       ))}
                     </RadioGroup>
                   </div>
-                  <p className="text-[11px] text-muted-foreground">
-                    {rule.description}
-                  </p>
+                  {rule.description && (
+                    <p className="text-[11px] text-muted-foreground">
+                      {rule.description}
+                    </p>
+                  )}
                 </div>
               );
             })}
@@ -263,7 +242,7 @@ export function PreTradeChecklist({
             {!isReady &&
               (currentValues.setup_type ||
                 currentValues.probability ||
-                RULES.some((rule) => currentValues[rule.field as ChecklistRuleField])) && (
+                Object.values(answers).some(Boolean)) && (
                 <div className="mt-4 p-3 rounded-lg bg-muted/30 border border-dashed border-muted-foreground/20 text-muted-foreground text-[11px] flex items-center gap-2">
                   <AlertTriangle className="w-3 h-3" />
                   Finish all selections to confirm readiness.
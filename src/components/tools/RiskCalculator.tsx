@@ -2,8 +2,19 @@ import { useState, useEffect } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { useInstruments } from '@/hooks/useInstruments';
+import { calculateLotSize, getPipValue } from '@/utils/instruments';
 import { Calculator, Info } from 'lucide-react';
 
+const CUSTOM = 'custom';
+
 export function RiskCalculator() {
     const [accountSize, setAccountSize] = useState<number>(10000);
     const [riskPercent, setRiskPercent] = useState<number>(1);
@@ -11,19 +22,25 @@ export function RiskCalculator() {
     const [pipValue, setPipValue] = useState<number>(10); // Standard lot default
     const [lotSize, setLotSize] = useState<number>(0);
     const [riskAmount, setRiskAmount] = useState<number>(0);
+    const [instrumentId, setInstrumentId] = useState<string>(CUSTOM);
+    const [price, setPrice] = useState<number>(0);
+    const { instruments } = useInstruments();
+
+    const instrument = instruments.find(i => i.id === instrumentId) || null;
+    const instrumentPipValue = instrument ? getPipValue(instrument, price) : null;
+    const needsPrice = Boolean(instrument && !instrument.tick_value && instrument.quote_currency !== 'USD');
+
+    useEffect(() => {
+        if (instrumentPipValue !== null) {
+            setPipValue(Number(instrumentPipValue.toFixed(4)));
+        }
+    }, [instrumentPipValue]);
 
     useEffect(() => {
         const calculatedRiskAmount = (accountSize * riskPercent) / 100;
         setRiskAmount(calculatedRiskAmount);
 
-        if (stopLossPips > 0 && pipValue > 0) {
-            // Basic formula: Lot Size = Risk Amount / (Stop Loss * Pip Value)
-            // For Forex: Lot Size = Risk Amount / (Stop Loss * 10) [assuming 1 lot = $10/pip]
-            const calculatedLotSize = calculatedRiskAmount / (stopLossPips * pipValue);
-            setLotSize(Number(calculatedLotSize.toFixed(2)));
-        } else {
-            setLotSize(0);
-        }
+        setLotSize(calculateLotSize(calculatedRiskAmount, stopLossPips, pipValue));
     }, [accountSize, riskPercent, stopLossPips, pipValue]);
 
     return (
@@ -37,6 +54,20 @@ export function RiskCalculator() {
             </CardHeader>
             <CardContent className="space-y-4">
                 <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2 col-span-2">
+                        <Label>Instrument</Label>
+                        <Select value={instrumentId} onValueChange={setInstrumentId}>
+                            <SelectTrigger>
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value={CUSTOM}>Custom pip value</SelectItem>
+                                {instruments.map(i => (
+                                    <SelectItem key={i.id} value={i.id}>{i.symbol}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
                     <div className="space-y-2">
                         <Label htmlFor="accountSize">Account Balance ($)</Label>
                         <Input
@@ -73,6 +104,17 @@ export function RiskCalculator() {
                             onChange={(e) => setPipValue(Number(e.target.value))}
                         />
                     </div>
+                    {needsPrice && (
+                        <div className="space-y-2">
+                            <Label htmlFor="price">{instrument?.symbol} Price</Label>
+                            <Input
+                                id="price"
+                                type="number"
+                                value={price || ''}
+                                onChange={(e) => setPrice(Number(e.target.value))}
+                            />
+                        </div>
+                    )}
                 </div>
 
                 <div className="mt-6 p-4 rounded-lg bg-primary/5 border border-primary/10 space-y-3">
@@ -89,8 +131,8 @@ export function RiskCalculator() {
                 <div className="flex gap-2 p-3 rounded-md bg-muted/50 text-[10px] leading-tight text-muted-foreground">
                     <Info className="w-3 h-3 shrink-0" />
                     <p>
-                        Standard lot calculation. For Forex, $10 pip value is typical for EURUSD.
-                        Adjust based on your broker's contract specifications.
+                        Pick an instrument to use the pip value from your instrument registry, or enter
+                        your own. Pairs not quoted in USD need a price or a tick value to convert.
                     </p>
                 </div>
             </CardContent>
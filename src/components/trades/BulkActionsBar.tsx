@@ -0,0 +1,168 @@
+import { useState } from 'react';
+import { BulkTradeEdit, Playbook, Trade, TradingAccount } from '@/types/trade';
+import { BulkTradeChange, describeBulkEdit, planBulkEdit } from '@/utils/bulkEdit';
+import { TagUsage } from '@/utils/tags';
+import { TRASH_RETENTION_DAYS } from '@/utils/trash';
+import { BulkEditDialog } from './BulkEditDialog';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { CheckCheck, Download, Loader2, Pencil, Trash2, X } from 'lucide-react';
+
+interface BulkActionsBarProps {
+  selected: Trade[];
+  matchingCount: number; // Trades matching the current filters, across all pages
+  onSelectAll: () => void;
+  accounts: TradingAccount[];
+  playbooks: Playbook[];
+  strategies: string[];
+  setupTypes: string[];
+  tags: TagUsage[];
+  onApply: (changes: BulkTradeChange[]) => Promise<{ error: unknown }>;
+  onDelete: (ids: string[]) => Promise<{ error: unknown }>;
+  onExport: () => void;
+  onClear: () => void;
+}
+
+type PendingAction =
+  | { kind: 'edit'; lines: string[]; changes: BulkTradeChange[] }
+  | { kind: 'delete' };
+
+export function BulkActionsBar({
+  selected,
+  matchingCount,
+  onSelectAll,
+  accounts,
+  playbooks,
+  strategies,
+  setupTypes,
+  tags,
+  onApply,
+  onDelete,
+  onExport,
+  onClear,
+}: BulkActionsBarProps) {
+  const [editOpen, setEditOpen] = useState(false);
+  const [editKey, setEditKey] = useState(0);
+  const [pending, setPending] = useState<PendingAction | null>(null);
+  const [working, setWorking] = useState(false);
+
+  const count = selected.length;
+  const noun = count === 1 ? 'trade' : 'trades';
+  const updateCount = pending?.kind === 'edit' ? pending.changes.length : 0;
+
+  const review = (edit: BulkTradeEdit) => {
+    const changes = planBulkEdit(selected, edit, playbooks);
+    setPending({ kind: 'edit', lines: describeBulkEdit(edit, changes, accounts), changes });
+  };
+
+  const confirm = async () => {
+    if (!pending) return;
+    setWorking(true);
+    const { error } = pending.kind === 'delete'
+      ? await onDelete(selected.map(t => t.id))
+      : await onApply(pending.changes);
+    setWorking(false);
+    setPending(null);
+    if (!error) {
+      setEditOpen(false);
+      setEditKey(key => key + 1);
+      onClear();
+    }
+  };
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center gap-2 rounded-lg border border-primary/30 bg-primary/5 px-4 py-2">
+        <div className="flex items-center gap-2 mr-auto text-sm">
+          <span className="font-medium">{count} {noun} selected</span>
+          {count < matchingCount && (
+            <Button variant="link" size="sm" className="h-auto p-0" onClick={onSelectAll}>
+              Select all {matchingCount} matching trades
+            </Button>
+          )}
+        </div>
+        <Button variant="outline" size="sm" onClick={() => setEditOpen(true)}>
+          <Pencil className="w-4 h-4 mr-2" />
+          Edit
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => review({ needs_review: false })}>
+          <CheckCheck className="w-4 h-4 mr-2" />
+          Mark reviewed
+        </Button>
+        <Button variant="outline" size="sm" onClick={onExport}>
+          <Download className="w-4 h-4 mr-2" />
+          Export
+        </Button>
+        <Button variant="outline" size="sm" className="text-destructive" onClick={() => setPending({ kind: 'delete' })}>
+          <Trash2 className="w-4 h-4 mr-2" />
+          Delete
+        </Button>
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onClear} aria-label="Clear selection">
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <BulkEditDialog
+        key={editKey}
+        open={editOpen}
+        onOpenChange={setEditOpen}
+        count={count}
+        accounts={accounts}
+        playbooks={playbooks}
+        strategies={strategies}
+        setupTypes={setupTypes}
+        tags={tags}
+        onReview={review}
+      />
+
+      <AlertDialog open={!!pending} onOpenChange={(open) => !open && !working && setPending(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{pending?.kind === 'delete' ? `Delete ${count} ${noun}` : 'Apply Changes'}</AlertDialogTitle>
+            <AlertDialogDescription asChild>
+              {pending?.kind === 'edit' ? (
+                <div className="space-y-2">
+                  {updateCount === 0 ? (
+                    <p>The selected {noun} already have these values, so nothing will change.</p>
+                  ) : (
+                    <>
+                      <ul className="list-disc pl-5 space-y-1">
+                        {pending.lines.map(line => <li key={line}>{line}</li>)}
+                      </ul>
+                      <p>You can undo this right after it's applied.</p>
+                    </>
+                  )}
+                </div>
+              ) : (
+                <p>Move the selected {noun} to the trash? You can restore them for {TRASH_RETENTION_DAYS} days.</p>
+              )}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={working}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={working || (pending?.kind === 'edit' && updateCount === 0)}
+              onClick={(e) => {
+                e.preventDefault();
+                confirm();
+              }}
+              className={pending?.kind === 'delete' ? 'bg-destructive text-destructive-foreground hover:bg-destructive/90' : undefined}
+            >
+              {working && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {pending?.kind === 'delete' ? 'Move to Trash' : `Update ${updateCount} ${updateCount === 1 ? 'trade' : 'trades'}`}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,166 @@
+import { useState } from 'react';
+import { BulkTradeEdit, Playbook, TradingAccount } from '@/types/trade';
+import { TagUsage, parseTags } from '@/utils/tags';
+import { isEmptyBulkEdit } from '@/utils/bulkEdit';
+import { TagInput } from '@/components/tags/TagInput';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface BulkEditDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  count: number;
+  accounts: TradingAccount[];
+  playbooks: Playbook[];
+  strategies: string[];
+  setupTypes: string[];
+  tags: TagUsage[];
+  onReview: (edit: BulkTradeEdit) => void;
+}
+
+const KEEP = 'keep';
+const CLEAR = 'clear';
+const DEFAULT_SETUP_TYPES = ['Type 1', 'Type 2', 'Type 3'];
+
+export function BulkEditDialog({ open, onOpenChange, count, accounts, playbooks, strategies, setupTypes, tags, onReview }: BulkEditDialogProps) {
+  const [strategy, setStrategy] = useState(KEEP);
+  const [setupType, setSetupType] = useState(KEEP);
+  const [accountId, setAccountId] = useState(KEEP);
+  const [review, setReview] = useState(KEEP);
+  const [addTags, setAddTags] = useState('');
+  const [removeTags, setRemoveTags] = useState('');
+
+  const playbookNames = playbooks.map(p => p.name);
+  const otherStrategies = strategies.filter(s => !playbookNames.includes(s));
+  const setupOptions = Array.from(new Set([...DEFAULT_SETUP_TYPES, ...setupTypes]));
+
+  const edit: BulkTradeEdit = {
+    strategy: strategy === KEEP ? undefined : strategy === CLEAR ? null : strategy,
+    setup_type: setupType === KEEP ? undefined : setupType === CLEAR ? null : setupType,
+    account_id: accountId === KEEP ? undefined : accountId === CLEAR ? null : accountId,
+    needs_review: review === KEEP ? undefined : review === 'needs_review',
+    add_tags: parseTags(addTags),
+    remove_tags: parseTags(removeTags),
+  };
+
+  const reset = () => {
+    setStrategy(KEEP);
+    setSetupType(KEEP);
+    setAccountId(KEEP);
+    setReview(KEEP);
+    setAddTags('');
+    setRemoveTags('');
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        onOpenChange(next);
+        if (!next) reset();
+      }}
+    >
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Edit {count} {count === 1 ? 'Trade' : 'Trades'}</DialogTitle>
+          <DialogDescription>Only the fields you change are updated; everything else stays as it is on each trade.</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Strategy</Label>
+              <Select value={strategy} onValueChange={setStrategy}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={KEEP}>Keep as is</SelectItem>
+                  <SelectItem value={CLEAR}>Clear strategy</SelectItem>
+                  {playbookNames.length > 0 && <SelectSeparator />}
+                  {playbookNames.map(name => <SelectItem key={name} value={name}>{name}</SelectItem>)}
+                  {otherStrategies.length > 0 && <SelectSeparator />}
+                  {otherStrategies.map(name => <SelectItem key={name} value={name}>{name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Setup type</Label>
+              <Select value={setupType} onValueChange={setSetupType}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={KEEP}>Keep as is</SelectItem>
+                  <SelectItem value={CLEAR}>Clear setup type</SelectItem>
+                  <SelectSeparator />
+                  {setupOptions.map(type => <SelectItem key={type} value={type}>{type}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="bulk-add-tags">Add tags</Label>
+            <TagInput id="bulk-add-tags" value={addTags} onChange={setAddTags} tags={tags} placeholder="e.g. news, a+ setup" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="bulk-remove-tags">Remove tags</Label>
+            <TagInput id="bulk-remove-tags" value={removeTags} onChange={setRemoveTags} tags={tags} placeholder="Tags to take off" />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Review</Label>
+              <Select value={review} onValueChange={setReview}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={KEEP}>Keep as is</SelectItem>
+                  <SelectItem value="reviewed">Mark reviewed</SelectItem>
+                  <SelectItem value="needs_review">Needs review</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Account</Label>
+              <Select value={accountId} onValueChange={setAccountId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={KEEP}>Keep as is</SelectItem>
+                  <SelectItem value={CLEAR}>No account</SelectItem>
+                  {accounts.length > 0 && <SelectSeparator />}
+                  {accounts.map(account => <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button disabled={isEmptyBulkEdit(edit)} onClick={() => onReview(edit)}>Review Changes</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,183 @@
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { ExitReason, Trade, TradeFormData } from '@/types/trade';
+import { toDateTimeInput } from '@/utils/timezone';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+
+const closeSchema = z.object({
+  exit_price: z.coerce.number().min(0, 'Exit price cannot be negative'),
+  exit_date: z.string().min(1, 'Exit date is required'),
+  exit_reason: z.enum(['sl_hit', 'tp_hit', 'manual_close', 'breakeven']),
+  profit_loss: z.coerce.number(),
+});
+
+type CloseFormValues = z.infer<typeof closeSchema>;
+
+interface CloseTradeDialogProps {
+  trade: Trade | null;
+  onOpenChange: (open: boolean) => void;
+  onClose: (id: string, data: Partial<TradeFormData>) => Promise<{ error: Error | null }>;
+}
+
+export function CloseTradeDialog({ trade, onOpenChange, onClose }: CloseTradeDialogProps) {
+  const [saving, setSaving] = useState(false);
+
+  const form = useForm<CloseFormValues>({
+    resolver: zodResolver(closeSchema),
+    defaultValues: {
+      exit_price: 0,
+      exit_date: toDateTimeInput(new Date()),
+      exit_reason: 'manual_close',
+      profit_loss: 0,
+    },
+  });
+
+  useEffect(() => {
+    if (trade) {
+      form.reset({
+        exit_price: trade.entry_price,
+        exit_date: toDateTimeInput(new Date()),
+        exit_reason: 'manual_close',
+        profit_loss: trade.floating_pl ?? 0,
+      });
+    }
+  }, [trade]);
+
+  const onSubmit = async (data: CloseFormValues) => {
+    if (!trade) return;
+    setSaving(true);
+    const { error } = await onClose(trade.id, {
+      exit_price: data.exit_price,
+      exit_date: new Date(data.exit_date),
+      exit_reason: data.exit_reason as ExitReason,
+      status: data.profit_loss > 0 ? 'win' : data.profit_loss < 0 ? 'loss' : 'breakeven',
+      reward_amount: Math.abs(data.profit_loss),
+    });
+    setSaving(false);
+    if (!error) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={Boolean(trade)} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Close {trade?.symbol} position</DialogTitle>
+          <DialogDescription>
+            Record how the trade ended. It will move into your realised stats.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="exit_price"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Exit Price</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.00001" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="exit_date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Exit Date & Time</FormLabel>
+                    <FormControl>
+                      <Input type="datetime-local" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="exit_reason"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Exit Reason</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="tp_hit">Take Profit Hit</SelectItem>
+                        <SelectItem value="sl_hit">Stop Loss Hit</SelectItem>
+                        <SelectItem value="manual_close">Manual Close</SelectItem>
+                        <SelectItem value="breakeven">Moved to Breakeven</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="profit_loss"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Realised P&L ($)</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.01" {...field} />
+                    </FormControl>
+                    <FormDescription>Negative for a loss</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Close Trade
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,210 @@
+import { useFieldArray, useFormContext, useWatch } from 'react-hook-form';
+import { z } from 'zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { summarizeExecutions } from '@/utils/executions';
+import { toDateTimeInput } from '@/utils/timezone';
+import { useCurrency } from '@/hooks/useCurrency';
+import { cn } from '@/lib/utils';
+import { Layers, Plus, Trash2 } from 'lucide-react';
+
+export const executionSchema = z.object({
+  id: z.string().optional(), // Set for fills already saved
+  side: z.enum(['entry', 'exit']),
+  price: z.coerce.number().min(0, 'Price cannot be negative'),
+  volume: z.coerce.number().positive('Volume must be positive'),
+  executed_at: z.string().min(1, 'Time is required'),
+  profit_loss: z.coerce.number().optional().or(z.literal('')),
+});
+
+export type ExecutionRowValues = z.infer<typeof executionSchema>;
+
+// Drops half-typed rows so the live summary only reflects complete fills
+export function toCompleteExecutions(rows: ExecutionRowValues[] = []) {
+  return rows
+    .filter(row => Number(row.volume) > 0 && String(row.price) !== '' && row.executed_at)
+    .map(row => ({
+      id: row.id,
+      side: row.side,
+      price: Number(row.price),
+      volume: Number(row.volume),
+      executed_at: new Date(row.executed_at),
+      profit_loss: row.side === 'exit' && row.profit_loss !== '' && row.profit_loss !== undefined
+        ? Number(row.profit_loss)
+        : undefined,
+    }));
+}
+
+export function ExecutionsEditor() {
+  const { control } = useFormContext<{ executions: ExecutionRowValues[]; account_id?: string }>();
+  const { fields, append, remove } = useFieldArray({ control, name: 'executions' });
+  const rows = useWatch({ control, name: 'executions' });
+  const accountId = useWatch({ control, name: 'account_id' });
+  const { formatTrade } = useCurrency();
+  const summary = summarizeExecutions(toCompleteExecutions(rows));
+
+  const addRow = (side: ExecutionRowValues['side']) => {
+    append({
+      side,
+      price: '' as unknown as number,
+      volume: '' as unknown as number,
+      executed_at: toDateTimeInput(new Date()),
+      profit_loss: '',
+    });
+  };
+
+  const formatPrice = (value: number | null) => (value === null ? '-' : value.toFixed(5));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="font-medium flex items-center gap-2">
+            <Layers className="w-4 h-4 text-primary" />
+            Executions
+          </h3>
+          <p className="text-xs text-muted-foreground">
+            Log scale-ins and partial closes; averages and P&L are calculated from the fills
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button type="button" variant="outline" size="sm" onClick={() => addRow('entry')}>
+            <Plus className="w-3 h-3 mr-1" /> Entry
+          </Button>
+          <Button type="button" variant="outline" size="sm" onClick={() => addRow('exit')}>
+            <Plus className="w-3 h-3 mr-1" /> Exit
+          </Button>
+        </div>
+      </div>
+
+      {fields.length > 0 && (
+        <div className="space-y-3">
+          {fields.map((field, index) => (
+            <div key={field.id} className="grid grid-cols-2 sm:grid-cols-6 gap-2 items-end p-3 rounded-lg border">
+              <FormField
+                control={control}
+                name={`executions.${index}.side`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-xs">Side</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="entry">Entry</SelectItem>
+                        <SelectItem value="exit">Exit</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={control}
+                name={`executions.${index}.price`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-xs">Price</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.00001" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={control}
+                name={`executions.${index}.volume`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-xs">Volume</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.01" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={control}
+                name={`executions.${index}.executed_at`}
+                render={({ field }) => (
+                  <FormItem className="col-span-2 sm:col-span-1">
+                    <FormLabel className="text-xs">Time</FormLabel>
+                    <FormControl>
+                      <Input type="datetime-local" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={control}
+                name={`executions.${index}.profit_loss`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-xs">P&L ($)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        step="0.01"
+                        placeholder={rows?.[index]?.side === 'exit' ? '0.00' : '-'}
+                        {...field}
+                        disabled={rows?.[index]?.side !== 'exit'}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button type="button" variant="ghost" size="icon" onClick={() => remove(index)}>
+                <Trash2 className="w-4 h-4 text-destructive" />
+              </Button>
+            </div>
+          ))}
+
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-sm p-3 rounded-lg bg-muted/50">
+            <div>
+              <p className="text-xs text-muted-foreground">Avg Entry</p>
+              <p className="font-mono">{formatPrice(summary.averageEntry)}</p>
+            </div>
+            <div>
+              <p className="text-xs text-muted-foreground">Avg Exit</p>
+              <p className="font-mono">{formatPrice(summary.averageExit)}</p>
+            </div>
+            <div>
+              <p className="text-xs text-muted-foreground">Volume (open)</p>
+              <p className="font-mono">{summary.entryVolume.toFixed(2)} ({summary.openVolume.toFixed(2)})</p>
+            </div>
+            <div>
+              <p className="text-xs text-muted-foreground">Realised P&L</p>
+              <p className={cn(
+                'font-mono',
+                summary.realizedPL !== null && summary.realizedPL > 0 && 'text-success',
+                summary.realizedPL !== null && summary.realizedPL < 0 && 'text-destructive',
+              )}>
+                {summary.realizedPL === null ? '-' : formatTrade({ account_id: accountId ?? null }, summary.realizedPL)}
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
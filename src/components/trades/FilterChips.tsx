@@ -0,0 +1,42 @@
+import { ChecklistRule, TradeFilters } from '@/types/trade';
+import { getFilterChips } from '@/utils/tradeFilters';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { X } from 'lucide-react';
+
+interface FilterChipsProps {
+  filters: TradeFilters;
+  rules?: ChecklistRule[];
+  onChange: (filters: TradeFilters) => void;
+}
+
+export function FilterChips({ filters, rules, onChange }: FilterChipsProps) {
+  const chips = getFilterChips(filters, rules);
+  if (chips.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {chips.map(chip => (
+        <Badge key={chip.key} variant="secondary" className="gap-1 pr-1 font-normal">
+          {chip.label}
+          <button
+            type="button"
+            className="rounded-full p-0.5 hover:bg-background/60"
+            onClick={() => onChange(chip.without)}
+            aria-label={`Remove ${chip.label}`}
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </Badge>
+      ))}
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-6 px-2 text-xs"
+        onClick={() => onChange(filters.search ? { search: filters.search } : {})}
+      >
+        Clear filters
+      </Button>
+    </div>
+  );
+}
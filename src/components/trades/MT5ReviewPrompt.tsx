@@ -11,6 +11,8 @@ import {
 } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { PreTradeChecklist, PreTradeChecklistValues } from '@/components/tools/PreTradeChecklist';
+import { toRuleAnswers } from '@/utils/checklist';
+import { MT5_SYNC_STRATEGY } from '@/utils/playbooks';
 import { Badge } from '@/components/ui/badge';
 import { useNavigate } from 'react-router-dom';
 import { cn } from '@/lib/utils';
@@ -26,7 +28,7 @@ export function MT5ReviewPrompt() {
   const pendingTrades = useMemo(
     () =>
       trades.filter(
-        (t) => t.needs_review && t.strategy === 'MT5 Auto-Sync'
+        (t) => t.needs_review && t.strategy === MT5_SYNC_STRATEGY
       ),
     [trades]
   );
@@ -46,14 +48,7 @@ export function MT5ReviewPrompt() {
     setChecklistValues({
       setup_type: current.setup_type || '',
       probability: current.probability || '',
-      rule_in_plan: (current.rule_in_plan as PreTradeChecklistValues['rule_in_plan']) || '',
-      rule_bos: (current.rule_bos as PreTradeChecklistValues['rule_bos']) || '',
-      rule_liquidity: (current.rule_liquidity as PreTradeChecklistValues['rule_liquidity']) || '',
-      rule_trend: (current.rule_trend as PreTradeChecklistValues['rule_trend']) || '',
-      rule_news: (current.rule_news as PreTradeChecklistValues['rule_news']) || '',
-      rule_rr: (current.rule_rr as PreTradeChecklistValues['rule_rr']) || '',
-      rule_emotions: (current.rule_emotions as PreTradeChecklistValues['rule_emotions']) || '',
-      rule_lot_size: (current.rule_lot_size as PreTradeChecklistValues['rule_lot_size']) || '',
+      rule_answers: current.rule_answers || {},
     });
     setEmotions(current.emotions_array || []);
     setOpen(true);
@@ -70,14 +65,7 @@ export function MT5ReviewPrompt() {
     await updateTrade(activeTradeId, {
       setup_type: checklistValues.setup_type,
       probability: checklistValues.probability,
-      rule_in_plan: checklistValues.rule_in_plan,
-      rule_bos: checklistValues.rule_bos,
-      rule_liquidity: checklistValues.rule_liquidity,
-      rule_trend: checklistValues.rule_trend,
-      rule_news: checklistValues.rule_news,
-      rule_rr: checklistValues.rule_rr,
-      rule_emotions: checklistValues.rule_emotions,
-      rule_lot_size: checklistValues.rule_lot_size,
+      rule_answers: toRuleAnswers(checklistValues.rule_answers),
       emotions_array: emotions,
       needs_review: false,
     });
@@ -0,0 +1,204 @@
+import { useRef, useState } from 'react';
+import { FilterOptions } from '@/utils/tradeFilters';
+import { QUERY_FIELDS, QueryTokenKind, QuerySuggestions, getQuerySuggestions, parseTradeQuery } from '@/utils/tradeQuery';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { cn } from '@/lib/utils';
+import { AlertCircle, HelpCircle, Search } from 'lucide-react';
+
+interface QueryInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  options: FilterOptions;
+}
+
+const TOKEN_CLASSES: Record<QueryTokenKind, string> = {
+  field: 'text-primary',
+  operator: 'text-muted-foreground',
+  value: 'text-foreground',
+  text: 'text-foreground',
+  keyword: 'text-warning font-semibold',
+  paren: 'text-muted-foreground',
+  negation: 'text-destructive',
+};
+
+const EXAMPLES = [
+  'symbol:XAUUSD r>=2',
+  'strategy:"London Breakout" -tag:news',
+  'date:2026-09..2026-10 emotion:FOMO',
+  '(setup:"Type 1" OR setup:"Type 2") pl<0',
+];
+
+// Splits the text into runs that share a highlight class, underlining the part with an error
+function highlight(value: string) {
+  const { tokens, error } = parseTradeQuery(value);
+  const classes: string[] = Array.from(value, () => '');
+  tokens.forEach(token => {
+    for (let i = token.start; i < token.end; i++) classes[i] = TOKEN_CLASSES[token.kind];
+  });
+  if (error) {
+    for (let i = error.start; i < Math.min(error.end, value.length); i++) {
+      classes[i] = cn(classes[i], 'underline decoration-wavy decoration-destructive');
+    }
+  }
+
+  const runs: { text: string; className: string }[] = [];
+  Array.from(value).forEach((char, i) => {
+    const last = runs[runs.length - 1];
+    if (last && last.className === classes[i]) last.text += char;
+    else runs.push({ text: char, className: classes[i] });
+  });
+  return { runs, error };
+}
+
+export function QueryInput({ value, onChange, options }: QueryInputProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const [suggestions, setSuggestions] = useState<QuerySuggestions | null>(null);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const { runs, error } = highlight(value);
+
+  const updateSuggestions = (text: string, cursor: number | null) => {
+    setSuggestions(cursor === null ? null : getQuerySuggestions(text, cursor, options));
+    setHighlighted(0);
+  };
+
+  const syncScroll = () => {
+    if (overlayRef.current && inputRef.current) overlayRef.current.scrollLeft = inputRef.current.scrollLeft;
+  };
+
+  const accept = (index: number) => {
+    if (!suggestions) return;
+    const item = suggestions.items[index];
+    const next = value.slice(0, suggestions.start) + item.insert + value.slice(suggestions.end);
+    const cursor = suggestions.start + item.insert.length;
+    onChange(next);
+    updateSuggestions(next, cursor);
+    requestAnimationFrame(() => {
+      inputRef.current?.setSelectionRange(cursor, cursor);
+      syncScroll();
+    });
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!suggestions || suggestions.items.length === 0) return;
+    if (event.key === 'ArrowDown') {
+      event.preventDefault();
+      setHighlighted(i => (i + 1) % suggestions.items.length);
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault();
+      setHighlighted(i => (i - 1 + suggestions.items.length) % suggestions.items.length);
+    } else if (event.key === 'Enter' || event.key === 'Tab') {
+      event.preventDefault();
+      accept(highlighted);
+    } else if (event.key === 'Escape') {
+      setSuggestions(null);
+    }
+  };
+
+  return (
+    <div className="relative flex-1">
+      <div
+        className={cn(
+          'relative h-10 w-full rounded-md border border-input bg-background ring-offset-background focus-within:ring-2 focus-within:ring-ring focus-within:ring-offset-2',
+          error && 'border-destructive/60',
+        )}
+      >
+        <div
+          ref={overlayRef}
+          aria-hidden
+          className="absolute inset-0 pl-10 pr-10 py-2 text-base md:text-sm whitespace-pre overflow-hidden pointer-events-none"
+        >
+          {runs.map((run, i) => <span key={i} className={run.className}>{run.text}</span>)}
+        </div>
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground pointer-events-none" />
+        <input
+          ref={inputRef}
+          value={value}
+          placeholder='Search or filter, e.g. symbol:XAUUSD r>=2 -tag:news'
+          spellCheck={false}
+          autoComplete="off"
+          aria-invalid={!!error}
+          className="relative h-full w-full bg-transparent pl-10 pr-10 py-2 text-base md:text-sm text-transparent caret-foreground placeholder:text-muted-foreground focus-visible:outline-none"
+          onChange={(e) => {
+            onChange(e.target.value);
+            updateSuggestions(e.target.value, e.target.selectionStart);
+          }}
+          onKeyDown={handleKeyDown}
+          onKeyUp={(e) => {
+            if (e.key === 'ArrowLeft' || e.key === 'ArrowRight' || e.key === 'Home' || e.key === 'End') {
+              updateSuggestions(value, e.currentTarget.selectionStart);
+            }
+            syncScroll();
+          }}
+          onScroll={syncScroll}
+          onBlur={() => setSuggestions(null)}
+        />
+        <Popover>
+          <PopoverTrigger asChild>
+            <button
+              type="button"
+              className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+              aria-label="Query syntax help"
+            >
+              <HelpCircle className="w-4 h-4" />
+            </button>
+          </PopoverTrigger>
+          <PopoverContent align="end" className="w-96 text-sm space-y-3">
+            <p>
+              Combine <code>field:value</code> terms; all must match. Use <code>OR</code> between terms, parentheses to group,
+              and <code>-</code> in front to exclude. Numbers and dates take <code>&gt; &gt;= &lt; &lt;=</code> or ranges like <code>1..3</code>.
+            </p>
+            <div className="space-y-1">
+              {EXAMPLES.map(example => (
+                <button
+                  key={example}
+                  type="button"
+                  className="block w-full text-left font-mono text-xs rounded px-2 py-1 hover:bg-muted"
+                  onClick={() => onChange(example)}
+                >
+                  {example}
+                </button>
+              ))}
+            </div>
+            <div className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs max-h-48 overflow-y-auto">
+              {Object.entries(QUERY_FIELDS).map(([name, def]) => (
+                <div key={name} className="contents">
+                  <code className="text-primary">{name}</code>
+                  <span className="text-muted-foreground">{def.description}</span>
+                </div>
+              ))}
+            </div>
+          </PopoverContent>
+        </Popover>
+      </div>
+
+      {suggestions && suggestions.items.length > 0 && (
+        <div className="absolute z-50 mt-1 w-full rounded-md border bg-popover p-1 shadow-md">
+          {suggestions.items.map((item, index) => (
+            <button
+              key={item.insert}
+              type="button"
+              className={cn(
+                'flex w-full items-center justify-between gap-4 rounded-sm px-2 py-1.5 text-sm text-left',
+                index === highlighted ? 'bg-accent text-accent-foreground' : 'hover:bg-muted',
+              )}
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => accept(index)}
+            >
+              <span className="font-mono">{item.label}</span>
+              {item.detail && <span className="text-xs text-muted-foreground truncate">{item.detail}</span>}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {error && (
+        <p className="mt-1 flex items-center gap-1 text-xs text-destructive">
+          <AlertCircle className="w-3 h-3" />
+          {error.message}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+import { useState } from 'react';
+import { SavedView } from '@/types/trade';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Bookmark, Check, ChevronDown, Loader2, Save, Trash2 } from 'lucide-react';
+
+interface SavedViewsMenuProps {
+  views: SavedView[];
+  activeView: SavedView | null;
+  modified: boolean; // The active view's filters have been changed since it was applied
+  onApply: (view: SavedView | null) => void;
+  onSave: (name: string) => Promise<{ error: unknown }>;
+  onUpdate: (view: SavedView) => void;
+  onDelete: (view: SavedView) => void;
+}
+
+export function SavedViewsMenu({ views, activeView, modified, onApply, onSave, onUpdate, onDelete }: SavedViewsMenuProps) {
+  const [saving, setSaving] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [name, setName] = useState('');
+
+  const handleSave = async () => {
+    setSaving(true);
+    const { error } = await onSave(name);
+    setSaving(false);
+    if (!error) {
+      setDialogOpen(false);
+      setName('');
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" className="w-full sm:w-auto">
+            <Bookmark className="w-4 h-4 mr-2" />
+            <span className="truncate max-w-[140px]">{activeView ? activeView.name : 'Views'}</span>
+            {modified && <span className="ml-1 text-muted-foreground">*</span>}
+            <ChevronDown className="w-4 h-4 ml-2" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-56">
+          <DropdownMenuLabel>Saved views</DropdownMenuLabel>
+          <DropdownMenuItem onClick={() => onApply(null)}>
+            <Check className={activeView ? 'w-4 h-4 mr-2 invisible' : 'w-4 h-4 mr-2'} />
+            All trades
+          </DropdownMenuItem>
+          {views.map(view => (
+            <DropdownMenuItem key={view.id} onClick={() => onApply(view)}>
+              <Check className={view.id === activeView?.id ? 'w-4 h-4 mr-2' : 'w-4 h-4 mr-2 invisible'} />
+              <span className="truncate">{view.name}</span>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => setDialogOpen(true)}>
+            <Save className="w-4 h-4 mr-2" />
+            Save as new view...
+          </DropdownMenuItem>
+          {activeView && (
+            <>
+              <DropdownMenuItem disabled={!modified} onClick={() => onUpdate(activeView)}>
+                <Save className="w-4 h-4 mr-2" />
+                Update "{activeView.name}"
+              </DropdownMenuItem>
+              <DropdownMenuItem className="text-destructive" onClick={() => onDelete(activeView)}>
+                <Trash2 className="w-4 h-4 mr-2" />
+                Delete "{activeView.name}"
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Save View</DialogTitle>
+            <DialogDescription>
+              Saves the current filters and sort order so you can reapply them here or on the Analytics page.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="view-name">Name</Label>
+            <Input
+              id="view-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. London breakouts"
+              maxLength={60}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={saving || !name.trim()}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Save View
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
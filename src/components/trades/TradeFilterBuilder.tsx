@@ -0,0 +1,256 @@
+import { AssetClass, ChecklistRule, ExitReason, ReviewState, RuleAnswer, Trade, TradeDirection, TradeFilters, TradeStatus } from '@/types/trade';
+import {
+  ASSET_CLASS_LABELS,
+  DIRECTION_LABELS,
+  EXIT_REASON_LABELS,
+  REVIEW_STATE_LABELS,
+  RULE_ANSWER_LABELS,
+  STATUS_LABELS,
+  countActiveFilters,
+  getFilterOptions,
+} from '@/utils/tradeFilters';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from '@/components/ui/sheet';
+import { cn } from '@/lib/utils';
+import { SlidersHorizontal } from 'lucide-react';
+
+interface TradeFilterBuilderProps {
+  filters: TradeFilters;
+  trades: Trade[];
+  rules: ChecklistRule[];
+  onChange: (filters: TradeFilters) => void;
+}
+
+const ANY = 'any';
+
+export function TradeFilterBuilder({ filters, trades, rules, onChange }: TradeFilterBuilderProps) {
+  const options = getFilterOptions(trades);
+  const activeCount = countActiveFilters(filters);
+  const ruleOptions = rules.filter(r => !r.archived_at || filters.rules?.[r.id]);
+
+  const update = (patch: Partial<TradeFilters>) => onChange({ ...filters, ...patch });
+
+  const toNumber = (value: string) => (value === '' || isNaN(Number(value)) ? undefined : Number(value));
+
+  const setRule = (id: string, value: string) => {
+    const next = { ...filters.rules };
+    if (value === ANY) delete next[id];
+    else next[id] = value as RuleAnswer;
+    update({ rules: Object.keys(next).length > 0 ? next : undefined });
+  };
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="outline" className="w-full sm:w-auto">
+          <SlidersHorizontal className="w-4 h-4 mr-2" />
+          Filters
+          {activeCount > 0 && <Badge className="ml-2 h-5 px-1.5">{activeCount}</Badge>}
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-full sm:max-w-md overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Filter Trades</SheetTitle>
+          <SheetDescription>Trades must match every section; within a section any selected value matches.</SheetDescription>
+        </SheetHeader>
+
+        <div className="space-y-6 py-6">
+          <FilterSection label="Entry date">
+            <div className="grid grid-cols-2 gap-2">
+              <Input type="date" value={filters.from ?? ''} max={filters.to} onChange={(e) => update({ from: e.target.value || undefined })} aria-label="From" />
+              <Input type="date" value={filters.to ?? ''} min={filters.from} onChange={(e) => update({ to: e.target.value || undefined })} aria-label="To" />
+            </div>
+          </FilterSection>
+
+          <OptionToggles
+            label="Outcome"
+            options={(Object.keys(STATUS_LABELS) as TradeStatus[]).map(v => ({ value: v, label: STATUS_LABELS[v] }))}
+            selected={filters.statuses}
+            onChange={(statuses) => update({ statuses: statuses as TradeStatus[] })}
+          />
+          <OptionToggles
+            label="Direction"
+            options={(Object.keys(DIRECTION_LABELS) as TradeDirection[]).map(v => ({ value: v, label: DIRECTION_LABELS[v] }))}
+            selected={filters.directions}
+            onChange={(directions) => update({ directions: directions as TradeDirection[] })}
+          />
+          <OptionToggles
+            label="Asset class"
+            options={(Object.keys(ASSET_CLASS_LABELS) as AssetClass[]).map(v => ({ value: v, label: ASSET_CLASS_LABELS[v] }))}
+            selected={filters.asset_classes}
+            onChange={(assetClasses) => update({ asset_classes: assetClasses as AssetClass[] })}
+          />
+          <OptionToggles
+            label="Symbol"
+            options={options.symbols.map(v => ({ value: v, label: v }))}
+            selected={filters.symbols}
+            onChange={(symbols) => update({ symbols })}
+          />
+          <OptionToggles
+            label="Strategy"
+            options={options.strategies.map(v => ({ value: v, label: v }))}
+            selected={filters.strategies}
+            onChange={(strategies) => update({ strategies })}
+          />
+          <OptionToggles
+            label="Setup type"
+            options={options.setupTypes.map(v => ({ value: v, label: v }))}
+            selected={filters.setup_types}
+            onChange={(setupTypes) => update({ setup_types: setupTypes })}
+          />
+          <OptionToggles
+            label="Probability"
+            options={options.probabilities.map(v => ({ value: v, label: v }))}
+            selected={filters.probabilities}
+            onChange={(probabilities) => update({ probabilities })}
+          />
+          <OptionToggles
+            label="Tags"
+            options={options.tags.map(v => ({ value: v, label: v }))}
+            selected={filters.tags}
+            onChange={(tags) => update({ tags })}
+          />
+          <OptionToggles
+            label="Emotions"
+            options={options.emotions.map(v => ({ value: v, label: v }))}
+            selected={filters.emotions}
+            onChange={(emotions) => update({ emotions })}
+          />
+          <OptionToggles
+            label="Exit reason"
+            options={(Object.keys(EXIT_REASON_LABELS) as ExitReason[]).map(v => ({ value: v, label: EXIT_REASON_LABELS[v] }))}
+            selected={filters.exit_reasons}
+            onChange={(exitReasons) => update({ exit_reasons: exitReasons as ExitReason[] })}
+          />
+
+          {ruleOptions.length > 0 && (
+            <FilterSection label="Checklist rules">
+              <div className="space-y-2">
+                {ruleOptions.map(rule => (
+                  <div key={rule.id} className="flex items-center justify-between gap-3">
+                    <span className="text-sm truncate">{rule.label}</span>
+                    <Select value={filters.rules?.[rule.id] ?? ANY} onValueChange={(value) => setRule(rule.id, value)}>
+                      <SelectTrigger className="w-32 h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ANY}>Any</SelectItem>
+                        {(Object.keys(RULE_ANSWER_LABELS) as RuleAnswer[]).map(answer => (
+                          <SelectItem key={answer} value={answer}>{RULE_ANSWER_LABELS[answer]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            </FilterSection>
+          )}
+
+          <FilterSection label="P&L ($)">
+            <div className="grid grid-cols-2 gap-2">
+              <Input type="number" step="any" placeholder="Min" value={filters.min_pl ?? ''} onChange={(e) => update({ min_pl: toNumber(e.target.value) })} />
+              <Input type="number" step="any" placeholder="Max" value={filters.max_pl ?? ''} onChange={(e) => update({ max_pl: toNumber(e.target.value) })} />
+            </div>
+          </FilterSection>
+
+          <FilterSection label="R multiple">
+            <div className="grid grid-cols-2 gap-2">
+              <Input type="number" step="any" placeholder="Min" value={filters.min_r ?? ''} onChange={(e) => update({ min_r: toNumber(e.target.value) })} />
+              <Input type="number" step="any" placeholder="Max" value={filters.max_r ?? ''} onChange={(e) => update({ max_r: toNumber(e.target.value) })} />
+            </div>
+            <p className="text-xs text-muted-foreground">Only trades with a risk amount have an R multiple</p>
+          </FilterSection>
+
+          <FilterSection label="Review state">
+            <Select value={filters.review ?? ANY} onValueChange={(value) => update({ review: value === ANY ? undefined : value as ReviewState })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any</SelectItem>
+                {(Object.keys(REVIEW_STATE_LABELS) as ReviewState[]).map(state => (
+                  <SelectItem key={state} value={state}>{REVIEW_STATE_LABELS[state]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </FilterSection>
+
+          <Button
+            variant="outline"
+            className="w-full"
+            disabled={activeCount === 0}
+            onClick={() => onChange(filters.search ? { search: filters.search } : {})}
+          >
+            Clear all filters
+          </Button>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+function FilterSection({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="space-y-2">
+      <Label className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">{label}</Label>
+      {children}
+    </div>
+  );
+}
+
+interface OptionTogglesProps {
+  label: string;
+  options: { value: string; label: string }[];
+  selected: string[] | undefined;
+  onChange: (selected: string[] | undefined) => void;
+}
+
+function OptionToggles({ label, options, selected = [], onChange }: OptionTogglesProps) {
+  // Keeps selections from a saved view visible even when no loaded trade has them
+  const all = [...options, ...selected.filter(v => !options.some(o => o.value === v)).map(v => ({ value: v, label: v }))];
+  if (all.length === 0) return null;
+
+  const toggle = (value: string) => {
+    const next = selected.includes(value) ? selected.filter(v => v !== value) : [...selected, value];
+    onChange(next.length > 0 ? next : undefined);
+  };
+
+  return (
+    <FilterSection label={label}>
+      <div className="flex flex-wrap gap-2">
+        {all.map(option => {
+          const isSelected = selected.includes(option.value);
+          return (
+            <Button
+              key={option.value}
+              type="button"
+              size="sm"
+              variant={isSelected ? 'default' : 'outline'}
+              className={cn('h-7 rounded-full px-3 text-xs font-normal', !isSelected && 'text-muted-foreground')}
+              onClick={() => toggle(option.value)}
+            >
+              {option.label}
+            </Button>
+          );
+        })}
+      </div>
+    </FilterSection>
+  );
+}
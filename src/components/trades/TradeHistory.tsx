@@ -0,0 +1,152 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { useTradeRevisions } from '@/hooks/useTradeRevisions';
+import { CHANGE_SOURCE_LABELS, getRestoreChanges, getRevisionChanges } from '@/utils/revisions';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { History, RotateCcw } from 'lucide-react';
+
+interface TradeHistoryProps {
+  tradeId: string;
+  onRestored?: () => void;
+}
+
+interface PendingRestore {
+  row: Record<string, unknown>;
+  label: string;
+}
+
+export function TradeHistory({ tradeId, onRestored }: TradeHistoryProps) {
+  const { revisions, loading, restoreVersion } = useTradeRevisions(tradeId);
+  const [pending, setPending] = useState<PendingRestore | null>(null);
+
+  const handleRestore = async () => {
+    if (!pending) return;
+    const { error } = await restoreVersion(pending.row);
+    setPending(null);
+    if (!error) onRestored?.();
+  };
+
+  if (loading) {
+    return <p className="text-sm text-muted-foreground">Loading history...</p>;
+  }
+
+  if (revisions.length === 0) {
+    return (
+      <div className="py-8 text-center space-y-2">
+        <History className="w-8 h-8 mx-auto text-muted-foreground" />
+        <p className="text-sm text-muted-foreground">No changes recorded for this trade yet.</p>
+      </div>
+    );
+  }
+
+  // Trades that predate the history only have update revisions; the first one still holds the original row
+  const oldest = revisions[revisions.length - 1];
+  const original = oldest.operation === 'update' ? oldest.previous : null;
+  const restoredFields = pending ? getRestoreChanges(revisions[0].snapshot, pending.row) : [];
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-muted-foreground">
+        Executions, checklist answers and screenshots are kept separately and are not rolled back by a restore.
+      </p>
+
+      <ol className="space-y-3">
+        {revisions.map((revision, index) => {
+          const changes = getRevisionChanges(revision);
+          const timestamp = format(new Date(revision.created_at), 'MMM d, yyyy HH:mm:ss');
+          return (
+            <li key={revision.id} className="rounded-lg border border-border p-4 space-y-3">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium text-sm">
+                    {revision.operation === 'insert' ? 'Created' : `Changed ${changes.length} field${changes.length === 1 ? '' : 's'}`}
+                  </span>
+                  <Badge variant="outline">{CHANGE_SOURCE_LABELS[revision.source] ?? revision.source}</Badge>
+                  {index === 0 && <Badge variant="secondary">Current</Badge>}
+                  <span className="text-xs text-muted-foreground">{timestamp}</span>
+                </div>
+                {index > 0 && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setPending({ row: revision.snapshot, label: `the version from ${timestamp}` })}
+                  >
+                    <RotateCcw className="w-4 h-4 mr-1" /> Restore
+                  </Button>
+                )}
+              </div>
+
+              {changes.length > 0 && (
+                <div className="grid grid-cols-[minmax(0,10rem)_1fr] gap-x-4 gap-y-1 text-sm">
+                  {changes.map(change => (
+                    <div key={change.field} className="contents">
+                      <span className="text-muted-foreground">{change.label}</span>
+                      <span className="break-words">
+                        {revision.operation === 'update' && (
+                          <>
+                            <span className="line-through text-destructive/80">{change.from}</span>
+                            <span className="mx-2 text-muted-foreground">→</span>
+                          </>
+                        )}
+                        <span className="text-success">{change.to}</span>
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </li>
+          );
+        })}
+
+        {original && (
+          <li className="rounded-lg border border-dashed border-border p-4 flex items-center justify-between gap-2">
+            <span className="text-sm text-muted-foreground">Original version, before history was recorded</span>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => setPending({ row: original, label: 'the original version' })}
+            >
+              <RotateCcw className="w-4 h-4 mr-1" /> Restore
+            </Button>
+          </li>
+        )}
+      </ol>
+
+      <AlertDialog open={!!pending} onOpenChange={open => !open && setPending(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore Version</AlertDialogTitle>
+            <AlertDialogDescription asChild>
+              <div className="space-y-2">
+                <p>Roll this trade back to {pending?.label}? The current values stay in the history, so this can be undone.</p>
+                <p>
+                  {restoredFields.length > 0
+                    ? `Fields restored: ${restoredFields.join(', ')}.`
+                    : 'The trade\'s own fields already match this version.'}
+                  {' '}Executions, checklist answers and screenshots stay as they are now. A deleted account or playbook can't be brought back, so the current one is kept.
+                </p>
+              </div>
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRestore}>Restore</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,181 @@
+import { useState, useEffect, useCallback, createContext, useContext, ReactNode } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { TradingAccount, TradingAccountFormData } from '@/types/trade';
+import { useAuth } from './useAuth';
+import { useToast } from '@/hooks/use-toast';
+
+export const ALL_ACCOUNTS = 'all';
+
+interface AccountContextType {
+  accounts: TradingAccount[];
+  loading: boolean;
+  selectedAccountId: string;
+  selectedAccount: TradingAccount | null;
+  setSelectedAccountId: (id: string) => void;
+  addAccount: (data: TradingAccountFormData) => Promise<{ error: Error | null; account?: TradingAccount }>;
+  updateAccount: (id: string, data: Partial<TradingAccountFormData>) => Promise<{ error: Error | null }>;
+  deleteAccount: (id: string) => Promise<{ error: Error | null }>;
+  refetch: () => Promise<void>;
+}
+
+const AccountContext = createContext<AccountContextType | undefined>(undefined);
+
+export function AccountProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [accounts, setAccounts] = useState<TradingAccount[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedAccountId, setSelectedAccountIdState] = useState<string>(() => {
+    if (typeof window !== 'undefined') {
+      return localStorage.getItem('selected-account') || ALL_ACCOUNTS;
+    }
+    return ALL_ACCOUNTS;
+  });
+
+  const fetchAccounts = useCallback(async () => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from('trading_accounts')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      toast({
+        title: 'Error fetching accounts',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      setAccounts((data || []) as TradingAccount[]);
+    }
+    setLoading(false);
+  }, [user, toast]);
+
+  useEffect(() => {
+    if (user) {
+      fetchAccounts();
+    } else {
+      setAccounts([]);
+      setLoading(false);
+    }
+  }, [user, fetchAccounts]);
+
+  // Fall back to the aggregate view if the stored account no longer exists
+  useEffect(() => {
+    if (loading || selectedAccountId === ALL_ACCOUNTS) return;
+    if (!accounts.some(a => a.id === selectedAccountId)) {
+      setSelectedAccountIdState(ALL_ACCOUNTS);
+    }
+  }, [accounts, loading, selectedAccountId]);
+
+  useEffect(() => {
+    localStorage.setItem('selected-account', selectedAccountId);
+  }, [selectedAccountId]);
+
+  const setSelectedAccountId = (id: string) => {
+    setSelectedAccountIdState(id);
+  };
+
+  const addAccount = async (formData: TradingAccountFormData) => {
+    if (!user) return { error: new Error('Not authenticated') };
+
+    const { data, error } = await supabase
+      .from('trading_accounts')
+      .insert({
+        user_id: user.id,
+        name: formData.name.trim(),
+        broker: formData.broker?.trim() || null,
+        currency: formData.currency.toUpperCase(),
+        starting_balance: formData.starting_balance,
+        account_type: formData.account_type,
+      })
+      .select('*')
+      .single();
+
+    if (!error) {
+      await fetchAccounts();
+      toast({
+        title: 'Account created',
+        description: `${formData.name} is ready for trades.`,
+      });
+    }
+
+    return { error, account: data as TradingAccount | undefined };
+  };
+
+  const updateAccount = async (id: string, formData: Partial<TradingAccountFormData>) => {
+    if (!user) return { error: new Error('Not authenticated') };
+
+    const updateData: Partial<TradingAccountFormData> = { ...formData };
+    if (formData.currency) {
+      updateData.currency = formData.currency.toUpperCase();
+    }
+
+    const { error } = await supabase
+      .from('trading_accounts')
+      .update(updateData)
+      .eq('id', id)
+      .eq('user_id', user.id);
+
+    if (!error) {
+      await fetchAccounts();
+      toast({
+        title: 'Account updated',
+        description: 'Your account has been updated successfully.',
+      });
+    }
+
+    return { error };
+  };
+
+  const deleteAccount = async (id: string) => {
+    if (!user) return { error: new Error('Not authenticated') };
+
+    const { error } = await supabase
+      .from('trading_accounts')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', user.id);
+
+    if (!error) {
+      setAccounts(prev => prev.filter(a => a.id !== id));
+      if (selectedAccountId === id) {
+        setSelectedAccountIdState(ALL_ACCOUNTS);
+      }
+      toast({
+        title: 'Account deleted',
+        description: 'Trades from this account are now unassigned.',
+      });
+    }
+
+    return { error };
+  };
+
+  const selectedAccount = accounts.find(a => a.id === selectedAccountId) || null;
+
+  return (
+    <AccountContext.Provider value={{
+      accounts,
+      loading,
+      selectedAccountId,
+      selectedAccount,
+      setSelectedAccountId,
+      addAccount,
+      updateAccount,
+      deleteAccount,
+      refetch: fetchAccounts,
+    }}>
+      {children}
+    </AccountContext.Provider>
+  );
+}
+
+export function useAccounts() {
+  const context = useContext(AccountContext);
+  if (context === undefined) {
+    throw new Error('useAccounts must be used within an AccountProvider');
+  }
+  return context;
+}
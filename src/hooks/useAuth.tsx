@@ -1,6 +1,7 @@
 import { useState, useEffect, createContext, useContext, ReactNode } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import { clearTradeCache } from '@/utils/tradeCache';
 import { Profile } from '@/types/trade';
 
 interface AuthContextType {
@@ -90,6 +91,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   const signOut = async () => {
     await supabase.auth.signOut();
+    await clearTradeCache();
     setUser(null);
     setSession(null);
     setProfile(null);
@@ -0,0 +1,160 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { TablesInsert } from '@/integrations/supabase/types';
+import { CashFlow, CashFlowFormData } from '@/types/trade';
+import { AccountLedger } from '@/utils/analytics';
+import { useAuth } from './useAuth';
+import { useAccounts, ALL_ACCOUNTS } from './useAccounts';
+import { useToast } from '@/hooks/use-toast';
+
+export function useCashFlows() {
+  const [cashFlows, setCashFlows] = useState<CashFlow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+  const { accounts, selectedAccountId, selectedAccount } = useAccounts();
+  const { toast } = useToast();
+
+  const fetchCashFlows = useCallback(async () => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from('account_cash_flows')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('occurred_at', { ascending: false });
+
+    if (error) {
+      toast({
+        title: 'Error fetching cash flows',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      setCashFlows((data || []) as CashFlow[]);
+    }
+    setLoading(false);
+  }, [user, toast]);
+
+  useEffect(() => {
+    if (user) {
+      fetchCashFlows();
+    } else {
+      setCashFlows([]);
+      setLoading(false);
+    }
+  }, [user, fetchCashFlows]);
+
+  // Starting balance and cash flows for the selected account (or all accounts combined).
+  // In the aggregate view both legs of a transfer are included, so they cancel out.
+  const ledger: AccountLedger = useMemo(() => {
+    if (selectedAccountId === ALL_ACCOUNTS) {
+      return {
+        startingBalance: accounts.reduce((sum, a) => sum + Number(a.starting_balance || 0), 0),
+        cashFlows,
+      };
+    }
+    return {
+      startingBalance: Number(selectedAccount?.starting_balance || 0),
+      cashFlows: cashFlows.filter(f => f.account_id === selectedAccountId),
+    };
+  }, [accounts, cashFlows, selectedAccountId, selectedAccount]);
+
+  const addCashFlow = async (formData: CashFlowFormData) => {
+    if (!user) return { error: new Error('Not authenticated') };
+
+    const amount = Math.abs(formData.amount);
+    const occurredAt = formData.occurred_at.toISOString();
+    let rows: TablesInsert<'account_cash_flows'>[];
+
+    if (formData.flow_type === 'transfer') {
+      if (!formData.to_account_id || formData.to_account_id === formData.account_id) {
+        return { error: new Error('Choose a different destination account for the transfer') };
+      }
+      const transferGroup = crypto.randomUUID();
+      rows = [
+        {
+          user_id: user.id,
+          account_id: formData.account_id,
+          flow_type: 'transfer',
+          amount: -amount,
+          occurred_at: occurredAt,
+          transfer_group: transferGroup,
+          counterparty_account_id: formData.to_account_id,
+          note: formData.note || null,
+        },
+        {
+          user_id: user.id,
+          account_id: formData.to_account_id,
+          flow_type: 'transfer',
+          amount,
+          occurred_at: occurredAt,
+          transfer_group: transferGroup,
+          counterparty_account_id: formData.account_id,
+          note: formData.note || null,
+        },
+      ];
+    } else {
+      const signedAmount = formData.flow_type === 'withdrawal'
+        ? -amount
+        : formData.flow_type === 'deposit'
+          ? amount
+          : formData.amount;
+      rows = [{
+        user_id: user.id,
+        account_id: formData.account_id,
+        flow_type: formData.flow_type,
+        amount: signedAmount,
+        occurred_at: occurredAt,
+        note: formData.note || null,
+      }];
+    }
+
+    const { error } = await supabase.from('account_cash_flows').insert(rows);
+
+    if (!error) {
+      await fetchCashFlows();
+      toast({
+        title: 'Ledger updated',
+        description: 'Your cash flow has been recorded.',
+      });
+    }
+
+    return { error };
+  };
+
+  const deleteCashFlow = async (flow: CashFlow) => {
+    if (!user) return { error: new Error('Not authenticated') };
+
+    // Removing one leg of a transfer removes both so balances stay consistent
+    let query = supabase
+      .from('account_cash_flows')
+      .delete()
+      .eq('user_id', user.id);
+    query = flow.transfer_group
+      ? query.eq('transfer_group', flow.transfer_group)
+      : query.eq('id', flow.id);
+
+    const { error } = await query;
+
+    if (!error) {
+      setCashFlows(prev => prev.filter(f =>
+        flow.transfer_group ? f.transfer_group !== flow.transfer_group : f.id !== flow.id
+      ));
+      toast({
+        title: 'Entry deleted',
+        description: 'The cash flow has been removed from the ledger.',
+      });
+    }
+
+    return { error };
+  };
+
+  return {
+    cashFlows,
+    ledger,
+    loading,
+    addCashFlow,
+    deleteCashFlow,
+    refetch: fetchCashFlows,
+  };
+}
@@ -0,0 +1,183 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { ChecklistRule, ChecklistRuleFormData } from '@/types/trade';
+import { useAuth } from './useAuth';
+import { useToast } from '@/hooks/use-toast';
+
+export function useChecklistRules() {
+  const [rules, setRules] = useState<ChecklistRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const fetchRules = useCallback(async () => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from('checklist_rules')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('position', { ascending: true })
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      toast({
+        title: 'Error fetching checklist rules',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      setRules((data || []) as ChecklistRule[]);
+    }
+    setLoading(false);
+  }, [user, toast]);
+
+  useEffect(() => {
+    if (user) {
+      fetchRules();
+    } else {
+      setRules([]);
+      setLoading(false);
+    }
+  }, [user, fetchRules]);
+
+  const activeRules = useMemo(() => rules.filter(r => !r.archived_at), [rules]);
+
+  const addRule = async (formData: ChecklistRuleFormData) => {
+    if (!user) return { error: new Error('Not authenticated') };
+
+    const { error } = await supabase
+      .from('checklist_rules')
+      .insert({
+        user_id: user.id,
+        label: formData.label.trim(),
+        description: formData.description?.trim() || null,
+        weight: formData.weight ?? 1,
+        position: rules.length > 0 ? Math.max(...rules.map(r => r.position)) + 1 : 0,
+      });
+
+    if (!error) {
+      await fetchRules();
+      toast({
+        title: 'Rule added',
+        description: `"${formData.label.trim()}" is now on your checklist.`,
+      });
+    }
+
+    return { error };
+  };
+
+  const updateRule = async (id: string, formData: Partial<ChecklistRuleFormData>) => {
+    if (!user) return { error: new Error('Not authenticated') };
+
+    const updateData: Partial<ChecklistRuleFormData> = { ...formData };
+    if (formData.label) {
+      updateData.label = formData.label.trim();
+    }
+    if (formData.description !== undefined) {
+      updateData.description = formData.description?.trim() || null;
+    }
+
+    const { error } = await supabase
+      .from('checklist_rules')
+      .update(updateData)
+      .eq('id', id)
+      .eq('user_id', user.id);
+
+    if (!error) {
+      await fetchRules();
+      toast({
+        title: 'Rule updated',
+        description: 'Your checklist rule has been saved.',
+      });
+    }
+
+    return { error };
+  };
+
+  const setArchived = async (id: string, archived: boolean) => {
+    if (!user) return { error: new Error('Not authenticated') };
+
+    const { error } = await supabase
+      .from('checklist_rules')
+      .update({ archived_at: archived ? new Date().toISOString() : null })
+      .eq('id', id)
+      .eq('user_id', user.id);
+
+    if (error) {
+      toast({
+        title: archived ? 'Error archiving rule' : 'Error restoring rule',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      await fetchRules();
+    }
+
+    return { error };
+  };
+
+  // Persists the given order of rule ids as their positions
+  const reorderRules = async (orderedIds: string[]) => {
+    if (!user) return { error: new Error('Not authenticated') };
+
+    const byId = new Map(rules.map(r => [r.id, r]));
+    setRules(prev => [...prev].sort((a, b) => orderedIds.indexOf(a.id) - orderedIds.indexOf(b.id)));
+
+    const changed = orderedIds.filter((id, index) => byId.get(id)?.position !== index);
+    const results = await Promise.all(
+      changed.map(id =>
+        supabase
+          .from('checklist_rules')
+          .update({ position: orderedIds.indexOf(id) })
+          .eq('id', id)
+          .eq('user_id', user.id)
+      )
+    );
+    const error = results.find(r => r.error)?.error ?? null;
+
+    if (error) {
+      toast({
+        title: 'Error reordering rules',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+    await fetchRules();
+
+    return { error };
+  };
+
+  const deleteRule = async (id: string) => {
+    if (!user) return { error: new Error('Not authenticated') };
+
+    const { error } = await supabase
+      .from('checklist_rules')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', user.id);
+
+    if (!error) {
+      setRules(prev => prev.filter(r => r.id !== id));
+      toast({
+        title: 'Rule deleted',
+        description: 'The rule and its answers on past trades have been removed.',
+      });
+    }
+
+    return { error };
+  };
+
+  return {
+    rules,
+    activeRules,
+    loading,
+    addRule,
+    updateRule,
+    archiveRule: (id: string) => setArchived(id, true),
+    restoreRule: (id: string) => setArchived(id, false),
+    reorderRules,
+    deleteRule,
+    refetch: fetchRules,
+  };
+}
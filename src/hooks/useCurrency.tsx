@@ -0,0 +1,25 @@
+import { Trade } from '@/types/trade';
+import { CurrencyFormatOptions, formatCurrency, getCurrencyScope } from '@/utils/currency';
+import { useAccounts, ALL_ACCOUNTS } from './useAccounts';
+
+// Money is shown in the selected account's currency. The all-accounts view uses the currency the
+// accounts share; when they don't share one, totals are plain numbers and mixed is set so pages can say so.
+export function useCurrency() {
+  const { accounts, selectedAccountId } = useAccounts();
+  const inView = selectedAccountId === ALL_ACCOUNTS ? accounts : accounts.filter(a => a.id === selectedAccountId);
+  const { currency, currencies } = getCurrencyScope(inView);
+
+  // A single trade is always in its own account's currency
+  const currencyOf = (accountId: string | null) =>
+    accounts.find(a => a.id === accountId)?.currency.toUpperCase() ?? currency;
+
+  return {
+    currency,
+    currencies,
+    mixed: currency === null,
+    currencyOf,
+    format: (value: number, options?: CurrencyFormatOptions) => formatCurrency(value, currency, options),
+    formatTrade: (trade: Pick<Trade, 'account_id'>, value: number, options?: CurrencyFormatOptions) =>
+      formatCurrency(value, currencyOf(trade.account_id), options),
+  };
+}
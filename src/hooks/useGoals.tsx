@@ -0,0 +1,152 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Goal, GoalFormData } from '@/types/trade';
+import { useAuth } from './useAuth';
+import { useAccounts, ALL_ACCOUNTS } from './useAccounts';
+import { useToast } from '@/hooks/use-toast';
+
+export function useGoals() {
+  const [goals, setGoals] = useState<Goal[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+  const { selectedAccountId } = useAccounts();
+  const { toast } = useToast();
+
+  // Goals belong to the selected account, or to no account when viewing all of them
+  const scopeAccountId = selectedAccountId !== ALL_ACCOUNTS ? selectedAccountId : null;
+
+  const fetchGoals = useCallback(async () => {
+    if (!user) return;
+
+    let query = supabase
+      .from('goals')
+      .select('*')
+      .eq('user_id', user.id);
+
+    query = scopeAccountId ? query.eq('account_id', scopeAccountId) : query.is('account_id', null);
+
+    const { data, error } = await query.order('created_at', { ascending: true });
+
+    if (error) {
+      toast({
+        title: 'Error fetching goals',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      setGoals((data || []) as Goal[]);
+    }
+    setLoading(false);
+  }, [user, scopeAccountId, toast]);
+
+  useEffect(() => {
+    if (user) {
+      fetchGoals();
+    } else {
+      setGoals([]);
+      setLoading(false);
+    }
+  }, [user, fetchGoals]);
+
+  const addGoal = async (formData: GoalFormData) => {
+    if (!user) return { error: new Error('Not authenticated') };
+
+    const { error } = await supabase.from('goals').insert({
+      ...formData,
+      user_id: user.id,
+      account_id: scopeAccountId,
+    });
+
+    if (error) {
+      toast({
+        title: 'Error adding goal',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      await fetchGoals();
+      toast({
+        title: 'Goal added',
+        description: 'Progress is tracked from the current period.',
+      });
+    }
+
+    return { error };
+  };
+
+  const updateGoal = async (id: string, formData: Partial<GoalFormData>) => {
+    if (!user) return { error: new Error('Not authenticated') };
+
+    const { error } = await supabase
+      .from('goals')
+      .update(formData)
+      .eq('id', id)
+      .eq('user_id', user.id);
+
+    if (error) {
+      toast({
+        title: 'Error updating goal',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      await fetchGoals();
+    }
+
+    return { error };
+  };
+
+  const setArchived = async (id: string, archived: boolean) => {
+    if (!user) return { error: new Error('Not authenticated') };
+
+    const { error } = await supabase
+      .from('goals')
+      .update({ archived_at: archived ? new Date().toISOString() : null })
+      .eq('id', id)
+      .eq('user_id', user.id);
+
+    if (error) {
+      toast({
+        title: archived ? 'Error archiving goal' : 'Error restoring goal',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      await fetchGoals();
+    }
+
+    return { error };
+  };
+
+  const deleteGoal = async (id: string) => {
+    if (!user) return { error: new Error('Not authenticated') };
+
+    const { error } = await supabase
+      .from('goals')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', user.id);
+
+    if (!error) {
+      setGoals(prev => prev.filter(g => g.id !== id));
+      toast({
+        title: 'Goal deleted',
+        description: 'The goal and its history have been removed.',
+      });
+    }
+
+    return { error };
+  };
+
+  return {
+    goals,
+    activeGoals: goals.filter(g => !g.archived_at),
+    loading,
+    addGoal,
+    updateGoal,
+    archiveGoal: (id: string) => setArchived(id, true),
+    unarchiveGoal: (id: string) => setArchived(id, false),
+    deleteGoal,
+    refetch: fetchGoals,
+  };
+}
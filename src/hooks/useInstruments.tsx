@@ -0,0 +1,138 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Instrument, InstrumentFormData } from '@/types/trade';
+import { findInstrument } from '@/utils/instruments';
+import { useAuth } from './useAuth';
+import { useToast } from '@/hooks/use-toast';
+
+export function useInstruments() {
+  const [instruments, setInstruments] = useState<Instrument[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const fetchInstruments = useCallback(async () => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from('instruments')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('symbol', { ascending: true });
+
+    if (error) {
+      toast({
+        title: 'Error fetching instruments',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      setInstruments((data || []) as Instrument[]);
+    }
+    setLoading(false);
+  }, [user, toast]);
+
+  useEffect(() => {
+    if (user) {
+      fetchInstruments();
+    } else {
+      setInstruments([]);
+      setLoading(false);
+    }
+  }, [user, fetchInstruments]);
+
+  const cleanAliases = (aliases: string[]) => aliases.map(a => a.trim().toUpperCase()).filter(Boolean);
+
+  const addInstrument = async (formData: InstrumentFormData) => {
+    if (!user) return { error: new Error('Not authenticated') };
+
+    const { error } = await supabase
+      .from('instruments')
+      .insert({
+        user_id: user.id,
+        symbol: formData.symbol.trim().toUpperCase(),
+        aliases: cleanAliases(formData.aliases),
+        asset_class: formData.asset_class,
+        pip_size: formData.pip_size,
+        contract_size: formData.contract_size,
+        quote_currency: formData.quote_currency.toUpperCase(),
+        tick_value: formData.tick_value,
+      });
+
+    if (!error) {
+      await fetchInstruments();
+      toast({
+        title: 'Instrument added',
+        description: `${formData.symbol.toUpperCase()} is now in your registry.`,
+      });
+    }
+
+    return { error };
+  };
+
+  const updateInstrument = async (id: string, formData: Partial<InstrumentFormData>) => {
+    if (!user) return { error: new Error('Not authenticated') };
+
+    const updateData: Partial<InstrumentFormData> = { ...formData };
+    if (formData.symbol) {
+      updateData.symbol = formData.symbol.trim().toUpperCase();
+    }
+    if (formData.aliases) {
+      updateData.aliases = cleanAliases(formData.aliases);
+    }
+    if (formData.quote_currency) {
+      updateData.quote_currency = formData.quote_currency.toUpperCase();
+    }
+
+    const { error } = await supabase
+      .from('instruments')
+      .update(updateData)
+      .eq('id', id)
+      .eq('user_id', user.id);
+
+    if (!error) {
+      await fetchInstruments();
+      toast({
+        title: 'Instrument updated',
+        description: 'Your instrument specification has been saved.',
+      });
+    }
+
+    return { error };
+  };
+
+  const deleteInstrument = async (id: string) => {
+    if (!user) return { error: new Error('Not authenticated') };
+
+    const { error } = await supabase
+      .from('instruments')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', user.id);
+
+    if (!error) {
+      setInstruments(prev => prev.filter(i => i.id !== id));
+      toast({
+        title: 'Instrument deleted',
+        description: 'The instrument has been removed from your registry.',
+      });
+    }
+
+    return { error };
+  };
+
+  const resolveInstrument = useCallback(
+    (symbol: string) => findInstrument(instruments, symbol),
+    [instruments],
+  );
+
+  return {
+    instruments,
+    loading,
+    resolveInstrument,
+    addInstrument,
+    updateInstrument,
+    deleteInstrument,
+    refetch: fetchInstruments,
+  };
+}
@@ -0,0 +1,115 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { JournalEntry, JournalEntryFormData } from '@/types/trade';
+import { useAuth } from './useAuth';
+import { useAccounts, ALL_ACCOUNTS } from './useAccounts';
+import { useToast } from '@/hooks/use-toast';
+
+export function useJournal() {
+  const [entries, setEntries] = useState<JournalEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+  const { selectedAccountId } = useAccounts();
+  const { toast } = useToast();
+
+  // Entries belong to the selected account, or to no account when viewing all of them
+  const scopeAccountId = selectedAccountId !== ALL_ACCOUNTS ? selectedAccountId : null;
+
+  const fetchEntries = useCallback(async () => {
+    if (!user) return;
+
+    let query = supabase
+      .from('journal_entries')
+      .select('*')
+      .eq('user_id', user.id);
+
+    query = scopeAccountId ? query.eq('account_id', scopeAccountId) : query.is('account_id', null);
+
+    const { data, error } = await query.order('entry_date', { ascending: false });
+
+    if (error) {
+      toast({
+        title: 'Error fetching journal',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      setEntries((data || []) as JournalEntry[]);
+    }
+    setLoading(false);
+  }, [user, scopeAccountId, toast]);
+
+  useEffect(() => {
+    if (user) {
+      fetchEntries();
+    } else {
+      setEntries([]);
+      setLoading(false);
+    }
+  }, [user, fetchEntries]);
+
+  const getEntry = (date: string) => entries.find(e => e.entry_date === date);
+
+  const saveEntry = async (date: string, data: JournalEntryFormData) => {
+    if (!user) return { error: new Error('Not authenticated') };
+
+    const existing = getEntry(date);
+    const { error } = existing
+      ? await supabase
+          .from('journal_entries')
+          .update(data)
+          .eq('id', existing.id)
+          .eq('user_id', user.id)
+      : await supabase.from('journal_entries').insert({
+          ...data,
+          user_id: user.id,
+          account_id: scopeAccountId,
+          entry_date: date,
+        });
+
+    if (error) {
+      toast({
+        title: 'Error saving journal entry',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      await fetchEntries();
+      toast({
+        title: 'Journal saved',
+        description: 'Your notes for the day have been saved.',
+      });
+    }
+
+    return { error };
+  };
+
+  const deleteEntry = async (id: string) => {
+    if (!user) return { error: new Error('Not authenticated') };
+
+    const { error } = await supabase
+      .from('journal_entries')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', user.id);
+
+    if (!error) {
+      setEntries(prev => prev.filter(e => e.id !== id));
+      toast({
+        title: 'Journal entry deleted',
+        description: 'The entry has been removed.',
+      });
+    }
+
+    return { error };
+  };
+
+  return {
+    entries,
+    loading,
+    getEntry,
+    saveEntry,
+    deleteEntry,
+    refetch: fetchEntries,
+  };
+}
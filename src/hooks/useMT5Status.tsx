@@ -33,6 +33,7 @@ export function useMT5Status() {
                 .select('id, symbol, direction, lot_size, profit_loss, exit_date')
                 .eq('user_id', user.id)
                 .eq('strategy', 'MT5 Auto-Sync')
+                .is('deleted_at', null)
                 .order('exit_date', { ascending: false })
                 .limit(5);
 
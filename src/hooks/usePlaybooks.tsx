@@ -0,0 +1,176 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Playbook, PlaybookFormData } from '@/types/trade';
+import { useAuth } from './useAuth';
+import { useToast } from '@/hooks/use-toast';
+
+export function usePlaybooks() {
+  const [playbooks, setPlaybooks] = useState<Playbook[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const fetchPlaybooks = useCallback(async () => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from('playbooks')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('name', { ascending: true });
+
+    if (error) {
+      toast({
+        title: 'Error fetching playbooks',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      setPlaybooks((data || []) as Playbook[]);
+    }
+    setLoading(false);
+  }, [user, toast]);
+
+  useEffect(() => {
+    if (user) {
+      fetchPlaybooks();
+    } else {
+      setPlaybooks([]);
+      setLoading(false);
+    }
+  }, [user, fetchPlaybooks]);
+
+  const cleanSymbols = (symbols: string[]) =>
+    Array.from(new Set(symbols.map(s => s.trim().toUpperCase()).filter(Boolean)));
+
+  const addPlaybook = async (formData: PlaybookFormData) => {
+    if (!user) return { error: new Error('Not authenticated'), playbook: null };
+
+    const { data, error } = await supabase
+      .from('playbooks')
+      .insert({
+        user_id: user.id,
+        name: formData.name.trim(),
+        description: formData.description || null,
+        entry_criteria: formData.entry_criteria || null,
+        exit_criteria: formData.exit_criteria || null,
+        target_r: formData.target_r || null,
+        allowed_symbols: cleanSymbols(formData.allowed_symbols || []),
+        allowed_sessions: formData.allowed_sessions || [],
+        rule_ids: formData.rule_ids || [],
+        example_trade_ids: formData.example_trade_ids || [],
+      })
+      .select()
+      .single();
+
+    if (!error) {
+      await fetchPlaybooks();
+      toast({
+        title: 'Playbook created',
+        description: `${formData.name.trim()} has been added to your playbooks.`,
+      });
+    }
+
+    return { error, playbook: data as Playbook | null };
+  };
+
+  const updatePlaybook = async (id: string, formData: Partial<PlaybookFormData>) => {
+    if (!user) return { error: new Error('Not authenticated') };
+
+    const updateData: Partial<PlaybookFormData> = { ...formData };
+    if (formData.name) {
+      updateData.name = formData.name.trim();
+    }
+    if (formData.allowed_symbols) {
+      updateData.allowed_symbols = cleanSymbols(formData.allowed_symbols);
+    }
+
+    const { error: updateError } = await supabase
+      .from('playbooks')
+      .update(updateData)
+      .eq('id', id)
+      .eq('user_id', user.id);
+
+    // Linked trades carry the playbook name as their strategy
+    let error = updateError;
+    if (!error && updateData.name) {
+      ({ error } = await supabase
+        .from('trades')
+        .update({ strategy: updateData.name })
+        .eq('playbook_id', id)
+        .eq('user_id', user.id));
+    }
+
+    if (!error) {
+      await fetchPlaybooks();
+      toast({
+        title: 'Playbook updated',
+        description: 'Your playbook has been saved.',
+      });
+    }
+
+    return { error };
+  };
+
+  const deletePlaybook = async (id: string) => {
+    if (!user) return { error: new Error('Not authenticated') };
+
+    const { error } = await supabase
+      .from('playbooks')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', user.id);
+
+    if (!error) {
+      setPlaybooks(prev => prev.filter(p => p.id !== id));
+      toast({
+        title: 'Playbook deleted',
+        description: 'Trades keep their strategy name but are no longer linked.',
+      });
+    }
+
+    return { error };
+  };
+
+  // Links every unlinked trade using one of the given strategy names to the playbook
+  const mergeStrategies = async (playbookId: string, names: string[]) => {
+    if (!user) return { error: new Error('Not authenticated'), merged: 0 };
+
+    const playbook = playbooks.find(p => p.id === playbookId);
+    if (!playbook) return { error: new Error('Playbook not found'), merged: 0 };
+
+    const { data, error } = await supabase
+      .from('trades')
+      .update({ playbook_id: playbookId, strategy: playbook.name })
+      .eq('user_id', user.id)
+      .is('playbook_id', null)
+      .in('strategy', names)
+      .select('id');
+
+    const merged = data?.length || 0;
+    if (error) {
+      toast({
+        title: 'Error merging strategies',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      toast({
+        title: 'Strategies merged',
+        description: `${merged} trade${merged === 1 ? '' : 's'} linked to ${playbook.name}.`,
+      });
+    }
+
+    return { error, merged };
+  };
+
+  return {
+    playbooks,
+    loading,
+    addPlaybook,
+    updatePlaybook,
+    deletePlaybook,
+    mergeStrategies,
+    refetch: fetchPlaybooks,
+  };
+}
@@ -0,0 +1,8 @@
+import { PnLBasis } from '@/types/trade';
+import { useAuth } from './useAuth';
+
+// Whether headline P&L figures include trading costs (net) or not (gross)
+export function usePnLBasis(): PnLBasis {
+  const { profile } = useAuth();
+  return profile?.pnl_basis ?? 'net';
+}
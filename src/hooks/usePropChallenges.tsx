@@ -0,0 +1,147 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { ChallengeStatus, PropChallenge, PropChallengeFormData } from '@/types/trade';
+import { useAuth } from './useAuth';
+import { useToast } from '@/hooks/use-toast';
+
+export function usePropChallenges() {
+  const [challenges, setChallenges] = useState<PropChallenge[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const fetchChallenges = useCallback(async () => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from('prop_challenges')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('starts_on', { ascending: false });
+
+    if (error) {
+      toast({
+        title: 'Error fetching challenges',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      setChallenges((data || []) as PropChallenge[]);
+    }
+    setLoading(false);
+  }, [user, toast]);
+
+  useEffect(() => {
+    if (user) {
+      fetchChallenges();
+    } else {
+      setChallenges([]);
+      setLoading(false);
+    }
+  }, [user, fetchChallenges]);
+
+  const addChallenge = async (formData: PropChallengeFormData) => {
+    if (!user) return { error: new Error('Not authenticated') };
+
+    const { data, error } = await supabase
+      .from('prop_challenges')
+      .insert({ ...formData, user_id: user.id })
+      .select()
+      .single();
+
+    if (error) {
+      toast({
+        title: 'Error adding challenge',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      await fetchChallenges();
+      toast({
+        title: 'Challenge added',
+        description: 'Its rules are now tracked against the account\'s trades.',
+      });
+    }
+
+    return { error, challenge: data as PropChallenge | null };
+  };
+
+  const updateChallenge = async (id: string, formData: Partial<PropChallengeFormData>) => {
+    if (!user) return { error: new Error('Not authenticated') };
+
+    const { error } = await supabase
+      .from('prop_challenges')
+      .update(formData)
+      .eq('id', id)
+      .eq('user_id', user.id);
+
+    if (error) {
+      toast({
+        title: 'Error updating challenge',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      await fetchChallenges();
+    }
+
+    return { error };
+  };
+
+  // Closing a challenge freezes it in the pass/fail history; reopening clears the result
+  const setChallengeResult = async (id: string, status: ChallengeStatus, note?: string | null) => {
+    if (!user) return { error: new Error('Not authenticated') };
+
+    const { error } = await supabase
+      .from('prop_challenges')
+      .update({
+        status,
+        result_note: status === 'active' ? null : note ?? null,
+        closed_at: status === 'active' ? null : new Date().toISOString(),
+      })
+      .eq('id', id)
+      .eq('user_id', user.id);
+
+    if (error) {
+      toast({
+        title: 'Error saving result',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      await fetchChallenges();
+    }
+
+    return { error };
+  };
+
+  const deleteChallenge = async (id: string) => {
+    if (!user) return { error: new Error('Not authenticated') };
+
+    const { error } = await supabase
+      .from('prop_challenges')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', user.id);
+
+    if (!error) {
+      setChallenges(prev => prev.filter(c => c.id !== id));
+      toast({
+        title: 'Challenge deleted',
+        description: 'The challenge has been removed. Its trades are unchanged.',
+      });
+    }
+
+    return { error };
+  };
+
+  return {
+    challenges,
+    loading,
+    addChallenge,
+    updateChallenge,
+    setChallengeResult,
+    deleteChallenge,
+    refetch: fetchChallenges,
+  };
+}
@@ -0,0 +1,20 @@
+import { ResultUnit } from '@/types/trade';
+import { useAuth } from './useAuth';
+import { useToast } from '@/hooks/use-toast';
+
+// Whether results are shown in the account currency or in R multiples; saved on the profile
+export function useResultUnit() {
+  const { profile, updateProfile } = useAuth();
+  const { toast } = useToast();
+  const unit: ResultUnit = profile?.result_unit ?? 'currency';
+
+  const setUnit = async (next: ResultUnit) => {
+    const { error } = await updateProfile({ result_unit: next });
+    if (error) {
+      toast({ title: 'Error saving preference', description: error.message, variant: 'destructive' });
+    }
+    return { error };
+  };
+
+  return { unit, setUnit };
+}
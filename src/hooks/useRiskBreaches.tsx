@@ -0,0 +1,80 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { RiskBreach } from '@/types/trade';
+import { toUtcDayKey } from '@/utils/risk';
+import { useAuth } from './useAuth';
+import { useToast } from '@/hooks/use-toast';
+
+const BREACH_LOG_LIMIT = 200;
+
+export function useRiskBreaches() {
+  const [breaches, setBreaches] = useState<RiskBreach[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const fetchBreaches = useCallback(async () => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from('risk_breaches')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false })
+      .limit(BREACH_LOG_LIMIT);
+
+    if (error) {
+      toast({
+        title: 'Error fetching risk breaches',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      setBreaches((data || []) as RiskBreach[]);
+    }
+    setLoading(false);
+  }, [user, toast]);
+
+  useEffect(() => {
+    if (user) {
+      fetchBreaches();
+    } else {
+      setBreaches([]);
+      setLoading(false);
+    }
+  }, [user, fetchBreaches]);
+
+  const acknowledgeBreaches = async (ids: string[]) => {
+    if (!user) return { error: new Error('Not authenticated') };
+    if (ids.length === 0) return { error: null };
+
+    const acknowledgedAt = new Date().toISOString();
+    const { error } = await supabase
+      .from('risk_breaches')
+      .update({ acknowledged_at: acknowledgedAt })
+      .in('id', ids)
+      .eq('user_id', user.id);
+
+    if (error) {
+      toast({
+        title: 'Error acknowledging breaches',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      setBreaches(prev => prev.map(b => (ids.includes(b.id) ? { ...b, acknowledged_at: acknowledgedAt } : b)));
+    }
+
+    return { error };
+  };
+
+  const today = toUtcDayKey(new Date());
+
+  return {
+    breaches,
+    todaysBreaches: breaches.filter(b => b.breach_date === today && !b.acknowledged_at),
+    loading,
+    acknowledgeBreaches,
+    refetch: fetchBreaches,
+  };
+}
@@ -0,0 +1,115 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { RiskLimits, RiskLimitsFormData } from '@/types/trade';
+import { resolveRiskLimits } from '@/utils/risk';
+import { useAuth } from './useAuth';
+import { useAccounts, ALL_ACCOUNTS } from './useAccounts';
+import { useToast } from '@/hooks/use-toast';
+
+export function useRiskLimits() {
+  const [allLimits, setAllLimits] = useState<RiskLimits[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+  const { selectedAccountId } = useAccounts();
+  const { toast } = useToast();
+
+  // The selected account's own limits, or the defaults when viewing all accounts
+  const scopeAccountId = selectedAccountId !== ALL_ACCOUNTS ? selectedAccountId : null;
+
+  const fetchLimits = useCallback(async () => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from('risk_limits')
+      .select('*')
+      .eq('user_id', user.id);
+
+    if (error) {
+      toast({
+        title: 'Error fetching risk limits',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      setAllLimits((data || []) as RiskLimits[]);
+    }
+    setLoading(false);
+  }, [user, toast]);
+
+  useEffect(() => {
+    if (user) {
+      fetchLimits();
+    } else {
+      setAllLimits([]);
+      setLoading(false);
+    }
+  }, [user, fetchLimits]);
+
+  const limits = allLimits.find(l => l.account_id === scopeAccountId) ?? null;
+
+  const saveLimits = async (formData: RiskLimitsFormData) => {
+    if (!user) return { error: new Error('Not authenticated') };
+
+    const { error } = limits
+      ? await supabase
+          .from('risk_limits')
+          .update(formData)
+          .eq('id', limits.id)
+          .eq('user_id', user.id)
+      : await supabase.from('risk_limits').insert({
+          ...formData,
+          user_id: user.id,
+          account_id: scopeAccountId,
+        });
+
+    if (error) {
+      toast({
+        title: 'Error saving risk limits',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      await fetchLimits();
+      toast({
+        title: 'Risk limits saved',
+        description: 'New trades will be checked against these limits.',
+      });
+    }
+
+    return { error };
+  };
+
+  // Drops an account's own limits so it falls back to the defaults
+  const resetLimits = async () => {
+    if (!user || !limits) return { error: new Error('Not authenticated') };
+
+    const { error } = await supabase
+      .from('risk_limits')
+      .delete()
+      .eq('id', limits.id)
+      .eq('user_id', user.id);
+
+    if (error) {
+      toast({
+        title: 'Error resetting risk limits',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      setAllLimits(prev => prev.filter(l => l.id !== limits.id));
+    }
+
+    return { error };
+  };
+
+  return {
+    limits,
+    allLimits,
+    loading,
+    scopeAccountId,
+    getLimitsFor: (accountId: string | null) => resolveRiskLimits(allLimits, accountId),
+    saveLimits,
+    resetLimits,
+    refetch: fetchLimits,
+  };
+}
@@ -0,0 +1,136 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { SavedView, TradeFilters, TradeSort } from '@/types/trade';
+import { cleanFilters } from '@/utils/tradeFilters';
+import { useAuth } from './useAuth';
+import { useToast } from '@/hooks/use-toast';
+
+export function useSavedViews() {
+  const [views, setViews] = useState<SavedView[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const fetchViews = useCallback(async () => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from('saved_views')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('name', { ascending: true });
+
+    if (error) {
+      toast({
+        title: 'Error fetching saved views',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      setViews((data || []) as unknown as SavedView[]);
+    }
+    setLoading(false);
+  }, [user, toast]);
+
+  useEffect(() => {
+    if (user) {
+      fetchViews();
+    } else {
+      setViews([]);
+      setLoading(false);
+    }
+  }, [user, fetchViews]);
+
+  const saveView = async (name: string, filters: TradeFilters, sort: TradeSort | null) => {
+    if (!user) return { error: new Error('Not authenticated'), view: null };
+
+    const { data, error } = await supabase
+      .from('saved_views')
+      .insert({
+        user_id: user.id,
+        name: name.trim(),
+        filters: cleanFilters(filters) as Json,
+        sort: sort as unknown as Json,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      toast({
+        title: 'Error saving view',
+        description: error.code === '23505' ? `You already have a view called "${name.trim()}".` : error.message,
+        variant: 'destructive',
+      });
+    } else {
+      await fetchViews();
+      toast({
+        title: 'View saved',
+        description: `"${name.trim()}" is ready on the Trades and Analytics pages.`,
+      });
+    }
+
+    return { error, view: data as unknown as SavedView | null };
+  };
+
+  const updateView = async (id: string, filters: TradeFilters, sort: TradeSort | null) => {
+    if (!user) return { error: new Error('Not authenticated') };
+
+    const { error } = await supabase
+      .from('saved_views')
+      .update({ filters: cleanFilters(filters) as Json, sort: sort as unknown as Json })
+      .eq('id', id)
+      .eq('user_id', user.id);
+
+    if (error) {
+      toast({
+        title: 'Error updating view',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      await fetchViews();
+      toast({
+        title: 'View updated',
+        description: 'The view now uses your current filters.',
+      });
+    }
+
+    return { error };
+  };
+
+  const deleteView = async (id: string) => {
+    if (!user) return { error: new Error('Not authenticated') };
+
+    const { error } = await supabase
+      .from('saved_views')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', user.id);
+
+    if (error) {
+      toast({
+        title: 'Error deleting view',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      setViews(prev => prev.filter(v => v.id !== id));
+      toast({
+        title: 'View deleted',
+        description: 'Trades are unchanged.',
+      });
+    }
+
+    return { error };
+  };
+
+  return {
+    views,
+    loading,
+    saveView,
+    updateView,
+    deleteView,
+    refetch: fetchViews,
+  };
+}
@@ -0,0 +1,124 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { TagColor, TradeTag } from '@/types/trade';
+import { getTagUsage } from '@/utils/tags';
+import { useAuth } from './useAuth';
+import { useToast } from '@/hooks/use-toast';
+
+export function useTags() {
+  const [settings, setSettings] = useState<TradeTag[]>([]);
+  const [tagLists, setTagLists] = useState<(string[] | null)[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  // Counts cover every account, so a tag means the same thing wherever it is used
+  const fetchTags = useCallback(async () => {
+    if (!user) return;
+
+    const [settingsResult, tradesResult] = await Promise.all([
+      supabase.from('trade_tags').select('*').eq('user_id', user.id),
+      supabase.from('trades').select('tags').eq('user_id', user.id).is('deleted_at', null),
+    ]);
+
+    const error = settingsResult.error || tradesResult.error;
+    if (error) {
+      toast({
+        title: 'Error fetching tags',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      setSettings((settingsResult.data || []) as TradeTag[]);
+      setTagLists((tradesResult.data || []).map(row => row.tags));
+    }
+    setLoading(false);
+  }, [user, toast]);
+
+  useEffect(() => {
+    if (user) {
+      fetchTags();
+    } else {
+      setSettings([]);
+      setTagLists([]);
+      setLoading(false);
+    }
+  }, [user, fetchTags]);
+
+  const tags = useMemo(() => getTagUsage(tagLists, settings), [tagLists, settings]);
+
+  const setTagColor = async (name: string, color: TagColor) => {
+    if (!user) return { error: new Error('Not authenticated') };
+
+    const { error } = await supabase
+      .from('trade_tags')
+      .upsert({ user_id: user.id, name, color }, { onConflict: 'user_id,name' });
+
+    if (error) {
+      toast({
+        title: 'Error saving tag colour',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      await fetchTags();
+    }
+
+    return { error };
+  };
+
+  // Every tag in `from` becomes `to` on all trades; renaming is merging a single tag
+  const renameTags = async (from: string[], to: string) => {
+    if (!user) return { error: new Error('Not authenticated') };
+
+    const target = to.trim();
+    const { data, error } = await supabase.rpc('rewrite_trade_tags', { p_from: from, p_to: target });
+
+    if (error) {
+      toast({
+        title: from.length > 1 ? 'Error merging tags' : 'Error renaming tag',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      await fetchTags();
+      toast({
+        title: from.length > 1 ? 'Tags merged' : 'Tag renamed',
+        description: `${data ?? 0} trade${data === 1 ? '' : 's'} now tagged "${target}".`,
+      });
+    }
+
+    return { error };
+  };
+
+  const deleteTag = async (name: string) => {
+    if (!user) return { error: new Error('Not authenticated') };
+
+    const { data, error } = await supabase.rpc('rewrite_trade_tags', { p_from: [name] });
+
+    if (error) {
+      toast({
+        title: 'Error deleting tag',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      await fetchTags();
+      toast({
+        title: 'Tag deleted',
+        description: `Removed "${name}" from ${data ?? 0} trade${data === 1 ? '' : 's'}.`,
+      });
+    }
+
+    return { error };
+  };
+
+  return {
+    tags,
+    loading,
+    setTagColor,
+    renameTags,
+    deleteTag,
+    refetch: fetchTags,
+  };
+}
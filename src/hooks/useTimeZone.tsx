@@ -0,0 +1,9 @@
+import { useAuth } from './useAuth';
+import { getBrowserTimeZone, isValidTimeZone } from '@/utils/timezone';
+
+// The zone trade times are bucketed in for time-of-day analytics; the browser's unless set on the profile
+export function useTimeZone(): string {
+  const { profile } = useAuth();
+  const saved = profile?.timezone;
+  return saved && isValidTimeZone(saved) ? saved : getBrowserTimeZone();
+}
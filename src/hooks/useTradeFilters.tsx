@@ -0,0 +1,39 @@
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { SavedView, TradeFilters, TradeSort } from '@/types/trade';
+import { filtersFromSearchParams, sortFromSearchParams, toSearchParams } from '@/utils/tradeFilters';
+
+// Filter, sort and saved view state kept in the URL so it survives reloads and can be shared
+export function useTradeFilters() {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const filters = useMemo(() => filtersFromSearchParams(searchParams), [searchParams]);
+  const sort = useMemo(() => sortFromSearchParams(searchParams), [searchParams]);
+  const viewId = searchParams.get('view');
+
+  const setFilters = useCallback((next: TradeFilters) => {
+    setSearchParams(toSearchParams(next, sort, viewId), { replace: true });
+  }, [setSearchParams, sort, viewId]);
+
+  const setSort = useCallback((next: TradeSort | null) => {
+    setSearchParams(toSearchParams(filters, next, viewId), { replace: true });
+  }, [setSearchParams, filters, viewId]);
+
+  const applyView = useCallback((view: SavedView | null) => {
+    setSearchParams(view ? toSearchParams(view.filters, view.sort, view.id) : new URLSearchParams());
+  }, [setSearchParams]);
+
+  const detachView = useCallback(() => {
+    setSearchParams(toSearchParams(filters, sort), { replace: true });
+  }, [setSearchParams, filters, sort]);
+
+  return {
+    filters,
+    sort,
+    viewId,
+    setFilters,
+    setSort,
+    applyView,
+    detachView,
+  };
+}
@@ -0,0 +1,21 @@
+import { useEffect } from 'react';
+import { subscribeToTrades } from './useTrades';
+
+// Bulk edits arrive as one change per trade, so reloading waits for them to settle
+const REFRESH_DELAY_MS = 300;
+
+// Calls refresh once the user's trades stop changing, for views that query the server themselves.
+// Pass a stable callback; a new one each render resubscribes.
+export function useTradeRefresh(refresh: () => void) {
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const unsubscribe = subscribeToTrades(() => {
+      clearTimeout(timer);
+      timer = setTimeout(refresh, REFRESH_DELAY_MS);
+    });
+    return () => {
+      clearTimeout(timer);
+      unsubscribe();
+    };
+  }, [refresh]);
+}
@@ -0,0 +1,101 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { TradeRevision } from '@/types/trade';
+import { CHANGE_SOURCE_HEADER, REFERENCE_FIELDS, getFieldLabel, getRestorableValues } from '@/utils/revisions';
+import { useAuth } from './useAuth';
+import { useToast } from '@/hooks/use-toast';
+
+export function useTradeRevisions(tradeId?: string) {
+  const [revisions, setRevisions] = useState<TradeRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const fetchRevisions = useCallback(async () => {
+    if (!user || !tradeId) return;
+
+    const { data, error } = await supabase
+      .from('trade_revisions')
+      .select('*')
+      .eq('trade_id', tradeId)
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      toast({
+        title: 'Error fetching trade history',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      setRevisions((data || []) as unknown as TradeRevision[]);
+    }
+    setLoading(false);
+  }, [user, tradeId, toast]);
+
+  useEffect(() => {
+    if (user && tradeId) {
+      fetchRevisions();
+    } else {
+      setRevisions([]);
+      setLoading(false);
+    }
+  }, [user, tradeId, fetchRevisions]);
+
+  // Reference fields whose account or playbook has been deleted since the version was saved
+  const findMissingReferences = async (values: Record<string, unknown>) => {
+    const missing: string[] = [];
+    for (const [field, table] of Object.entries(REFERENCE_FIELDS)) {
+      const id = values[field];
+      if (typeof id !== 'string') continue;
+      const { data, error } = await supabase.from(table).select('id').eq('id', id).maybeSingle();
+      if (error) return { missing, error };
+      if (!data) missing.push(field);
+    }
+    return { missing, error: null };
+  };
+
+  // Writes a stored row image back over the trade; the trigger logs this as a new revision.
+  // Only the trade's own fields go back: executions, checklist answers and screenshots stay as they are.
+  const restoreVersion = async (row: Record<string, unknown>) => {
+    if (!user) return { error: new Error('Not authenticated') };
+    if (!tradeId) return { error: new Error('No trade selected') };
+
+    const values = getRestorableValues(row);
+    const { missing, error: lookupError } = await findMissingReferences(values);
+    missing.forEach(field => delete values[field]);
+
+    const { error } = lookupError ? { error: lookupError } : await supabase
+      .from('trades')
+      .update(values)
+      .eq('id', tradeId)
+      .eq('user_id', user.id)
+      .setHeader(CHANGE_SOURCE_HEADER, 'restore');
+
+    if (error) {
+      toast({
+        title: 'Error restoring version',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      await fetchRevisions();
+      const kept = missing.map(field => getFieldLabel(field).toLowerCase()).join(' and ');
+      toast({
+        title: 'Version restored',
+        description: missing.length > 0
+          ? `The trade has been rolled back, but its ${kept} no longer exist${missing.length === 1 ? 's' : ''}, so the current ${missing.length === 1 ? 'one was' : 'ones were'} kept.`
+          : 'The trade has been rolled back to the selected version.',
+      });
+    }
+
+    return { error };
+  };
+
+  return {
+    revisions,
+    loading,
+    restoreVersion,
+    refetch: fetchRevisions,
+  };
+}
@@ -0,0 +1,172 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { ScreenshotAnnotation, ScreenshotPhase, TradeScreenshot } from '@/types/trade';
+import { useAuth } from './useAuth';
+import { useToast } from '@/hooks/use-toast';
+
+export const SCREENSHOT_BUCKET = 'trade-screenshots';
+const SIGNED_URL_TTL = 60 * 60;
+
+export function useTradeScreenshots(tradeId?: string) {
+  const [screenshots, setScreenshots] = useState<TradeScreenshot[]>([]);
+  const [urls, setUrls] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const fetchScreenshots = useCallback(async () => {
+    if (!user || !tradeId) return;
+
+    const { data, error } = await supabase
+      .from('trade_screenshots')
+      .select('*')
+      .eq('trade_id', tradeId)
+      .eq('user_id', user.id)
+      .order('position', { ascending: true })
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      toast({
+        title: 'Error fetching screenshots',
+        description: error.message,
+        variant: 'destructive',
+      });
+      setLoading(false);
+      return;
+    }
+
+    const rows = (data || []) as unknown as TradeScreenshot[];
+    setScreenshots(rows);
+
+    // The bucket is private, so images are shown through short-lived signed URLs
+    if (rows.length > 0) {
+      const { data: signed } = await supabase.storage
+        .from(SCREENSHOT_BUCKET)
+        .createSignedUrls(rows.map(r => r.storage_path), SIGNED_URL_TTL);
+      setUrls(Object.fromEntries(
+        (signed || []).filter(s => s.signedUrl && s.path).map(s => [s.path as string, s.signedUrl])
+      ));
+    }
+    setLoading(false);
+  }, [user, tradeId, toast]);
+
+  useEffect(() => {
+    if (user && tradeId) {
+      fetchScreenshots();
+    } else {
+      setScreenshots([]);
+      setLoading(false);
+    }
+  }, [user, tradeId, fetchScreenshots]);
+
+  const uploadScreenshots = async (files: File[], phase: ScreenshotPhase, targetTradeId = tradeId) => {
+    if (!user) return { error: new Error('Not authenticated') };
+    if (!targetTradeId) return { error: new Error('Save the trade before adding screenshots') };
+
+    let error: Error | null = null;
+    let position = screenshots.length;
+
+    for (const file of files) {
+      const extension = file.name.split('.').pop()?.toLowerCase() || file.type.split('/')[1] || 'png';
+      const path = `${user.id}/${targetTradeId}/${crypto.randomUUID()}.${extension}`;
+
+      const { error: uploadError } = await supabase.storage
+        .from(SCREENSHOT_BUCKET)
+        .upload(path, file, { contentType: file.type });
+      if (uploadError) {
+        error = uploadError;
+        break;
+      }
+
+      const { error: insertError } = await supabase.from('trade_screenshots').insert({
+        trade_id: targetTradeId,
+        user_id: user.id,
+        storage_path: path,
+        phase,
+        position: position++,
+      });
+      if (insertError) {
+        await supabase.storage.from(SCREENSHOT_BUCKET).remove([path]);
+        error = insertError;
+        break;
+      }
+    }
+
+    if (error) {
+      toast({
+        title: 'Error uploading screenshot',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+    if (targetTradeId === tradeId) {
+      await fetchScreenshots();
+    }
+
+    return { error };
+  };
+
+  const updateScreenshot = async (
+    id: string,
+    changes: Partial<{ phase: ScreenshotPhase; caption: string | null; annotations: ScreenshotAnnotation[] }>
+  ) => {
+    if (!user) return { error: new Error('Not authenticated') };
+
+    const { annotations, ...rest } = changes;
+    const { error } = await supabase
+      .from('trade_screenshots')
+      .update({
+        ...rest,
+        ...(annotations ? { annotations: annotations as unknown as Json } : {}),
+      })
+      .eq('id', id)
+      .eq('user_id', user.id);
+
+    if (error) {
+      toast({
+        title: 'Error saving screenshot',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      setScreenshots(prev => prev.map(s => (s.id === id ? { ...s, ...changes } : s)));
+    }
+
+    return { error };
+  };
+
+  const deleteScreenshot = async (id: string) => {
+    if (!user) return { error: new Error('Not authenticated') };
+
+    const screenshot = screenshots.find(s => s.id === id);
+    const { error } = await supabase
+      .from('trade_screenshots')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', user.id);
+
+    if (!error) {
+      if (screenshot) {
+        await supabase.storage.from(SCREENSHOT_BUCKET).remove([screenshot.storage_path]);
+      }
+      setScreenshots(prev => prev.filter(s => s.id !== id));
+      toast({
+        title: 'Screenshot deleted',
+        description: 'The image has been removed from this trade.',
+      });
+    }
+
+    return { error };
+  };
+
+  return {
+    screenshots,
+    urls,
+    loading,
+    uploadScreenshots,
+    updateScreenshot,
+    deleteScreenshot,
+    refetch: fetchScreenshots,
+  };
+}
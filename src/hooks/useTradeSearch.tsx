@@ -0,0 +1,147 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { PnLBasis, Trade, TradeFilters, TradeSort, TradeSortKey } from '@/types/trade';
+import { filtersToNode } from '@/utils/tradeFilters';
+import { getBrowserTimeZone } from '@/utils/timezone';
+import { TRADE_SELECT, TradeRow, mapTradeRow } from './useTrades';
+import { useTradeRefresh } from './useTradeRefresh';
+import { useAuth } from './useAuth';
+import { useAccounts, ALL_ACCOUNTS } from './useAccounts';
+import { usePnLBasis } from './usePnLBasis';
+import { useToast } from '@/hooks/use-toast';
+
+const PAGE_SIZE = 50;
+const ID_PAGE_SIZE = 1000; // PostgREST's default row cap
+
+// Columns, or computed fields from the search migration, the server orders by
+function sortColumn(key: TradeSortKey, basis: PnLBasis): string {
+  switch (key) {
+    case 'pl': return `trade_result_${basis}`;
+    case 'r_multiple': return `trade_r_${basis}`;
+    case 'duration': return 'trade_holding_minutes';
+    default: return key;
+  }
+}
+
+interface SearchResult {
+  key: string;
+  total: number;
+  pages: Record<number, Trade[]>;
+}
+
+// The Trades list, filtered, sorted and paged by the database. Pages load as they scroll into view
+// and reload when the user's trades change. Dates match in the browser's zone, like toDayKey.
+export function useTradeSearch(filters: TradeFilters, sort: TradeSort | null) {
+  const { user } = useAuth();
+  const { selectedAccountId } = useAccounts();
+  const pnlBasis = usePnLBasis();
+  const { toast } = useToast();
+  const [result, setResult] = useState<SearchResult | null>(null);
+  const requested = useRef(new Set<number>());
+
+  const node = useMemo(() => filtersToNode(filters), [filters]);
+  const key = JSON.stringify([user?.id, selectedAccountId, pnlBasis, node, sort]);
+  const keyRef = useRef(key);
+  keyRef.current = key;
+
+  const search = useCallback((select: string, count?: 'exact') => supabase
+    .rpc('search_trades', {
+      p_filter: node as unknown as Json,
+      p_basis: pnlBasis,
+      p_time_zone: getBrowserTimeZone(),
+      p_account_id: selectedAccountId === ALL_ACCOUNTS ? undefined : selectedAccountId,
+    }, { count })
+    .select(select), [node, pnlBasis, selectedAccountId]);
+
+  const fetchPage = useCallback(async (index: number) => {
+    if (!user) return;
+    requested.current.add(index);
+
+    // Newest first unless sorted; rows without a value go last either way, and id keeps pages stable
+    const { data, error, count } = await search(TRADE_SELECT, index === 0 ? 'exact' : undefined)
+      .order(sort ? sortColumn(sort.key, pnlBasis) : 'entry_date', { ascending: sort?.direction === 'asc', nullsFirst: false })
+      .order('id', { ascending: true })
+      .range(index * PAGE_SIZE, (index + 1) * PAGE_SIZE - 1);
+
+    if (keyRef.current !== key) return;
+    if (error) {
+      requested.current.delete(index);
+      toast({
+        title: 'Error fetching trades',
+        description: error.message,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const rows = ((data || []) as unknown as TradeRow[]).map(mapTradeRow);
+    setResult(prev => {
+      const current = prev?.key === key ? prev : { key, total: 0, pages: {} };
+      return {
+        key,
+        total: index === 0 ? count ?? rows.length : current.total,
+        pages: { ...current.pages, [index]: rows },
+      };
+    });
+  }, [user, key, search, sort, pnlBasis, toast]);
+
+  // A new query starts over from its first page; the previous rows stay up until it arrives
+  useEffect(() => {
+    requested.current = new Set();
+    if (user) fetchPage(0);
+    else setResult(null);
+  }, [user, fetchPage]);
+
+  // Reloads the pages already on screen, the first one with a fresh count
+  useTradeRefresh(useCallback(() => {
+    const loaded = Array.from(requested.current);
+    requested.current = new Set();
+    (loaded.includes(0) ? loaded : [0, ...loaded]).forEach(fetchPage);
+  }, [fetchPage]));
+
+  const current = result?.key === key ? result : null;
+
+  // Rows from first to last inclusive, by position in the list
+  const loadRange = useCallback((first: number, last: number) => {
+    if (!current) return;
+    const lastPage = Math.min(Math.floor(last / PAGE_SIZE), Math.ceil(current.total / PAGE_SIZE) - 1);
+    for (let index = Math.floor(first / PAGE_SIZE); index <= lastPage; index++) {
+      if (!requested.current.has(index)) fetchPage(index);
+    }
+  }, [current, fetchPage]);
+
+  const getTrade = useCallback((position: number): Trade | undefined => {
+    return result?.pages[Math.floor(position / PAGE_SIZE)]?.[position % PAGE_SIZE];
+  }, [result]);
+
+  // Every matching id, for selecting all matches without loading the trades themselves
+  const fetchMatchingIds = useCallback(async (): Promise<{ ids: string[]; error: Error | null }> => {
+    const ids: string[] = [];
+    for (let from = 0; ; from += ID_PAGE_SIZE) {
+      const { data, error } = await search('id')
+        .order('id', { ascending: true })
+        .range(from, from + ID_PAGE_SIZE - 1);
+
+      if (error) {
+        toast({
+          title: 'Error selecting trades',
+          description: error.message,
+          variant: 'destructive',
+        });
+        return { ids, error: new Error(error.message) };
+      }
+      ids.push(...((data || []) as unknown as { id: string }[]).map(row => row.id));
+      if (!data || data.length < ID_PAGE_SIZE) return { ids, error: null };
+    }
+  }, [search, toast]);
+
+  return {
+    total: result?.total ?? 0,
+    loading: !result,
+    stale: !current,
+    getTrade,
+    loadRange,
+    fetchMatchingIds,
+  };
+}
@@ -0,0 +1,150 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Database, Json } from '@/integrations/supabase/types';
+import { TradeFilters } from '@/types/trade';
+import { TradeGroup, TradeGroupTotals, TradePoint, TradeTotals, emptyTotals } from '@/utils/analytics';
+import { filtersToNode } from '@/utils/tradeFilters';
+import { getBrowserTimeZone } from '@/utils/timezone';
+import { useAuth } from './useAuth';
+import { useAccounts, ALL_ACCOUNTS } from './useAccounts';
+import { usePnLBasis } from './usePnLBasis';
+import { useTimeZone } from './useTimeZone';
+import { useTradeRefresh } from './useTradeRefresh';
+import { useToast } from '@/hooks/use-toast';
+
+const POINT_PAGE_SIZE = 1000; // PostgREST's default row cap
+const NO_GROUPS: TradeGroup[] = [];
+const NO_TOTALS = emptyTotals();
+
+type StatsRow = Database['public']['Functions']['get_trade_stats']['Returns'][number];
+
+function toTotals(row: StatsRow): TradeTotals {
+  return {
+    trades: Number(row.trades),
+    wins: Number(row.wins),
+    losses: Number(row.losses),
+    breakeven: Number(row.breakeven),
+    totalPL: Number(row.total_pl),
+    grossPL: Number(row.gross_pl),
+    commission: Number(row.commission),
+    swap: Number(row.swap),
+    otherFees: Number(row.other_fees),
+    winAmount: Number(row.win_amount),
+    lossAmount: Number(row.loss_amount),
+    largestWin: Number(row.largest_win),
+    largestLoss: Number(row.largest_loss),
+    rrTrades: Number(row.rr_trades),
+    rrTotal: Number(row.rr_total),
+    riskTrades: Number(row.risk_trades),
+    riskTotal: Number(row.risk_total),
+    pipTrades: Number(row.pip_trades),
+    pipTotal: Number(row.pip_total),
+    rTrades: Number(row.r_trades),
+    rTotal: Number(row.r_total),
+    rSquares: Number(row.r_squares),
+    winRTrades: Number(row.win_r_trades),
+    winRTotal: Number(row.win_r_total),
+    lossRTrades: Number(row.loss_r_trades),
+    lossRTotal: Number(row.loss_r_total),
+    largestWinR: Number(row.largest_win_r),
+    largestLossR: Number(row.largest_loss_r),
+  };
+}
+
+interface TradeStatsOptions {
+  filters?: TradeFilters;
+  groups?: TradeGroup[]; // Pass a constant, not a new array each render
+  points?: boolean;
+}
+
+interface TradeStatsResult {
+  key: string;
+  totals: TradeTotals;
+  groups: Partial<Record<TradeGroup, TradeGroupTotals[]>>;
+  points: TradePoint[];
+}
+
+// Totals, breakdowns and equity points for the selected account's closed trades, computed by the
+// database from get_trade_stats and get_trade_points. Filter dates and months are in the browser's
+// zone, weekdays in the profile's. The last figures stay up while a reload is in flight.
+export function useTradeStats({ filters, groups = NO_GROUPS, points = false }: TradeStatsOptions = {}) {
+  const { user } = useAuth();
+  const { selectedAccountId } = useAccounts();
+  const pnlBasis = usePnLBasis();
+  const timeZone = useTimeZone();
+  const { toast } = useToast();
+  const [result, setResult] = useState<TradeStatsResult | null>(null);
+
+  const node = useMemo(() => (filters ? filtersToNode(filters) : null), [filters]);
+  const key = JSON.stringify([user?.id, selectedAccountId, pnlBasis, timeZone, node, groups, points]);
+  const keyRef = useRef(key);
+  keyRef.current = key;
+
+  const fetchStats = useCallback(async () => {
+    if (!user) return;
+
+    const args = {
+      p_filter: node as unknown as Json,
+      p_basis: pnlBasis,
+      p_time_zone: getBrowserTimeZone(),
+      p_account_id: selectedAccountId === ALL_ACCOUNTS ? undefined : selectedAccountId,
+    };
+
+    const fetchPoints = async () => {
+      const rows: TradePoint[] = [];
+      for (let from = 0; ; from += POINT_PAGE_SIZE) {
+        const { data, error } = await supabase
+          .rpc('get_trade_points', args)
+          .range(from, from + POINT_PAGE_SIZE - 1);
+        if (error) return { rows, error };
+        rows.push(...(data || []).map(row => ({ id: row.id, time: new Date(row.exit_date).getTime(), pl: Number(row.pl) })));
+        if (!data || data.length < POINT_PAGE_SIZE) return { rows, error: null };
+      }
+    };
+
+    const [summary, grouped, pointResult] = await Promise.all([
+      supabase.rpc('get_trade_stats', args),
+      Promise.all(groups.map(group => supabase.rpc('get_trade_stats', {
+        ...args,
+        p_group: group,
+        p_group_time_zone: group === 'weekday' ? timeZone : undefined,
+      }))),
+      points ? fetchPoints() : Promise.resolve({ rows: [], error: null }),
+    ]);
+
+    if (keyRef.current !== key) return;
+    const error = summary.error || grouped.find(g => g.error)?.error || pointResult.error;
+    if (error) {
+      toast({
+        title: 'Error fetching trade stats',
+        description: error.message,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setResult({
+      key,
+      totals: summary.data?.[0] ? toTotals(summary.data[0]) : NO_TOTALS,
+      groups: Object.fromEntries(groups.map((group, index) => [
+        group,
+        (grouped[index].data || []).map(row => ({ key: row.group_key, ...toTotals(row) })),
+      ])),
+      points: pointResult.rows,
+    });
+  }, [user, key, node, pnlBasis, selectedAccountId, timeZone, groups, points, toast]);
+
+  useEffect(() => {
+    if (user) fetchStats();
+    else setResult(null);
+  }, [user, fetchStats]);
+
+  useTradeRefresh(fetchStats);
+
+  return {
+    totals: result?.totals ?? NO_TOTALS,
+    groups: result?.groups ?? {},
+    points: result?.points ?? [],
+    loading: !result,
+  };
+}
@@ -0,0 +1,49 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { TradeSummary } from '@/types/trade';
+import { useAuth } from './useAuth';
+import { useToast } from '@/hooks/use-toast';
+
+// Per-account totals computed in the database, for pages that don't need the trades themselves
+export function useTradeSummary() {
+  const [summaries, setSummaries] = useState<TradeSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const fetchSummary = useCallback(async () => {
+    if (!user) return;
+
+    const { data, error } = await supabase.rpc('get_trade_summary');
+
+    if (error) {
+      toast({
+        title: 'Error fetching trade totals',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      setSummaries((data || []).map(row => ({
+        ...row,
+        gross_pl: Number(row.gross_pl),
+        net_pl: Number(row.net_pl),
+      })));
+    }
+    setLoading(false);
+  }, [user, toast]);
+
+  useEffect(() => {
+    if (user) {
+      fetchSummary();
+    } else {
+      setSummaries([]);
+      setLoading(false);
+    }
+  }, [user, fetchSummary]);
+
+  return {
+    summaries,
+    loading,
+    refetch: fetchSummary,
+  };
+}
@@ -1,20 +1,213 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { supabase } from '@/integrations/supabase/client';
-import { Trade, TradeFormData } from '@/types/trade';
+import { RuleAnswer, Trade, TradeChangeSource, TradeExecution, TradeExecutionFormData, TradeFormData } from '@/types/trade';
+import { CHANGE_SOURCE_HEADER } from '@/utils/revisions';
+import { BulkTradeChange, BulkTradeFields, groupPatches, runInBatches } from '@/utils/bulkEdit';
+import { getSyncCursor, mergeTrades, readTradeCache, writeTradeCache } from '@/utils/tradeCache';
 import { useAuth } from './useAuth';
+import { useAccounts, ALL_ACCOUNTS } from './useAccounts';
 import { useToast } from '@/hooks/use-toast';
+import { ToastAction } from '@/components/ui/toast';
+import { TRASH_RETENTION_DAYS } from '@/utils/trash';
+
+const SYNC_PAGE_SIZE = 1000; // PostgREST's default row cap
+// updated_at is stamped when a transaction starts, so a row committed just after the last sync can carry an older time
+const SYNC_OVERLAP_MS = 5 * 60 * 1000;
+// Tombstones of deleted trades are only kept for the trash retention period, so caches older than that start over
+const MAX_CACHE_AGE_MS = TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+
+interface TradeStore {
+  userId: string;
+  cursor: string | null;
+  trades: Trade[];
+}
+
+// Shared by every mounted useTrades so pages and the layout don't each hold their own copy
+let store: TradeStore | null = null;
+let pendingSync: Promise<{ error: Error | null }> | null = null;
+let queuedSync: Promise<{ error: Error | null }> | null = null;
+const listeners = new Set<(trades: Trade[]) => void>();
+
+// For views that query the server themselves and need to know when the user's trades change
+export function subscribeToTrades(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function publish(next: TradeStore, persist = true) {
+  store = next;
+  listeners.forEach(listener => listener(next.trades));
+  if (persist) writeTradeCache(next.userId, { cursor: next.cursor, trades: next.trades });
+}
+
+function updateStore(userId: string, update: (prev: Trade[]) => Trade[]) {
+  if (store?.userId !== userId) return;
+  publish({ ...store, trades: update(store.trades) });
+}
+
+// A trade with its fills and checklist answers, as mapTradeRow expects it
+export const TRADE_SELECT = '*, trade_executions(*), trade_rule_answers(rule_id, answer)';
+
+export type TradeRow = Omit<Trade, 'emotions_array' | 'executions' | 'rule_answers'> & {
+  emotions: string[] | null;
+  trade_executions: TradeExecution[] | null;
+  trade_rule_answers: { rule_id: string; answer: string }[] | null;
+};
+
+export function mapTradeRow({ trade_executions, trade_rule_answers, ...t }: TradeRow): Trade {
+  return {
+    ...t,
+    emotions_array: t.emotions || [],
+    executions: (trade_executions || [])
+      .sort((a, b) => new Date(a.executed_at).getTime() - new Date(b.executed_at).getTime()),
+    rule_answers: Object.fromEntries(
+      (trade_rule_answers || []).map(a => [a.rule_id, a.answer as RuleAnswer])
+    ),
+  };
+}
+
+function toExecutionRows(executions: TradeExecutionFormData[]) {
+  return executions.map(e => ({
+    id: e.id ?? null,
+    side: e.side,
+    price: e.price,
+    volume: e.volume,
+    executed_at: e.executed_at.toISOString(),
+    profit_loss: e.profit_loss ?? null,
+  }));
+}
+
+// Every trade changed since the given time, trashed ones included so they can be dropped; live trades only without one
+async function fetchChangedTrades(userId: string, since: string | null) {
+  const rows: Trade[] = [];
+  for (let from = 0; ; from += SYNC_PAGE_SIZE) {
+    let query = supabase
+      .from('trades')
+      .select(TRADE_SELECT)
+      .eq('user_id', userId);
+    query = since ? query.gte('updated_at', since) : query.is('deleted_at', null);
+
+    const { data, error } = await query
+      .order('updated_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + SYNC_PAGE_SIZE - 1);
+
+    if (error) return { rows, error: new Error(error.message) };
+    rows.push(...((data || []) as unknown as TradeRow[]).map(mapTradeRow));
+    if (!data || data.length < SYNC_PAGE_SIZE) return { rows, error: null };
+  }
+}
+
+// Ids of trades deleted outright since the given time, from the tombstones their deletes leave
+async function fetchDeletedIds(userId: string, since: string) {
+  const ids: string[] = [];
+  for (let from = 0; ; from += SYNC_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('trade_tombstones')
+      .select('trade_id')
+      .eq('user_id', userId)
+      .gte('deleted_at', since)
+      .order('deleted_at', { ascending: true })
+      .order('trade_id', { ascending: true })
+      .range(from, from + SYNC_PAGE_SIZE - 1);
+
+    if (error) return { ids, error: new Error(error.message) };
+    ids.push(...(data || []).map(row => row.trade_id));
+    if (!data || data.length < SYNC_PAGE_SIZE) return { ids, error: null };
+  }
+}
+
+async function syncStore(userId: string): Promise<{ error: Error | null }> {
+  let current = store?.userId === userId ? store : null;
+  if (!current) {
+    const cached = await readTradeCache(userId);
+    if (cached) {
+      current = { userId, ...cached };
+      publish(current, false);
+    }
+  }
+
+  const cursorTime = current?.cursor ? new Date(current.cursor).getTime() : null;
+  const since = cursorTime !== null && Date.now() - cursorTime < MAX_CACHE_AGE_MS
+    ? new Date(cursorTime - SYNC_OVERLAP_MS).toISOString()
+    : null;
+
+  const [{ rows, error: changedError }, deleted] = await Promise.all([
+    fetchChangedTrades(userId, since),
+    since ? fetchDeletedIds(userId, since) : Promise.resolve({ ids: [], error: null }),
+  ]);
+  const error = changedError || deleted.error;
+  if (error) return { error };
+
+  // Deletes go first, so a trade inserted again under the same id comes back with the changed rows
+  const removed = new Set(deleted.ids);
+  const trades = mergeTrades(since ? current!.trades.filter(t => !removed.has(t.id)) : [], rows);
+
+  // The overlap window refetches rows already held; unless something really changed, subscribers aren't told
+  if (since) {
+    const held = new Map(current!.trades.map(t => [t.id, t.updated_at]));
+    const changed = rows.some(t => held.get(t.id) !== t.updated_at) || held.size !== trades.length;
+    if (!changed) return { error: null };
+  }
+
+  publish({ userId, cursor: getSyncCursor(rows, since ? current!.cursor : null), trades });
+  return { error: null };
+}
+
+// Callers share a sync that's already running, except after a write: that sync may have read before it, so one more follows
+function requestSync(userId: string, afterWrite: boolean): Promise<{ error: Error | null }> {
+  if (!pendingSync) {
+    pendingSync = syncStore(userId).finally(() => {
+      pendingSync = null;
+    });
+    return pendingSync;
+  }
+  if (!afterWrite) return pendingSync;
+  if (!queuedSync) {
+    queuedSync = pendingSync.then(() => {
+      queuedSync = null;
+      return requestSync(userId, false);
+    });
+  }
+  return queuedSync;
+}
 
 export function useTrades() {
-  const [trades, setTrades] = useState<Trade[]>([]);
-  const [loading, setLoading] = useState(true);
   const { user } = useAuth();
+  const { selectedAccountId } = useAccounts();
   const { toast } = useToast();
+  const cached = user && store?.userId === user.id ? store.trades : null;
+  const [allTrades, setAllTrades] = useState<Trade[]>(cached ?? []);
+  const [loading, setLoading] = useState(!cached);
+
+  // Everything is cached across accounts, so switching accounts needs no request
+  const trades = useMemo(
+    () => selectedAccountId === ALL_ACCOUNTS
+      ? allTrades
+      : allTrades.filter(t => t.account_id === selectedAccountId),
+    [allTrades, selectedAccountId]
+  );
+
+  // Cached trades show straight away while the sync catches up
+  useEffect(() => {
+    const listener = (next: Trade[]) => {
+      setAllTrades(next);
+      setLoading(false);
+    };
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }, []);
 
   useEffect(() => {
     if (user) {
-      fetchTrades();
+      if (store?.userId === user.id) setAllTrades(store.trades);
+      fetchTrades(false);
     } else {
-      setTrades([]);
+      setAllTrades([]);
       setLoading(false);
     }
   }, [user]);
@@ -33,19 +226,56 @@ export function useTrades() {
           filter: `user_id=eq.${user.id}`,
         },
         (payload) => {
-          const newTrade = payload.new as any;
-          const mappedTrade = {
-            ...newTrade,
-            emotions_array: newTrade.emotions || []
-          } as unknown as Trade;
+          const newTrade = payload.new as TradeRow;
+          if (newTrade.deleted_at) return;
+          const mappedTrade = mapTradeRow({ ...newTrade, trade_executions: [], trade_rule_answers: [] });
 
-          setTrades((prev) => {
+          updateStore(user.id, (prev) => {
             const exists = prev.some((t) => t.id === mappedTrade.id);
             if (exists) return prev;
             return [mappedTrade, ...prev];
           });
         }
       )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'trades',
+          filter: `user_id=eq.${user.id}`,
+        },
+        (payload) => {
+          const updated = payload.new as Trade & { emotions: string[] | null };
+
+          if (updated.deleted_at) {
+            updateStore(user.id, (prev) => prev.filter((t) => t.id !== updated.id));
+            return;
+          }
+
+          // Restored from the trash elsewhere; its fills and answers are needed too
+          if (!store?.trades.some((t) => t.id === updated.id)) {
+            requestSync(user.id, true);
+            return;
+          }
+          updateStore(user.id, (prev) => prev.map((t) => t.id === updated.id
+            ? { ...t, ...updated, emotions_array: updated.emotions || [] }
+            : t));
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          // Deletes can't be filtered by column, but ids from other users never match local state
+          event: 'DELETE',
+          schema: 'public',
+          table: 'trades',
+        },
+        (payload) => {
+          const removedId = (payload.old as { id?: string }).id;
+          if (removedId) updateStore(user.id, (prev) => prev.filter((t) => t.id !== removedId));
+        }
+      )
       .subscribe();
 
     return () => {
@@ -53,15 +283,11 @@ export function useTrades() {
     };
   }, [user]);
 
-  const fetchTrades = async () => {
+  // Only fetches what changed since the last sync
+  const fetchTrades = async (afterWrite = true) => {
     if (!user) return;
 
-    setLoading(true);
-    const { data, error } = await supabase
-      .from('trades')
-      .select('*')
-      .eq('user_id', user.id)
-      .order('entry_date', { ascending: false });
+    const { error } = await requestSync(user.id, afterWrite);
 
     if (error) {
       toast({
@@ -69,21 +295,17 @@ export function useTrades() {
         description: error.message,
         variant: 'destructive',
       });
-    } else {
-      const mappedTrades = (data || []).map(t => ({
-        ...t,
-        emotions_array: (t as any).emotions || []
-      }));
-      setTrades(mappedTrades as unknown as Trade[]);
     }
     setLoading(false);
   };
 
-  const addTrade = async (formData: TradeFormData) => {
+  const addTrade = async (formData: TradeFormData, source: TradeChangeSource = 'manual') => {
     if (!user) return { error: new Error('Not authenticated') };
 
     const tradeData: any = {
-      user_id: user.id,
+      account_id: formData.account_id !== undefined
+        ? formData.account_id
+        : (selectedAccountId !== ALL_ACCOUNTS ? selectedAccountId : null),
       symbol: formData.symbol.toUpperCase(),
       asset_class: formData.asset_class,
       direction: formData.direction,
@@ -103,7 +325,11 @@ export function useTrades() {
       pips: formData.pips || null,
       risk_amount: formData.risk_amount || null,
       reward_amount: formData.reward_amount || null,
+      commission: formData.commission || 0,
+      swap: formData.swap || 0,
+      other_fees: formData.other_fees || 0,
       strategy: formData.strategy || null,
+      playbook_id: formData.playbook_id || null,
       reasoning: formData.reasoning || null,
       lessons: formData.lessons || null,
       tags: formData.tags || [],
@@ -111,19 +337,18 @@ export function useTrades() {
       needs_review: formData.needs_review || false,
       setup_type: formData.setup_type || null,
       probability: formData.probability || null,
-      rule_in_plan: formData.rule_in_plan || null,
-      rule_bos: formData.rule_bos || null,
-      rule_liquidity: formData.rule_liquidity || null,
-      rule_trend: formData.rule_trend || null,
-      rule_news: formData.rule_news || null,
-      rule_rr: formData.rule_rr || null,
-      rule_emotions: formData.rule_emotions || null,
-      rule_lot_size: formData.rule_lot_size || null,
       emotions: formData.emotions_array || null,
       lessons_learned: formData.lessons_learned || null,
     };
 
-    const { error } = await supabase.from('trades').insert(tradeData);
+    // The trade, its fills and its checklist answers are saved together or not at all
+    const { data: id, error } = await supabase
+      .rpc('save_trade', {
+        p_trade: tradeData,
+        p_executions: formData.executions?.length ? toExecutionRows(formData.executions) : undefined,
+        p_rule_answers: formData.rule_answers,
+      })
+      .setHeader(CHANGE_SOURCE_HEADER, source);
 
     if (!error) {
       await fetchTrades();
@@ -133,7 +358,7 @@ export function useTrades() {
       });
     }
 
-    return { error };
+    return { error, id: id ?? undefined };
   };
 
   const updateTrade = async (id: string, formData: Partial<TradeFormData>) => {
@@ -159,11 +384,16 @@ export function useTrades() {
       delete updateData.emotions_array;
     }
 
-    const { error } = await supabase
-      .from('trades')
-      .update(updateData)
-      .eq('id', id)
-      .eq('user_id', user.id);
+    // Executions and checklist answers live in their own tables
+    delete updateData.executions;
+    delete updateData.rule_answers;
+
+    const { error } = await supabase.rpc('save_trade', {
+      p_trade: updateData,
+      p_trade_id: id,
+      p_executions: formData.executions ? toExecutionRows(formData.executions) : undefined,
+      p_rule_answers: formData.rule_answers,
+    });
 
     if (!error) {
       await fetchTrades();
@@ -176,26 +406,141 @@ export function useTrades() {
     return { error };
   };
 
-  const deleteTrade = async (id: string) => {
+  // Moves the trades to the trash; they can be restored until they are purged
+  const deleteTrades = async (ids: string[]) => {
     if (!user) return { error: new Error('Not authenticated') };
 
-    const { error } = await supabase
+    const { done, error } = await runInBatches(ids, batch => supabase
       .from('trades')
-      .delete()
-      .eq('id', id)
-      .eq('user_id', user.id);
+      .update({ deleted_at: new Date().toISOString() })
+      .in('id', batch)
+      .eq('user_id', user.id));
 
-    if (!error) {
-      setTrades(trades.filter(t => t.id !== id));
+    const trashed = new Set(done);
+    if (trashed.size > 0) updateStore(user.id, prev => prev.filter(t => !trashed.has(t.id)));
+
+    // Undo only brings back what actually reached the trash
+    const undo = done.length > 0 ? (
+      <ToastAction altText="Undo delete" onClick={() => restoreTrades(done)}>
+        Undo
+      </ToastAction>
+    ) : undefined;
+
+    if (error) {
+      toast({
+        title: 'Error deleting trades',
+        description: done.length > 0
+          ? `${error.message}. ${done.length} of ${ids.length} trades were moved to the trash.`
+          : error.message,
+        variant: 'destructive',
+        action: undo,
+      });
+    } else {
       toast({
-        title: 'Trade deleted',
-        description: 'Your trade has been removed.',
+        title: ids.length === 1 ? 'Trade moved to trash' : `${ids.length} trades moved to trash`,
+        description: `${ids.length === 1 ? 'It' : 'They'} will be permanently deleted after ${TRASH_RETENTION_DAYS} days.`,
+        action: undo,
       });
     }
 
     return { error };
   };
 
+  const restoreTrades = async (ids: string[]) => {
+    if (!user) return { error: new Error('Not authenticated') };
+
+    const { done, error } = await runInBatches(ids, batch => supabase
+      .from('trades')
+      .update({ deleted_at: null })
+      .in('id', batch)
+      .eq('user_id', user.id));
+
+    if (done.length > 0) await fetchTrades();
+
+    if (error) {
+      toast({
+        title: 'Error restoring trades',
+        description: done.length > 0
+          ? `${error.message}. ${done.length} of ${ids.length} trades were restored.`
+          : error.message,
+        variant: 'destructive',
+      });
+    } else {
+      toast({
+        title: ids.length === 1 ? 'Trade restored' : `${ids.length} trades restored`,
+        description: ids.length === 1 ? 'The trade is back in your journal.' : 'The trades are back in your journal.',
+      });
+    }
+
+    return { error };
+  };
+
+  // Trades getting identical values are updated together; done holds the ids whose patch was written
+  const applyPatches = async (rows: { id: string; patch: BulkTradeFields }[]) => {
+    const done: string[] = [];
+    for (const { ids, patch } of groupPatches(rows)) {
+      const result = await runInBatches(ids, batch => supabase
+        .from('trades')
+        .update(patch)
+        .in('id', batch)
+        .eq('user_id', user!.id));
+      done.push(...result.done);
+      if (result.error) return { done, error: result.error };
+    }
+    return { done, error: null };
+  };
+
+  const bulkUpdateTrades = async (changes: BulkTradeChange[]) => {
+    if (!user) return { error: new Error('Not authenticated') };
+
+    const { done, error } = await applyPatches(changes);
+    await fetchTrades();
+
+    // Undo only puts back the trades that were actually changed
+    const written = new Set(done);
+    const applied = changes.filter(c => written.has(c.id));
+    const undo = applied.length > 0 ? (
+      <ToastAction altText="Undo bulk edit" onClick={() => undoBulkUpdate(applied)}>
+        Undo
+      </ToastAction>
+    ) : undefined;
+
+    if (error) {
+      toast({
+        title: 'Error updating trades',
+        description: `${error.message}. ${applied.length} of ${changes.length} trades were changed.`,
+        variant: 'destructive',
+        action: undo,
+      });
+    } else {
+      toast({
+        title: changes.length === 1 ? 'Trade updated' : `${changes.length} trades updated`,
+        description: 'Every changed field can be put back with undo.',
+        action: undo,
+      });
+    }
+
+    return { error };
+  };
+
+  const undoBulkUpdate = async (changes: BulkTradeChange[]) => {
+    const { done, error } = await applyPatches(changes.map(c => ({ id: c.id, patch: c.previous })));
+    await fetchTrades();
+
+    if (error) {
+      toast({
+        title: 'Error undoing changes',
+        description: `${error.message}. ${done.length} of ${changes.length} trades were put back.`,
+        variant: 'destructive',
+      });
+    } else {
+      toast({
+        title: 'Changes undone',
+        description: `${changes.length === 1 ? 'The trade is' : `${changes.length} trades are`} back as they were.`,
+      });
+    }
+  };
+
   const importTrades = async (tradesData: TradeFormData[]) => {
     if (!user) return { error: new Error('Not authenticated'), imported: 0 };
 
@@ -203,7 +548,7 @@ export function useTrades() {
     const errors: string[] = [];
 
     for (const trade of tradesData) {
-      const result = await addTrade(trade);
+      const result = await addTrade(trade, 'csv_import');
       if (result.error) {
         errors.push(result.error.message);
       } else {
@@ -229,8 +574,10 @@ export function useTrades() {
     loading,
     addTrade,
     updateTrade,
-    deleteTrade,
+    deleteTrades,
+    restoreTrades,
+    bulkUpdateTrades,
     importTrades,
-    refetch: fetchTrades,
+    refetch: () => fetchTrades(),
   };
 }
@@ -0,0 +1,129 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Trade } from '@/types/trade';
+import { runInBatches } from '@/utils/bulkEdit';
+import { SCREENSHOT_BUCKET } from './useTradeScreenshots';
+import { useAuth } from './useAuth';
+import { useToast } from '@/hooks/use-toast';
+
+export function useTrash() {
+  const [trashedTrades, setTrashedTrades] = useState<Trade[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const fetchTrash = useCallback(async () => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from('trades')
+      .select('*')
+      .eq('user_id', user.id)
+      .not('deleted_at', 'is', null)
+      .order('deleted_at', { ascending: false });
+
+    if (error) {
+      toast({
+        title: 'Error fetching trash',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      setTrashedTrades((data || []) as unknown as Trade[]);
+    }
+    setLoading(false);
+  }, [user, toast]);
+
+  useEffect(() => {
+    if (user) {
+      fetchTrash();
+    } else {
+      setTrashedTrades([]);
+      setLoading(false);
+    }
+  }, [user, fetchTrash]);
+
+  const restoreTrades = async (ids: string[]) => {
+    if (!user) return { error: new Error('Not authenticated') };
+
+    const { done, error } = await runInBatches(ids, batch => supabase
+      .from('trades')
+      .update({ deleted_at: null })
+      .in('id', batch)
+      .eq('user_id', user.id));
+
+    const restored = new Set(done);
+    if (restored.size > 0) setTrashedTrades(prev => prev.filter(t => !restored.has(t.id)));
+
+    if (error) {
+      toast({
+        title: 'Error restoring trades',
+        description: done.length > 0
+          ? `${error.message}. ${done.length} of ${ids.length} trades were restored.`
+          : error.message,
+        variant: 'destructive',
+      });
+    } else {
+      toast({
+        title: ids.length === 1 ? 'Trade restored' : `${ids.length} trades restored`,
+        description: 'Restored trades are back in your journal.',
+      });
+    }
+
+    return { error };
+  };
+
+  // Hard delete; child rows cascade, but screenshot files have to be removed from storage here
+  const purgeTrades = async (ids: string[]) => {
+    if (!user) return { error: new Error('Not authenticated') };
+
+    const { done, error } = await runInBatches(ids, async batch => {
+      const { data: screenshots } = await supabase
+        .from('trade_screenshots')
+        .select('storage_path')
+        .in('trade_id', batch)
+        .eq('user_id', user.id);
+
+      const { error } = await supabase
+        .from('trades')
+        .delete()
+        .in('id', batch)
+        .eq('user_id', user.id)
+        .not('deleted_at', 'is', null);
+
+      if (!error && screenshots && screenshots.length > 0) {
+        await supabase.storage.from(SCREENSHOT_BUCKET).remove(screenshots.map(s => s.storage_path));
+      }
+      return { error };
+    });
+
+    const purged = new Set(done);
+    if (purged.size > 0) setTrashedTrades(prev => prev.filter(t => !purged.has(t.id)));
+
+    if (error) {
+      toast({
+        title: 'Error deleting trades',
+        description: done.length > 0
+          ? `${error.message}. ${done.length} of ${ids.length} trades were permanently deleted.`
+          : error.message,
+        variant: 'destructive',
+      });
+      return { error };
+    }
+
+    toast({
+      title: ids.length === 1 ? 'Trade permanently deleted' : `${ids.length} trades permanently deleted`,
+      description: 'This cannot be undone.',
+    });
+
+    return { error: null };
+  };
+
+  return {
+    trashedTrades,
+    loading,
+    restoreTrades,
+    purgeTrades,
+    refetch: fetchTrash,
+  };
+}
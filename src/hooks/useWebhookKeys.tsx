@@ -5,6 +5,7 @@ import { useAuth } from './useAuth';
 interface WebhookKey {
   id: string;
   label: string;
+  account_id: string | null;
   is_active: boolean;
   last_used_at: string | null;
   created_at: string;
@@ -33,7 +34,7 @@ export function useWebhookKeys() {
     if (!user) return;
     const { data } = await supabase
       .from('webhook_api_keys')
-      .select('id, label, is_active, last_used_at, created_at')
+      .select('id, label, account_id, is_active, last_used_at, created_at')
       .eq('user_id', user.id)
       .order('created_at', { ascending: false });
     setKeys((data as WebhookKey[]) || []);
@@ -44,14 +45,14 @@ export function useWebhookKeys() {
     fetchKeys();
   }, [fetchKeys]);
 
-  const createKey = async (label: string): Promise<string | null> => {
+  const createKey = async (label: string, accountId: string | null = null): Promise<string | null> => {
     if (!user) return null;
     const rawKey = generateApiKey();
     const keyHash = await hashApiKey(rawKey);
 
     const { error } = await supabase
       .from('webhook_api_keys')
-      .insert([{ user_id: user.id, api_key_hash: keyHash, label }] as any);
+      .insert([{ user_id: user.id, api_key_hash: keyHash, label, account_id: accountId }] as any);
 
     if (error) {
       console.error('Error creating key:', error);
@@ -70,10 +71,18 @@ export function useWebhookKeys() {
     await fetchKeys();
   };
 
+  const setKeyAccount = async (id: string, accountId: string | null) => {
+    await supabase
+      .from('webhook_api_keys')
+      .update({ account_id: accountId })
+      .eq('id', id);
+    await fetchKeys();
+  };
+
   const deleteKey = async (id: string) => {
     await supabase.from('webhook_api_keys').delete().eq('id', id);
     await fetchKeys();
   };
 
-  return { keys, loading, createKey, toggleKey, deleteKey };
+  return { keys, loading, createKey, toggleKey, setKeyAccount, deleteKey };
 }
@@ -14,12 +14,301 @@ export type Database = {
   }
   public: {
     Tables: {
+      account_cash_flows: {
+        Row: {
+          account_id: string
+          amount: number
+          counterparty_account_id: string | null
+          created_at: string
+          flow_type: string
+          id: string
+          note: string | null
+          occurred_at: string
+          transfer_group: string | null
+          user_id: string
+        }
+        Insert: {
+          account_id: string
+          amount: number
+          counterparty_account_id?: string | null
+          created_at?: string
+          flow_type: string
+          id?: string
+          note?: string | null
+          occurred_at?: string
+          transfer_group?: string | null
+          user_id: string
+        }
+        Update: {
+          account_id?: string
+          amount?: number
+          counterparty_account_id?: string | null
+          created_at?: string
+          flow_type?: string
+          id?: string
+          note?: string | null
+          occurred_at?: string
+          transfer_group?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "account_cash_flows_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "trading_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "account_cash_flows_counterparty_account_id_fkey"
+            columns: ["counterparty_account_id"]
+            isOneToOne: false
+            referencedRelation: "trading_accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      checklist_rules: {
+        Row: {
+          archived_at: string | null
+          created_at: string
+          description: string | null
+          id: string
+          label: string
+          legacy_field: string | null
+          position: number
+          updated_at: string
+          user_id: string
+          weight: number
+        }
+        Insert: {
+          archived_at?: string | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          label: string
+          legacy_field?: string | null
+          position?: number
+          updated_at?: string
+          user_id: string
+          weight?: number
+        }
+        Update: {
+          archived_at?: string | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          label?: string
+          legacy_field?: string | null
+          position?: number
+          updated_at?: string
+          user_id?: string
+          weight?: number
+        }
+        Relationships: []
+      }
+      goals: {
+        Row: {
+          account_id: string | null
+          archived_at: string | null
+          created_at: string
+          id: string
+          metric: string
+          period: string
+          starts_on: string
+          target: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          account_id?: string | null
+          archived_at?: string | null
+          created_at?: string
+          id?: string
+          metric: string
+          period: string
+          starts_on?: string
+          target: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          account_id?: string | null
+          archived_at?: string | null
+          created_at?: string
+          id?: string
+          metric?: string
+          period?: string
+          starts_on?: string
+          target?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "goals_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "trading_accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      instruments: {
+        Row: {
+          aliases: string[]
+          asset_class: string
+          contract_size: number
+          created_at: string
+          id: string
+          pip_size: number
+          quote_currency: string
+          symbol: string
+          tick_value: number | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          aliases?: string[]
+          asset_class: string
+          contract_size?: number
+          created_at?: string
+          id?: string
+          pip_size: number
+          quote_currency?: string
+          symbol: string
+          tick_value?: number | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          aliases?: string[]
+          asset_class?: string
+          contract_size?: number
+          created_at?: string
+          id?: string
+          pip_size?: number
+          quote_currency?: string
+          symbol?: string
+          tick_value?: number | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      journal_entries: {
+        Row: {
+          account_id: string | null
+          created_at: string
+          energy: number | null
+          entry_date: string
+          id: string
+          key_levels: string | null
+          market_bias: string | null
+          mood: number | null
+          premarket_plan: string | null
+          reflection: string | null
+          sleep: number | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          account_id?: string | null
+          created_at?: string
+          energy?: number | null
+          entry_date: string
+          id?: string
+          key_levels?: string | null
+          market_bias?: string | null
+          mood?: number | null
+          premarket_plan?: string | null
+          reflection?: string | null
+          sleep?: number | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          account_id?: string | null
+          created_at?: string
+          energy?: number | null
+          entry_date?: string
+          id?: string
+          key_levels?: string | null
+          market_bias?: string | null
+          mood?: number | null
+          premarket_plan?: string | null
+          reflection?: string | null
+          sleep?: number | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "journal_entries_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "trading_accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      playbooks: {
+        Row: {
+          allowed_sessions: string[]
+          allowed_symbols: string[]
+          created_at: string
+          description: string | null
+          entry_criteria: string | null
+          example_trade_ids: string[]
+          exit_criteria: string | null
+          id: string
+          name: string
+          rule_ids: string[]
+          target_r: number | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          allowed_sessions?: string[]
+          allowed_symbols?: string[]
+          created_at?: string
+          description?: string | null
+          entry_criteria?: string | null
+          example_trade_ids?: string[]
+          exit_criteria?: string | null
+          id?: string
+          name: string
+          rule_ids?: string[]
+          target_r?: number | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          allowed_sessions?: string[]
+          allowed_symbols?: string[]
+          created_at?: string
+          description?: string | null
+          entry_criteria?: string | null
+          example_trade_ids?: string[]
+          exit_criteria?: string | null
+          id?: string
+          name?: string
+          rule_ids?: string[]
+          target_r?: number | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           avatar_url: string | null
           created_at: string
           display_name: string | null
           id: string
+          pnl_basis: string
+          result_unit: string
+          timezone: string | null
           updated_at: string
         }
         Insert: {
@@ -27,6 +316,9 @@ export type Database = {
           created_at?: string
           display_name?: string | null
           id: string
+          pnl_basis?: string
+          result_unit?: string
+          timezone?: string | null
           updated_at?: string
         }
         Update: {
@@ -34,14 +326,468 @@ export type Database = {
           created_at?: string
           display_name?: string | null
           id?: string
+          pnl_basis?: string
+          result_unit?: string
+          timezone?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      prop_challenges: {
+        Row: {
+          account_id: string
+          account_size: number
+          closed_at: string | null
+          consistency_pct: number | null
+          created_at: string
+          drawdown_type: string
+          ends_on: string | null
+          id: string
+          max_daily_drawdown_pct: number | null
+          max_overall_drawdown_pct: number | null
+          min_trading_days: number | null
+          name: string
+          profit_target_pct: number | null
+          result_note: string | null
+          starts_on: string
+          status: string
+          template: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          account_id: string
+          account_size: number
+          closed_at?: string | null
+          consistency_pct?: number | null
+          created_at?: string
+          drawdown_type?: string
+          ends_on?: string | null
+          id?: string
+          max_daily_drawdown_pct?: number | null
+          max_overall_drawdown_pct?: number | null
+          min_trading_days?: number | null
+          name: string
+          profit_target_pct?: number | null
+          result_note?: string | null
+          starts_on?: string
+          status?: string
+          template?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          account_id?: string
+          account_size?: number
+          closed_at?: string | null
+          consistency_pct?: number | null
+          created_at?: string
+          drawdown_type?: string
+          ends_on?: string | null
+          id?: string
+          max_daily_drawdown_pct?: number | null
+          max_overall_drawdown_pct?: number | null
+          min_trading_days?: number | null
+          name?: string
+          profit_target_pct?: number | null
+          result_note?: string | null
+          starts_on?: string
+          status?: string
+          template?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "prop_challenges_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "trading_accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      risk_breaches: {
+        Row: {
+          account_id: string | null
+          acknowledged_at: string | null
+          actual_value: number
+          breach_date: string
+          created_at: string
+          id: string
+          limit_value: number
+          rule: string
+          source: string
+          symbol: string | null
+          trade_id: string | null
+          user_id: string
+        }
+        Insert: {
+          account_id?: string | null
+          acknowledged_at?: string | null
+          actual_value: number
+          breach_date: string
+          created_at?: string
+          id?: string
+          limit_value: number
+          rule: string
+          source?: string
+          symbol?: string | null
+          trade_id?: string | null
+          user_id: string
+        }
+        Update: {
+          account_id?: string | null
+          acknowledged_at?: string | null
+          actual_value?: number
+          breach_date?: string
+          created_at?: string
+          id?: string
+          limit_value?: number
+          rule?: string
+          source?: string
+          symbol?: string | null
+          trade_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "risk_breaches_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "trading_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "risk_breaches_trade_id_fkey"
+            columns: ["trade_id"]
+            isOneToOne: false
+            referencedRelation: "trades"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      risk_limits: {
+        Row: {
+          account_id: string | null
+          created_at: string
+          id: string
+          max_consecutive_losses: number | null
+          max_daily_loss: number | null
+          max_daily_loss_pct: number | null
+          max_lot_size: number | null
+          max_open_risk: number | null
+          max_trades_per_day: number | null
+          symbol_lot_limits: Json
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          account_id?: string | null
+          created_at?: string
+          id?: string
+          max_consecutive_losses?: number | null
+          max_daily_loss?: number | null
+          max_daily_loss_pct?: number | null
+          max_lot_size?: number | null
+          max_open_risk?: number | null
+          max_trades_per_day?: number | null
+          symbol_lot_limits?: Json
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          account_id?: string | null
+          created_at?: string
+          id?: string
+          max_consecutive_losses?: number | null
+          max_daily_loss?: number | null
+          max_daily_loss_pct?: number | null
+          max_lot_size?: number | null
+          max_open_risk?: number | null
+          max_trades_per_day?: number | null
+          symbol_lot_limits?: Json
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "risk_limits_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "trading_accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      saved_views: {
+        Row: {
+          created_at: string
+          filters: Json
+          id: string
+          name: string
+          sort: Json | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          filters?: Json
+          id?: string
+          name: string
+          sort?: Json | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          filters?: Json
+          id?: string
+          name?: string
+          sort?: Json | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      trade_executions: {
+        Row: {
+          commission: number
+          created_at: string
+          executed_at: string
+          id: string
+          mt5_deal: string | null
+          price: number
+          profit_loss: number | null
+          side: string
+          swap: number
+          trade_id: string
+          user_id: string
+          volume: number
+        }
+        Insert: {
+          commission?: number
+          created_at?: string
+          executed_at?: string
+          id?: string
+          mt5_deal?: string | null
+          price: number
+          profit_loss?: number | null
+          side: string
+          swap?: number
+          trade_id: string
+          user_id: string
+          volume: number
+        }
+        Update: {
+          commission?: number
+          created_at?: string
+          executed_at?: string
+          id?: string
+          mt5_deal?: string | null
+          price?: number
+          profit_loss?: number | null
+          side?: string
+          swap?: number
+          trade_id?: string
+          user_id?: string
+          volume?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "trade_executions_trade_id_fkey"
+            columns: ["trade_id"]
+            isOneToOne: false
+            referencedRelation: "trades"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      trade_revisions: {
+        Row: {
+          changed_fields: string[]
+          created_at: string
+          id: string
+          operation: string
+          previous: Json | null
+          snapshot: Json
+          source: string
+          trade_id: string
+          user_id: string
+        }
+        Insert: {
+          changed_fields?: string[]
+          created_at?: string
+          id?: string
+          operation: string
+          previous?: Json | null
+          snapshot: Json
+          source?: string
+          trade_id: string
+          user_id: string
+        }
+        Update: {
+          changed_fields?: string[]
+          created_at?: string
+          id?: string
+          operation?: string
+          previous?: Json | null
+          snapshot?: Json
+          source?: string
+          trade_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "trade_revisions_trade_id_fkey"
+            columns: ["trade_id"]
+            isOneToOne: false
+            referencedRelation: "trades"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      trade_rule_answers: {
+        Row: {
+          answer: string
+          created_at: string
+          id: string
+          rule_id: string
+          trade_id: string
+          user_id: string
+        }
+        Insert: {
+          answer: string
+          created_at?: string
+          id?: string
+          rule_id: string
+          trade_id: string
+          user_id: string
+        }
+        Update: {
+          answer?: string
+          created_at?: string
+          id?: string
+          rule_id?: string
+          trade_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "trade_rule_answers_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "checklist_rules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "trade_rule_answers_trade_id_fkey"
+            columns: ["trade_id"]
+            isOneToOne: false
+            referencedRelation: "trades"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      trade_screenshots: {
+        Row: {
+          annotations: Json
+          caption: string | null
+          created_at: string
+          id: string
+          phase: string
+          position: number
+          storage_path: string
+          trade_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          annotations?: Json
+          caption?: string | null
+          created_at?: string
+          id?: string
+          phase?: string
+          position?: number
+          storage_path: string
+          trade_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          annotations?: Json
+          caption?: string | null
+          created_at?: string
+          id?: string
+          phase?: string
+          position?: number
+          storage_path?: string
+          trade_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "trade_screenshots_trade_id_fkey"
+            columns: ["trade_id"]
+            isOneToOne: false
+            referencedRelation: "trades"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      trade_tags: {
+        Row: {
+          color: string
+          created_at: string
+          id: string
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          color: string
+          created_at?: string
+          id?: string
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          color?: string
+          created_at?: string
+          id?: string
+          name?: string
           updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      trade_tombstones: {
+        Row: {
+          deleted_at: string
+          trade_id: string
+          user_id: string
+        }
+        Insert: {
+          deleted_at?: string
+          trade_id: string
+          user_id: string
+        }
+        Update: {
+          deleted_at?: string
+          trade_id?: string
+          user_id?: string
         }
         Relationships: []
       }
       trades: {
         Row: {
+          account_id: string | null
           asset_class: string
+          commission: number
           created_at: string
+          deleted_at: string | null
           direction: string
           emotions: string | null
           entry_date: string
@@ -49,27 +795,40 @@ export type Database = {
           exit_date: string | null
           exit_price: number | null
           exit_reason: string | null
+          floating_pl: number | null
+          floating_updated_at: string | null
           id: string
           lessons: string | null
           lot_size: number
           mt5_ticket: string | null
+          needs_review: boolean | null
+          other_fees: number
           pips: number | null
+          playbook_id: string | null
+          probability: string | null
           profit_loss: number | null
           reasoning: string | null
           reward_amount: number | null
           risk_amount: number | null
           risk_reward_ratio: number | null
+          screenshot_url: string | null
+          setup_type: string | null
           status: string | null
           stop_loss: number | null
           strategy: string | null
+          swap: number
           symbol: string
+          tags: string[] | null
           take_profit: number | null
           updated_at: string
           user_id: string
         }
         Insert: {
+          account_id?: string | null
           asset_class: string
+          commission?: number
           created_at?: string
+          deleted_at?: string | null
           direction: string
           emotions?: string | null
           entry_date: string
@@ -77,27 +836,40 @@ export type Database = {
           exit_date?: string | null
           exit_price?: number | null
           exit_reason?: string | null
+          floating_pl?: number | null
+          floating_updated_at?: string | null
           id?: string
           lessons?: string | null
           lot_size: number
           mt5_ticket?: string | null
+          needs_review?: boolean | null
+          other_fees?: number
           pips?: number | null
+          playbook_id?: string | null
+          probability?: string | null
           profit_loss?: number | null
           reasoning?: string | null
           reward_amount?: number | null
           risk_amount?: number | null
           risk_reward_ratio?: number | null
+          screenshot_url?: string | null
+          setup_type?: string | null
           status?: string | null
           stop_loss?: number | null
           strategy?: string | null
+          swap?: number
           symbol: string
+          tags?: string[] | null
           take_profit?: number | null
           updated_at?: string
           user_id: string
         }
         Update: {
+          account_id?: string | null
           asset_class?: string
+          commission?: number
           created_at?: string
+          deleted_at?: string | null
           direction?: string
           emotions?: string | null
           entry_date?: string
@@ -105,28 +877,90 @@ export type Database = {
           exit_date?: string | null
           exit_price?: number | null
           exit_reason?: string | null
+          floating_pl?: number | null
+          floating_updated_at?: string | null
           id?: string
           lessons?: string | null
           lot_size?: number
           mt5_ticket?: string | null
+          needs_review?: boolean | null
+          other_fees?: number
           pips?: number | null
+          playbook_id?: string | null
+          probability?: string | null
           profit_loss?: number | null
           reasoning?: string | null
           reward_amount?: number | null
           risk_amount?: number | null
           risk_reward_ratio?: number | null
+          screenshot_url?: string | null
+          setup_type?: string | null
           status?: string | null
           stop_loss?: number | null
           strategy?: string | null
+          swap?: number
           symbol?: string
+          tags?: string[] | null
           take_profit?: number | null
           updated_at?: string
           user_id?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "trades_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "trading_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "trades_playbook_id_fkey"
+            columns: ["playbook_id"]
+            isOneToOne: false
+            referencedRelation: "playbooks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      trading_accounts: {
+        Row: {
+          account_type: string
+          broker: string | null
+          created_at: string
+          currency: string
+          id: string
+          name: string
+          starting_balance: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          account_type?: string
+          broker?: string | null
+          created_at?: string
+          currency?: string
+          id?: string
+          name: string
+          starting_balance?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          account_type?: string
+          broker?: string | null
+          created_at?: string
+          currency?: string
+          id?: string
+          name?: string
+          starting_balance?: number
+          updated_at?: string
+          user_id?: string
+        }
         Relationships: []
       }
       webhook_api_keys: {
         Row: {
+          account_id: string | null
           api_key_hash: string
           created_at: string
           id: string
@@ -136,6 +970,7 @@ export type Database = {
           user_id: string
         }
         Insert: {
+          account_id?: string | null
           api_key_hash: string
           created_at?: string
           id?: string
@@ -145,6 +980,7 @@ export type Database = {
           user_id: string
         }
         Update: {
+          account_id?: string | null
           api_key_hash?: string
           created_at?: string
           id?: string
@@ -153,14 +989,204 @@ export type Database = {
           last_used_at?: string | null
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "webhook_api_keys_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "trading_accounts"
+            referencedColumns: ["id"]
+          },
+        ]
       }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      get_trade_points: {
+        Args: {
+          p_account_id?: string
+          p_basis?: string
+          p_filter?: Json
+          p_time_zone?: string
+        }
+        Returns: {
+          exit_date: string
+          id: string
+          pl: number
+        }[]
+      }
+      get_trade_stats: {
+        Args: {
+          p_account_id?: string
+          p_basis?: string
+          p_filter?: Json
+          p_group?: string
+          p_group_time_zone?: string
+          p_time_zone?: string
+        }
+        Returns: {
+          breakeven: number
+          commission: number
+          gross_pl: number
+          group_key: string
+          largest_loss: number
+          largest_loss_r: number
+          largest_win: number
+          largest_win_r: number
+          loss_amount: number
+          loss_r_total: number
+          loss_r_trades: number
+          losses: number
+          other_fees: number
+          pip_total: number
+          pip_trades: number
+          r_squares: number
+          r_total: number
+          r_trades: number
+          risk_total: number
+          risk_trades: number
+          rr_total: number
+          rr_trades: number
+          swap: number
+          total_pl: number
+          trades: number
+          win_amount: number
+          win_r_total: number
+          win_r_trades: number
+          wins: number
+        }[]
+      }
+      get_trade_summary: {
+        Args: never
+        Returns: {
+          account_id: string
+          gross_pl: number
+          last_entry_at: string
+          losses: number
+          net_pl: number
+          open_trades: number
+          total_trades: number
+          wins: number
+        }[]
+      }
+      purge_deleted_trades: {
+        Args: { p_retention?: unknown }
+        Returns: number
+      }
+      rewrite_trade_tags: {
+        Args: { p_from: string[]; p_to?: string }
+        Returns: number
+      }
+      save_trade: {
+        Args: {
+          p_executions?: Json
+          p_rule_answers?: Json
+          p_trade: Json
+          p_trade_id?: string
+        }
+        Returns: string
+      }
+      search_trades: {
+        Args: {
+          p_account_id?: string
+          p_basis?: string
+          p_filter?: Json
+          p_time_zone?: string
+        }
+        Returns: {
+          account_id: string | null
+          asset_class: string
+          commission: number
+          created_at: string
+          deleted_at: string | null
+          direction: string
+          emotions: string | null
+          entry_date: string
+          entry_price: number
+          exit_date: string | null
+          exit_price: number | null
+          exit_reason: string | null
+          floating_pl: number | null
+          floating_updated_at: string | null
+          id: string
+          lessons: string | null
+          lot_size: number
+          mt5_ticket: string | null
+          needs_review: boolean | null
+          other_fees: number
+          pips: number | null
+          playbook_id: string | null
+          probability: string | null
+          profit_loss: number | null
+          reasoning: string | null
+          reward_amount: number | null
+          risk_amount: number | null
+          risk_reward_ratio: number | null
+          screenshot_url: string | null
+          setup_type: string | null
+          status: string | null
+          stop_loss: number | null
+          strategy: string | null
+          swap: number
+          symbol: string
+          tags: string[] | null
+          take_profit: number | null
+          updated_at: string
+          user_id: string
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "trades"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      seed_default_checklist_rules: {
+        Args: { p_user_id: string }
+        Returns: undefined
+      }
+      seed_default_instruments: {
+        Args: { p_user_id: string }
+        Returns: undefined
+      }
+      trade_emotions: {
+        Args: { t: Database["public"]["Tables"]["trades"]["Row"] }
+        Returns: string[]
+      }
+      trade_filter_sql: {
+        Args: { p_basis: string; p_filter: Json; p_time_zone: string }
+        Returns: string
+      }
+      trade_gross_pl: {
+        Args: { t: Database["public"]["Tables"]["trades"]["Row"] }
+        Returns: number
+      }
+      trade_holding_minutes: {
+        Args: { t: Database["public"]["Tables"]["trades"]["Row"] }
+        Returns: number
+      }
+      trade_net_pl: {
+        Args: { t: Database["public"]["Tables"]["trades"]["Row"] }
+        Returns: number
+      }
+      trade_r_gross: {
+        Args: { t: Database["public"]["Tables"]["trades"]["Row"] }
+        Returns: number
+      }
+      trade_r_net: {
+        Args: { t: Database["public"]["Tables"]["trades"]["Row"] }
+        Returns: number
+      }
+      trade_result_gross: {
+        Args: { t: Database["public"]["Tables"]["trades"]["Row"] }
+        Returns: number
+      }
+      trade_result_net: {
+        Args: { t: Database["public"]["Tables"]["trades"]["Row"] }
+        Returns: number
+      }
     }
     Enums: {
       [_ in never]: never
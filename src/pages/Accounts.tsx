@@ -0,0 +1,320 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { AppLayout } from '@/components/layout/AppLayout';
+import { CashFlowLedger } from '@/components/accounts/CashFlowLedger';
+import { useAccounts } from '@/hooks/useAccounts';
+import { useTradeSummary } from '@/hooks/useTradeSummary';
+import { useToast } from '@/hooks/use-toast';
+import { AccountType, TradingAccount } from '@/types/trade';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Loader2, Plus, Pencil, Trash2, Wallet, X } from 'lucide-react';
+
+const accountSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(60, 'Name too long'),
+  broker: z.string().max(60, 'Broker too long').optional(),
+  currency: z.string().trim().length(3, 'Use a 3-letter currency code'),
+  starting_balance: z.coerce.number().min(0, 'Starting balance cannot be negative'),
+  account_type: z.enum(['demo', 'live', 'prop']),
+});
+
+type AccountFormValues = z.infer<typeof accountSchema>;
+
+const ACCOUNT_TYPE_LABELS: Record<AccountType, string> = {
+  demo: 'Demo',
+  live: 'Live',
+  prop: 'Prop Firm',
+};
+
+const EMPTY_VALUES: AccountFormValues = {
+  name: '',
+  broker: '',
+  currency: 'USD',
+  starting_balance: 0,
+  account_type: 'live',
+};
+
+export default function Accounts() {
+  const { accounts, loading, addAccount, updateAccount, deleteAccount, selectedAccountId, setSelectedAccountId } = useAccounts();
+  const { summaries } = useTradeSummary();
+  const { toast } = useToast();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const form = useForm<AccountFormValues>({
+    resolver: zodResolver(accountSchema),
+    defaultValues: EMPTY_VALUES,
+  });
+
+  const startEdit = (account: TradingAccount) => {
+    setEditingId(account.id);
+    form.reset({
+      name: account.name,
+      broker: account.broker ?? '',
+      currency: account.currency,
+      starting_balance: account.starting_balance,
+      account_type: account.account_type,
+    });
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    form.reset(EMPTY_VALUES);
+  };
+
+  const onSubmit = async (data: AccountFormValues) => {
+    setSaving(true);
+    const payload = {
+      name: data.name,
+      broker: data.broker,
+      currency: data.currency,
+      starting_balance: data.starting_balance,
+      account_type: data.account_type,
+    };
+    const { error } = editingId
+      ? await updateAccount(editingId, payload)
+      : await addAccount(payload);
+    setSaving(false);
+
+    if (error) {
+      toast({
+        title: editingId ? 'Error updating account' : 'Error creating account',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      cancelEdit();
+    }
+  };
+
+  const formatBalance = (account: TradingAccount) =>
+    `${Number(account.starting_balance).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${account.currency}`;
+
+  const formatSummary = (account: TradingAccount) => {
+    const summary = summaries.find(s => s.account_id === account.id);
+    if (!summary) return 'No trades yet';
+    const pl = `${summary.net_pl >= 0 ? '+' : '-'}${Math.abs(summary.net_pl).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+    return `${summary.total_trades} ${summary.total_trades === 1 ? 'trade' : 'trades'} · ${pl} ${account.currency} net`;
+  };
+
+  return (
+    <AppLayout>
+      <div className="max-w-3xl mx-auto space-y-6 animate-fade-in">
+        <div>
+          <h1 className="text-3xl font-display font-bold">Trading Accounts</h1>
+          <p className="text-muted-foreground mt-1">
+            Keep demo, live and prop-firm results separate
+          </p>
+        </div>
+
+        <Card className="gradient-card">
+          <CardHeader>
+            <CardTitle className="font-display flex items-center gap-2">
+              {editingId ? <Pencil className="w-5 h-5 text-primary" /> : <Plus className="w-5 h-5 text-primary" />}
+              {editingId ? 'Edit Account' : 'New Account'}
+            </CardTitle>
+            <CardDescription>
+              Trades logged while an account is selected are filed under it
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Account Name</FormLabel>
+                        <FormControl>
+                          <Input placeholder="e.g. FTMO 100k Challenge" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="broker"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Broker</FormLabel>
+                        <FormControl>
+                          <Input placeholder="e.g. IC Markets" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="account_type"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Account Type</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="live">Live</SelectItem>
+                            <SelectItem value="demo">Demo</SelectItem>
+                            <SelectItem value="prop">Prop Firm</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="currency"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Currency</FormLabel>
+                        <FormControl>
+                          <Input placeholder="USD" maxLength={3} {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="starting_balance"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Starting Balance</FormLabel>
+                        <FormControl>
+                          <Input type="number" step="0.01" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <div className="flex justify-end gap-2">
+                  {editingId && (
+                    <Button type="button" variant="outline" onClick={cancelEdit}>
+                      <X className="w-4 h-4 mr-1" /> Cancel
+                    </Button>
+                  )}
+                  <Button type="submit" disabled={saving}>
+                    {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    {editingId ? 'Save Changes' : 'Create Account'}
+                  </Button>
+                </div>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2"><Wallet className="w-5 h-5" /> Your Accounts</CardTitle>
+            <CardDescription>Select an account to scope the dashboard, analytics, calendar and trade log</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <p className="text-sm text-muted-foreground">Loading accounts...</p>
+            ) : accounts.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No accounts yet. Create one above to get started.</p>
+            ) : (
+              <div className="space-y-2">
+                {accounts.map(account => (
+                  <div key={account.id} className="flex items-center justify-between p-3 rounded-lg border">
+                    <div className="space-y-1">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium text-sm">{account.name}</span>
+                        <Badge variant="outline">{ACCOUNT_TYPE_LABELS[account.account_type]}</Badge>
+                        {selectedAccountId === account.id && <Badge>Selected</Badge>}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {account.broker ? `${account.broker} · ` : ''}Starting balance {formatBalance(account)}
+                      </p>
+                      <p className="text-xs text-muted-foreground">{formatSummary(account)}</p>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      {selectedAccountId !== account.id && (
+                        <Button variant="outline" size="sm" onClick={() => setSelectedAccountId(account.id)}>
+                          Select
+                        </Button>
+                      )}
+                      <Button variant="ghost" size="icon" onClick={() => startEdit(account)}>
+                        <Pencil className="w-4 h-4 text-muted-foreground" />
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="icon">
+                            <Trash2 className="w-4 h-4 text-destructive" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete Account</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Delete {account.name}? Its trades are kept but become unassigned, and MT5 keys bound to it stop filing trades under an account.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction
+                              onClick={() => deleteAccount(account.id)}
+                              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                            >
+                              Delete
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <CashFlowLedger />
+      </div>
+    </AppLayout>
+  );
+}
@@ -1,13 +1,34 @@
 import { AppLayout } from '@/components/layout/AppLayout';
 import { useTrades } from '@/hooks/useTrades';
+import { useTradeStats } from '@/hooks/useTradeStats';
+import { usePnLBasis } from '@/hooks/usePnLBasis';
+import { useResultUnit } from '@/hooks/useResultUnit';
+import { useTimeZone } from '@/hooks/useTimeZone';
+import { useTradeFilters } from '@/hooks/useTradeFilters';
+import { useSavedViews } from '@/hooks/useSavedViews';
+import { useChecklistRules } from '@/hooks/useChecklistRules';
+import { useCurrency } from '@/hooks/useCurrency';
+import { FilterChips } from '@/components/trades/FilterChips';
+import { filterTrades, toSearchParams } from '@/utils/tradeFilters';
 import { PairPerformance } from '@/components/analytics/PairPerformance';
 import { ConfluenceAnalytics } from '@/components/analytics/ConfluenceAnalytics';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { TagAnalytics } from '@/components/analytics/TagAnalytics';
+import { RMultipleAnalytics } from '@/components/analytics/RMultipleAnalytics';
+import { DrawdownAnalytics } from '@/components/analytics/DrawdownAnalytics';
+import { StreakAnalytics } from '@/components/analytics/StreakAnalytics';
+import { TimeAnalytics } from '@/components/analytics/TimeAnalytics';
+import { HoldingTimeAnalytics } from '@/components/analytics/HoldingTimeAnalytics';
+import { UnderwaterChart } from '@/components/dashboard/UnderwaterChart';
+import { MixedCurrencyNotice } from '@/components/accounts/MixedCurrencyNotice';
+import { ResultUnitToggle } from '@/components/analytics/ResultUnitToggle';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Skeleton } from '@/components/ui/skeleton';
 import { StatCard } from '@/components/dashboard/StatCard';
 import {
-  calculateStats,
+  TradeGroup,
+  statsFromTotals,
   getEquityCurve,
+  getDrawdowns,
   getTradesByAssetClass,
   getMonthlyPerformance,
   getWinLossDistribution,
@@ -15,6 +36,7 @@ import {
   getExitReasonStats,
   getDayOfWeekPerformance,
   getPairPerformance,
+  formatR,
 } from '@/utils/analytics';
 import {
   LineChart,
@@ -48,30 +70,53 @@ import {
 import { exportTradeLog, exportAnalyticsReport } from '@/utils/exportAnalytics';
 import { exportAnalyticsPdf } from '@/utils/exportPdf';
 import { useState } from 'react';
+import { Link } from 'react-router-dom';
 import { Loader2 } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+const ANALYTICS_GROUPS: TradeGroup[] = ['asset', 'month', 'strategy', 'exit', 'weekday', 'symbol'];
+const ALL_TRADES = 'all';
+const CUSTOM_FILTER = 'custom';
 
 const COLORS = ['hsl(var(--chart-profit))', 'hsl(var(--chart-loss))', 'hsl(var(--muted-foreground))'];
 const ASSET_COLORS = ['hsl(var(--primary))', 'hsl(var(--accent))', 'hsl(var(--chart-profit))', 'hsl(var(--chart-loss))'];
 
 export default function Analytics() {
-  const { trades, loading } = useTrades();
+  const { trades: allTrades, loading } = useTrades();
   const [exporting, setExporting] = useState(false);
-  const stats = calculateStats(trades);
-  const equityCurve = getEquityCurve(trades);
-  const assetData = getTradesByAssetClass(trades);
-  const monthlyData = getMonthlyPerformance(trades);
-  const winLossData = getWinLossDistribution(trades);
-  const strategyData = getStrategyPerformance(trades);
-  const exitData = getExitReasonStats(trades);
-  const dayData = getDayOfWeekPerformance(trades);
-  const pairData = getPairPerformance(trades);
+  const pnlBasis = usePnLBasis();
+  const { unit } = useResultUnit();
+  const timeZone = useTimeZone();
+  const { filters, viewId, setFilters, applyView } = useTradeFilters();
+  const { views } = useSavedViews();
+  const { rules } = useChecklistRules();
+  // Everything below is scoped to the saved view or filters in the URL, if any. The headline figures
+  // and breakdowns come from the database; the deeper sections further down still read the trades.
+  const { totals, groups, points, loading: statsLoading } = useTradeStats({ filters, groups: ANALYTICS_GROUPS, points: true });
+  const trades = filterTrades(allTrades, filters, pnlBasis);
+  const activeView = views.find(v => v.id === viewId);
+  const hasFilters = toSearchParams(filters).toString() !== '';
+  // A filtered subset can't be set against the account balance, so every figure here is on cumulative trade P&L
+  const stats = statsFromTotals(totals);
+  const equityCurve = getEquityCurve(points);
+  const drawdowns = getDrawdowns(points);
+  const assetData = getTradesByAssetClass(groups.asset ?? []);
+  const monthlyData = getMonthlyPerformance(groups.month ?? []);
+  const winLossData = getWinLossDistribution(stats);
+  const strategyData = getStrategyPerformance(groups.strategy ?? []);
+  const exitData = getExitReasonStats(groups.exit ?? []);
+  const dayData = getDayOfWeekPerformance(groups.weekday ?? []);
+  const pairData = getPairPerformance(groups.symbol ?? []);
 
-  const formatCurrency = (value: number) => {
-    const formatted = Math.abs(value).toFixed(2);
-    return value >= 0 ? `$${formatted}` : `-$${formatted}`;
-  };
+  const { format: formatCurrency } = useCurrency();
 
-  if (loading) {
+  if (loading || statsLoading) {
     return (
       <AppLayout>
         <div className="space-y-6">
@@ -100,52 +145,81 @@ export default function Analytics() {
               Deep dive into your trading performance
             </p>
           </div>
-          {trades.length > 0 && (
-            <DropdownMenu>
-              <DropdownMenuTrigger asChild>
-                <Button variant="outline" size="sm">
-                  <Download className="mr-2 h-4 w-4" />
-                  Export
-                </Button>
-              </DropdownMenuTrigger>
-              <DropdownMenuContent align="end">
-                <DropdownMenuItem onClick={() => exportAnalyticsReport(trades)}>
-                  Analytics Report (.csv)
-                </DropdownMenuItem>
-                <DropdownMenuItem onClick={() => exportTradeLog(trades)}>
-                  Full Trade Log (.csv)
-                </DropdownMenuItem>
-                <DropdownMenuItem
-                  disabled={exporting}
-                  onClick={async () => {
-                    setExporting(true);
-                    try {
-                      await exportAnalyticsPdf('analytics-capture');
-                    } finally {
-                      setExporting(false);
-                    }
-                  }}
-                >
-                  {exporting ? (
-                    <>
-                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                      Generating…
-                    </>
-                  ) : (
-                    'Visual Report (.pdf)'
-                  )}
-                </DropdownMenuItem>
-              </DropdownMenuContent>
-            </DropdownMenu>
-          )}
+          <div className="flex items-center gap-2">
+            <ResultUnitToggle />
+            <Select
+              value={activeView ? activeView.id : hasFilters ? CUSTOM_FILTER : ALL_TRADES}
+              onValueChange={(value) => applyView(value === ALL_TRADES ? null : views.find(v => v.id === value) ?? null)}
+            >
+              <SelectTrigger className="w-48 h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_TRADES}>All trades</SelectItem>
+                {hasFilters && !activeView && <SelectItem value={CUSTOM_FILTER}>Custom filter</SelectItem>}
+                {views.map(view => (
+                  <SelectItem key={view.id} value={view.id}>{view.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {trades.length > 0 && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm">
+                    <Download className="mr-2 h-4 w-4" />
+                    Export
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={() => exportAnalyticsReport(trades, pnlBasis, timeZone)}>
+                    Analytics Report (.csv)
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => exportTradeLog(trades)}>
+                    Full Trade Log (.csv)
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    disabled={exporting}
+                    onClick={async () => {
+                      setExporting(true);
+                      try {
+                        await exportAnalyticsPdf('analytics-capture');
+                      } finally {
+                        setExporting(false);
+                      }
+                    }}
+                  >
+                    {exporting ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        Generating…
+                      </>
+                    ) : (
+                      'Visual Report (.pdf)'
+                    )}
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+          </div>
         </div>
 
+        <MixedCurrencyNotice />
+
+        {hasFilters && (
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+            <FilterChips filters={filters} rules={rules} onChange={setFilters} />
+            <Link to={`/trades?${toSearchParams(filters, null, viewId)}`} className="text-sm text-primary hover:underline whitespace-nowrap">
+              View {trades.length} of {allTrades.length} trades
+            </Link>
+          </div>
+        )}
+
         {/* Stats Grid */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
           <StatCard
-            title="Total P&L"
+            title={pnlBasis === 'net' ? 'Net P&L' : 'Gross P&L'}
             value={formatCurrency(stats.totalProfitLoss)}
-            subtitle={`${stats.totalTrades} total trades`}
+            subtitle={`Gross ${formatCurrency(stats.grossProfitLoss)} · Net ${formatCurrency(stats.netProfitLoss)}`}
             icon={stats.totalProfitLoss >= 0 ? TrendingUp : TrendingDown}
             trend={stats.totalProfitLoss > 0 ? 'up' : stats.totalProfitLoss < 0 ? 'down' : 'neutral'}
           />
@@ -192,6 +266,7 @@ export default function Analytics() {
           <Card className="gradient-card">
             <CardHeader>
               <CardTitle className="font-display">Equity Curve</CardTitle>
+              <CardDescription>Cumulative trade P&L; deposits and withdrawals are left out</CardDescription>
             </CardHeader>
             <CardContent>
               {equityCurve.length === 0 ? (
@@ -214,7 +289,7 @@ export default function Analytics() {
                         fontSize={12}
                         tickLine={false}
                         axisLine={false}
-                        tickFormatter={(value) => `$${value}`}
+                        tickFormatter={(value) => formatCurrency(value, { digits: 0 })}
                       />
                       <Tooltip
                         contentStyle={{
@@ -222,7 +297,7 @@ export default function Analytics() {
                           border: '1px solid hsl(var(--border))',
                           borderRadius: '8px',
                         }}
-                        formatter={(value: number) => [`$${value.toFixed(2)}`, 'Equity']}
+                        formatter={(value: number) => [formatCurrency(value), 'Equity']}
                       />
                       <Line
                         type="monotone"
@@ -235,6 +310,11 @@ export default function Analytics() {
                   </ResponsiveContainer>
                 </div>
               )}
+              {drawdowns.maxDrawdown > 0 && (
+                <div className="mt-4">
+                  <UnderwaterChart data={drawdowns.underwater} />
+                </div>
+              )}
             </CardContent>
           </Card>
 
@@ -310,7 +390,7 @@ export default function Analytics() {
                         fontSize={12}
                         tickLine={false}
                         axisLine={false}
-                        tickFormatter={(value) => `$${value}`}
+                        tickFormatter={(value) => formatCurrency(value, { digits: 0 })}
                       />
                       <Tooltip
                         contentStyle={{
@@ -319,7 +399,7 @@ export default function Analytics() {
                           borderRadius: '8px',
                         }}
                         formatter={(value: number, name: string) => {
-                          if (name === 'profit') return [`$${value.toFixed(2)}`, 'Profit'];
+                          if (name === 'profit') return [formatCurrency(value), 'Profit'];
                           if (name === 'winRate') return [`${value.toFixed(0)}%`, 'Win Rate'];
                           return [value, 'Trades'];
                         }}
@@ -362,7 +442,7 @@ export default function Analytics() {
                         fontSize={12}
                         tickLine={false}
                         axisLine={false}
-                        tickFormatter={(value) => `$${value}`}
+                        tickFormatter={(value) => formatCurrency(value, { digits: 0 })}
                       />
                       <Tooltip
                         contentStyle={{
@@ -371,7 +451,7 @@ export default function Analytics() {
                           borderRadius: '8px',
                         }}
                         formatter={(value: number, name: string) => {
-                          if (name === 'profit') return [`$${value.toFixed(2)}`, 'P&L'];
+                          if (name === 'profit') return [formatCurrency(value), 'P&L'];
                           if (name === 'winRate') return [`${value.toFixed(0)}%`, 'Win Rate'];
                           return [value, 'Trades'];
                         }}
@@ -411,7 +491,7 @@ export default function Analytics() {
                         fontSize={12}
                         tickLine={false}
                         axisLine={false}
-                        tickFormatter={(value) => `$${value}`}
+                        tickFormatter={(value) => formatCurrency(value, { digits: 0 })}
                       />
                       <YAxis
                         type="category"
@@ -429,7 +509,7 @@ export default function Analytics() {
                           borderRadius: '8px',
                         }}
                         formatter={(value: number, name: string) => {
-                          if (name === 'profit') return [`$${value.toFixed(2)}`, 'P&L'];
+                          if (name === 'profit') return [formatCurrency(value), 'P&L'];
                           return [value, 'Trades'];
                         }}
                       />
@@ -465,7 +545,7 @@ export default function Analytics() {
                         fontSize={12}
                         tickLine={false}
                         axisLine={false}
-                        tickFormatter={(value) => `$${value}`}
+                        tickFormatter={(value) => unit === 'r' ? `${value}R` : formatCurrency(value, { digits: 0 })}
                       />
                       <YAxis
                         type="category"
@@ -483,13 +563,14 @@ export default function Analytics() {
                           borderRadius: '8px',
                         }}
                         formatter={(value: number, name: string) => {
-                          if (name === 'totalPL') return [`$${value.toFixed(2)}`, 'P&L'];
+                          if (name === 'totalPL') return [formatCurrency(value), 'P&L'];
+                          if (name === 'totalR') return [formatR(value), 'Total R'];
                           if (name === 'winRate') return [`${value.toFixed(0)}%`, 'Win Rate'];
                           return [value, name];
                         }}
                       />
                       <Bar
-                        dataKey="totalPL"
+                        dataKey={unit === 'r' ? 'totalR' : 'totalPL'}
                         fill="hsl(var(--accent))"
                         radius={[0, 4, 4, 0]}
                       />
@@ -501,11 +582,29 @@ export default function Analytics() {
           </Card>
         </div>
 
+        {/* Drawdowns */}
+        <DrawdownAnalytics trades={trades} drawdowns={drawdowns} />
+
+        {/* Sessions & Hours */}
+        <TimeAnalytics trades={trades} />
+
+        {/* Holding Time */}
+        <HoldingTimeAnalytics trades={trades} />
+
+        {/* Streaks & Tilt */}
+        <StreakAnalytics trades={trades} />
+
+        {/* R Multiples */}
+        <RMultipleAnalytics trades={trades} stats={stats} />
+
         {/* Pair Performance */}
         <PairPerformance pairData={pairData} />
 
         {/* Confluence Analytics */}
         <ConfluenceAnalytics trades={trades} />
+
+        {/* Tag Analytics */}
+        <TagAnalytics trades={trades} />
       </div>
     </AppLayout>
   );
@@ -1,25 +1,38 @@
 import { AppLayout } from '@/components/layout/AppLayout';
 import { TradeCalendar } from '@/components/calendar/TradeCalendar';
+import { MixedCurrencyNotice } from '@/components/accounts/MixedCurrencyNotice';
+import { ResultUnitToggle } from '@/components/analytics/ResultUnitToggle';
 import { useTrades } from '@/hooks/useTrades';
+import { useJournal } from '@/hooks/useJournal';
+import { useGoals } from '@/hooks/useGoals';
+import { getGoalBreaches } from '@/utils/goals';
 import { Skeleton } from '@/components/ui/skeleton';
 
 export default function Calendar() {
   const { trades, loading } = useTrades();
+  const { entries } = useJournal();
+  const { activeGoals } = useGoals();
+  const breaches = getGoalBreaches(activeGoals, trades);
 
   return (
     <AppLayout>
       <div className="space-y-6 animate-fade-in">
-        <div>
-          <h1 className="text-3xl font-display font-bold">Trade Calendar</h1>
-          <p className="text-muted-foreground mt-1">
-            Daily P&L overview at a glance
-          </p>
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-display font-bold">Trade Calendar</h1>
+            <p className="text-muted-foreground mt-1">
+              Daily P&L overview at a glance
+            </p>
+          </div>
+          <ResultUnitToggle />
         </div>
 
+        <MixedCurrencyNotice />
+
         {loading ? (
           <Skeleton className="h-[500px] w-full" />
         ) : (
-          <TradeCalendar trades={trades} />
+          <TradeCalendar trades={trades} journalEntries={entries} breaches={breaches} />
         )}
       </div>
     </AppLayout>
@@ -0,0 +1,250 @@
+import { useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { AppLayout } from '@/components/layout/AppLayout';
+import { EquityCurve } from '@/components/dashboard/EquityCurve';
+import { ChallengeDialog } from '@/components/challenges/ChallengeDialog';
+import { ChallengeRules } from '@/components/challenges/ChallengeRules';
+import { usePropChallenges } from '@/hooks/usePropChallenges';
+import { useTrades } from '@/hooks/useTrades';
+import { useAccounts, ALL_ACCOUNTS } from '@/hooks/useAccounts';
+import { usePnLBasis } from '@/hooks/usePnLBasis';
+import { useCurrency } from '@/hooks/useCurrency';
+import { ChallengeStatus, PropChallengeFormData } from '@/types/trade';
+import { calculateStats, getTradePoints } from '@/utils/analytics';
+import { CHALLENGE_TEMPLATES, evaluateChallenge } from '@/utils/propFirm';
+import { formatCurrency as formatMoney } from '@/utils/currency';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { cn } from '@/lib/utils';
+import { AlertTriangle, ArrowLeft, CheckCircle2, Pencil, RotateCcw, Trash2, XCircle } from 'lucide-react';
+
+export default function ChallengeDetail() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { challenges, loading, updateChallenge, setChallengeResult, deleteChallenge } = usePropChallenges();
+  const { trades } = useTrades();
+  const { accounts, selectedAccountId, setSelectedAccountId } = useAccounts();
+  const pnlBasis = usePnLBasis();
+  const { currencyOf } = useCurrency();
+  const [editing, setEditing] = useState(false);
+
+  const challenge = challenges.find(c => c.id === id);
+
+  if (!challenge) {
+    return (
+      <AppLayout>
+        <div className="max-w-5xl mx-auto py-12 text-center text-muted-foreground">
+          {loading ? 'Loading challenge...' : (
+            <>
+              Challenge not found. <Link to="/challenges" className="text-primary hover:underline">Back to challenges</Link>
+            </>
+          )}
+        </div>
+      </AppLayout>
+    );
+  }
+
+  const account = accounts.find(a => a.id === challenge.account_id);
+  const otherAccountSelected = selectedAccountId !== ALL_ACCOUNTS && selectedAccountId !== challenge.account_id;
+  const currency = currencyOf(challenge.account_id);
+  const evaluation = evaluateChallenge(challenge, trades, currency, pnlBasis);
+  const stats = calculateStats(evaluation.trades, undefined, pnlBasis);
+  const template = CHALLENGE_TEMPLATES.find(t => t.id === challenge.template);
+  const isActive = challenge.status === 'active';
+
+  const formatCurrency = (value: number) => formatMoney(value, currency);
+
+  const handleSave = (data: PropChallengeFormData) => updateChallenge(challenge.id, data);
+
+  const handleResult = (status: ChallengeStatus) => {
+    const note = status === 'failed' ? evaluation.failureReason : status === 'passed' ? `Closed at ${formatCurrency(evaluation.profit)} profit` : null;
+    setChallengeResult(challenge.id, status, note);
+  };
+
+  const handleDelete = async () => {
+    const { error } = await deleteChallenge(challenge.id);
+    if (!error) navigate('/challenges');
+  };
+
+  const statCards = [
+    { label: 'Balance', value: formatCurrency(evaluation.balance) },
+    { label: 'Equity', value: formatCurrency(evaluation.equity) },
+    { label: 'Profit', value: formatCurrency(evaluation.profit), tone: evaluation.profit },
+    { label: 'Trading Days', value: String(evaluation.tradingDays) },
+    { label: 'Win Rate', value: `${stats.winRate.toFixed(1)}%` },
+    { label: 'Expectancy', value: formatCurrency(stats.expectancy), tone: stats.expectancy },
+  ];
+
+  return (
+    <AppLayout>
+      <div className="max-w-5xl mx-auto space-y-6 animate-fade-in">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <Link to="/challenges" className="text-sm text-muted-foreground hover:text-primary flex items-center gap-1 mb-2">
+              <ArrowLeft className="w-4 h-4" /> Challenges
+            </Link>
+            <h1 className="text-3xl font-display font-bold flex items-center gap-3">
+              {challenge.name}
+              {isActive ? (
+                <Badge variant={evaluation.outcome === 'failed' ? 'destructive' : evaluation.outcome === 'passed' ? 'default' : 'outline'}>
+                  {evaluation.outcome === 'failed' ? 'Rules broken' : evaluation.outcome === 'passed' ? 'Ready to pass' : 'In progress'}
+                </Badge>
+              ) : (
+                <Badge variant={challenge.status === 'passed' ? 'default' : 'destructive'}>
+                  {challenge.status === 'passed' ? 'Passed' : 'Failed'}
+                </Badge>
+              )}
+            </h1>
+            <p className="text-muted-foreground mt-1">
+              {account?.name ?? 'Unknown account'} · {formatCurrency(Number(challenge.account_size))}
+              {template && ` · ${template.label}`}
+              {' · '}{format(new Date(`${challenge.starts_on}T00:00:00`), 'MMM d, yyyy')}
+              {challenge.ends_on && ` – ${format(new Date(`${challenge.ends_on}T00:00:00`), 'MMM d, yyyy')}`}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            {isActive ? (
+              <>
+                <Button variant="outline" onClick={() => setEditing(true)}>
+                  <Pencil className="w-4 h-4 mr-2" /> Edit
+                </Button>
+                <Button variant="outline" onClick={() => handleResult('passed')} disabled={evaluation.outcome !== 'passed'}>
+                  <CheckCircle2 className="w-4 h-4 mr-2" /> Passed
+                </Button>
+                <Button variant="outline" onClick={() => handleResult('failed')}>
+                  <XCircle className="w-4 h-4 mr-2" /> Failed
+                </Button>
+              </>
+            ) : (
+              <Button variant="outline" onClick={() => handleResult('active')}>
+                <RotateCcw className="w-4 h-4 mr-2" /> Reopen
+              </Button>
+            )}
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="ghost" size="icon">
+                  <Trash2 className="w-4 h-4 text-destructive" />
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Delete Challenge</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    Delete {challenge.name}? It will disappear from your pass/fail history. The account's trades are not affected.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction
+                    onClick={handleDelete}
+                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                  >
+                    Delete
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        </div>
+
+        {otherAccountSelected && (
+          <div className="p-3 rounded-lg bg-primary/10 border border-primary/20 text-sm flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+            <span>Another account is selected, so this challenge's trades aren't loaded.</span>
+            <Button size="sm" variant="outline" onClick={() => setSelectedAccountId(challenge.account_id)}>
+              Switch to {account?.name ?? 'this account'}
+            </Button>
+          </div>
+        )}
+
+        {isActive && evaluation.failureReason && (
+          <div className="p-3 rounded-lg bg-destructive/10 border border-destructive/20 text-sm flex items-center gap-2">
+            <AlertTriangle className="w-4 h-4 text-destructive" />
+            {evaluation.failureReason}. Most firms end the challenge here; record it as failed to keep your history accurate.
+          </div>
+        )}
+
+        {challenge.result_note && !isActive && (
+          <p className="text-sm text-muted-foreground">
+            Closed {challenge.closed_at && format(new Date(challenge.closed_at), 'MMM d, yyyy')}: {challenge.result_note}
+          </p>
+        )}
+
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3">
+          {statCards.map(card => (
+            <Card key={card.label} className="gradient-card">
+              <CardContent className="p-4">
+                <p className="text-xs text-muted-foreground">{card.label}</p>
+                <p className={cn(
+                  'text-lg font-semibold',
+                  card.tone !== undefined && card.tone > 0 && 'text-success',
+                  card.tone !== undefined && card.tone < 0 && 'text-destructive',
+                )}>
+                  {card.value}
+                </p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <Card className="gradient-card lg:col-span-2">
+            <CardHeader>
+              <CardTitle className="font-display">Rules</CardTitle>
+              <CardDescription>Room left on each rule, using open positions' floating P&L for drawdowns</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ChallengeRules rules={evaluation.rules} />
+            </CardContent>
+          </Card>
+
+          <Card className="gradient-card">
+            <CardHeader>
+              <CardTitle className="font-display">Projection</CardTitle>
+              <CardDescription>Based on your expectancy in this challenge</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2 text-sm">
+              {challenge.profit_target_pct === null ? (
+                <p className="text-muted-foreground">This challenge has no profit target.</p>
+              ) : evaluation.projectedDays === null ? (
+                <p className="text-muted-foreground">
+                  {stats.totalTrades === 0
+                    ? 'Close a few trades to project how long the target will take.'
+                    : 'Expectancy is not positive yet, so the target is out of reach at the current pace.'}
+                </p>
+              ) : evaluation.projectedDays === 0 ? (
+                <p className="font-semibold text-success">Target reached.</p>
+              ) : (
+                <>
+                  <p className="text-3xl font-display font-bold">~{evaluation.projectedDays}</p>
+                  <p className="text-muted-foreground">
+                    trading day{evaluation.projectedDays === 1 ? '' : 's'} to the target at {formatCurrency(stats.expectancy)} per trade
+                  </p>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <EquityCurve
+          points={getTradePoints(evaluation.trades, pnlBasis)}
+          ledger={{ startingBalance: Number(challenge.account_size), cashFlows: [] }}
+        />
+      </div>
+
+      <ChallengeDialog open={editing} challenge={challenge} onOpenChange={setEditing} onSave={handleSave} />
+    </AppLayout>
+  );
+}
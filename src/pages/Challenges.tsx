@@ -0,0 +1,180 @@
+import { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { AppLayout } from '@/components/layout/AppLayout';
+import { ChallengeDialog } from '@/components/challenges/ChallengeDialog';
+import { ChallengeRules } from '@/components/challenges/ChallengeRules';
+import { usePropChallenges } from '@/hooks/usePropChallenges';
+import { useTrades } from '@/hooks/useTrades';
+import { useAccounts, ALL_ACCOUNTS } from '@/hooks/useAccounts';
+import { usePnLBasis } from '@/hooks/usePnLBasis';
+import { useCurrency } from '@/hooks/useCurrency';
+import { PropChallengeFormData } from '@/types/trade';
+import { evaluateChallenge } from '@/utils/propFirm';
+import { formatCurrency } from '@/utils/currency';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+import { Plus, Trophy } from 'lucide-react';
+
+export default function Challenges() {
+  const { challenges, loading, addChallenge } = usePropChallenges();
+  const { trades } = useTrades();
+  const { accounts, selectedAccountId } = useAccounts();
+  const pnlBasis = usePnLBasis();
+  const { currencyOf } = useCurrency();
+  const navigate = useNavigate();
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  const visible = selectedAccountId === ALL_ACCOUNTS
+    ? challenges
+    : challenges.filter(c => c.account_id === selectedAccountId);
+  const active = visible.filter(c => c.status === 'active');
+  const closed = visible.filter(c => c.status !== 'active');
+  const passedCount = closed.filter(c => c.status === 'passed').length;
+  const accountName = (id: string) => accounts.find(a => a.id === id)?.name ?? 'Unknown account';
+
+  const handleCreate = async (data: PropChallengeFormData) => {
+    const { error, challenge } = await addChallenge(data);
+    if (!error && challenge) navigate(`/challenges/${challenge.id}`);
+    return { error };
+  };
+
+  return (
+    <AppLayout>
+      <div className="max-w-5xl mx-auto space-y-6 animate-fade-in">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-display font-bold">Prop Challenges</h1>
+            <p className="text-muted-foreground mt-1">
+              Funded-account rules, tracked live from your trades
+            </p>
+          </div>
+          <Button onClick={() => setDialogOpen(true)} disabled={accounts.length === 0}>
+            <Plus className="w-4 h-4 mr-2" /> New Challenge
+          </Button>
+        </div>
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading challenges...</p>
+        ) : active.length === 0 ? (
+          <Card className="gradient-card">
+            <CardContent className="py-12 text-center space-y-2">
+              <Trophy className="w-10 h-10 mx-auto text-muted-foreground" />
+              <p className="font-medium">No active challenges</p>
+              <p className="text-sm text-muted-foreground">
+                {accounts.length === 0 ? (
+                  <>Challenges run on a trading account. <Link to="/settings/accounts" className="text-primary hover:underline">Add one first</Link>.</>
+                ) : (
+                  'Start one from a template to see how much room you have left on every rule.'
+                )}
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {active.map(challenge => {
+              const currency = currencyOf(challenge.account_id);
+              const evaluation = evaluateChallenge(challenge, trades, currency, pnlBasis);
+              return (
+                <Link key={challenge.id} to={`/challenges/${challenge.id}`}>
+                  <Card className="gradient-card h-full hover:border-primary/50 transition-colors">
+                    <CardHeader>
+                      <CardTitle className="font-display flex items-center justify-between gap-2">
+                        {challenge.name}
+                        <Badge
+                          variant={evaluation.outcome === 'failed' ? 'destructive' : evaluation.outcome === 'passed' ? 'default' : 'outline'}
+                        >
+                          {evaluation.outcome === 'failed' ? 'Failed' : evaluation.outcome === 'passed' ? 'Passed' : 'In progress'}
+                        </Badge>
+                      </CardTitle>
+                      <CardDescription>
+                        {accountName(challenge.account_id)} · {formatCurrency(Number(challenge.account_size), currency)} · since {format(new Date(`${challenge.starts_on}T00:00:00`), 'MMM d')}
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      <div className="grid grid-cols-3 gap-2 text-sm">
+                        <div>
+                          <p className="text-xs text-muted-foreground">Profit</p>
+                          <p className={cn('font-semibold', evaluation.profit > 0 && 'text-success', evaluation.profit < 0 && 'text-destructive')}>
+                            {formatCurrency(evaluation.profit, currency)}
+                          </p>
+                        </div>
+                        <div>
+                          <p className="text-xs text-muted-foreground">Trading Days</p>
+                          <p className="font-semibold">{evaluation.tradingDays}</p>
+                        </div>
+                        <div>
+                          <p className="text-xs text-muted-foreground">To Target</p>
+                          <p className="font-semibold">
+                            {evaluation.projectedDays === null ? '—' : `~${evaluation.projectedDays}d`}
+                          </p>
+                        </div>
+                      </div>
+                      <ChallengeRules rules={evaluation.rules} compact />
+                    </CardContent>
+                  </Card>
+                </Link>
+              );
+            })}
+          </div>
+        )}
+
+        {closed.length > 0 && (
+          <Card className="gradient-card">
+            <CardHeader>
+              <CardTitle className="font-display">History</CardTitle>
+              <CardDescription>
+                Passed {passedCount} of {closed.length} ({((passedCount / closed.length) * 100).toFixed(0)}%)
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Challenge</TableHead>
+                    <TableHead>Account</TableHead>
+                    <TableHead>Ran</TableHead>
+                    <TableHead>Result</TableHead>
+                    <TableHead>Note</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {closed.map(challenge => (
+                    <TableRow key={challenge.id}>
+                      <TableCell className="font-medium">
+                        <Link to={`/challenges/${challenge.id}`} className="hover:underline">{challenge.name}</Link>
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">{accountName(challenge.account_id)}</TableCell>
+                      <TableCell className="text-muted-foreground whitespace-nowrap">
+                        {format(new Date(`${challenge.starts_on}T00:00:00`), 'MMM d')}
+                        {challenge.closed_at && ` – ${format(new Date(challenge.closed_at), 'MMM d, yyyy')}`}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={challenge.status === 'passed' ? 'default' : 'destructive'}>
+                          {challenge.status === 'passed' ? 'Passed' : 'Failed'}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">{challenge.result_note ?? ''}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      <ChallengeDialog open={dialogOpen} onOpenChange={setDialogOpen} onSave={handleCreate} />
+    </AppLayout>
+  );
+}
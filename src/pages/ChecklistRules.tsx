@@ -0,0 +1,326 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { AppLayout } from '@/components/layout/AppLayout';
+import { useChecklistRules } from '@/hooks/useChecklistRules';
+import { useToast } from '@/hooks/use-toast';
+import { ChecklistRule } from '@/types/trade';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import {
+  Archive,
+  ArchiveRestore,
+  ArrowDown,
+  ArrowUp,
+  ClipboardCheck,
+  Loader2,
+  Pencil,
+  Plus,
+  Trash2,
+  X,
+} from 'lucide-react';
+
+const ruleSchema = z.object({
+  label: z.string().trim().min(1, 'Rule is required').max(80, 'Rule too long'),
+  description: z.string().max(300, 'Description too long').optional(),
+  weight: z.coerce.number().min(0, 'Weight cannot be negative').max(10, 'Weight must be 10 or less'),
+});
+
+type RuleFormValues = z.infer<typeof ruleSchema>;
+
+const EMPTY_VALUES: RuleFormValues = {
+  label: '',
+  description: '',
+  weight: 1,
+};
+
+export default function ChecklistRules() {
+  const {
+    rules,
+    activeRules,
+    loading,
+    addRule,
+    updateRule,
+    archiveRule,
+    restoreRule,
+    reorderRules,
+    deleteRule,
+  } = useChecklistRules();
+  const { toast } = useToast();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const archivedRules = rules.filter(r => r.archived_at);
+
+  const form = useForm<RuleFormValues>({
+    resolver: zodResolver(ruleSchema),
+    defaultValues: EMPTY_VALUES,
+  });
+
+  const startEdit = (rule: ChecklistRule) => {
+    setEditingId(rule.id);
+    form.reset({
+      label: rule.label,
+      description: rule.description ?? '',
+      weight: Number(rule.weight),
+    });
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    form.reset(EMPTY_VALUES);
+  };
+
+  const onSubmit = async (data: RuleFormValues) => {
+    setSaving(true);
+    const payload = {
+      label: data.label,
+      description: data.description || null,
+      weight: data.weight,
+    };
+    const { error } = editingId
+      ? await updateRule(editingId, payload)
+      : await addRule(payload);
+    setSaving(false);
+
+    if (error) {
+      toast({
+        title: editingId ? 'Error updating rule' : 'Error adding rule',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      cancelEdit();
+    }
+  };
+
+  const moveRule = (index: number, offset: number) => {
+    const ids = activeRules.map(r => r.id);
+    const target = index + offset;
+    if (target < 0 || target >= ids.length) return;
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    reorderRules([...ids, ...archivedRules.map(r => r.id)]);
+  };
+
+  const totalWeight = activeRules.reduce((sum, r) => sum + Number(r.weight), 0);
+
+  return (
+    <AppLayout>
+      <div className="max-w-3xl mx-auto space-y-6 animate-fade-in">
+        <div>
+          <h1 className="text-3xl font-display font-bold">Checklist Rules</h1>
+          <p className="text-muted-foreground mt-1">
+            The rules you check before every trade, and how much each one counts
+          </p>
+        </div>
+
+        <Card className="gradient-card">
+          <CardHeader>
+            <CardTitle className="font-display flex items-center gap-2">
+              {editingId ? <Pencil className="w-5 h-5 text-primary" /> : <Plus className="w-5 h-5 text-primary" />}
+              {editingId ? 'Edit Rule' : 'New Rule'}
+            </CardTitle>
+            <CardDescription>
+              Phrase rules as yes/no questions, e.g. "Waited for the candle close?"
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                <div className="grid grid-cols-1 sm:grid-cols-[1fr_120px] gap-4">
+                  <FormField
+                    control={form.control}
+                    name="label"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Rule</FormLabel>
+                        <FormControl>
+                          <Input placeholder="e.g. With the trend?" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="weight"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Weight</FormLabel>
+                        <FormControl>
+                          <Input type="number" step="0.5" min="0" max="10" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="description"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Description</FormLabel>
+                      <FormControl>
+                        <Input placeholder="What exactly needs to be true?" {...field} />
+                      </FormControl>
+                      <FormDescription>
+                        Shown under the rule in the checklist. Weight sets how much the rule counts toward the checklist score.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="flex justify-end gap-2">
+                  {editingId && (
+                    <Button type="button" variant="outline" onClick={cancelEdit}>
+                      <X className="w-4 h-4 mr-1" /> Cancel
+                    </Button>
+                  )}
+                  <Button type="submit" disabled={saving}>
+                    {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    {editingId ? 'Save Changes' : 'Add Rule'}
+                  </Button>
+                </div>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2"><ClipboardCheck className="w-5 h-5" /> Your Checklist</CardTitle>
+            <CardDescription>Shown in this order on the pre-trade checklist and trade review</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <p className="text-sm text-muted-foreground">Loading rules...</p>
+            ) : activeRules.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No active rules. Add one above to get started.</p>
+            ) : (
+              <div className="space-y-2">
+                {activeRules.map((rule, index) => (
+                  <div key={rule.id} className="flex items-center justify-between gap-3 p-3 rounded-lg border">
+                    <div className="flex items-center gap-2">
+                      <div className="flex flex-col">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-5 w-5"
+                          disabled={index === 0}
+                          onClick={() => moveRule(index, -1)}
+                        >
+                          <ArrowUp className="w-3 h-3" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-5 w-5"
+                          disabled={index === activeRules.length - 1}
+                          onClick={() => moveRule(index, 1)}
+                        >
+                          <ArrowDown className="w-3 h-3" />
+                        </Button>
+                      </div>
+                      <div className="space-y-1">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium text-sm">{rule.label}</span>
+                          <Badge variant="outline">
+                            ×{Number(rule.weight)}
+                            {totalWeight > 0 && ` · ${((Number(rule.weight) / totalWeight) * 100).toFixed(0)}%`}
+                          </Badge>
+                        </div>
+                        {rule.description && (
+                          <p className="text-xs text-muted-foreground">{rule.description}</p>
+                        )}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <Button variant="ghost" size="icon" onClick={() => startEdit(rule)}>
+                        <Pencil className="w-4 h-4 text-muted-foreground" />
+                      </Button>
+                      <Button variant="ghost" size="icon" title="Archive" onClick={() => archiveRule(rule.id)}>
+                        <Archive className="w-4 h-4 text-muted-foreground" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {archivedRules.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2"><Archive className="w-5 h-5" /> Archived</CardTitle>
+              <CardDescription>Hidden from new checklists; past answers still count in analytics</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {archivedRules.map(rule => (
+                <div key={rule.id} className="flex items-center justify-between p-3 rounded-lg border border-dashed">
+                  <span className="text-sm text-muted-foreground">{rule.label}</span>
+                  <div className="flex items-center gap-1">
+                    <Button variant="ghost" size="icon" title="Restore" onClick={() => restoreRule(rule.id)}>
+                      <ArchiveRestore className="w-4 h-4 text-muted-foreground" />
+                    </Button>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="ghost" size="icon">
+                          <Trash2 className="w-4 h-4 text-destructive" />
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Delete Rule</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            Delete "{rule.label}"? Its answers on past trades will be removed too. This action cannot be undone.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction
+                            onClick={() => deleteRule(rule.id)}
+                            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                          >
+                            Delete
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </AppLayout>
+  );
+}
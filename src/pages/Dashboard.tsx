@@ -1,11 +1,28 @@
 import { useTrades } from '@/hooks/useTrades';
+import { useTradeStats } from '@/hooks/useTradeStats';
 import { useAuth } from '@/hooks/useAuth';
+import { useAccounts } from '@/hooks/useAccounts';
+import { useCashFlows } from '@/hooks/useCashFlows';
+import { usePnLBasis } from '@/hooks/usePnLBasis';
+import { useResultUnit } from '@/hooks/useResultUnit';
+import { useCurrency } from '@/hooks/useCurrency';
 import { AppLayout } from '@/components/layout/AppLayout';
 import { StatCard } from '@/components/dashboard/StatCard';
 import { RecentTrades } from '@/components/dashboard/RecentTrades';
 import { EquityCurve } from '@/components/dashboard/EquityCurve';
 import { PerformanceSummary } from '@/components/dashboard/PerformanceSummary';
-import { calculateStats, getStrategyPerformance } from '@/utils/analytics';
+import { OpenPositions } from '@/components/dashboard/OpenPositions';
+import { GoalProgress } from '@/components/goals/GoalProgress';
+import { MixedCurrencyNotice } from '@/components/accounts/MixedCurrencyNotice';
+import { ResultUnitToggle } from '@/components/analytics/ResultUnitToggle';
+import {
+  TradeGroup,
+  formatR,
+  getExitReasonStats,
+  getStrategyPerformance,
+  getTimeWeightedReturn,
+  statsFromTotals,
+} from '@/utils/analytics';
 import { Button } from '@/components/ui/button';
 import { Link } from 'react-router-dom';
 import {
@@ -17,21 +34,31 @@ import {
   Upload,
   Percent,
   Scale,
+  Wallet,
+  ArrowDownUp,
+  LineChart,
 } from 'lucide-react';
 import { Skeleton } from '@/components/ui/skeleton';
 
+const DASHBOARD_GROUPS: TradeGroup[] = ['strategy', 'exit'];
+
 export default function Dashboard() {
   const { profile } = useAuth();
-  const { trades, loading } = useTrades();
-  const stats = calculateStats(trades);
-  const strategyStats = getStrategyPerformance(trades);
+  const { trades, loading, updateTrade } = useTrades();
+  const { selectedAccount } = useAccounts();
+  const { ledger } = useCashFlows();
+  const pnlBasis = usePnLBasis();
+  const { totals, groups, points, loading: statsLoading } = useTradeStats({ groups: DASHBOARD_GROUPS, points: true });
+  const { unit } = useResultUnit();
+  const inR = unit === 'r';
+  const stats = statsFromTotals(totals, ledger, getTimeWeightedReturn(points, ledger));
+  const strategyStats = getStrategyPerformance(groups.strategy ?? []);
+  const exitReasonStats = getExitReasonStats(groups.exit ?? []);
+  const tradingCosts = stats.grossProfitLoss - stats.netProfitLoss;
 
-  const formatCurrency = (value: number) => {
-    const formatted = Math.abs(value).toFixed(2);
-    return value >= 0 ? `$${formatted}` : `-$${formatted}`;
-  };
+  const { format: formatCurrency } = useCurrency();
 
-  if (loading) {
+  if (loading || statsLoading) {
     return (
       <AppLayout>
         <div className="space-y-6">
@@ -60,10 +87,11 @@ export default function Dashboard() {
               Welcome back, {profile?.display_name || 'Trader'}!
             </h1>
             <p className="text-muted-foreground mt-1">
-              Here's your trading performance overview
+              Here's your trading performance overview{selectedAccount ? ` for ${selectedAccount.name}` : ' across all accounts'}
             </p>
           </div>
-          <div className="flex gap-2">
+          <div className="flex items-center gap-2">
+            <ResultUnitToggle />
             <Button variant="outline" asChild>
               <Link to="/import">
                 <Upload className="w-4 h-4 mr-2" />
@@ -79,6 +107,8 @@ export default function Dashboard() {
           </div>
         </div>
 
+        <MixedCurrencyNotice />
+
         {/* Needs Review Alert */}
         {trades.filter(t => t.needs_review).length > 0 && (() => {
           const firstReview = trades.find(t => t.needs_review);
@@ -104,15 +134,30 @@ export default function Dashboard() {
           );
         })()}
 
+        {/* Open Positions */}
+        <OpenPositions trades={trades} onCloseTrade={updateTrade} />
+
         {/* Stats Grid */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-          <StatCard
-            title="Total P&L"
-            value={formatCurrency(stats.totalProfitLoss)}
-            subtitle={`${stats.totalTrades} total trades`}
-            icon={stats.totalProfitLoss >= 0 ? TrendingUp : TrendingDown}
-            trend={stats.totalProfitLoss > 0 ? 'up' : stats.totalProfitLoss < 0 ? 'down' : 'neutral'}
-          />
+          {inR ? (
+            <StatCard
+              title="Total R"
+              value={formatR(stats.totalR)}
+              subtitle={`${stats.rTrades} of ${stats.totalTrades} trades with a known risk`}
+              icon={stats.totalR >= 0 ? TrendingUp : TrendingDown}
+              trend={stats.totalR > 0 ? 'up' : stats.totalR < 0 ? 'down' : 'neutral'}
+            />
+          ) : (
+            <StatCard
+              title={pnlBasis === 'net' ? 'Net P&L' : 'Gross P&L'}
+              value={formatCurrency(stats.totalProfitLoss)}
+              subtitle={tradingCosts !== 0
+                ? `${pnlBasis === 'net' ? 'Gross' : 'Net'} ${formatCurrency(pnlBasis === 'net' ? stats.grossProfitLoss : stats.netProfitLoss)} · ${stats.totalTrades} trades`
+                : `${stats.totalTrades} total trades`}
+              icon={stats.totalProfitLoss >= 0 ? TrendingUp : TrendingDown}
+              trend={stats.totalProfitLoss > 0 ? 'up' : stats.totalProfitLoss < 0 ? 'down' : 'neutral'}
+            />
+          )}
           <StatCard
             title="Win Rate"
             value={`${stats.winRate.toFixed(1)}%`}
@@ -136,43 +181,78 @@ export default function Dashboard() {
           />
         </div>
 
+        {/* Balance & Returns */}
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+          <StatCard
+            title="Balance"
+            value={formatCurrency(stats.currentBalance)}
+            subtitle={`Started at ${formatCurrency(stats.startingBalance)}`}
+            icon={Wallet}
+          />
+          <StatCard
+            title="Net Deposits"
+            value={formatCurrency(stats.netCashFlow)}
+            subtitle="Deposits minus withdrawals"
+            icon={ArrowDownUp}
+          />
+          <StatCard
+            title="% Gain"
+            value={`${stats.percentGain.toFixed(2)}%`}
+            subtitle="P&L on capital invested"
+            icon={Percent}
+            trend={stats.percentGain > 0 ? 'up' : stats.percentGain < 0 ? 'down' : 'neutral'}
+          />
+          <StatCard
+            title="Time-Weighted Return"
+            value={`${stats.timeWeightedReturn.toFixed(2)}%`}
+            subtitle="Excludes deposits & withdrawals"
+            icon={LineChart}
+            trend={stats.timeWeightedReturn > 0 ? 'up' : stats.timeWeightedReturn < 0 ? 'down' : 'neutral'}
+          />
+        </div>
+
         {/* Secondary Stats */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
           <StatCard
             title="Expectancy"
-            value={formatCurrency(stats.expectancy)}
-            subtitle="Per trade"
+            value={inR ? formatR(stats.expectancyR) : formatCurrency(stats.expectancy)}
+            subtitle={inR ? `Per trade · SQN ${stats.sqn.toFixed(2)}` : 'Per trade'}
             icon={Percent}
-            trend={stats.expectancy > 0 ? 'up' : 'down'}
+            trend={(inR ? stats.expectancyR : stats.expectancy) > 0 ? 'up' : 'down'}
           />
           <StatCard
             title="Best Trade"
-            value={formatCurrency(stats.largestWin)}
+            value={inR ? formatR(stats.largestWinR) : formatCurrency(stats.largestWin)}
             subtitle="Single best"
             icon={TrendingUp}
             trend="up"
           />
           <StatCard
             title="Worst Trade"
-            value={formatCurrency(stats.largestLoss)}
+            value={inR ? formatR(stats.largestLossR) : formatCurrency(stats.largestLoss)}
             subtitle="Single worst"
             icon={TrendingDown}
             trend="down"
           />
           <StatCard
             title="Avg Win"
-            value={formatCurrency(stats.averageWin)}
-            subtitle={`Avg Loss: ${formatCurrency(-stats.averageLoss)}`}
+            value={inR ? formatR(stats.averageWinR) : formatCurrency(stats.averageWin)}
+            subtitle={`Avg Loss: ${inR ? formatR(-stats.averageLossR) : formatCurrency(-stats.averageLoss)}`}
             icon={Target}
           />
         </div>
 
-        {/* Performance Summary */}
-        <PerformanceSummary trades={trades} stats={stats} strategyStats={strategyStats} />
+        {/* Performance Summary & Goals */}
+        <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+          <div className="xl:col-span-2">
+            <PerformanceSummary stats={stats} strategyStats={strategyStats} exitReasonStats={exitReasonStats} />
+          </div>
+          <GoalProgress trades={trades} />
+        </div>
 
         {/* Charts Row */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-          <EquityCurve trades={trades} />
+          <EquityCurve points={points} ledger={ledger} />
           <RecentTrades trades={trades} />
         </div>
       </div>
@@ -0,0 +1,96 @@
+import { useState } from 'react';
+import { AppLayout } from '@/components/layout/AppLayout';
+import { GoalCard } from '@/components/goals/GoalCard';
+import { GoalDialog } from '@/components/goals/GoalDialog';
+import { useGoals } from '@/hooks/useGoals';
+import { useTrades } from '@/hooks/useTrades';
+import { useChecklistRules } from '@/hooks/useChecklistRules';
+import { useAccounts } from '@/hooks/useAccounts';
+import { usePnLBasis } from '@/hooks/usePnLBasis';
+import { Goal, GoalFormData } from '@/types/trade';
+import { getGoalHistory } from '@/utils/goals';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Flag, Plus } from 'lucide-react';
+
+export default function Goals() {
+  const { goals, activeGoals, loading, addGoal, updateGoal, archiveGoal, unarchiveGoal, deleteGoal } = useGoals();
+  const { trades } = useTrades();
+  const { rules } = useChecklistRules();
+  const { selectedAccount } = useAccounts();
+  const pnlBasis = usePnLBasis();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<Goal | null>(null);
+
+  const archivedGoals = goals.filter(g => g.archived_at);
+
+  const openDialog = (goal: Goal | null) => {
+    setEditing(goal);
+    setDialogOpen(true);
+  };
+
+  const handleSave = (data: GoalFormData) => (editing ? updateGoal(editing.id, data) : addGoal(data));
+
+  const renderGoal = (goal: Goal) => (
+    <GoalCard
+      key={goal.id}
+      goal={goal}
+      history={getGoalHistory(goal, trades, rules, pnlBasis, 12, goal.archived_at ? new Date(goal.archived_at) : new Date())}
+      onEdit={() => openDialog(goal)}
+      onArchive={() => (goal.archived_at ? unarchiveGoal(goal.id) : archiveGoal(goal.id))}
+      onDelete={() => deleteGoal(goal.id)}
+    />
+  );
+
+  return (
+    <AppLayout>
+      <div className="max-w-5xl mx-auto space-y-6 animate-fade-in">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-display font-bold">Goals</h1>
+            <p className="text-muted-foreground mt-1">
+              Targets for {selectedAccount ? selectedAccount.name : 'all accounts'}, checked every period
+            </p>
+          </div>
+          <Button onClick={() => openDialog(null)}>
+            <Plus className="w-4 h-4 mr-2" /> New Goal
+          </Button>
+        </div>
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading goals...</p>
+        ) : activeGoals.length === 0 ? (
+          <Card className="gradient-card">
+            <CardContent className="py-12 text-center space-y-2">
+              <Flag className="w-10 h-10 mx-auto text-muted-foreground" />
+              <p className="font-medium">No active goals</p>
+              <p className="text-sm text-muted-foreground">
+                Set a P&L, win rate, trade count or rule adherence target to track it on the dashboard.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {activeGoals.map(renderGoal)}
+          </div>
+        )}
+
+        {archivedGoals.length > 0 && (
+          <div className="space-y-3">
+            <h2 className="text-lg font-display font-semibold text-muted-foreground">Archived</h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {archivedGoals.map(renderGoal)}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <GoalDialog
+        open={dialogOpen}
+        goal={editing}
+        onOpenChange={setDialogOpen}
+        onSave={handleSave}
+      />
+    </AppLayout>
+  );
+}
@@ -2,6 +2,7 @@ import { useState, useRef } from 'react';
 import { useNavigate, Link } from 'react-router-dom';
 import { AppLayout } from '@/components/layout/AppLayout';
 import { useTrades } from '@/hooks/useTrades';
+import { useInstruments } from '@/hooks/useInstruments';
 import { validateAndParseMT5CSV } from '@/utils/csvParser';
 import { TradeFormData } from '@/types/trade';
 import { Button } from '@/components/ui/button';
@@ -35,6 +36,7 @@ export default function ImportCSV() {
   const [isImporting, setIsImporting] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { importTrades } = useTrades();
+  const { instruments } = useInstruments();
   const navigate = useNavigate();
   const { toast } = useToast();
 
@@ -48,7 +50,7 @@ export default function ImportCSV() {
 
     try {
       const text = await selectedFile.text();
-      const { trades, errors } = validateAndParseMT5CSV(text);
+      const { trades, errors } = validateAndParseMT5CSV(text, instruments);
       
       setParsedTrades(trades);
       setParseErrors(errors);
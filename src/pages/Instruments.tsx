@@ -0,0 +1,351 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { AppLayout } from '@/components/layout/AppLayout';
+import { useInstruments } from '@/hooks/useInstruments';
+import { useToast } from '@/hooks/use-toast';
+import { AssetClass, Instrument } from '@/types/trade';
+import { getPipValue } from '@/utils/instruments';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Globe, Loader2, Pencil, Plus, Trash2, X } from 'lucide-react';
+
+const instrumentSchema = z.object({
+  symbol: z.string().trim().min(1, 'Symbol is required').max(20, 'Symbol too long'),
+  aliases: z.string().max(200, 'Too many aliases').optional(),
+  asset_class: z.enum(['forex', 'crypto', 'commodities', 'stocks']),
+  pip_size: z.coerce.number().positive('Pip size must be positive'),
+  contract_size: z.coerce.number().positive('Contract size must be positive'),
+  quote_currency: z.string().trim().length(3, 'Use a 3-letter currency code'),
+  tick_value: z.coerce.number().positive('Tick value must be positive').optional().or(z.literal('')),
+});
+
+type InstrumentFormValues = z.infer<typeof instrumentSchema>;
+
+const ASSET_CLASS_LABELS: Record<AssetClass, string> = {
+  forex: 'Forex',
+  crypto: 'Crypto',
+  commodities: 'Commodities',
+  stocks: 'Stocks & Indices',
+};
+
+const EMPTY_VALUES: InstrumentFormValues = {
+  symbol: '',
+  aliases: '',
+  asset_class: 'forex',
+  pip_size: 0.0001,
+  contract_size: 100000,
+  quote_currency: 'USD',
+  tick_value: '',
+};
+
+export default function Instruments() {
+  const { instruments, loading, addInstrument, updateInstrument, deleteInstrument } = useInstruments();
+  const { toast } = useToast();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const form = useForm<InstrumentFormValues>({
+    resolver: zodResolver(instrumentSchema),
+    defaultValues: EMPTY_VALUES,
+  });
+
+  const startEdit = (instrument: Instrument) => {
+    setEditingId(instrument.id);
+    form.reset({
+      symbol: instrument.symbol,
+      aliases: instrument.aliases.join(', '),
+      asset_class: instrument.asset_class,
+      pip_size: instrument.pip_size,
+      contract_size: instrument.contract_size,
+      quote_currency: instrument.quote_currency,
+      tick_value: instrument.tick_value ?? '',
+    });
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    form.reset(EMPTY_VALUES);
+  };
+
+  const onSubmit = async (data: InstrumentFormValues) => {
+    setSaving(true);
+    const payload = {
+      symbol: data.symbol,
+      aliases: data.aliases ? data.aliases.split(',') : [],
+      asset_class: data.asset_class,
+      pip_size: data.pip_size,
+      contract_size: data.contract_size,
+      quote_currency: data.quote_currency,
+      tick_value: data.tick_value ? Number(data.tick_value) : null,
+    };
+    const { error } = editingId
+      ? await updateInstrument(editingId, payload)
+      : await addInstrument(payload);
+    setSaving(false);
+
+    if (error) {
+      toast({
+        title: editingId ? 'Error updating instrument' : 'Error adding instrument',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      cancelEdit();
+    }
+  };
+
+  const describePipValue = (instrument: Instrument) => {
+    const pipValue = getPipValue(instrument);
+    return pipValue === null ? 'Pip value varies with price' : `$${pipValue.toFixed(2)} per pip per lot`;
+  };
+
+  return (
+    <AppLayout>
+      <div className="max-w-3xl mx-auto space-y-6 animate-fade-in">
+        <div>
+          <h1 className="text-3xl font-display font-bold">Instruments</h1>
+          <p className="text-muted-foreground mt-1">
+            Contract specifications used to calculate pips, risk and R:R
+          </p>
+        </div>
+
+        <Card className="gradient-card">
+          <CardHeader>
+            <CardTitle className="font-display flex items-center gap-2">
+              {editingId ? <Pencil className="w-5 h-5 text-primary" /> : <Plus className="w-5 h-5 text-primary" />}
+              {editingId ? 'Edit Instrument' : 'New Instrument'}
+            </CardTitle>
+            <CardDescription>
+              Match your broker's contract specification so calculated values line up with your statements
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="symbol"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Symbol</FormLabel>
+                        <FormControl>
+                          <Input placeholder="e.g. XAUUSD" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="aliases"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Aliases</FormLabel>
+                        <FormControl>
+                          <Input placeholder="e.g. GOLD" {...field} />
+                        </FormControl>
+                        <FormDescription>Other broker names, separated by commas</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="asset_class"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Asset Class</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {(Object.keys(ASSET_CLASS_LABELS) as AssetClass[]).map(assetClass => (
+                              <SelectItem key={assetClass} value={assetClass}>{ASSET_CLASS_LABELS[assetClass]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="quote_currency"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Quote Currency</FormLabel>
+                        <FormControl>
+                          <Input placeholder="USD" maxLength={3} {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="pip_size"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Pip Size</FormLabel>
+                        <FormControl>
+                          <Input type="number" step="any" {...field} />
+                        </FormControl>
+                        <FormDescription>Price move counted as one pip or point</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="contract_size"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Contract Size</FormLabel>
+                        <FormControl>
+                          <Input type="number" step="any" {...field} />
+                        </FormControl>
+                        <FormDescription>Units in one lot</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="tick_value"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Tick Value ($)</FormLabel>
+                        <FormControl>
+                          <Input type="number" step="any" placeholder="Auto" {...field} />
+                        </FormControl>
+                        <FormDescription>
+                          Value of one pip on one lot. Leave empty to derive it from the contract size.
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <div className="flex justify-end gap-2">
+                  {editingId && (
+                    <Button type="button" variant="outline" onClick={cancelEdit}>
+                      <X className="w-4 h-4 mr-1" /> Cancel
+                    </Button>
+                  )}
+                  <Button type="submit" disabled={saving}>
+                    {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    {editingId ? 'Save Changes' : 'Add Instrument'}
+                  </Button>
+                </div>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2"><Globe className="w-5 h-5" /> Your Instruments</CardTitle>
+            <CardDescription>Used by the trade form, CSV import, MT5 sync and the risk calculator</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <p className="text-sm text-muted-foreground">Loading instruments...</p>
+            ) : instruments.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No instruments yet. Add one above to get started.</p>
+            ) : (
+              <div className="space-y-2">
+                {instruments.map(instrument => (
+                  <div key={instrument.id} className="flex items-center justify-between p-3 rounded-lg border">
+                    <div className="space-y-1">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium text-sm">{instrument.symbol}</span>
+                        <Badge variant="outline">{ASSET_CLASS_LABELS[instrument.asset_class]}</Badge>
+                        {instrument.aliases.length > 0 && (
+                          <span className="text-xs text-muted-foreground">{instrument.aliases.join(', ')}</span>
+                        )}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Pip {instrument.pip_size} · Contract {instrument.contract_size} {instrument.quote_currency} · {describePipValue(instrument)}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <Button variant="ghost" size="icon" onClick={() => startEdit(instrument)}>
+                        <Pencil className="w-4 h-4 text-muted-foreground" />
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="icon">
+                            <Trash2 className="w-4 h-4 text-destructive" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete Instrument</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Delete {instrument.symbol}? Existing trades are unchanged; new trades on this symbol fall back to a best guess.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction
+                              onClick={() => deleteInstrument(instrument.id)}
+                              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                            >
+                              Delete
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AppLayout>
+  );
+}
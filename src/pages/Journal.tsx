@@ -0,0 +1,198 @@
+import { Link, useSearchParams } from 'react-router-dom';
+import { addDays, format, subDays } from 'date-fns';
+import { AppLayout } from '@/components/layout/AppLayout';
+import { JournalEntryForm } from '@/components/journal/JournalEntryForm';
+import { useJournal } from '@/hooks/useJournal';
+import { useTrades } from '@/hooks/useTrades';
+import { usePnLBasis } from '@/hooks/usePnLBasis';
+import { useCurrency } from '@/hooks/useCurrency';
+import { getTradePL, isOpenTrade } from '@/utils/analytics';
+import { getTradesForDay, MARKET_BIAS_LABELS, toDayKey } from '@/utils/journal';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { cn } from '@/lib/utils';
+import { ArrowDownRight, ArrowUpRight, ChevronLeft, ChevronRight, NotebookPen, Trash2 } from 'lucide-react';
+
+export default function Journal() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { entries, loading, getEntry, saveEntry, deleteEntry } = useJournal();
+  const { trades } = useTrades();
+  const pnlBasis = usePnLBasis();
+
+  const dateParam = searchParams.get('date');
+  const day = dateParam && /^\d{4}-\d{2}-\d{2}$/.test(dateParam) ? dateParam : toDayKey(new Date());
+  const dayDate = new Date(`${day}T00:00:00`);
+  const entry = getEntry(day);
+  const dayTrades = getTradesForDay(trades, day);
+  const closedPL = dayTrades
+    .filter(t => !isOpenTrade(t) && t.exit_date && toDayKey(t.exit_date) === day)
+    .reduce((sum, t) => sum + getTradePL(t, pnlBasis), 0);
+
+  const goTo = (date: string) => setSearchParams({ date });
+
+  const { format: formatCurrency } = useCurrency();
+
+  return (
+    <AppLayout>
+      <div className="max-w-6xl mx-auto space-y-6 animate-fade-in">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-display font-bold">Journal</h1>
+            <p className="text-muted-foreground mt-1">
+              Plan the session, then reflect on it, whether you traded or not
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="icon" onClick={() => goTo(toDayKey(subDays(dayDate, 1)))}>
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <Input
+              type="date"
+              value={day}
+              onChange={e => e.target.value && goTo(e.target.value)}
+              className="w-40"
+            />
+            <Button variant="outline" size="icon" onClick={() => goTo(toDayKey(addDays(dayDate, 1)))}>
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+            <Button variant="ghost" onClick={() => goTo(toDayKey(new Date()))}>Today</Button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <Card className="gradient-card lg:col-span-2">
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+              <div>
+                <CardTitle className="font-display">{format(dayDate, 'EEEE, MMM d, yyyy')}</CardTitle>
+                <CardDescription>
+                  {entry ? `Last saved ${format(new Date(entry.updated_at), 'MMM d, HH:mm')}` : 'No entry for this day yet'}
+                </CardDescription>
+              </div>
+              {entry && (
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="ghost" size="icon">
+                      <Trash2 className="w-4 h-4 text-destructive" />
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Delete Journal Entry</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Delete your notes for {format(dayDate, 'MMM d, yyyy')}? This cannot be undone.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction
+                        onClick={() => deleteEntry(entry.id)}
+                        className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                      >
+                        Delete
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              )}
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <p className="text-sm text-muted-foreground">Loading journal...</p>
+              ) : (
+                <JournalEntryForm key={day} entry={entry} onSave={data => saveEntry(day, data)} />
+              )}
+            </CardContent>
+          </Card>
+
+          <div className="space-y-6">
+            <Card className="gradient-card">
+              <CardHeader>
+                <CardTitle className="font-display flex items-center justify-between gap-2">
+                  Trades This Day
+                  {dayTrades.length > 0 && (
+                    <span className={cn('text-base', closedPL > 0 && 'text-success', closedPL < 0 && 'text-destructive')}>
+                      {formatCurrency(closedPL)}
+                    </span>
+                  )}
+                </CardTitle>
+                <CardDescription>Opened or closed on {format(dayDate, 'MMM d')}</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {dayTrades.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No trades. Days on the sidelines are worth journaling too.</p>
+                ) : (
+                  dayTrades.map(trade => {
+                    const pl = getTradePL(trade, pnlBasis);
+                    return (
+                      <Link
+                        key={trade.id}
+                        to={`/trades/${trade.id}`}
+                        className="flex items-center gap-3 rounded-lg border border-border p-2 hover:border-primary/50 transition-colors"
+                      >
+                        {trade.direction === 'buy'
+                          ? <ArrowUpRight className="w-4 h-4 text-success" />
+                          : <ArrowDownRight className="w-4 h-4 text-destructive" />}
+                        <span className="font-medium text-sm flex-1">{trade.symbol}</span>
+                        <span className={cn(
+                          'text-sm font-semibold',
+                          !isOpenTrade(trade) && pl > 0 && 'text-success',
+                          !isOpenTrade(trade) && pl < 0 && 'text-destructive',
+                        )}>
+                          {isOpenTrade(trade) ? 'Open' : formatCurrency(pl)}
+                        </span>
+                      </Link>
+                    );
+                  })
+                )}
+              </CardContent>
+            </Card>
+
+            <Card className="gradient-card">
+              <CardHeader>
+                <CardTitle className="font-display">Recent Entries</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-1">
+                {entries.length === 0 ? (
+                  <div className="text-center py-4 space-y-2">
+                    <NotebookPen className="w-8 h-8 mx-auto text-muted-foreground" />
+                    <p className="text-sm text-muted-foreground">Your journal is empty.</p>
+                  </div>
+                ) : (
+                  entries.slice(0, 10).map(e => (
+                    <button
+                      key={e.id}
+                      type="button"
+                      onClick={() => goTo(e.entry_date)}
+                      className={cn(
+                        'w-full flex items-center justify-between gap-2 rounded-md px-2 py-1.5 text-sm hover:bg-muted/50 transition-colors text-left',
+                        e.entry_date === day && 'bg-muted',
+                      )}
+                    >
+                      <span>{format(new Date(`${e.entry_date}T00:00:00`), 'EEE, MMM d')}</span>
+                      {e.market_bias && (
+                        <Badge variant="outline" className="text-xs">{MARKET_BIAS_LABELS[e.market_bias]}</Badge>
+                      )}
+                    </button>
+                  ))
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </AppLayout>
+  );
+}
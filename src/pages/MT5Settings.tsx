@@ -6,18 +6,31 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { useWebhookKeys } from '@/hooks/useWebhookKeys';
+import { useAccounts, ALL_ACCOUNTS } from '@/hooks/useAccounts';
 import { useMT5Status } from '@/hooks/useMT5Status';
 import { useToast } from '@/hooks/use-toast';
 import { Copy, Plus, Trash2, Key, Wifi, BookOpen, Download, Activity, CheckCircle2, XCircle } from 'lucide-react';
 
 const WEBHOOK_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/mt5-webhook`;
+const NO_ACCOUNT = 'none';
 
 export default function MT5Settings() {
-  const { keys, loading: keysLoading, createKey, toggleKey, deleteKey } = useWebhookKeys();
+  const { keys, loading: keysLoading, createKey, toggleKey, setKeyAccount, deleteKey } = useWebhookKeys();
   const { lastSync, recentTrades, loading: statusLoading } = useMT5Status();
+  const { accounts, selectedAccountId } = useAccounts();
   const { toast } = useToast();
   const [newKeyLabel, setNewKeyLabel] = useState('');
+  const [newKeyAccount, setNewKeyAccount] = useState<string>(
+    selectedAccountId !== ALL_ACCOUNTS ? selectedAccountId : NO_ACCOUNT
+  );
   const [generatedKey, setGeneratedKey] = useState<string | null>(null);
   const [creating, setCreating] = useState(false);
 
@@ -39,7 +52,7 @@ export default function MT5Settings() {
       return;
     }
     setCreating(true);
-    const key = await createKey(newKeyLabel.trim());
+    const key = await createKey(newKeyLabel.trim(), newKeyAccount !== NO_ACCOUNT ? newKeyAccount : null);
     setCreating(false);
     if (key) {
       setGeneratedKey(key);
@@ -110,15 +123,26 @@ export default function MT5Settings() {
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center gap-2"><Key className="w-5 h-5" /> API Keys</CardTitle>
-            <CardDescription>Generate keys to authenticate your MT5 connection</CardDescription>
+            <CardDescription>Generate keys to authenticate your MT5 connection. Each key files its trades under one account.</CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
-            <div className="flex gap-2">
+            <div className="flex flex-col sm:flex-row gap-2">
               <Input
                 placeholder="Key label (e.g. My MT5 Account)"
                 value={newKeyLabel}
                 onChange={e => setNewKeyLabel(e.target.value)}
               />
+              <Select value={newKeyAccount} onValueChange={setNewKeyAccount}>
+                <SelectTrigger className="sm:w-48">
+                  <SelectValue placeholder="Account" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_ACCOUNT}>No account</SelectItem>
+                  {accounts.map(account => (
+                    <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
               <Button onClick={handleCreateKey} disabled={creating}>
                 <Plus className="w-4 h-4 mr-1" /> Generate
               </Button>
@@ -160,6 +184,20 @@ export default function MT5Settings() {
                       </p>
                     </div>
                     <div className="flex items-center gap-2">
+                      <Select
+                        value={key.account_id ?? NO_ACCOUNT}
+                        onValueChange={val => setKeyAccount(key.id, val !== NO_ACCOUNT ? val : null)}
+                      >
+                        <SelectTrigger className="h-8 w-36 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NO_ACCOUNT}>No account</SelectItem>
+                          {accounts.map(account => (
+                            <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
                       <Switch
                         checked={key.is_active}
                         onCheckedChange={val => toggleKey(key.id, val)}
@@ -1,11 +1,19 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useLocation, useNavigate, useParams, useSearchParams } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { AppLayout } from '@/components/layout/AppLayout';
 import { useTrades } from '@/hooks/useTrades';
-import { TradeFormData, AssetClass, TradeDirection, TradeStatus, ExitReason } from '@/types/trade';
+import { useAccounts, ALL_ACCOUNTS } from '@/hooks/useAccounts';
+import { useInstruments } from '@/hooks/useInstruments';
+import { usePlaybooks } from '@/hooks/usePlaybooks';
+import { useTradeScreenshots } from '@/hooks/useTradeScreenshots';
+import { useRiskLimits } from '@/hooks/useRiskLimits';
+import { useCashFlows } from '@/hooks/useCashFlows';
+import { useTags } from '@/hooks/useTags';
+import { useCurrency } from '@/hooks/useCurrency';
+import { TradeFormData, AssetClass, TradeDirection, TradeStatus, ExitReason, ScreenshotPhase } from '@/types/trade';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
@@ -29,12 +37,38 @@ import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useToast } from '@/hooks/use-toast';
-import { Loader2, ArrowLeft, TrendingUp, TrendingDown, Target, AlertTriangle } from 'lucide-react';
+import { Loader2, ArrowLeft, TrendingUp, TrendingDown, Target, AlertTriangle, Clock, X, ShieldAlert } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import { cn } from '@/lib/utils';
 import { PreTradeChecklist, PreTradeChecklistValues } from '@/components/tools/PreTradeChecklist';
+import { toRuleAnswers } from '@/utils/checklist';
+import { TradeHistory } from '@/components/trades/TradeHistory';
+import { ExecutionsEditor, executionSchema, toCompleteExecutions } from '@/components/trades/ExecutionsEditor';
+import { summarizeExecutions } from '@/utils/executions';
+import { calculatePips, calculateRiskAmount, calculateRiskReward } from '@/utils/instruments';
+import { getPlaybookViolations } from '@/utils/playbooks';
+import { getAccountLedger, getTradeRiskWarnings } from '@/utils/risk';
+import { PHASE_LABELS, SCREENSHOT_PHASES } from '@/utils/screenshots';
+import { ScreenshotGallery } from '@/components/screenshots/ScreenshotGallery';
+import { ScreenshotDropzone } from '@/components/screenshots/ScreenshotDropzone';
+import { TagInput } from '@/components/tags/TagInput';
+import { parseTags } from '@/utils/tags';
+import { toDateTimeInput } from '@/utils/timezone';
+
+const NO_ACCOUNT = 'none';
+const NO_PLAYBOOK = 'none';
+
+interface PendingScreenshot {
+  id: string;
+  file: File;
+  phase: ScreenshotPhase;
+  preview: string;
+}
+
+const PRICE_FIELDS = ['symbol', 'direction', 'entry_price', 'exit_price', 'stop_loss', 'take_profit', 'lot_size', 'status'];
 
 const tradeSchema = z.object({
+  account_id: z.string().optional(),
   symbol: z.string().min(1, 'Symbol is required').max(50, 'Symbol too long'),
   asset_class: z.enum(['forex', 'crypto', 'commodities', 'stocks']),
   direction: z.enum(['buy', 'sell']),
@@ -45,30 +79,28 @@ const tradeSchema = z.object({
   lot_size: z.coerce.number().positive('Lot size must be positive'),
   stop_loss: z.coerce.number().min(0).optional().or(z.literal('')),
   take_profit: z.coerce.number().min(0).optional().or(z.literal('')),
-  status: z.enum(['win', 'loss', 'breakeven']),
+  status: z.enum(['open', 'win', 'loss', 'breakeven']),
   exit_reason: z.enum(['sl_hit', 'tp_hit', 'manual_close', 'breakeven']),
   risk_reward_ratio: z.coerce.number().min(0).optional().or(z.literal('')),
   pips: z.coerce.number().optional().or(z.literal('')),
   risk_amount: z.coerce.number().min(0).optional().or(z.literal('')),
   reward_amount: z.coerce.number().optional().or(z.literal('')),
+  commission: z.coerce.number().min(0, 'Commission cannot be negative').optional().or(z.literal('')),
+  swap: z.coerce.number().optional().or(z.literal('')),
+  other_fees: z.coerce.number().min(0, 'Fees cannot be negative').optional().or(z.literal('')),
   strategy: z.string().max(100, 'Strategy too long').optional(),
+  playbook_id: z.string().optional(),
   reasoning: z.string().max(1000, 'Reasoning too long').optional(),
   lessons: z.string().max(1000, 'Lessons too long').optional(),
   tags: z.string().optional(), // We'll handle comma separation
   screenshot_url: z.string().optional().or(z.literal('')),
   setup_type: z.enum(['Type 1', 'Type 2', 'Type 3']).optional().or(z.literal('')),
   probability: z.enum(['High Prob', 'Low Prob']).optional().or(z.literal('')),
-  // New Checklist Fields
-  rule_in_plan: z.enum(['yes', 'no', 'n/a']).optional().or(z.literal('')),
-  rule_bos: z.enum(['yes', 'no', 'n/a']).optional().or(z.literal('')),
-  rule_liquidity: z.enum(['yes', 'no', 'n/a']).optional().or(z.literal('')),
-  rule_trend: z.enum(['yes', 'no', 'n/a']).optional().or(z.literal('')),
-  rule_news: z.enum(['yes', 'no', 'n/a']).optional().or(z.literal('')),
-  rule_rr: z.enum(['yes', 'no', 'n/a']).optional().or(z.literal('')),
-  rule_emotions: z.enum(['yes', 'no', 'n/a']).optional().or(z.literal('')),
-  rule_lot_size: z.enum(['yes', 'no', 'n/a']).optional().or(z.literal('')),
+  // Checklist answers keyed by rule id
+  rule_answers: z.record(z.enum(['yes', 'no', 'n/a']).or(z.literal(''))).optional(),
   emotions_array: z.array(z.string()).optional(),
   lessons_learned: z.string().max(1000, 'Lessons too long').optional(),
+  executions: z.array(executionSchema).optional(),
 });
 
 type FormData = z.infer<typeof tradeSchema>;
@@ -76,7 +108,19 @@ type FormData = z.infer<typeof tradeSchema>;
 export default function NewTrade() {
   const [isLoading, setIsLoading] = useState(false);
   const [activeTab, setActiveTab] = useState('outcome');
-  const { trades, addTrade, updateTrade } = useTrades();
+  const { trades, addTrade, updateTrade, refetch } = useTrades();
+  const { accounts, selectedAccountId } = useAccounts();
+  const { currencyOf } = useCurrency();
+  const { resolveInstrument } = useInstruments();
+  const { playbooks } = usePlaybooks();
+  const { uploadScreenshots } = useTradeScreenshots();
+  const { getLimitsFor } = useRiskLimits();
+  const { tags: knownTags } = useTags();
+  const { cashFlows } = useCashFlows();
+  const [pendingScreenshots, setPendingScreenshots] = useState<PendingScreenshot[]>([]);
+  const pendingRef = useRef(pendingScreenshots);
+  // Fills as loaded, to tell whether the user changed them
+  const loadedExecutionsKey = useRef('[]');
   const navigate = useNavigate();
   const location = useLocation();
   const { toast } = useToast();
@@ -86,21 +130,46 @@ export default function NewTrade() {
   const existingTrade = isEditing ? trades.find(t => t.id === id) : null;
 
   useEffect(() => {
-    if (searchParams.get('tab') === 'confluence' || existingTrade?.needs_review) {
+    const tab = searchParams.get('tab');
+    if (tab === 'confluence' || existingTrade?.needs_review) {
       setActiveTab('confluence');
+    } else if (tab === 'charts' || (tab === 'history' && isEditing)) {
+      setActiveTab(tab);
     }
-  }, [searchParams, existingTrade?.needs_review]);
+  }, [searchParams, existingTrade?.needs_review, isEditing]);
+
+  // Release local previews of screenshots that were never uploaded
+  useEffect(() => {
+    pendingRef.current = pendingScreenshots;
+  }, [pendingScreenshots]);
+  useEffect(() => () => pendingRef.current.forEach(p => URL.revokeObjectURL(p.preview)), []);
+
+  const addPendingScreenshots = (files: File[], phase: ScreenshotPhase) => {
+    setPendingScreenshots(prev => [
+      ...prev,
+      ...files.map(file => ({ id: crypto.randomUUID(), file, phase, preview: URL.createObjectURL(file) })),
+    ]);
+  };
+
+  const removePendingScreenshot = (pendingId: string) => {
+    setPendingScreenshots(prev => {
+      const removed = prev.find(p => p.id === pendingId);
+      if (removed) URL.revokeObjectURL(removed.preview);
+      return prev.filter(p => p.id !== pendingId);
+    });
+  };
 
   const checklistPrefill = (location.state as { checklist?: PreTradeChecklistValues } | null)?.checklist;
 
   const form = useForm<FormData>({
     resolver: zodResolver(tradeSchema),
     defaultValues: {
+      account_id: selectedAccountId !== ALL_ACCOUNTS ? selectedAccountId : NO_ACCOUNT,
       symbol: '',
       asset_class: 'forex',
       direction: 'buy',
-      entry_date: new Date().toISOString().slice(0, 16),
-      exit_date: new Date().toISOString().slice(0, 16),
+      entry_date: toDateTimeInput(new Date()),
+      exit_date: toDateTimeInput(new Date()),
       entry_price: undefined,
       exit_price: '',
       lot_size: 0.01,
@@ -112,34 +181,33 @@ export default function NewTrade() {
       pips: '',
       risk_amount: '',
       reward_amount: '',
+      commission: '',
+      swap: '',
+      other_fees: '',
       strategy: '',
+      playbook_id: NO_PLAYBOOK,
       reasoning: '',
       lessons: '',
       tags: '',
       screenshot_url: '',
       setup_type: (checklistPrefill?.setup_type || '') as FormData['setup_type'],
       probability: (checklistPrefill?.probability || '') as FormData['probability'],
-      rule_in_plan: checklistPrefill?.rule_in_plan || '',
-      rule_bos: checklistPrefill?.rule_bos || '',
-      rule_liquidity: checklistPrefill?.rule_liquidity || '',
-      rule_trend: checklistPrefill?.rule_trend || '',
-      rule_news: checklistPrefill?.rule_news || '',
-      rule_rr: checklistPrefill?.rule_rr || '',
-      rule_emotions: checklistPrefill?.rule_emotions || '',
-      rule_lot_size: checklistPrefill?.rule_lot_size || '',
+      rule_answers: checklistPrefill?.rule_answers || {},
       emotions_array: [],
       lessons_learned: '',
+      executions: [],
     },
   });
 
   useEffect(() => {
     if (existingTrade) {
       form.reset({
+        account_id: existingTrade.account_id ?? NO_ACCOUNT,
         symbol: existingTrade.symbol,
         asset_class: existingTrade.asset_class as AssetClass,
         direction: existingTrade.direction as TradeDirection,
-        entry_date: new Date(existingTrade.entry_date).toISOString().slice(0, 16),
-        exit_date: existingTrade.exit_date ? new Date(existingTrade.exit_date).toISOString().slice(0, 16) : '',
+        entry_date: toDateTimeInput(existingTrade.entry_date),
+        exit_date: existingTrade.exit_date ? toDateTimeInput(existingTrade.exit_date) : '',
         entry_price: existingTrade.entry_price,
         exit_price: existingTrade.exit_price ?? '',
         lot_size: existingTrade.lot_size,
@@ -151,85 +219,179 @@ export default function NewTrade() {
         pips: existingTrade.pips ?? '',
         risk_amount: existingTrade.risk_amount ?? '',
         reward_amount: existingTrade.reward_amount ?? '',
+        commission: existingTrade.commission || '',
+        swap: existingTrade.swap || '',
+        other_fees: existingTrade.other_fees || '',
         strategy: existingTrade.strategy ?? '',
+        playbook_id: existingTrade.playbook_id ?? NO_PLAYBOOK,
         reasoning: existingTrade.reasoning ?? '',
         lessons: existingTrade.lessons ?? '',
         tags: existingTrade.tags?.join(', ') ?? '',
         screenshot_url: existingTrade.screenshot_url ?? '',
         setup_type: (existingTrade.setup_type as "Type 1" | "Type 2" | "Type 3") ?? '',
         probability: (existingTrade.probability as "High Prob" | "Low Prob") ?? '',
-        rule_in_plan: (existingTrade.rule_in_plan as FormData['rule_in_plan']) ?? '',
-        rule_bos: (existingTrade.rule_bos as FormData['rule_bos']) ?? '',
-        rule_liquidity: (existingTrade.rule_liquidity as FormData['rule_liquidity']) ?? '',
-        rule_trend: (existingTrade.rule_trend as FormData['rule_trend']) ?? '',
-        rule_news: (existingTrade.rule_news as FormData['rule_news']) ?? '',
-        rule_rr: (existingTrade.rule_rr as FormData['rule_rr']) ?? '',
-        rule_emotions: (existingTrade.rule_emotions as FormData['rule_emotions']) ?? '',
-        rule_lot_size: (existingTrade.rule_lot_size as FormData['rule_lot_size']) ?? '',
+        rule_answers: existingTrade.rule_answers ?? {},
         emotions_array: existingTrade.emotions_array ?? [],
         lessons_learned: existingTrade.lessons_learned ?? '',
+        executions: (existingTrade.executions ?? []).map(e => ({
+          id: e.id,
+          side: e.side,
+          price: e.price,
+          volume: e.volume,
+          executed_at: toDateTimeInput(e.executed_at),
+          profit_loss: e.profit_loss ?? '',
+        })),
       });
+      loadedExecutionsKey.current = JSON.stringify(toCompleteExecutions(form.getValues('executions')));
     }
   }, [existingTrade]);
 
+  // With executions logged, prices, size, dates and outcome are derived from the fills
+  const watchExecutions = form.watch('executions');
+  const completeExecutions = toCompleteExecutions(watchExecutions);
+  const hasExecutions = completeExecutions.length > 0;
+  // The watched array is a new object on every render, so the effect keys on its contents instead
+  const executionsKey = JSON.stringify(completeExecutions);
+
+  useEffect(() => {
+    const fills: Parameters<typeof summarizeExecutions>[0] = JSON.parse(executionsKey);
+    if (fills.length === 0) return;
+    const summary = summarizeExecutions(fills);
+
+    if (summary.averageEntry !== null) form.setValue('entry_price', Number(summary.averageEntry.toFixed(5)));
+    if (summary.averageExit !== null) form.setValue('exit_price', Number(summary.averageExit.toFixed(5)));
+    if (summary.entryVolume > 0) form.setValue('lot_size', summary.entryVolume);
+    if (summary.firstEntryAt) form.setValue('entry_date', toDateTimeInput(summary.firstEntryAt));
+    if (summary.lastExitAt) form.setValue('exit_date', toDateTimeInput(summary.lastExitAt));
+    if (summary.openVolume > 0) {
+      form.setValue('status', 'open');
+    } else if (summary.realizedPL !== null) {
+      form.setValue('status', summary.realizedPL > 0 ? 'win' : summary.realizedPL < 0 ? 'loss' : 'breakeven');
+      form.setValue('reward_amount', Number(Math.abs(summary.realizedPL).toFixed(2)));
+    }
+  }, [executionsKey, form]);
+
+  // For symbols in the instrument registry, pips, risk and R:R follow the prices as they change
+  useEffect(() => {
+    const subscription = form.watch((values, { name }) => {
+      if (!name || !PRICE_FIELDS.includes(name)) return;
+      const instrument = resolveInstrument(values.symbol || '');
+      if (!instrument) return;
+
+      if (name === 'symbol') form.setValue('asset_class', instrument.asset_class);
+
+      const direction = values.direction as TradeDirection;
+      const entry = Number(values.entry_price);
+      const exit = Number(values.exit_price);
+      const stop = Number(values.stop_loss);
+      const lots = Number(values.lot_size);
+      const target = Number(values.take_profit) || exit;
+
+      if (entry > 0 && exit > 0 && values.status !== 'open') {
+        form.setValue('pips', calculatePips(instrument, direction, entry, exit));
+      }
+      if (entry > 0 && stop > 0 && lots > 0) {
+        const risk = calculateRiskAmount(instrument, entry, stop, lots);
+        if (risk !== null) form.setValue('risk_amount', risk);
+      }
+      if (entry > 0 && stop > 0 && target > 0) {
+        const rr = calculateRiskReward(direction, entry, stop, target);
+        if (rr !== null) form.setValue('risk_reward_ratio', rr);
+      }
+    });
+    return () => subscription.unsubscribe();
+  }, [form, resolveInstrument]);
+
+  const matchedInstrument = resolveInstrument(form.watch('symbol'));
+  const selectedPlaybook = playbooks.find(p => p.id === form.watch('playbook_id'));
+  const playbookViolations = selectedPlaybook
+    ? getPlaybookViolations(selectedPlaybook, form.watch('symbol'), form.watch('entry_date') || new Date())
+    : [];
+
   const watchStatus = form.watch('status');
   const watchExitReason = form.watch('exit_reason');
 
+  // Checked against the other trades in the same account; the database logs any actual breach on save
+  const watchAccountId = form.watch('account_id');
+  const riskAccountId = watchAccountId && watchAccountId !== NO_ACCOUNT ? watchAccountId : null;
+  const riskLimits = getLimitsFor(riskAccountId);
+  const riskWarnings = riskLimits
+    ? getTradeRiskWarnings(
+        riskLimits,
+        trades.filter(t => t.account_id === riskAccountId && t.id !== id),
+        getAccountLedger(accounts.find(a => a.id === riskAccountId), cashFlows),
+        {
+          symbol: form.watch('symbol'),
+          lot_size: Number(form.watch('lot_size')) || 0,
+          status: watchStatus,
+          risk_amount: Number(form.watch('risk_amount')) || null,
+          entry_date: form.watch('entry_date'),
+        },
+        currencyOf(riskAccountId)
+      )
+    : [];
+
   const checklistValues: PreTradeChecklistValues = {
     setup_type: form.watch('setup_type'),
     probability: form.watch('probability'),
-    rule_in_plan: (form.watch('rule_in_plan') || '') as PreTradeChecklistValues['rule_in_plan'],
-    rule_bos: (form.watch('rule_bos') || '') as PreTradeChecklistValues['rule_bos'],
-    rule_liquidity: (form.watch('rule_liquidity') || '') as PreTradeChecklistValues['rule_liquidity'],
-    rule_trend: (form.watch('rule_trend') || '') as PreTradeChecklistValues['rule_trend'],
-    rule_news: (form.watch('rule_news') || '') as PreTradeChecklistValues['rule_news'],
-    rule_rr: (form.watch('rule_rr') || '') as PreTradeChecklistValues['rule_rr'],
-    rule_emotions: (form.watch('rule_emotions') || '') as PreTradeChecklistValues['rule_emotions'],
-    rule_lot_size: (form.watch('rule_lot_size') || '') as PreTradeChecklistValues['rule_lot_size'],
+    rule_answers: form.watch('rule_answers') || {},
   };
 
   const onSubmit = async (data: FormData) => {
     setIsLoading(true);
+    const isOpen = data.status === 'open';
+    const executions = toCompleteExecutions(data.executions);
 
     const tradeData: TradeFormData = {
+      account_id: data.account_id && data.account_id !== NO_ACCOUNT ? data.account_id : null,
       symbol: data.symbol.trim(),
       asset_class: data.asset_class as AssetClass,
       direction: data.direction as TradeDirection,
       entry_date: new Date(data.entry_date),
-      exit_date: data.exit_date ? new Date(data.exit_date) : undefined,
+      exit_date: !isOpen && data.exit_date ? new Date(data.exit_date) : undefined,
       entry_price: data.entry_price,
-      exit_price: data.exit_price ? Number(data.exit_price) : undefined,
+      exit_price: !isOpen && data.exit_price ? Number(data.exit_price) : undefined,
       lot_size: data.lot_size,
       stop_loss: data.stop_loss ? Number(data.stop_loss) : undefined,
       take_profit: data.take_profit ? Number(data.take_profit) : undefined,
       status: data.status as TradeStatus,
-      exit_reason: data.exit_reason as ExitReason,
+      exit_reason: isOpen ? undefined : data.exit_reason as ExitReason,
       risk_reward_ratio: data.risk_reward_ratio ? Number(data.risk_reward_ratio) : undefined,
       pips: data.pips ? Number(data.pips) : undefined,
       risk_amount: data.risk_amount ? Number(data.risk_amount) : undefined,
-      reward_amount: data.reward_amount ? Number(data.reward_amount) : undefined,
-      strategy: data.strategy?.trim() || undefined,
+      reward_amount: !isOpen && data.reward_amount ? Number(data.reward_amount) : undefined,
+      commission: data.commission ? Number(data.commission) : 0,
+      swap: data.swap ? Number(data.swap) : 0,
+      other_fees: data.other_fees ? Number(data.other_fees) : 0,
+      strategy: selectedPlaybook ? selectedPlaybook.name : data.strategy?.trim() || undefined,
+      playbook_id: selectedPlaybook?.id ?? null,
       reasoning: data.reasoning?.trim() || undefined,
-      tags: data.tags ? data.tags.split(',').map(tag => tag.trim()).filter(Boolean) : undefined,
+      tags: data.tags ? parseTags(data.tags) : undefined,
       screenshot_url: data.screenshot_url || undefined,
       setup_type: data.setup_type || undefined,
       probability: data.probability || undefined,
-      rule_in_plan: data.rule_in_plan || undefined,
-      rule_bos: data.rule_bos || undefined,
-      rule_liquidity: data.rule_liquidity || undefined,
-      rule_trend: data.rule_trend || undefined,
-      rule_news: data.rule_news || undefined,
-      rule_rr: data.rule_rr || undefined,
-      rule_emotions: data.rule_emotions || undefined,
-      rule_lot_size: data.rule_lot_size || undefined,
+      rule_answers: toRuleAnswers(data.rule_answers),
       emotions_array: data.emotions_array || undefined,
       lessons_learned: data.lessons_learned?.trim() || undefined,
+      // Untouched fills are left as they are, MT5 deal numbers and per-fill costs included
+      executions: isEditing && JSON.stringify(executions) === loadedExecutionsKey.current ? undefined : executions,
       needs_review: false, // Clearing review flag on save
     };
 
-    const { error } = isEditing && id
-      ? await updateTrade(id, tradeData)
-      : await addTrade(tradeData);
+    let error: Error | null;
+    if (isEditing && id) {
+      ({ error } = await updateTrade(id, tradeData));
+    } else {
+      const result = await addTrade(tradeData);
+      error = result.error;
+      // Screenshots need the trade id for their storage path, so they go up once it exists
+      if (!error && result.id) {
+        for (const phase of SCREENSHOT_PHASES) {
+          const files = pendingScreenshots.filter(p => p.phase === phase).map(p => p.file);
+          if (files.length > 0) await uploadScreenshots(files, phase, result.id);
+        }
+      }
+    }
     setIsLoading(false);
 
     if (error) {
@@ -267,17 +429,33 @@ export default function NewTrade() {
             Back to Trades
           </Link>
           <h1 className="text-3xl font-display font-bold">{isEditing ? 'Edit Trade' : 'Log Trade'}</h1>
-          <p className="text-muted-foreground mt-1">{isEditing ? 'Update your trade details' : 'Record your completed trade with all details'}</p>
+          <p className="text-muted-foreground mt-1">{isEditing ? 'Update your trade details' : 'Record a completed trade or a position that is still running'}</p>
         </div>
 
+        {riskWarnings.length > 0 && (
+          <div className="mb-6 p-4 rounded-xl bg-destructive/10 border border-destructive/30 space-y-1">
+            <p className="font-semibold text-destructive flex items-center gap-2">
+              <ShieldAlert className="w-4 h-4" /> Risk limits
+            </p>
+            {riskWarnings.map(warning => (
+              <p key={warning} className="text-sm">{warning}</p>
+            ))}
+            <p className="text-xs text-muted-foreground pt-1">
+              You can still save this trade. Anything over a limit is recorded in the <Link to="/settings/risk" className="text-primary hover:underline">breach log</Link>.
+            </p>
+          </div>
+        )}
+
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit, onError)}>
             <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-              <TabsList className="grid w-full grid-cols-4">
+              <TabsList className={cn('grid w-full', isEditing ? 'grid-cols-6' : 'grid-cols-5')}>
                 <TabsTrigger value="outcome">Outcome</TabsTrigger>
                 <TabsTrigger value="details">Details</TabsTrigger>
                 <TabsTrigger value="confluence">Confluence</TabsTrigger>
+                <TabsTrigger value="charts">Charts</TabsTrigger>
                 <TabsTrigger value="notes">Notes</TabsTrigger>
+                {isEditing && <TabsTrigger value="history">History</TabsTrigger>}
               </TabsList>
 
               <TabsContent value="outcome">
@@ -297,8 +475,9 @@ export default function NewTrade() {
                       render={({ field }) => (
                         <FormItem>
                           <FormLabel>Trade Result</FormLabel>
-                          <div className="grid grid-cols-3 gap-3">
+                          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
                             {[
+                              { value: 'open', label: 'Still Open', icon: Clock, color: 'text-primary' },
                               { value: 'win', label: 'Win', icon: TrendingUp, color: 'text-chart-profit' },
                               { value: 'loss', label: 'Loss', icon: TrendingDown, color: 'text-chart-loss' },
                               { value: 'breakeven', label: 'Breakeven', icon: Target, color: 'text-muted-foreground' },
@@ -325,39 +504,41 @@ export default function NewTrade() {
                     />
 
                     {/* Exit Reason */}
-                    <FormField
-                      control={form.control}
-                      name="exit_reason"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>How did you exit?</FormLabel>
-                          <div className="grid grid-cols-2 gap-3">
-                            {[
-                              { value: 'tp_hit', label: 'Take Profit Hit', icon: TrendingUp },
-                              { value: 'sl_hit', label: 'Stop Loss Hit', icon: AlertTriangle },
-                              { value: 'manual_close', label: 'Manual Close', icon: Target },
-                              { value: 'breakeven', label: 'Moved to Breakeven', icon: Target },
-                            ].map(option => (
-                              <button
-                                key={option.value}
-                                type="button"
-                                onClick={() => field.onChange(option.value)}
-                                className={cn(
-                                  "flex items-center gap-2 p-3 rounded-lg border-2 transition-all text-left",
-                                  field.value === option.value
-                                    ? "border-primary bg-primary/10"
-                                    : "border-muted hover:border-muted-foreground/50"
-                                )}
-                              >
-                                <option.icon className="w-4 h-4 text-muted-foreground" />
-                                <span className="text-sm font-medium">{option.label}</span>
-                              </button>
-                            ))}
-                          </div>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
+                    {watchStatus !== 'open' && (
+                      <FormField
+                        control={form.control}
+                        name="exit_reason"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>How did you exit?</FormLabel>
+                            <div className="grid grid-cols-2 gap-3">
+                              {[
+                                { value: 'tp_hit', label: 'Take Profit Hit', icon: TrendingUp },
+                                { value: 'sl_hit', label: 'Stop Loss Hit', icon: AlertTriangle },
+                                { value: 'manual_close', label: 'Manual Close', icon: Target },
+                                { value: 'breakeven', label: 'Moved to Breakeven', icon: Target },
+                              ].map(option => (
+                                <button
+                                  key={option.value}
+                                  type="button"
+                                  onClick={() => field.onChange(option.value)}
+                                  className={cn(
+                                    "flex items-center gap-2 p-3 rounded-lg border-2 transition-all text-left",
+                                    field.value === option.value
+                                      ? "border-primary bg-primary/10"
+                                      : "border-muted hover:border-muted-foreground/50"
+                                  )}
+                                >
+                                  <option.icon className="w-4 h-4 text-muted-foreground" />
+                                  <span className="text-sm font-medium">{option.label}</span>
+                                </button>
+                              ))}
+                            </div>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
 
                     {/* Risk/Reward */}
                     <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
@@ -376,20 +557,37 @@ export default function NewTrade() {
                         )}
                       />
 
+                      {watchStatus !== 'open' && (
+                        <FormField
+                          control={form.control}
+                          name="reward_amount"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>
+                                {watchStatus === 'loss' ? 'Loss Amount ($)' : 'Profit Amount ($)'}
+                              </FormLabel>
+                              <FormControl>
+                                <Input type="number" step="0.01" placeholder="100.00" {...field} />
+                              </FormControl>
+                              <FormDescription>
+                                {watchStatus === 'loss' ? 'How much did you lose?' : 'How much did you make?'} Before costs.
+                              </FormDescription>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      )}
+
                       <FormField
                         control={form.control}
-                        name="reward_amount"
+                        name="risk_reward_ratio"
                         render={({ field }) => (
                           <FormItem>
-                            <FormLabel>
-                              {watchStatus === 'loss' ? 'Loss Amount ($)' : 'Profit Amount ($)'}
-                            </FormLabel>
+                            <FormLabel>Risk:Reward Ratio</FormLabel>
                             <FormControl>
-                              <Input type="number" step="0.01" placeholder="100.00" {...field} />
+                              <Input type="number" step="0.1" placeholder="2.0" {...field} />
                             </FormControl>
-                            <FormDescription>
-                              {watchStatus === 'loss' ? 'How much did you lose?' : 'How much did you make?'}
-                            </FormDescription>
+                            <FormDescription>e.g., 2 means 1:2 R:R</FormDescription>
                             <FormMessage />
                           </FormItem>
                         )}
@@ -397,29 +595,62 @@ export default function NewTrade() {
 
                       <FormField
                         control={form.control}
-                        name="risk_reward_ratio"
+                        name="pips"
                         render={({ field }) => (
                           <FormItem>
-                            <FormLabel>Risk:Reward Ratio</FormLabel>
+                            <FormLabel>Pips {watchStatus === 'loss' && '(negative)'}</FormLabel>
                             <FormControl>
-                              <Input type="number" step="0.1" placeholder="2.0" {...field} />
+                              <Input type="number" step="0.1" placeholder="25" {...field} />
                             </FormControl>
-                            <FormDescription>e.g., 2 means 1:2 R:R</FormDescription>
+                            <FormDescription>Pips gained/lost</FormDescription>
                             <FormMessage />
                           </FormItem>
                         )}
                       />
+                    </div>
 
+                    {/* Trading costs */}
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
                       <FormField
                         control={form.control}
-                        name="pips"
+                        name="commission"
                         render={({ field }) => (
                           <FormItem>
-                            <FormLabel>Pips {watchStatus === 'loss' && '(negative)'}</FormLabel>
+                            <FormLabel>Commission ($)</FormLabel>
                             <FormControl>
-                              <Input type="number" step="0.1" placeholder="25" {...field} />
+                              <Input type="number" step="0.01" placeholder="0.00" {...field} />
                             </FormControl>
-                            <FormDescription>Pips gained/lost</FormDescription>
+                            <FormDescription>Round-trip commission paid</FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="swap"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Swap ($)</FormLabel>
+                            <FormControl>
+                              <Input type="number" step="0.01" placeholder="0.00" {...field} />
+                            </FormControl>
+                            <FormDescription>Negative if charged, positive if credited</FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="other_fees"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Other Fees ($)</FormLabel>
+                            <FormControl>
+                              <Input type="number" step="0.01" placeholder="0.00" {...field} />
+                            </FormControl>
+                            <FormDescription>Exchange, data or platform fees</FormDescription>
                             <FormMessage />
                           </FormItem>
                         )}
@@ -437,6 +668,32 @@ export default function NewTrade() {
                   </CardHeader>
                   <CardContent className="space-y-6">
                     <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                      <FormField
+                        control={form.control}
+                        name="account_id"
+                        render={({ field }) => (
+                          <FormItem className="sm:col-span-2">
+                            <FormLabel>Account</FormLabel>
+                            <Select onValueChange={field.onChange} value={field.value}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                <SelectItem value={NO_ACCOUNT}>Unassigned</SelectItem>
+                                {accounts.map(account => (
+                                  <SelectItem key={account.id} value={account.id}>
+                                    {account.name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
                       <FormField
                         control={form.control}
                         name="symbol"
@@ -446,6 +703,11 @@ export default function NewTrade() {
                             <FormControl>
                               <Input placeholder="EURUSD, BTCUSD, AAPL" {...field} />
                             </FormControl>
+                            {matchedInstrument && (
+                              <FormDescription>
+                                {matchedInstrument.symbol} spec: pip {matchedInstrument.pip_size}, contract {matchedInstrument.contract_size}
+                              </FormDescription>
+                            )}
                             <FormMessage />
                           </FormItem>
                         )}
@@ -504,7 +766,7 @@ export default function NewTrade() {
                           <FormItem>
                             <FormLabel>Lot Size / Position Size</FormLabel>
                             <FormControl>
-                              <Input type="number" step="0.01" {...field} />
+                              <Input type="number" step="0.01" readOnly={hasExecutions} {...field} />
                             </FormControl>
                             <FormMessage />
                           </FormItem>
@@ -518,7 +780,7 @@ export default function NewTrade() {
                           <FormItem>
                             <FormLabel>Entry Date & Time</FormLabel>
                             <FormControl>
-                              <Input type="datetime-local" {...field} />
+                              <Input type="datetime-local" readOnly={hasExecutions} {...field} />
                             </FormControl>
                             <FormMessage />
                           </FormItem>
@@ -532,7 +794,7 @@ export default function NewTrade() {
                           <FormItem>
                             <FormLabel>Exit Date & Time</FormLabel>
                             <FormControl>
-                              <Input type="datetime-local" {...field} />
+                              <Input type="datetime-local" readOnly={hasExecutions} {...field} />
                             </FormControl>
                             <FormMessage />
                           </FormItem>
@@ -546,7 +808,7 @@ export default function NewTrade() {
                           <FormItem>
                             <FormLabel>Entry Price</FormLabel>
                             <FormControl>
-                              <Input type="number" step="0.00001" placeholder="1.08500" {...field} />
+                              <Input type="number" step="0.00001" placeholder="1.08500" readOnly={hasExecutions} {...field} />
                             </FormControl>
                             <FormMessage />
                           </FormItem>
@@ -560,7 +822,7 @@ export default function NewTrade() {
                           <FormItem>
                             <FormLabel>Exit Price</FormLabel>
                             <FormControl>
-                              <Input type="number" step="0.00001" placeholder="1.09000" {...field} />
+                              <Input type="number" step="0.00001" placeholder="1.09000" readOnly={hasExecutions} {...field} />
                             </FormControl>
                             <FormMessage />
                           </FormItem>
@@ -596,15 +858,44 @@ export default function NewTrade() {
                       />
                     </div>
 
+                    <ExecutionsEditor />
+
                     <FormField
                       control={form.control}
-                      name="strategy"
+                      name="playbook_id"
                       render={({ field }) => (
                         <FormItem>
-                          <FormLabel>Strategy / Setup Used</FormLabel>
-                          <FormControl>
-                            <Input placeholder="e.g., Breakout, Trend Following, Support Bounce" {...field} />
-                          </FormControl>
+                          <FormLabel>Playbook</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value={NO_PLAYBOOK}>No playbook</SelectItem>
+                              {playbooks.map(playbook => (
+                                <SelectItem key={playbook.id} value={playbook.id}>
+                                  {playbook.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          {selectedPlaybook?.entry_criteria && (
+                            <FormDescription className="whitespace-pre-line">
+                              {selectedPlaybook.entry_criteria}
+                            </FormDescription>
+                          )}
+                          {!selectedPlaybook && existingTrade?.strategy && (
+                            <FormDescription>
+                              Logged as "{existingTrade.strategy}". <Link to="/playbooks" className="text-primary hover:underline">Link it to a playbook</Link>
+                            </FormDescription>
+                          )}
+                          {playbookViolations.map(violation => (
+                            <p key={violation} className="text-xs text-destructive flex items-center gap-1">
+                              <AlertTriangle className="w-3 h-3" /> {violation}
+                            </p>
+                          ))}
                           <FormMessage />
                         </FormItem>
                       )}
@@ -622,51 +913,91 @@ export default function NewTrade() {
                   <CardContent className="space-y-6">
                     <PreTradeChecklist
                       values={checklistValues}
+                      ruleIds={selectedPlaybook?.rule_ids}
                       onChange={(values) => {
                         form.setValue('setup_type', (values.setup_type || '') as FormData['setup_type']);
                         form.setValue('probability', (values.probability || '') as FormData['probability']);
-                        form.setValue('rule_in_plan', values.rule_in_plan || '');
-                        form.setValue('rule_bos', values.rule_bos || '');
-                        form.setValue('rule_liquidity', values.rule_liquidity || '');
-                        form.setValue('rule_trend', values.rule_trend || '');
-                        form.setValue('rule_news', values.rule_news || '');
-                        form.setValue('rule_rr', values.rule_rr || '');
-                        form.setValue('rule_emotions', values.rule_emotions || '');
-                        form.setValue('rule_lot_size', values.rule_lot_size || '');
+                        form.setValue('rule_answers', values.rule_answers || {});
                       }}
                     />
 
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                      <FormField
-                        control={form.control}
-                        name="tags"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Tags</FormLabel>
-                            <FormControl>
-                              <Input placeholder="trend, reversal, breakout (comma separated)" {...field} />
-                            </FormControl>
-                            <FormDescription>Separate tags with commas</FormDescription>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
+                    <FormField
+                      control={form.control}
+                      name="tags"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Tags</FormLabel>
+                          <FormControl>
+                            <TagInput
+                              placeholder="trend, reversal, breakout (comma separated)"
+                              tags={knownTags}
+                              {...field}
+                              value={field.value ?? ''}
+                            />
+                          </FormControl>
+                          <FormDescription>
+                            Separate tags with commas. <Link to="/settings/tags" className="text-primary hover:underline">Manage tags</Link>
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </CardContent>
+                </Card>
+              </TabsContent>
 
-                      <FormField
-                        control={form.control}
-                        name="screenshot_url"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Screenshot URL</FormLabel>
-                            <FormControl>
-                              <Input placeholder="https://tradingview.com/x/..." {...field} />
-                            </FormControl>
-                            <FormDescription>Link to your chart screenshot</FormDescription>
-                            <FormMessage />
-                          </FormItem>
+              <TabsContent value="charts">
+                <Card className="gradient-card">
+                  <CardHeader>
+                    <CardTitle className="font-display">Chart Screenshots</CardTitle>
+                    <CardDescription>Capture the chart before, during and after the trade</CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-6">
+                    {isEditing && id ? (
+                      <ScreenshotGallery tradeId={id} />
+                    ) : (
+                      <div className="space-y-4">
+                        {pendingScreenshots.length > 0 && (
+                          <div className="flex flex-wrap gap-2">
+                            {pendingScreenshots.map(pending => (
+                              <div key={pending.id} className="relative w-32 h-20 rounded-md overflow-hidden border border-border">
+                                <img src={pending.preview} alt={pending.file.name} className="w-full h-full object-cover" />
+                                <span className="absolute bottom-1 left-1 text-[10px] font-medium px-1 rounded bg-background/80">
+                                  {PHASE_LABELS[pending.phase]}
+                                </span>
+                                <button
+                                  type="button"
+                                  aria-label="Remove screenshot"
+                                  onClick={() => removePendingScreenshot(pending.id)}
+                                  className="absolute top-1 right-1 rounded-full bg-background/80 p-0.5 hover:bg-background"
+                                >
+                                  <X className="w-3 h-3" />
+                                </button>
+                              </div>
+                            ))}
+                          </div>
                         )}
-                      />
-                    </div>
+                        <ScreenshotDropzone onFiles={addPendingScreenshots} />
+                        <p className="text-xs text-muted-foreground">
+                          Images upload when the trade is logged. You can annotate them afterwards from the trade.
+                        </p>
+                      </div>
+                    )}
+
+                    <FormField
+                      control={form.control}
+                      name="screenshot_url"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>External Chart Link</FormLabel>
+                          <FormControl>
+                            <Input placeholder="https://tradingview.com/x/..." {...field} />
+                          </FormControl>
+                          <FormDescription>Optional link to a chart hosted elsewhere, such as a TradingView snapshot</FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
                   </CardContent>
                 </Card>
               </TabsContent>
@@ -774,6 +1105,20 @@ export default function NewTrade() {
                   </CardContent>
                 </Card>
               </TabsContent>
+
+              {isEditing && id && (
+                <TabsContent value="history">
+                  <Card className="gradient-card">
+                    <CardHeader>
+                      <CardTitle className="font-display">Edit History</CardTitle>
+                      <CardDescription>Every change to this trade, where it came from, and when</CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <TradeHistory tradeId={id} onRestored={refetch} />
+                    </CardContent>
+                  </Card>
+                </TabsContent>
+              )}
             </Tabs>
 
             <div className="flex justify-end gap-4 mt-6">
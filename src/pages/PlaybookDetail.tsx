@@ -0,0 +1,300 @@
+import { useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { AppLayout } from '@/components/layout/AppLayout';
+import { EquityCurve } from '@/components/dashboard/EquityCurve';
+import { PlaybookDialog } from '@/components/playbooks/PlaybookDialog';
+import { usePlaybooks } from '@/hooks/usePlaybooks';
+import { useTrades } from '@/hooks/useTrades';
+import { useChecklistRules } from '@/hooks/useChecklistRules';
+import { usePnLBasis } from '@/hooks/usePnLBasis';
+import { useToast } from '@/hooks/use-toast';
+import { useCurrency } from '@/hooks/useCurrency';
+import { PlaybookFormData, Trade } from '@/types/trade';
+import { getRulePerformance, getTradePL, getTradePoints } from '@/utils/analytics';
+import { getPlaybookStats, getPlaybookViolations, SESSION_LABELS } from '@/utils/playbooks';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { cn } from '@/lib/utils';
+import { AlertTriangle, ArrowLeft, Pencil, Star, Trash2 } from 'lucide-react';
+
+export default function PlaybookDetail() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { playbooks, loading, updatePlaybook, deletePlaybook } = usePlaybooks();
+  const { trades } = useTrades();
+  const { rules } = useChecklistRules();
+  const pnlBasis = usePnLBasis();
+  const { format: formatCurrency } = useCurrency();
+  const { toast } = useToast();
+  const [editing, setEditing] = useState(false);
+
+  const playbook = playbooks.find(p => p.id === id);
+
+  if (!playbook) {
+    return (
+      <AppLayout>
+        <div className="max-w-5xl mx-auto py-12 text-center text-muted-foreground">
+          {loading ? 'Loading playbook...' : (
+            <>
+              Playbook not found. <Link to="/playbooks" className="text-primary hover:underline">Back to playbooks</Link>
+            </>
+          )}
+        </div>
+      </AppLayout>
+    );
+  }
+
+  const playbookTrades = trades.filter(t => t.playbook_id === playbook.id);
+  const stats = getPlaybookStats(playbook, trades, pnlBasis);
+  const linkedRules = playbook.rule_ids.length > 0
+    ? rules.filter(r => playbook.rule_ids.includes(r.id))
+    : rules;
+  const ruleData = getRulePerformance(playbookTrades, linkedRules, pnlBasis);
+  const exampleTrades = playbookTrades.filter(t => playbook.example_trade_ids.includes(t.id));
+
+  const handleSave = async (data: PlaybookFormData) => {
+    const { error } = await updatePlaybook(playbook.id, data);
+    if (error) {
+      toast({
+        title: 'Error updating playbook',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+    return { error };
+  };
+
+  const handleDelete = async () => {
+    const { error } = await deletePlaybook(playbook.id);
+    if (!error) navigate('/playbooks');
+  };
+
+  const toggleExample = (trade: Trade) => {
+    const isExample = playbook.example_trade_ids.includes(trade.id);
+    updatePlaybook(playbook.id, {
+      example_trade_ids: isExample
+        ? playbook.example_trade_ids.filter(tid => tid !== trade.id)
+        : [...playbook.example_trade_ids, trade.id],
+    });
+  };
+
+  const statCards = [
+    { label: 'Trades', value: String(stats.totalTrades) },
+    { label: 'Win Rate', value: `${stats.winRate.toFixed(1)}%` },
+    { label: pnlBasis === 'net' ? 'Net P&L' : 'Gross P&L', value: formatCurrency(stats.totalProfitLoss), tone: stats.totalProfitLoss },
+    { label: 'Profit Factor', value: stats.profitFactor === Infinity ? '∞' : stats.profitFactor.toFixed(2) },
+    { label: 'Avg R', value: stats.averageR !== null ? `${stats.averageR.toFixed(2)}R` : '-' },
+    { label: 'Hit Target R', value: stats.targetHitRate !== null ? `${stats.targetHitRate.toFixed(1)}%` : '-' },
+  ];
+
+  return (
+    <AppLayout>
+      <div className="max-w-5xl mx-auto space-y-6 animate-fade-in">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <Link to="/playbooks" className="text-sm text-muted-foreground hover:text-primary flex items-center gap-1 mb-2">
+              <ArrowLeft className="w-4 h-4" /> Playbooks
+            </Link>
+            <h1 className="text-3xl font-display font-bold flex items-center gap-3">
+              {playbook.name}
+              {playbook.target_r && <Badge variant="outline">Target {playbook.target_r}R</Badge>}
+            </h1>
+            {playbook.description && (
+              <p className="text-muted-foreground mt-1 max-w-2xl whitespace-pre-line">{playbook.description}</p>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={() => setEditing(true)}>
+              <Pencil className="w-4 h-4 mr-2" /> Edit
+            </Button>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="ghost" size="icon">
+                  <Trash2 className="w-4 h-4 text-destructive" />
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Delete Playbook</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    Delete {playbook.name}? Its {playbookTrades.length} trades keep their strategy name but are no longer linked.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction
+                    onClick={handleDelete}
+                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                  >
+                    Delete
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3">
+          {statCards.map(card => (
+            <Card key={card.label} className="gradient-card">
+              <CardContent className="p-4">
+                <p className="text-xs text-muted-foreground">{card.label}</p>
+                <p className={cn(
+                  'text-lg font-semibold',
+                  card.tone !== undefined && card.tone > 0 && 'text-success',
+                  card.tone !== undefined && card.tone < 0 && 'text-destructive',
+                )}>
+                  {card.value}
+                </p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        {stats.offPlanTrades > 0 && (
+          <div className="p-3 rounded-lg bg-destructive/10 border border-destructive/20 text-sm flex items-center gap-2">
+            <AlertTriangle className="w-4 h-4 text-destructive" />
+            {stats.offPlanTrades} trade{stats.offPlanTrades === 1 ? ' was' : 's were'} taken outside this playbook's symbols or sessions
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Entry Criteria</CardTitle>
+            </CardHeader>
+            <CardContent className="text-sm whitespace-pre-line text-muted-foreground">
+              {playbook.entry_criteria || 'Not documented yet'}
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Exit Criteria</CardTitle>
+            </CardHeader>
+            <CardContent className="text-sm whitespace-pre-line text-muted-foreground">
+              {playbook.exit_criteria || 'Not documented yet'}
+            </CardContent>
+          </Card>
+        </div>
+
+        {(playbook.allowed_symbols.length > 0 || playbook.allowed_sessions.length > 0 || linkedRules.length > 0) && (
+          <Card>
+            <CardContent className="p-4 space-y-2 text-sm">
+              {playbook.allowed_symbols.length > 0 && (
+                <div className="flex flex-wrap items-center gap-1">
+                  <span className="text-muted-foreground mr-1">Symbols:</span>
+                  {playbook.allowed_symbols.map(s => <Badge key={s} variant="secondary">{s}</Badge>)}
+                </div>
+              )}
+              {playbook.allowed_sessions.length > 0 && (
+                <div className="flex flex-wrap items-center gap-1">
+                  <span className="text-muted-foreground mr-1">Sessions:</span>
+                  {playbook.allowed_sessions.map(s => <Badge key={s} variant="outline">{SESSION_LABELS[s]}</Badge>)}
+                </div>
+              )}
+              {playbook.rule_ids.length > 0 && (
+                <div className="flex flex-wrap items-center gap-1">
+                  <span className="text-muted-foreground mr-1">Checklist:</span>
+                  {linkedRules.map(r => <Badge key={r.id} variant="outline">{r.label}</Badge>)}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        <EquityCurve points={getTradePoints(playbookTrades, pnlBasis)} />
+
+        {ruleData.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Rule Adherence</CardTitle>
+              <CardDescription>Win rate on this playbook when each rule was followed vs broken</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {ruleData.map(rule => (
+                <div key={rule.ruleId} className="flex items-center justify-between text-sm p-2 rounded-md bg-secondary/30">
+                  <span className="font-medium">{rule.rule}</span>
+                  <span className="text-muted-foreground">
+                    Followed {rule.trades} · {rule.winRate.toFixed(0)}% win
+                    <span className="mx-2">|</span>
+                    Broken {rule.brokenTrades} · {rule.brokenWinRate.toFixed(0)}% win
+                  </span>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Trades</CardTitle>
+            <CardDescription>
+              Star the trades that best show the setup; they appear first as examples
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {playbookTrades.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No trades linked yet. Pick this playbook when logging a trade.
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {[...exampleTrades, ...playbookTrades.filter(t => !exampleTrades.includes(t))].map(trade => {
+                  const isExample = playbook.example_trade_ids.includes(trade.id);
+                  const violations = getPlaybookViolations(playbook, trade.symbol, trade.entry_date);
+                  const pl = getTradePL(trade, pnlBasis);
+                  return (
+                    <div key={trade.id} className="flex items-center justify-between gap-3 p-3 rounded-lg bg-secondary/30">
+                      <div className="flex items-center gap-3">
+                        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => toggleExample(trade)}>
+                          <Star className={cn('w-4 h-4', isExample ? 'fill-yellow-500 text-yellow-500' : 'text-muted-foreground')} />
+                        </Button>
+                        <Link to={`/trades/${trade.id}`} className="space-y-0.5 hover:text-primary">
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium">{trade.symbol}</span>
+                            <Badge variant="outline" className="text-xs capitalize">{trade.direction}</Badge>
+                            {violations.length > 0 && (
+                              <span title={violations.join('\n')}>
+                                <AlertTriangle className="w-3 h-3 text-destructive" />
+                              </span>
+                            )}
+                          </div>
+                          <p className="text-xs text-muted-foreground">{format(new Date(trade.entry_date), 'MMM d, yyyy HH:mm')}</p>
+                        </Link>
+                      </div>
+                      {trade.status !== 'open' && (
+                        <span className={cn('font-mono text-sm', pl > 0 && 'text-success', pl < 0 && 'text-destructive')}>
+                          {formatCurrency(pl)}
+                        </span>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <PlaybookDialog
+        open={editing}
+        playbook={playbook}
+        onOpenChange={setEditing}
+        onSave={handleSave}
+      />
+    </AppLayout>
+  );
+}
@@ -0,0 +1,166 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { AppLayout } from '@/components/layout/AppLayout';
+import { PlaybookDialog } from '@/components/playbooks/PlaybookDialog';
+import { StrategyMerge } from '@/components/playbooks/StrategyMerge';
+import { MixedCurrencyNotice } from '@/components/accounts/MixedCurrencyNotice';
+import { usePlaybooks } from '@/hooks/usePlaybooks';
+import { useTrades } from '@/hooks/useTrades';
+import { useTradeStats } from '@/hooks/useTradeStats';
+import { useToast } from '@/hooks/use-toast';
+import { useCurrency } from '@/hooks/useCurrency';
+import { PlaybookFormData } from '@/types/trade';
+import { TradeGroup, emptyTotals, statsFromTotals } from '@/utils/analytics';
+import { getUnlinkedStrategyNames, SESSION_LABELS } from '@/utils/playbooks';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { BookOpen, Plus } from 'lucide-react';
+
+const PLAYBOOK_GROUPS: TradeGroup[] = ['playbook'];
+
+export default function Playbooks() {
+  const { playbooks, loading, addPlaybook, mergeStrategies } = usePlaybooks();
+  const { trades, refetch } = useTrades();
+  const { groups } = useTradeStats({ groups: PLAYBOOK_GROUPS });
+  const { toast } = useToast();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [pendingMerge, setPendingMerge] = useState<string[]>([]);
+
+  const strategyNames = getUnlinkedStrategyNames(trades);
+
+  const { format: formatCurrency } = useCurrency();
+
+  const handleMerge = async (playbookId: string, names: string[]) => {
+    const result = await mergeStrategies(playbookId, names);
+    if (!result.error) await refetch();
+    return result;
+  };
+
+  const openNew = (names: string[] = []) => {
+    setPendingMerge(names);
+    setDialogOpen(true);
+  };
+
+  // Creating from the merge tool links the selected names straight away
+  const handleCreate = async (data: PlaybookFormData) => {
+    const { error, playbook } = await addPlaybook(data);
+    if (error) {
+      toast({
+        title: 'Error creating playbook',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else if (playbook && pendingMerge.length > 0) {
+      await handleMerge(playbook.id, pendingMerge);
+    }
+    return { error };
+  };
+
+  return (
+    <AppLayout>
+      <div className="max-w-5xl mx-auto space-y-6 animate-fade-in">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-display font-bold">Playbooks</h1>
+            <p className="text-muted-foreground mt-1">
+              Your documented setups and how each one is performing
+            </p>
+          </div>
+          <Button onClick={() => openNew()}>
+            <Plus className="w-4 h-4 mr-2" /> New Playbook
+          </Button>
+        </div>
+
+        <MixedCurrencyNotice />
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading playbooks...</p>
+        ) : playbooks.length === 0 ? (
+          <Card className="gradient-card">
+            <CardContent className="py-12 text-center space-y-2">
+              <BookOpen className="w-10 h-10 mx-auto text-muted-foreground" />
+              <p className="font-medium">No playbooks yet</p>
+              <p className="text-sm text-muted-foreground">
+                Create one for each setup you trade, then pick it when logging trades.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {playbooks.map(playbook => {
+              const totals = groups.playbook?.find(g => g.key === playbook.id) ?? emptyTotals();
+              const stats = statsFromTotals(totals);
+              return (
+                <Link key={playbook.id} to={`/playbooks/${playbook.id}`}>
+                  <Card className="gradient-card h-full hover:border-primary/50 transition-colors">
+                    <CardHeader>
+                      <CardTitle className="font-display flex items-center justify-between gap-2">
+                        {playbook.name}
+                        {playbook.target_r && <Badge variant="outline">Target {playbook.target_r}R</Badge>}
+                      </CardTitle>
+                      {playbook.description && (
+                        <CardDescription className="line-clamp-2">{playbook.description}</CardDescription>
+                      )}
+                    </CardHeader>
+                    <CardContent className="space-y-3">
+                      <div className="grid grid-cols-4 gap-2 text-sm">
+                        <div>
+                          <p className="text-xs text-muted-foreground">Trades</p>
+                          <p className="font-semibold">{stats.totalTrades}</p>
+                        </div>
+                        <div>
+                          <p className="text-xs text-muted-foreground">Win Rate</p>
+                          <p className="font-semibold">{stats.winRate.toFixed(1)}%</p>
+                        </div>
+                        <div>
+                          <p className="text-xs text-muted-foreground">P&L</p>
+                          <p className={cn(
+                            'font-semibold',
+                            stats.totalProfitLoss > 0 && 'text-success',
+                            stats.totalProfitLoss < 0 && 'text-destructive',
+                          )}>
+                            {formatCurrency(stats.totalProfitLoss)}
+                          </p>
+                        </div>
+                        <div>
+                          <p className="text-xs text-muted-foreground">Avg R</p>
+                          <p className="font-semibold">{totals.rTrades > 0 ? stats.averageR.toFixed(2) : '-'}</p>
+                        </div>
+                      </div>
+                      {(playbook.allowed_symbols.length > 0 || playbook.allowed_sessions.length > 0) && (
+                        <div className="flex flex-wrap gap-1">
+                          {playbook.allowed_symbols.map(symbol => (
+                            <Badge key={symbol} variant="secondary" className="text-xs">{symbol}</Badge>
+                          ))}
+                          {playbook.allowed_sessions.map(session => (
+                            <Badge key={session} variant="outline" className="text-xs">{SESSION_LABELS[session]}</Badge>
+                          ))}
+                        </div>
+                      )}
+                    </CardContent>
+                  </Card>
+                </Link>
+              );
+            })}
+          </div>
+        )}
+
+        <StrategyMerge
+          strategyNames={strategyNames}
+          playbooks={playbooks}
+          onMerge={handleMerge}
+          onCreateFromNames={openNew}
+        />
+      </div>
+
+      <PlaybookDialog
+        open={dialogOpen}
+        defaultName={pendingMerge[0]}
+        onOpenChange={setDialogOpen}
+        onSave={handleCreate}
+      />
+    </AppLayout>
+  );
+}
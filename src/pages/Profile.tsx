@@ -16,6 +16,17 @@ import {
   FormMessage,
 } from '@/components/ui/form';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { usePnLBasis } from '@/hooks/usePnLBasis';
+import { useResultUnit } from '@/hooks/useResultUnit';
+import { getBrowserTimeZone, getTimeZoneOptions } from '@/utils/timezone';
+import { PnLBasis, Profile as ProfileData, ResultUnit } from '@/types/trade';
 import { useToast } from '@/hooks/use-toast';
 import { Loader2, User } from 'lucide-react';
 
@@ -26,10 +37,15 @@ const profileSchema = z.object({
 
 type ProfileFormData = z.infer<typeof profileSchema>;
 
+const BROWSER_TIME_ZONE = 'browser';
+
 export default function Profile() {
   const [isLoading, setIsLoading] = useState(false);
   const { user, profile, updateProfile } = useAuth();
   const { toast } = useToast();
+  const pnlBasis = usePnLBasis();
+  const { unit } = useResultUnit();
+  const timeZoneOptions = getTimeZoneOptions();
 
   const form = useForm<ProfileFormData>({
     resolver: zodResolver(profileSchema),
@@ -61,6 +77,17 @@ export default function Profile() {
     }
   };
 
+  const handlePreferenceChange = async (updates: Partial<ProfileData>) => {
+    const { error } = await updateProfile(updates);
+    if (error) {
+      toast({
+        title: 'Error saving preference',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  };
+
   const getInitials = () => {
     if (profile?.display_name) {
       return profile.display_name.slice(0, 2).toUpperCase();
@@ -143,6 +170,71 @@ export default function Profile() {
           </CardContent>
         </Card>
 
+        <Card className="gradient-card mt-6">
+          <CardHeader>
+            <CardTitle className="font-display">Preferences</CardTitle>
+            <CardDescription>How results are calculated and shown across the app</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <p className="font-medium">P&L basis</p>
+                <p className="text-sm text-muted-foreground">
+                  Net deducts commission and fees and includes swap; gross ignores them
+                </p>
+              </div>
+              <Select value={pnlBasis} onValueChange={(value) => handlePreferenceChange({ pnl_basis: value as PnLBasis })}>
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="net">Net</SelectItem>
+                  <SelectItem value="gross">Gross</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <p className="font-medium">Show results in</p>
+                <p className="text-sm text-muted-foreground">
+                  R multiples divide each trade's P&L by the amount risked on it
+                </p>
+              </div>
+              <Select value={unit} onValueChange={(value) => handlePreferenceChange({ result_unit: value as ResultUnit })}>
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="currency">Currency</SelectItem>
+                  <SelectItem value="r">R multiples</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <p className="font-medium">Time zone</p>
+                <p className="text-sm text-muted-foreground">
+                  Used for hour-of-day and day-of-week analytics
+                </p>
+              </div>
+              <Select
+                value={profile?.timezone ?? BROWSER_TIME_ZONE}
+                onValueChange={(value) => handlePreferenceChange({ timezone: value === BROWSER_TIME_ZONE ? null : value })}
+              >
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={BROWSER_TIME_ZONE}>Browser ({getBrowserTimeZone()})</SelectItem>
+                  {timeZoneOptions.map(zone => (
+                    <SelectItem key={zone} value={zone}>{zone.replace(/_/g, ' ')}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardContent>
+        </Card>
+
         <Card className="gradient-card mt-6">
           <CardHeader>
             <CardTitle className="font-display">Account Info</CardTitle>
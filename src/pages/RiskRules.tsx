@@ -0,0 +1,116 @@
+import { AppLayout } from '@/components/layout/AppLayout';
+import { RiskLimitsForm } from '@/components/risk/RiskLimitsForm';
+import { RiskStatusList } from '@/components/risk/RiskStatusList';
+import { BreachLog } from '@/components/risk/BreachLog';
+import { useRiskLimits } from '@/hooks/useRiskLimits';
+import { useRiskBreaches } from '@/hooks/useRiskBreaches';
+import { useTrades } from '@/hooks/useTrades';
+import { useAccounts, ALL_ACCOUNTS } from '@/hooks/useAccounts';
+import { useCashFlows } from '@/hooks/useCashFlows';
+import { getAccountLedger, getRiskStatus } from '@/utils/risk';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Gauge, ShieldAlert } from 'lucide-react';
+
+export default function RiskRules() {
+  const { limits, loading, scopeAccountId, getLimitsFor, saveLimits, resetLimits } = useRiskLimits();
+  const { breaches, acknowledgeBreaches } = useRiskBreaches();
+  const { trades } = useTrades();
+  const { accounts, selectedAccountId, selectedAccount } = useAccounts();
+  const { cashFlows } = useCashFlows();
+
+  // Limits apply per account, so today's usage needs one account (or no accounts at all)
+  const showStatus = selectedAccountId !== ALL_ACCOUNTS || accounts.length === 0;
+  const effectiveLimits = getLimitsFor(scopeAccountId);
+  const statuses = showStatus && effectiveLimits
+    ? getRiskStatus(
+        effectiveLimits,
+        trades.filter(t => t.account_id === scopeAccountId),
+        getAccountLedger(selectedAccount ?? undefined, cashFlows)
+      )
+    : [];
+
+  const visibleBreaches = selectedAccountId === ALL_ACCOUNTS
+    ? breaches
+    : breaches.filter(b => b.account_id === selectedAccountId);
+  const unacknowledged = visibleBreaches.filter(b => !b.acknowledged_at);
+
+  return (
+    <AppLayout>
+      <div className="max-w-5xl mx-auto space-y-6 animate-fade-in">
+        <div>
+          <h1 className="text-3xl font-display font-bold">Risk Rules</h1>
+          <p className="text-muted-foreground mt-1">
+            Hard limits checked on every trade, whether logged by hand, imported or synced from MT5
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <Card className="gradient-card lg:col-span-2">
+            <CardHeader className="flex flex-row items-start justify-between space-y-0 gap-2">
+              <div>
+                <CardTitle className="font-display flex items-center gap-2">
+                  <ShieldAlert className="w-5 h-5 text-primary" />
+                  {selectedAccount ? `Limits for ${selectedAccount.name}` : 'Default Limits'}
+                </CardTitle>
+                <CardDescription>
+                  {selectedAccount
+                    ? limits
+                      ? 'This account has its own limits'
+                      : 'Using the default limits until you save limits for this account'
+                    : 'Used by every account without limits of its own'}
+                </CardDescription>
+              </div>
+              {selectedAccount && limits && (
+                <Button variant="outline" size="sm" onClick={resetLimits}>
+                  Use Defaults
+                </Button>
+              )}
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <p className="text-sm text-muted-foreground">Loading limits...</p>
+              ) : (
+                <RiskLimitsForm limits={limits ?? effectiveLimits} onSave={saveLimits} />
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="gradient-card">
+            <CardHeader>
+              <CardTitle className="font-display flex items-center gap-2">
+                <Gauge className="w-5 h-5 text-primary" />
+                Today
+              </CardTitle>
+              <CardDescription>Usage for the current UTC trading day</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {showStatus ? (
+                <RiskStatusList statuses={statuses} />
+              ) : (
+                <p className="text-sm text-muted-foreground">Select an account to see how close you are to its limits.</p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card className="gradient-card">
+          <CardHeader className="flex flex-row items-start justify-between space-y-0 gap-2">
+            <div>
+              <CardTitle className="font-display">Breach Log</CardTitle>
+              <CardDescription>Every trade that pushed past a limit, for your weekly review</CardDescription>
+            </div>
+            {unacknowledged.length > 0 && (
+              <Button variant="outline" size="sm" onClick={() => acknowledgeBreaches(unacknowledged.map(b => b.id))}>
+                Acknowledge All ({unacknowledged.length})
+              </Button>
+            )}
+          </CardHeader>
+          <CardContent>
+            <BreachLog breaches={visibleBreaches} accounts={accounts} onAcknowledge={acknowledgeBreaches} />
+          </CardContent>
+        </Card>
+      </div>
+    </AppLayout>
+  );
+}
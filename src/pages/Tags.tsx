@@ -0,0 +1,236 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { AppLayout } from '@/components/layout/AppLayout';
+import { TagBadge } from '@/components/tags/TagBadge';
+import { useTags } from '@/hooks/useTags';
+import { TagColor } from '@/types/trade';
+import { TAG_COLORS, TagUsage } from '@/utils/tags';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { cn } from '@/lib/utils';
+import { Combine, Loader2, Pencil, Tags as TagsIcon, Trash2 } from 'lucide-react';
+
+export default function Tags() {
+  const { tags, loading, setTagColor, renameTags, deleteTag } = useTags();
+  const [selected, setSelected] = useState<string[]>([]);
+  const [renaming, setRenaming] = useState<string[] | null>(null);
+  const [target, setTarget] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const toggleSelected = (name: string, checked: boolean) => {
+    setSelected(prev => checked ? [...prev, name] : prev.filter(n => n !== name));
+  };
+
+  // Merging defaults to the most used of the selected tags
+  const openRename = (names: string[]) => {
+    const ordered = tags.filter(t => names.includes(t.name)).map(t => t.name);
+    setRenaming(ordered);
+    setTarget(ordered[0] ?? '');
+  };
+
+  const handleRename = async () => {
+    if (!renaming) return;
+    setSaving(true);
+    const { error } = await renameTags(renaming, target);
+    setSaving(false);
+    if (!error) {
+      setRenaming(null);
+      setSelected([]);
+    }
+  };
+
+  const handleDelete = async (name: string) => {
+    const { error } = await deleteTag(name);
+    if (!error) setSelected(prev => prev.filter(n => n !== name));
+  };
+
+  const isMerge = (renaming?.length ?? 0) > 1;
+  const unchanged = renaming?.length === 1 && renaming[0] === target.trim();
+  const affectedTrades = tags
+    .filter(t => renaming?.includes(t.name))
+    .reduce((sum, t) => sum + t.trades, 0);
+
+  return (
+    <AppLayout>
+      <div className="max-w-3xl mx-auto space-y-6 animate-fade-in">
+        <div>
+          <h1 className="text-3xl font-display font-bold">Tags</h1>
+          <p className="text-muted-foreground mt-1">
+            Rename, merge, colour or delete the tags on your trades. Changes apply to every trade, including those in the trash.
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle className="flex items-center gap-2"><TagsIcon className="w-5 h-5" /> Your Tags</CardTitle>
+              <CardDescription>
+                Counts cover all accounts. See how each tag performs on the <Link to="/analytics" className="text-primary hover:underline">Analytics</Link> page.
+              </CardDescription>
+            </div>
+            <Button variant="outline" size="sm" disabled={selected.length < 2} onClick={() => openRename(selected)}>
+              <Combine className="w-4 h-4 mr-2" /> Merge{selected.length > 1 ? ` ${selected.length}` : ''}
+            </Button>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <p className="text-sm text-muted-foreground">Loading tags...</p>
+            ) : tags.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No tags yet. Add tags to a trade and they will show up here.</p>
+            ) : (
+              <div className="space-y-2">
+                {tags.map(tag => (
+                  <TagRow
+                    key={tag.name}
+                    tag={tag}
+                    selected={selected.includes(tag.name)}
+                    onSelect={(checked) => toggleSelected(tag.name, checked)}
+                    onColor={(color) => setTagColor(tag.name, color)}
+                    onRename={() => openRename([tag.name])}
+                    onDelete={() => handleDelete(tag.name)}
+                  />
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={renaming !== null} onOpenChange={(open) => !open && setRenaming(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{isMerge ? 'Merge Tags' : 'Rename Tag'}</DialogTitle>
+            <DialogDescription>
+              {isMerge
+                ? `${renaming?.join(', ')} will become a single tag on ${affectedTrades} trade${affectedTrades === 1 ? '' : 's'}.`
+                : `Renames "${renaming?.[0]}" on ${affectedTrades} trade${affectedTrades === 1 ? '' : 's'}. Using an existing tag's name merges the two.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="tag-target">{isMerge ? 'Merge into' : 'New name'}</Label>
+            <Input
+              id="tag-target"
+              value={target}
+              onChange={(e) => setTarget(e.target.value)}
+              maxLength={50}
+              list="tag-target-options"
+            />
+            {isMerge && (
+              <datalist id="tag-target-options">
+                {renaming?.map(name => <option key={name} value={name} />)}
+              </datalist>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRenaming(null)}>Cancel</Button>
+            <Button onClick={handleRename} disabled={saving || !target.trim() || target.includes(',') || unchanged}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {isMerge ? 'Merge' : 'Rename'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </AppLayout>
+  );
+}
+
+interface TagRowProps {
+  tag: TagUsage;
+  selected: boolean;
+  onSelect: (checked: boolean) => void;
+  onColor: (color: TagColor) => void;
+  onRename: () => void;
+  onDelete: () => void;
+}
+
+function TagRow({ tag, selected, onSelect, onColor, onRename, onDelete }: TagRowProps) {
+  return (
+    <div className="flex items-center justify-between gap-3 p-3 rounded-lg border">
+      <div className="flex items-center gap-3 min-w-0">
+        <Checkbox checked={selected} onCheckedChange={(checked) => onSelect(checked === true)} aria-label={`Select ${tag.name}`} />
+        <Popover>
+          <PopoverTrigger asChild>
+            <button
+              type="button"
+              className={cn('w-4 h-4 rounded-full shrink-0', TAG_COLORS[tag.color].swatch)}
+              aria-label={`Change colour of ${tag.name}`}
+            />
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-2">
+            <div className="grid grid-cols-5 gap-2">
+              {(Object.keys(TAG_COLORS) as TagColor[]).map(color => (
+                <button
+                  key={color}
+                  type="button"
+                  title={TAG_COLORS[color].label}
+                  className={cn(
+                    'w-6 h-6 rounded-full',
+                    TAG_COLORS[color].swatch,
+                    color === tag.color && 'ring-2 ring-offset-2 ring-offset-background ring-foreground',
+                  )}
+                  onClick={() => onColor(color)}
+                />
+              ))}
+            </div>
+          </PopoverContent>
+        </Popover>
+        <TagBadge name={tag.name} color={tag.color} className="truncate" />
+        <span className="text-xs text-muted-foreground whitespace-nowrap">
+          {tag.trades} trade{tag.trades === 1 ? '' : 's'}
+        </span>
+      </div>
+      <div className="flex items-center gap-1">
+        <Button variant="ghost" size="icon" onClick={onRename}>
+          <Pencil className="w-4 h-4 text-muted-foreground" />
+        </Button>
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button variant="ghost" size="icon">
+              <Trash2 className="w-4 h-4 text-destructive" />
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete Tag</AlertDialogTitle>
+              <AlertDialogDescription>
+                Remove "{tag.name}" from {tag.trades} trade{tag.trades === 1 ? '' : 's'}? The trades themselves are kept.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={onDelete}
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              >
+                Delete
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+    </div>
+  );
+}
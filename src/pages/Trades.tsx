@@ -1,22 +1,33 @@
-import React, { useState } from 'react';
+import { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
 import { Link } from 'react-router-dom';
+import { useWindowVirtualizer } from '@tanstack/react-virtual';
 import { AppLayout } from '@/components/layout/AppLayout';
 import { useTrades } from '@/hooks/useTrades';
-import { Trade, AssetClass, TradeStatus } from '@/types/trade';
+import { useTradeSearch } from '@/hooks/useTradeSearch';
+import { usePnLBasis } from '@/hooks/usePnLBasis';
+import { useTradeFilters } from '@/hooks/useTradeFilters';
+import { useSavedViews } from '@/hooks/useSavedViews';
+import { useChecklistRules } from '@/hooks/useChecklistRules';
+import { useCurrency } from '@/hooks/useCurrency';
+import { useAccounts } from '@/hooks/useAccounts';
+import { usePlaybooks } from '@/hooks/usePlaybooks';
+import { useTags } from '@/hooks/useTags';
+import { Trade, TradeSort, TradeSortKey } from '@/types/trade';
 import { format } from 'date-fns';
+import { formatDuration, getHoldingMinutes, getRMultiple, getTradePL, isClosedTrade, isOpenTrade } from '@/utils/analytics';
+import { getFilterOptions, isSameFilters, toSearchParams } from '@/utils/tradeFilters';
+import { CloseTradeDialog } from '@/components/trades/CloseTradeDialog';
+import { TradeFilterBuilder } from '@/components/trades/TradeFilterBuilder';
+import { SavedViewsMenu } from '@/components/trades/SavedViewsMenu';
+import { FilterChips } from '@/components/trades/FilterChips';
+import { BulkActionsBar } from '@/components/trades/BulkActionsBar';
+import { QueryInput } from '@/components/trades/QueryInput';
+import { ScreenshotGallery } from '@/components/screenshots/ScreenshotGallery';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
-import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from '@/components/ui/select';
+import { Checkbox } from '@/components/ui/checkbox';
 import {
   Table,
-  TableBody,
   TableCell,
   TableHead,
   TableHeader,
@@ -37,44 +48,158 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Skeleton } from '@/components/ui/skeleton';
 import {
   Plus,
-  Search,
   Upload,
   Trash2,
   Pencil,
   ClipboardCheck,
   ArrowUpRight,
   ArrowDownRight,
-  Filter,
+  ArrowUp,
+  ArrowDown,
+  ChevronsUpDown,
+  BarChart3,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { PreTradeChecklist, PreTradeChecklistValues } from '@/components/tools/PreTradeChecklist';
+import { PreTradeChecklist } from '@/components/tools/PreTradeChecklist';
+import { toRuleAnswers } from '@/utils/checklist';
+import { TRASH_RETENTION_DAYS } from '@/utils/trash';
+import { exportTradeLog } from '@/utils/exportAnalytics';
+
+// Estimated height of a collapsed row; rows are measured once drawn
+const ROW_HEIGHT = 53;
+
+// Columns that sort A-Z first; the rest start with the highest value
+const TEXT_SORT_KEYS: TradeSortKey[] = ['symbol', 'asset_class', 'direction', 'exit_reason', 'status', 'strategy'];
 
 export default function Trades() {
-  const { trades, loading, deleteTrade, updateTrade } = useTrades();
-  const [search, setSearch] = useState('');
-  const [assetFilter, setAssetFilter] = useState<AssetClass | 'all'>('all');
-  const [statusFilter, setStatusFilter] = useState<TradeStatus | 'all'>('all');
+  const { trades, loading, deleteTrades, updateTrade, bulkUpdateTrades } = useTrades();
+  const pnlBasis = usePnLBasis();
+  const { filters, sort, viewId, setFilters, setSort, applyView, detachView } = useTradeFilters();
+  const { views, saveView, updateView, deleteView } = useSavedViews();
+  const { rules } = useChecklistRules();
+  const { accounts, selectedAccountId } = useAccounts();
+  const { formatTrade } = useCurrency();
+  const { playbooks } = usePlaybooks();
+  const { tags } = useTags();
   const [expandedTradeId, setExpandedTradeId] = useState<string | null>(null);
+  const [closingTrade, setClosingTrade] = useState<Trade | null>(null);
+  const { total, loading: searching, stale, getTrade, loadRange, fetchMatchingIds } = useTradeSearch(filters, sort);
+
+  // Rows come from the server; the synced copy of a trade replaces its row so edits show straight away
+  const tradeById = useMemo(() => new Map(trades.map(t => [t.id, t])), [trades]);
+  const filterOptions = getFilterOptions(trades);
 
-  const filteredTrades = trades.filter(trade => {
-    const matchesSearch = trade.symbol.toLowerCase().includes(search.toLowerCase()) ||
-      (trade.strategy?.toLowerCase().includes(search.toLowerCase()));
-    const matchesAsset = assetFilter === 'all' || trade.asset_class === assetFilter;
-    const matchesStatus = statusFilter === 'all' || trade.status === statusFilter;
-    return matchesSearch && matchesAsset && matchesStatus;
+  // Changing the filters or account clears the selection, so trades they hide stay out of bulk actions
+  const selectionKey = `${selectedAccountId}?${toSearchParams(filters)}`;
+  const [selection, setSelection] = useState({ key: selectionKey, ids: new Set<string>(), anchor: null as number | null });
+  const current = selection.key === selectionKey ? selection : null;
+  const selectedIds = current?.ids ?? new Set<string>();
+  const selectedTrades = Array.from(selectedIds).flatMap(id => tradeById.get(id) ?? []);
+  const allSelected = total > 0 && selectedIds.size >= total;
+
+  // The list scrolls with the window, so rows are placed from where the table header ends on the page.
+  // Anything above it changing size changes the page's height, which moves that point.
+  const headerRef = useRef<HTMLTableSectionElement>(null);
+  const [scrollMargin, setScrollMargin] = useState(0);
+  const showList = !loading && !searching && total > 0;
+  useLayoutEffect(() => {
+    const header = headerRef.current;
+    if (!showList || !header) return;
+    const measure = () => setScrollMargin(header.getBoundingClientRect().bottom + window.scrollY);
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(document.body);
+    return () => observer.disconnect();
+  }, [showList]);
+
+  const virtualizer = useWindowVirtualizer({
+    count: total,
+    estimateSize: () => ROW_HEIGHT,
+    overscan: 10,
+    scrollMargin,
+    getItemKey: (index) => getTrade(index)?.id ?? index,
   });
+  const rows = virtualizer.getVirtualItems();
+  const firstRow = rows[0]?.index ?? 0;
+  const lastRow = rows[rows.length - 1]?.index ?? -1;
+  const paddingTop = rows.length > 0 ? rows[0].start - scrollMargin : 0;
+  const paddingBottom = rows.length > 0 ? virtualizer.getTotalSize() - (rows[rows.length - 1].end - scrollMargin) : 0;
+
+  useEffect(() => {
+    if (lastRow >= 0) loadRange(firstRow, lastRow);
+  }, [firstRow, lastRow, loadRange]);
+
+  const activeView = views.find(v => v.id === viewId) ?? null;
+  const viewModified = !!activeView && (
+    !isSameFilters(activeView.filters, filters)
+    || activeView.sort?.key !== sort?.key
+    || activeView.sort?.direction !== sort?.direction
+  );
+
+  const handleSaveView = async (name: string) => {
+    const { error, view } = await saveView(name, filters, sort);
+    if (view) applyView(view);
+    return { error };
+  };
+
+  const handleDeleteView = async (id: string) => {
+    const { error } = await deleteView(id);
+    // The filters stay on screen, just no longer tied to the deleted view
+    if (!error) detachView();
+  };
+
+  // Shift-click gives every loaded row between the last clicked one and this one the clicked row's new state
+  const toggleSelected = (index: number, id: string, range: boolean) => {
+    const anchor = current?.anchor ?? null;
+    const from = range && anchor !== null ? Math.min(index, anchor) : index;
+    const to = range && anchor !== null ? Math.max(index, anchor) : index;
+    const select = !selectedIds.has(id);
+    const next = new Set(selectedIds);
+    for (let i = from; i <= to; i++) {
+      const tradeId = i === index ? id : getTrade(i)?.id;
+      if (!tradeId) continue;
+      if (select) next.add(tradeId);
+      else next.delete(tradeId);
+    }
+    setSelection({ key: selectionKey, ids: next, anchor: index });
+  };
+
+  // Ids only; the trades themselves come from the synced copy when a bulk action needs them
+  const selectAllMatching = async () => {
+    const key = selectionKey;
+    const { ids, error } = await fetchMatchingIds();
+    if (!error) setSelection({ key, ids: new Set(ids), anchor: null });
+  };
+
+  const clearSelection = () => {
+    setSelection({ key: selectionKey, ids: new Set(), anchor: null });
+  };
+
+  // Each click goes first direction, reverse, then back to the default newest-first order
+  const toggleSort = (key: TradeSortKey) => {
+    const first: TradeSort['direction'] = TEXT_SORT_KEYS.includes(key) ? 'asc' : 'desc';
+    if (sort?.key !== key) setSort({ key, direction: first });
+    else setSort(sort.direction === first ? { key, direction: first === 'asc' ? 'desc' : 'asc' } : null);
+  };
+
+  const formatR = (trade: Trade) => {
+    const r = isClosedTrade(trade) ? getRMultiple(trade, pnlBasis) : null;
+    return r === null ? '-' : `${r >= 0 ? '+' : ''}${r.toFixed(2)}R`;
+  };
+
+  const formatHeld = (trade: Trade) => {
+    const minutes = getHoldingMinutes(trade);
+    return minutes === null ? '-' : formatDuration(minutes);
+  };
 
   const toggleExpand = (id: string) => {
     setExpandedTradeId(expandedTradeId === id ? null : id);
   };
 
   const formatPL = (trade: Trade) => {
-    const pl = trade.reward_amount !== null
-      ? (trade.status === 'loss' ? -Math.abs(trade.reward_amount!) : trade.reward_amount!)
-      : trade.profit_loss;
-    if (pl === null) return '-';
-    const formatted = Math.abs(pl).toFixed(2);
-    return pl >= 0 ? `+$${formatted}` : `-$${formatted}`;
+    if (isOpenTrade(trade)) return 'Open';
+    if (trade.reward_amount === null && trade.profit_loss === null && !trade.executions?.length) return '-';
+    return formatTrade(trade, getTradePL(trade, pnlBasis), { signed: true });
   };
 
   const getStatusBadge = (status: string | null) => {
@@ -82,6 +207,7 @@ export default function Trades() {
       win: 'bg-chart-profit/10 text-chart-profit border-chart-profit/20',
       loss: 'bg-chart-loss/10 text-chart-loss border-chart-loss/20',
       breakeven: 'bg-muted text-muted-foreground border-muted',
+      open: 'bg-primary/10 text-primary border-primary/20',
     };
     return styles[status as keyof typeof styles] || styles.breakeven;
   };
@@ -96,7 +222,7 @@ export default function Trades() {
     return labels[reason || ''] || '-';
   };
 
-  if (loading) {
+  if (loading || searching) {
     return (
       <AppLayout>
         <div className="space-y-6">
@@ -115,6 +241,12 @@ export default function Trades() {
         <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
           <h1 className="text-3xl font-display font-bold">Trade Journal</h1>
           <div className="flex gap-2">
+            <Button variant="ghost" asChild>
+              <Link to="/trash">
+                <Trash2 className="w-4 h-4 mr-2" />
+                Trash
+              </Link>
+            </Button>
             <Button variant="outline" asChild>
               <Link to="/import">
                 <Upload className="w-4 h-4 mr-2" />
@@ -132,49 +264,55 @@ export default function Trades() {
 
         {/* Filters */}
         <Card className="gradient-card">
-          <CardContent className="pt-6">
-            <div className="flex flex-col sm:flex-row gap-4">
-              <div className="relative flex-1">
-                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-                <Input
-                  placeholder="Search by symbol or strategy..."
-                  value={search}
-                  onChange={(e) => setSearch(e.target.value)}
-                  className="pl-10"
-                />
-              </div>
-              <Select value={assetFilter} onValueChange={(v) => setAssetFilter(v as AssetClass | 'all')}>
-                <SelectTrigger className="w-full sm:w-40">
-                  <Filter className="w-4 h-4 mr-2" />
-                  <SelectValue placeholder="Asset class" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="all">All Assets</SelectItem>
-                  <SelectItem value="forex">Forex</SelectItem>
-                  <SelectItem value="crypto">Crypto</SelectItem>
-                  <SelectItem value="commodities">Commodities</SelectItem>
-                  <SelectItem value="stocks">Stocks</SelectItem>
-                </SelectContent>
-              </Select>
-              <Select value={statusFilter} onValueChange={(v) => setStatusFilter(v as TradeStatus | 'all')}>
-                <SelectTrigger className="w-full sm:w-40">
-                  <SelectValue placeholder="Outcome" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="all">All Outcomes</SelectItem>
-                  <SelectItem value="win">Win</SelectItem>
-                  <SelectItem value="loss">Loss</SelectItem>
-                  <SelectItem value="breakeven">Breakeven</SelectItem>
-                </SelectContent>
-              </Select>
+          <CardContent className="pt-6 space-y-4">
+            <div className="flex flex-col sm:flex-row sm:items-start gap-4">
+              <QueryInput
+                value={filters.search ?? ''}
+                onChange={(search) => setFilters({ ...filters, search: search || undefined })}
+                options={filterOptions}
+              />
+              <TradeFilterBuilder filters={filters} trades={trades} rules={rules} onChange={setFilters} />
+              <SavedViewsMenu
+                views={views}
+                activeView={activeView}
+                modified={viewModified}
+                onApply={applyView}
+                onSave={handleSaveView}
+                onUpdate={(view) => updateView(view.id, filters, sort)}
+                onDelete={(view) => handleDeleteView(view.id)}
+              />
+              <Button variant="ghost" asChild>
+                <Link to={`/analytics?${toSearchParams(filters, null, activeView?.id)}`}>
+                  <BarChart3 className="w-4 h-4 mr-2" />
+                  Analyze
+                </Link>
+              </Button>
             </div>
+            <FilterChips filters={filters} rules={rules} onChange={setFilters} />
           </CardContent>
         </Card>
 
+        {selectedTrades.length > 0 && (
+          <BulkActionsBar
+            selected={selectedTrades}
+            matchingCount={total}
+            onSelectAll={selectAllMatching}
+            accounts={accounts}
+            playbooks={playbooks}
+            strategies={filterOptions.strategies}
+            setupTypes={filterOptions.setupTypes}
+            tags={tags}
+            onApply={bulkUpdateTrades}
+            onDelete={deleteTrades}
+            onExport={() => exportTradeLog(selectedTrades)}
+            onClear={clearSelection}
+          />
+        )}
+
         {/* Trades Table */}
         <Card className="gradient-card">
           <CardContent className="p-0">
-            {filteredTrades.length === 0 ? (
+            {total === 0 ? (
               <div className="text-center py-12">
                 <p className="text-muted-foreground mb-4">
                   {trades.length === 0 ? 'No trades yet. Start logging!' : 'No trades match your filters.'}
@@ -187,253 +325,339 @@ export default function Trades() {
               </div>
             ) : (
               <div className="overflow-x-auto">
-                <Table>
-                  <TableHeader>
+                <Table className={cn(stale && 'opacity-60 transition-opacity')}>
+                  <TableHeader ref={headerRef}>
                     <TableRow>
-                      <TableHead>Date</TableHead>
-                      <TableHead>Pair</TableHead>
-                      <TableHead>Type</TableHead>
-                      <TableHead>Direction</TableHead>
-                      <TableHead>Exit</TableHead>
-                      <TableHead className="text-right">R:R</TableHead>
-                      <TableHead className="text-right">P&L</TableHead>
-                      <TableHead>Outcome</TableHead>
-                      <TableHead>Strategy</TableHead>
+                      <TableHead className="w-10">
+                        <Checkbox
+                          checked={allSelected ? true : selectedIds.size > 0 ? 'indeterminate' : false}
+                          onClick={allSelected ? clearSelection : selectAllMatching}
+                          aria-label={allSelected ? 'Clear selection' : 'Select every matching trade'}
+                        />
+                      </TableHead>
+                      <SortableHead label="Date" sortKey="entry_date" sort={sort} onSort={toggleSort} />
+                      <SortableHead label="Pair" sortKey="symbol" sort={sort} onSort={toggleSort} />
+                      <SortableHead label="Type" sortKey="asset_class" sort={sort} onSort={toggleSort} />
+                      <SortableHead label="Direction" sortKey="direction" sort={sort} onSort={toggleSort} />
+                      <SortableHead label="Exit" sortKey="exit_reason" sort={sort} onSort={toggleSort} />
+                      <SortableHead label="R:R" sortKey="risk_reward_ratio" sort={sort} onSort={toggleSort} className="text-right" />
+                      <SortableHead label="P&L" sortKey="pl" sort={sort} onSort={toggleSort} className="text-right" />
+                      <SortableHead label="R" sortKey="r_multiple" sort={sort} onSort={toggleSort} className="text-right" />
+                      <SortableHead label="Held" sortKey="duration" sort={sort} onSort={toggleSort} className="text-right" />
+                      <SortableHead label="Outcome" sortKey="status" sort={sort} onSort={toggleSort} />
+                      <SortableHead label="Strategy" sortKey="strategy" sort={sort} onSort={toggleSort} />
                       <TableHead></TableHead>
                     </TableRow>
                   </TableHeader>
-                  <TableBody>
-                    {filteredTrades.map(trade => (
-                      <React.Fragment key={trade.id}>
-                        <TableRow
-                          className={cn(
-                            "group cursor-pointer hover:bg-muted/50 transition-colors",
-                            expandedTradeId === trade.id && "bg-muted/30"
-                          )}
-                          onClick={() => toggleExpand(trade.id)}
-                        >
-                          <TableCell className="font-medium">
-                            {format(new Date(trade.entry_date), 'MMM d, yyyy')}
-                          </TableCell>
-                          <TableCell>
-                            <span className="font-semibold hover:text-primary">
-                              {trade.symbol}
-                            </span>
-                          </TableCell>
-                          <TableCell>
-                            <Badge variant="outline" className="capitalize text-xs">
-                              {trade.asset_class}
-                            </Badge>
-                          </TableCell>
-                          <TableCell>
-                            <span className={cn(
-                              'flex items-center gap-1 text-sm font-medium',
-                              trade.direction === 'buy' ? 'text-chart-profit' : 'text-chart-loss'
-                            )}>
-                              {trade.direction === 'buy' ? (
-                                <ArrowUpRight className="w-4 h-4" />
-                              ) : (
-                                <ArrowDownRight className="w-4 h-4" />
-                              )}
-                              {trade.direction.toUpperCase()}
-                            </span>
-                          </TableCell>
-                          <TableCell>
-                            <Badge variant="outline" className="text-xs">
-                              {getExitReasonLabel(trade.exit_reason)}
-                            </Badge>
-                          </TableCell>
-                          <TableCell className="text-right font-mono text-sm">
-                            {trade.risk_reward_ratio ? `1:${trade.risk_reward_ratio}` : '-'}
-                          </TableCell>
-                          <TableCell className={cn(
-                            'text-right font-semibold',
-                            trade.status === 'win' && 'text-chart-profit',
-                            trade.status === 'loss' && 'text-chart-loss',
-                          )}>
-                            {formatPL(trade)}
-                          </TableCell>
-                          <TableCell>
-                            <Badge variant="outline" className={cn('capitalize', getStatusBadge(trade.status))}>
-                              {trade.status || 'pending'}
-                            </Badge>
-                          </TableCell>
-                          <TableCell className="text-muted-foreground text-sm max-w-[150px] truncate">
-                            {trade.strategy || '-'}
-                          </TableCell>
-                          <TableCell onClick={(e) => e.stopPropagation()}>
-                            <div className="flex items-center gap-1">
-                              {trade.needs_review && (
-                                <Button
-                                  variant="outline"
-                                  size="sm"
-                                  className="opacity-100 sm:opacity-0 group-hover:opacity-100 transition-opacity"
-                                  asChild
-                                >
-                                  <Link to={`/trades/${trade.id}?tab=confluence`}>
-                                    <ClipboardCheck className="w-4 h-4 mr-1" />
-                                    Fill checklist
-                                  </Link>
-                                </Button>
+                  {paddingTop > 0 && (
+                    <tbody aria-hidden>
+                      <tr style={{ height: paddingTop }} />
+                    </tbody>
+                  )}
+                  {/* One body per trade, so a row and its details are measured together */}
+                  {rows.map(row => {
+                    const loaded = getTrade(row.index);
+                    const trade = loaded && (tradeById.get(loaded.id) ?? loaded);
+                    return (
+                      <tbody key={row.key} data-index={row.index} ref={virtualizer.measureElement}>
+                        {trade ? (
+                          <>
+                            <TableRow
+                              className={cn(
+                                "group cursor-pointer hover:bg-muted/50 transition-colors",
+                                expandedTradeId === trade.id && "bg-muted/30",
+                                selectedIds.has(trade.id) && "bg-primary/5"
                               )}
-                              <Button
-                                variant="ghost"
-                                size="icon"
-                                className="opacity-0 group-hover:opacity-100 transition-opacity"
-                                asChild
-                              >
-                                <Link to={`/trades/${trade.id}`}>
-                                  <Pencil className="w-4 h-4 text-muted-foreground" />
-                                </Link>
-                              </Button>
-                              <AlertDialog>
-                                <AlertDialogTrigger asChild>
+                              onClick={() => toggleExpand(trade.id)}
+                            >
+                              <TableCell onClick={(e) => e.stopPropagation()}>
+                                <Checkbox
+                                  checked={selectedIds.has(trade.id)}
+                                  onClick={(e) => toggleSelected(row.index, trade.id, e.shiftKey)}
+                                  aria-label={`Select ${trade.symbol} trade`}
+                                />
+                              </TableCell>
+                              <TableCell className="font-medium">
+                                {format(new Date(trade.entry_date), 'MMM d, yyyy')}
+                              </TableCell>
+                              <TableCell>
+                                <span className="font-semibold hover:text-primary">
+                                  {trade.symbol}
+                                </span>
+                                {(trade.executions?.length ?? 0) > 0 && (
+                                  <span className="ml-2 text-xs text-muted-foreground">
+                                    {trade.executions!.length} fills
+                                  </span>
+                                )}
+                              </TableCell>
+                              <TableCell>
+                                <Badge variant="outline" className="capitalize text-xs">
+                                  {trade.asset_class}
+                                </Badge>
+                              </TableCell>
+                              <TableCell>
+                                <span className={cn(
+                                  'flex items-center gap-1 text-sm font-medium',
+                                  trade.direction === 'buy' ? 'text-chart-profit' : 'text-chart-loss'
+                                )}>
+                                  {trade.direction === 'buy' ? (
+                                    <ArrowUpRight className="w-4 h-4" />
+                                  ) : (
+                                    <ArrowDownRight className="w-4 h-4" />
+                                  )}
+                                  {trade.direction.toUpperCase()}
+                                </span>
+                              </TableCell>
+                              <TableCell>
+                                <Badge variant="outline" className="text-xs">
+                                  {getExitReasonLabel(trade.exit_reason)}
+                                </Badge>
+                              </TableCell>
+                              <TableCell className="text-right font-mono text-sm">
+                                {trade.risk_reward_ratio ? `1:${trade.risk_reward_ratio}` : '-'}
+                              </TableCell>
+                              <TableCell className={cn(
+                                'text-right font-semibold',
+                                trade.status === 'win' && 'text-chart-profit',
+                                trade.status === 'loss' && 'text-chart-loss',
+                              )}>
+                                {formatPL(trade)}
+                              </TableCell>
+                              <TableCell className="text-right font-mono text-sm text-muted-foreground">
+                                {formatR(trade)}
+                              </TableCell>
+                              <TableCell className="text-right text-sm text-muted-foreground whitespace-nowrap">
+                                {formatHeld(trade)}
+                              </TableCell>
+                              <TableCell>
+                                <Badge variant="outline" className={cn('capitalize', getStatusBadge(trade.status))}>
+                                  {trade.status || 'pending'}
+                                </Badge>
+                              </TableCell>
+                              <TableCell className="text-muted-foreground text-sm max-w-[150px] truncate">
+                                {trade.strategy || '-'}
+                              </TableCell>
+                              <TableCell onClick={(e) => e.stopPropagation()}>
+                                <div className="flex items-center gap-1">
+                                  {trade.needs_review && (
+                                    <Button
+                                      variant="outline"
+                                      size="sm"
+                                      className="opacity-100 sm:opacity-0 group-hover:opacity-100 transition-opacity"
+                                      asChild
+                                    >
+                                      <Link to={`/trades/${trade.id}?tab=confluence`}>
+                                        <ClipboardCheck className="w-4 h-4 mr-1" />
+                                        Fill checklist
+                                      </Link>
+                                    </Button>
+                                  )}
+                                  {isOpenTrade(trade) && (
+                                    <Button variant="outline" size="sm" onClick={() => setClosingTrade(trade)}>
+                                      Close
+                                    </Button>
+                                  )}
                                   <Button
                                     variant="ghost"
                                     size="icon"
                                     className="opacity-0 group-hover:opacity-100 transition-opacity"
+                                    asChild
                                   >
-                                    <Trash2 className="w-4 h-4 text-destructive" />
+                                    <Link to={`/trades/${trade.id}`}>
+                                      <Pencil className="w-4 h-4 text-muted-foreground" />
+                                    </Link>
                                   </Button>
-                                </AlertDialogTrigger>
-                                <AlertDialogContent>
-                                  <AlertDialogHeader>
-                                    <AlertDialogTitle>Delete Trade</AlertDialogTitle>
-                                    <AlertDialogDescription>
-                                      Are you sure you want to delete this {trade.symbol} trade? This action cannot be undone.
-                                    </AlertDialogDescription>
-                                  </AlertDialogHeader>
-                                  <AlertDialogFooter>
-                                    <AlertDialogCancel>Cancel</AlertDialogCancel>
-                                    <AlertDialogAction
-                                      onClick={() => deleteTrade(trade.id)}
-                                      className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-                                    >
-                                      Delete
-                                    </AlertDialogAction>
-                                  </AlertDialogFooter>
-                                </AlertDialogContent>
-                              </AlertDialog>
-                            </div>
-                          </TableCell>
-                        </TableRow>
-
-                        {/* Expanded Details Row */}
-                        {expandedTradeId === trade.id && (
-                          <TableRow className="bg-muted/30 border-t-0 hover:bg-muted/30">
-                            <TableCell colSpan={10} className="p-0">
-                              <div className="p-6 grid grid-cols-1 md:grid-cols-2 gap-8 animate-in slide-in-from-top-2 duration-200">
-                                {trade.needs_review && (
-                                  <div className="md:col-span-2 p-3 rounded-lg bg-primary/10 border border-primary/20 flex items-center justify-between gap-4">
-                                    <p className="text-sm text-muted-foreground">
-                                      This trade was synced from MT5. Add setup type, probability, and rule answers so it’s fully logged.
-                                    </p>
-                                    <Button size="sm" asChild>
-                                      <Link to={`/trades/${trade.id}?tab=confluence`}>Fill checklist</Link>
-                                    </Button>
-                                  </div>
-                                )}
-                                {/* Technical Checklist */}
-                                <div className="space-y-4">
-                                  <PreTradeChecklist
-                                    values={{
-                                      setup_type: trade.setup_type || '',
-                                      probability: trade.probability || '',
-                                      rule_in_plan: (trade.rule_in_plan || '') as PreTradeChecklistValues['rule_in_plan'],
-                                      rule_bos: (trade.rule_bos || '') as PreTradeChecklistValues['rule_bos'],
-                                      rule_liquidity: (trade.rule_liquidity || '') as PreTradeChecklistValues['rule_liquidity'],
-                                      rule_trend: (trade.rule_trend || '') as PreTradeChecklistValues['rule_trend'],
-                                      rule_news: (trade.rule_news || '') as PreTradeChecklistValues['rule_news'],
-                                      rule_rr: (trade.rule_rr || '') as PreTradeChecklistValues['rule_rr'],
-                                      rule_emotions: (trade.rule_emotions || '') as PreTradeChecklistValues['rule_emotions'],
-                                      rule_lot_size: (trade.rule_lot_size || '') as PreTradeChecklistValues['rule_lot_size'],
-                                    }}
-                                    onChange={(newValues) => {
-                                      updateTrade(trade.id, {
-                                        setup_type: newValues.setup_type,
-                                        probability: newValues.probability,
-                                        rule_in_plan: newValues.rule_in_plan,
-                                        rule_bos: newValues.rule_bos,
-                                        rule_liquidity: newValues.rule_liquidity,
-                                        rule_trend: newValues.rule_trend,
-                                        rule_news: newValues.rule_news,
-                                        rule_rr: newValues.rule_rr,
-                                        rule_emotions: newValues.rule_emotions,
-                                        rule_lot_size: newValues.rule_lot_size,
-                                      });
-                                    }}
-                                    hideStatusBanner
-                                  />
+                                  <AlertDialog>
+                                    <AlertDialogTrigger asChild>
+                                      <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        className="opacity-0 group-hover:opacity-100 transition-opacity"
+                                      >
+                                        <Trash2 className="w-4 h-4 text-destructive" />
+                                      </Button>
+                                    </AlertDialogTrigger>
+                                    <AlertDialogContent>
+                                      <AlertDialogHeader>
+                                        <AlertDialogTitle>Delete Trade</AlertDialogTitle>
+                                        <AlertDialogDescription>
+                                          Move this {trade.symbol} trade to the trash? You can restore it for {TRASH_RETENTION_DAYS} days.
+                                        </AlertDialogDescription>
+                                      </AlertDialogHeader>
+                                      <AlertDialogFooter>
+                                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                        <AlertDialogAction
+                                          onClick={() => deleteTrades([trade.id])}
+                                          className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                                        >
+                                          Move to Trash
+                                        </AlertDialogAction>
+                                      </AlertDialogFooter>
+                                    </AlertDialogContent>
+                                  </AlertDialog>
                                 </div>
+                              </TableCell>
+                            </TableRow>
 
-                                {/* Emotions and Lessons */}
-                                <div className="space-y-6">
-                                  <div className="space-y-3">
-                                    <h4 className="text-sm font-semibold uppercase tracking-wider text-muted-foreground">Psychology & Feelings</h4>
-                                    <div className="flex flex-wrap gap-2">
-                                      {['Confident', 'Anxious', 'FOMO', 'Revenge'].map((feeling) => {
-                                        const isSelected = (trade.emotions_array || []).includes(feeling);
-                                        return (
-                                          <Button
-                                            key={feeling}
-                                            type="button"
-                                            variant={isSelected ? "default" : "outline"}
-                                            size="sm"
-                                            onClick={() => {
-                                              const currentEmotions = trade.emotions_array || [];
-                                              const newEmotions = isSelected
-                                                ? currentEmotions.filter(f => f !== feeling)
-                                                : [...currentEmotions, feeling];
-
-                                              updateTrade(trade.id, {
-                                                emotions_array: newEmotions
-                                              });
-                                            }}
-                                            className={cn(
-                                              "rounded-full px-4 h-8 text-xs font-normal transition-all",
-                                              isSelected && feeling === 'Confident' && "bg-green-500 hover:bg-green-600 border-none",
-                                              isSelected && feeling === 'Anxious' && "bg-yellow-500 hover:bg-yellow-600 border-none",
-                                              isSelected && (feeling === 'FOMO' || feeling === 'Revenge') && "bg-red-500 hover:bg-red-600 border-none",
-                                              !isSelected && "hover:bg-accent hover:text-accent-foreground text-muted-foreground border-dashed"
-                                            )}
-                                          >
-                                            {feeling}
-                                          </Button>
-                                        );
-                                      })}
+                            {/* Expanded Details Row */}
+                            {expandedTradeId === trade.id && (
+                              <TableRow className="bg-muted/30 border-t-0 hover:bg-muted/30">
+                                <TableCell colSpan={13} className="p-0">
+                                  <div className="p-6 grid grid-cols-1 md:grid-cols-2 gap-8 animate-in slide-in-from-top-2 duration-200">
+                                    {trade.needs_review && (
+                                      <div className="md:col-span-2 p-3 rounded-lg bg-primary/10 border border-primary/20 flex items-center justify-between gap-4">
+                                        <p className="text-sm text-muted-foreground">
+                                          This trade was synced from MT5. Add setup type, probability, and rule answers so it’s fully logged.
+                                        </p>
+                                        <Button size="sm" asChild>
+                                          <Link to={`/trades/${trade.id}?tab=confluence`}>Fill checklist</Link>
+                                        </Button>
+                                      </div>
+                                    )}
+                                    {/* Technical Checklist */}
+                                    <div className="space-y-4">
+                                      <PreTradeChecklist
+                                        values={{
+                                          setup_type: trade.setup_type || '',
+                                          probability: trade.probability || '',
+                                          rule_answers: trade.rule_answers || {},
+                                        }}
+                                        onChange={(newValues) => {
+                                          updateTrade(trade.id, {
+                                            setup_type: newValues.setup_type,
+                                            probability: newValues.probability,
+                                            rule_answers: toRuleAnswers(newValues.rule_answers),
+                                          });
+                                        }}
+                                        hideStatusBanner
+                                      />
                                     </div>
-                                  </div>
 
-                                  <div className="space-y-2">
-                                    <h4 className="text-sm font-semibold uppercase tracking-wider text-muted-foreground">Lessons Learned</h4>
-                                    <p className="text-sm leading-relaxed p-3 rounded-lg bg-background/50 border border-border/50">
-                                      {trade.lessons_learned || trade.lessons || (
-                                        <span className="italic text-muted-foreground">No lessons documented yet</span>
+                                    {/* Emotions and Lessons */}
+                                    <div className="space-y-6">
+                                      <div className="space-y-3">
+                                        <h4 className="text-sm font-semibold uppercase tracking-wider text-muted-foreground">Psychology & Feelings</h4>
+                                        <div className="flex flex-wrap gap-2">
+                                          {['Confident', 'Anxious', 'FOMO', 'Revenge'].map((feeling) => {
+                                            const isSelected = (trade.emotions_array || []).includes(feeling);
+                                            return (
+                                              <Button
+                                                key={feeling}
+                                                type="button"
+                                                variant={isSelected ? "default" : "outline"}
+                                                size="sm"
+                                                onClick={() => {
+                                                  const currentEmotions = trade.emotions_array || [];
+                                                  const newEmotions = isSelected
+                                                    ? currentEmotions.filter(f => f !== feeling)
+                                                    : [...currentEmotions, feeling];
+
+                                                  updateTrade(trade.id, {
+                                                    emotions_array: newEmotions
+                                                  });
+                                                }}
+                                                className={cn(
+                                                  "rounded-full px-4 h-8 text-xs font-normal transition-all",
+                                                  isSelected && feeling === 'Confident' && "bg-green-500 hover:bg-green-600 border-none",
+                                                  isSelected && feeling === 'Anxious' && "bg-yellow-500 hover:bg-yellow-600 border-none",
+                                                  isSelected && (feeling === 'FOMO' || feeling === 'Revenge') && "bg-red-500 hover:bg-red-600 border-none",
+                                                  !isSelected && "hover:bg-accent hover:text-accent-foreground text-muted-foreground border-dashed"
+                                                )}
+                                              >
+                                                {feeling}
+                                              </Button>
+                                            );
+                                          })}
+                                        </div>
+                                      </div>
+
+                                      <div className="space-y-2">
+                                        <h4 className="text-sm font-semibold uppercase tracking-wider text-muted-foreground">Lessons Learned</h4>
+                                        <p className="text-sm leading-relaxed p-3 rounded-lg bg-background/50 border border-border/50">
+                                          {trade.lessons_learned || trade.lessons || (
+                                            <span className="italic text-muted-foreground">No lessons documented yet</span>
+                                          )}
+                                        </p>
+                                      </div>
+
+                                      <div className="space-y-2">
+                                        <div className="flex items-center justify-between">
+                                          <h4 className="text-sm font-semibold uppercase tracking-wider text-muted-foreground">Charts</h4>
+                                          <Button variant="link" size="sm" asChild className="h-auto p-0">
+                                            <Link to={`/trades/${trade.id}?tab=charts`}>Manage</Link>
+                                          </Button>
+                                        </div>
+                                        <ScreenshotGallery tradeId={trade.id} editable={false} />
+                                      </div>
+
+                                      {trade.screenshot_url && (
+                                        <Button variant="outline" size="sm" asChild className="w-full">
+                                          <a href={trade.screenshot_url} target="_blank" rel="noopener noreferrer">
+                                            Open External Chart
+                                          </a>
+                                        </Button>
                                       )}
-                                    </p>
+                                    </div>
                                   </div>
-
-                                  {trade.screenshot_url && (
-                                    <Button variant="outline" size="sm" asChild className="w-full">
-                                      <a href={trade.screenshot_url} target="_blank" rel="noopener noreferrer">
-                                        View Chart Screenshot
-                                      </a>
-                                    </Button>
-                                  )}
-                                </div>
-                              </div>
+                                </TableCell>
+                              </TableRow>
+                            )}
+                          </>
+                        ) : (
+                          <TableRow>
+                            <TableCell colSpan={13}>
+                              <Skeleton className="h-6 w-full" />
                             </TableCell>
                           </TableRow>
                         )}
-                      </React.Fragment>
-                    ))}
-                  </TableBody>
+                      </tbody>
+                    );
+                  })}
+                  {paddingBottom > 0 && (
+                    <tbody aria-hidden>
+                      <tr style={{ height: paddingBottom }} />
+                    </tbody>
+                  )}
                 </Table>
+                <div className="border-t px-4 py-3 text-sm text-muted-foreground">
+                  {total} {total === 1 ? 'trade' : 'trades'}
+                </div>
               </div>
             )}
           </CardContent>
         </Card>
       </div>
+
+      <CloseTradeDialog
+        trade={closingTrade}
+        onOpenChange={(open) => !open && setClosingTrade(null)}
+        onClose={updateTrade}
+      />
     </AppLayout>
   );
 }
+
+interface SortableHeadProps {
+  label: string;
+  sortKey: TradeSortKey;
+  sort: TradeSort | null;
+  onSort: (key: TradeSortKey) => void;
+  className?: string;
+}
+
+function SortableHead({ label, sortKey, sort, onSort, className }: SortableHeadProps) {
+  const active = sort?.key === sortKey;
+  const Icon = !active ? ChevronsUpDown : sort.direction === 'asc' ? ArrowUp : ArrowDown;
+  return (
+    <TableHead className={className}>
+      <button
+        type="button"
+        className={cn('inline-flex items-center gap-1 hover:text-foreground', active && 'text-foreground')}
+        onClick={() => onSort(sortKey)}
+      >
+        {label}
+        <Icon className={cn('w-3 h-3', !active && 'opacity-40')} />
+      </button>
+    </TableHead>
+  );
+}
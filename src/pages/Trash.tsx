@@ -0,0 +1,183 @@
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { AppLayout } from '@/components/layout/AppLayout';
+import { useTrash } from '@/hooks/useTrash';
+import { usePnLBasis } from '@/hooks/usePnLBasis';
+import { useCurrency } from '@/hooks/useCurrency';
+import { getTradePL, isOpenTrade } from '@/utils/analytics';
+import { getDaysUntilPurge, TRASH_RETENTION_DAYS } from '@/utils/trash';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { cn } from '@/lib/utils';
+import { ArrowLeft, RotateCcw, Trash2 } from 'lucide-react';
+
+export default function Trash() {
+  const { trashedTrades, loading, restoreTrades, purgeTrades } = useTrash();
+  const pnlBasis = usePnLBasis();
+
+  const { formatTrade } = useCurrency();
+
+  return (
+    <AppLayout>
+      <div className="max-w-5xl mx-auto space-y-6 animate-fade-in">
+        <div>
+          <Link
+            to="/trades"
+            className="inline-flex items-center text-muted-foreground hover:text-foreground mb-4"
+          >
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Trades
+          </Link>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <h1 className="text-3xl font-display font-bold">Trash</h1>
+              <p className="text-muted-foreground mt-1">
+                Deleted trades are kept for {TRASH_RETENTION_DAYS} days before they are permanently removed
+              </p>
+            </div>
+            {trashedTrades.length > 0 && (
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="outline" className="text-destructive">
+                    <Trash2 className="w-4 h-4 mr-2" /> Empty Trash
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Empty Trash</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      Permanently delete all {trashedTrades.length} trades in the trash, including their executions and screenshots? This cannot be undone.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction
+                      onClick={() => purgeTrades(trashedTrades.map(t => t.id))}
+                      className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                    >
+                      Delete Forever
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            )}
+          </div>
+        </div>
+
+        <Card className="gradient-card">
+          <CardHeader>
+            <CardTitle className="font-display">Deleted Trades</CardTitle>
+            <CardDescription>Restore a trade to put it back in your journal and analytics</CardDescription>
+          </CardHeader>
+          <CardContent className="p-0">
+            {loading ? (
+              <p className="text-sm text-muted-foreground p-6">Loading trash...</p>
+            ) : trashedTrades.length === 0 ? (
+              <div className="py-12 text-center space-y-2">
+                <Trash2 className="w-10 h-10 mx-auto text-muted-foreground" />
+                <p className="text-muted-foreground">The trash is empty.</p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Pair</TableHead>
+                      <TableHead>Direction</TableHead>
+                      <TableHead className="text-right">P&L</TableHead>
+                      <TableHead>Deleted</TableHead>
+                      <TableHead>Purged In</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {trashedTrades.map(trade => {
+                      const pl = getTradePL(trade, pnlBasis);
+                      const daysLeft = getDaysUntilPurge(trade.deleted_at!);
+                      return (
+                        <TableRow key={trade.id}>
+                          <TableCell className="text-muted-foreground">
+                            {format(new Date(trade.entry_date), 'MMM d, yyyy')}
+                          </TableCell>
+                          <TableCell className="font-medium">{trade.symbol}</TableCell>
+                          <TableCell className="capitalize">{trade.direction}</TableCell>
+                          <TableCell className={cn(
+                            'text-right font-medium',
+                            !isOpenTrade(trade) && pl > 0 && 'text-success',
+                            !isOpenTrade(trade) && pl < 0 && 'text-destructive',
+                          )}>
+                            {isOpenTrade(trade) ? 'Open' : formatTrade(trade, pl, { signed: true })}
+                          </TableCell>
+                          <TableCell className="text-muted-foreground">
+                            {format(new Date(trade.deleted_at!), 'MMM d, HH:mm')}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant={daysLeft <= 3 ? 'destructive' : 'outline'}>
+                              {daysLeft === 0 ? 'Today' : `${daysLeft} day${daysLeft === 1 ? '' : 's'}`}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex justify-end gap-1">
+                              <Button variant="ghost" size="sm" onClick={() => restoreTrades([trade.id])}>
+                                <RotateCcw className="w-4 h-4 mr-1" /> Restore
+                              </Button>
+                              <AlertDialog>
+                                <AlertDialogTrigger asChild>
+                                  <Button variant="ghost" size="icon">
+                                    <Trash2 className="w-4 h-4 text-destructive" />
+                                  </Button>
+                                </AlertDialogTrigger>
+                                <AlertDialogContent>
+                                  <AlertDialogHeader>
+                                    <AlertDialogTitle>Delete Permanently</AlertDialogTitle>
+                                    <AlertDialogDescription>
+                                      Permanently delete this {trade.symbol} trade with its executions and screenshots? This cannot be undone.
+                                    </AlertDialogDescription>
+                                  </AlertDialogHeader>
+                                  <AlertDialogFooter>
+                                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                    <AlertDialogAction
+                                      onClick={() => purgeTrades([trade.id])}
+                                      className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                                    >
+                                      Delete Forever
+                                    </AlertDialogAction>
+                                  </AlertDialogFooter>
+                                </AlertDialogContent>
+                              </AlertDialog>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AppLayout>
+  );
+}
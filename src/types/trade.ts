@@ -1,11 +1,28 @@
 export type AssetClass = 'forex' | 'crypto' | 'commodities' | 'stocks';
 export type TradeDirection = 'buy' | 'sell';
-export type TradeStatus = 'win' | 'loss' | 'breakeven';
+export type TradeStatus = 'open' | 'win' | 'loss' | 'breakeven';
 export type ExitReason = 'sl_hit' | 'tp_hit' | 'manual_close' | 'breakeven';
+export type AccountType = 'demo' | 'live' | 'prop';
+export type CashFlowType = 'deposit' | 'withdrawal' | 'transfer' | 'adjustment';
+export type ExecutionSide = 'entry' | 'exit';
+export type PnLBasis = 'gross' | 'net';
+export type ResultUnit = 'currency' | 'r';
+export type RuleAnswer = 'yes' | 'no' | 'n/a';
+export type TradingSession = 'sydney' | 'tokyo' | 'london' | 'new_york';
+export type ScreenshotPhase = 'before' | 'during' | 'after';
+export type TradeChangeSource = 'manual' | 'csv_import' | 'mt5_webhook' | 'restore';
+export type MarketBias = 'bullish' | 'bearish' | 'neutral';
+export type TagColor = 'slate' | 'red' | 'orange' | 'amber' | 'green' | 'teal' | 'blue' | 'violet' | 'pink';
+export type GoalMetric = 'net_pl' | 'win_rate' | 'max_trades_per_day' | 'rule_adherence';
+export type GoalPeriod = 'week' | 'month' | 'quarter';
+export type DrawdownType = 'static' | 'trailing';
+export type ChallengeStatus = 'active' | 'passed' | 'failed';
+export type RiskRule = 'daily_loss' | 'daily_loss_pct' | 'consecutive_losses' | 'trades_per_day' | 'open_risk' | 'lot_size';
 
 export interface Trade {
   id: string;
   user_id: string;
+  account_id: string | null;
   symbol: string;
   asset_class: AssetClass;
   direction: TradeDirection;
@@ -17,6 +34,9 @@ export interface Trade {
   stop_loss: number | null;
   take_profit: number | null;
   profit_loss: number | null;
+  commission: number; // Cost, positive reduces P&L
+  swap: number; // Broker sign, positive is a credit
+  other_fees: number; // Cost, positive reduces P&L
   status: TradeStatus | null;
   exit_reason: ExitReason | null;
   risk_reward_ratio: number | null;
@@ -24,6 +44,7 @@ export interface Trade {
   risk_amount: number | null;
   reward_amount: number | null;
   strategy: string | null;
+  playbook_id: string | null;
   reasoning: string | null;
   lessons: string | null; // Keep for legacy
   tags: string[] | null;
@@ -31,22 +52,20 @@ export interface Trade {
   needs_review: boolean | null;
   setup_type: string | null;
   probability: string | null;
-  rule_in_plan: string | null;
-  rule_bos: string | null;
-  rule_liquidity: string | null;
-  rule_trend: string | null;
-  rule_news: string | null;
-  rule_rr: string | null;
-  rule_emotions: string | null;
-  rule_lot_size: string | null;
+  rule_answers: Record<string, RuleAnswer>; // Keyed by checklist rule id
   emotions_array: string[] | null;
   lessons_learned: string | null;
   mt5_ticket?: string | null;
+  floating_pl: number | null; // Unrealised P&L while the trade is open
+  floating_updated_at: string | null;
+  executions?: TradeExecution[];
+  deleted_at: string | null; // Set while the trade is in the trash
   created_at: string;
   updated_at: string;
 }
 
 export interface TradeFormData {
+  account_id?: string | null;
   symbol: string;
   asset_class: AssetClass;
   direction: TradeDirection;
@@ -57,13 +76,17 @@ export interface TradeFormData {
   lot_size: number;
   stop_loss?: number;
   take_profit?: number;
+  commission?: number;
+  swap?: number;
+  other_fees?: number;
   status: TradeStatus;
-  exit_reason: ExitReason;
+  exit_reason?: ExitReason;
   risk_reward_ratio?: number;
   pips?: number;
   risk_amount?: number;
   reward_amount?: number;
   strategy?: string;
+  playbook_id?: string | null;
   reasoning?: string;
   lessons?: string; // Legacy
   tags?: string[];
@@ -71,23 +94,402 @@ export interface TradeFormData {
   needs_review?: boolean;
   setup_type?: string;
   probability?: string;
-  rule_in_plan?: string;
-  rule_bos?: string;
-  rule_liquidity?: string;
-  rule_trend?: string;
-  rule_news?: string;
-  rule_rr?: string;
-  rule_emotions?: string;
-  rule_lot_size?: string;
+  rule_answers?: Record<string, RuleAnswer>;
   emotions_array?: string[];
   lessons_learned?: string;
   mt5_ticket?: string;
+  executions?: TradeExecutionFormData[];
+}
+
+export interface TradeExecution {
+  id: string;
+  trade_id: string;
+  user_id: string;
+  side: ExecutionSide;
+  price: number;
+  volume: number;
+  executed_at: string;
+  profit_loss: number | null; // Realised P&L, exit legs only
+  commission: number;
+  swap: number;
+  mt5_deal: string | null;
+  created_at: string;
+}
+
+export interface TradeExecutionFormData {
+  id?: string; // A saved fill being edited; new fills have none
+  side: ExecutionSide;
+  price: number;
+  volume: number;
+  executed_at: Date;
+  profit_loss?: number;
+}
+
+// Coordinates are fractions of the image width/height so shapes survive resizing
+export interface ScreenshotAnnotation {
+  id: string;
+  type: 'line' | 'box' | 'text';
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  color: string;
+  text?: string;
+}
+
+export interface TradeScreenshot {
+  id: string;
+  trade_id: string;
+  user_id: string;
+  storage_path: string;
+  phase: ScreenshotPhase;
+  caption: string | null;
+  annotations: ScreenshotAnnotation[];
+  position: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TradeRevision {
+  id: string;
+  trade_id: string;
+  user_id: string;
+  operation: 'insert' | 'update';
+  source: TradeChangeSource;
+  changed_fields: string[];
+  previous: Record<string, unknown> | null; // Raw trades row before the change
+  snapshot: Record<string, unknown>; // Raw trades row after the change
+  created_at: string;
+}
+
+export type ReviewState = 'needs_review' | 'reviewed';
+export type TradeSortKey = 'entry_date' | 'symbol' | 'asset_class' | 'direction' | 'exit_reason' | 'risk_reward_ratio' | 'pl' | 'r_multiple' | 'duration' | 'status' | 'strategy';
+
+// Every field is optional; an empty object matches all trades
+export interface TradeFilters {
+  search?: string;
+  from?: string; // yyyy-MM-dd, by entry date
+  to?: string;
+  symbols?: string[];
+  asset_classes?: AssetClass[];
+  directions?: TradeDirection[];
+  statuses?: TradeStatus[];
+  strategies?: string[];
+  setup_types?: string[];
+  probabilities?: string[];
+  tags?: string[]; // Trades carrying any of these
+  emotions?: string[];
+  rules?: Record<string, RuleAnswer>; // Keyed by checklist rule id
+  exit_reasons?: ExitReason[];
+  min_pl?: number;
+  max_pl?: number;
+  min_r?: number;
+  max_r?: number;
+  review?: ReviewState;
+}
+
+// Filters and searches compiled to a tree that both the app and the database (trade_filter_sql) evaluate.
+// Fields are the search language's names, e.g. "setup" or "pl".
+export type TradeFilterNode =
+  | { op: 'and' | 'or'; nodes: TradeFilterNode[] }
+  | { op: 'not'; node: TradeFilterNode }
+  | { op: 'match'; field: string; pattern: string } // Case-insensitive, "*" is a wildcard
+  | { op: 'in'; field: string; values: string[] } // Exact, any of the values
+  | { op: 'contains'; field: string; value: string }
+  | { op: 'range'; field: string; min?: number | string; max?: number | string; min_exclusive?: boolean; max_exclusive?: boolean }
+  | { op: 'is'; field: string; value: boolean }
+  | { op: 'rule'; rule_id: string; answer: RuleAnswer }
+  | { op: 'search'; value: string }; // A bare word: symbol, strategy or tags containing it
+
+export interface TradeSort {
+  key: TradeSortKey;
+  direction: 'asc' | 'desc';
+}
+
+export interface SavedView {
+  id: string;
+  user_id: string;
+  name: string;
+  filters: TradeFilters;
+  sort: TradeSort | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Omitted fields are left as they are on each trade
+export interface BulkTradeEdit {
+  strategy?: string | null;
+  setup_type?: string | null;
+  add_tags?: string[];
+  remove_tags?: string[];
+  needs_review?: boolean;
+  account_id?: string | null;
+}
+
+export interface TradeTag {
+  id: string;
+  user_id: string;
+  name: string;
+  color: TagColor;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface JournalEntry {
+  id: string;
+  user_id: string;
+  account_id: string | null; // Null when written with all accounts selected
+  entry_date: string; // yyyy-MM-dd
+  premarket_plan: string | null; // Markdown
+  reflection: string | null; // Markdown
+  mood: number | null; // 1-5
+  energy: number | null; // 1-5
+  sleep: number | null; // 1-5
+  market_bias: MarketBias | null;
+  key_levels: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface JournalEntryFormData {
+  premarket_plan?: string | null;
+  reflection?: string | null;
+  mood?: number | null;
+  energy?: number | null;
+  sleep?: number | null;
+  market_bias?: MarketBias | null;
+  key_levels?: string | null;
+}
+
+export interface Goal {
+  id: string;
+  user_id: string;
+  account_id: string | null; // Null when set with all accounts selected
+  metric: GoalMetric;
+  period: GoalPeriod;
+  target: number;
+  starts_on: string; // yyyy-MM-dd, first period the goal applies to
+  archived_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface GoalFormData {
+  metric: GoalMetric;
+  period: GoalPeriod;
+  target: number;
+  starts_on?: string;
+}
+
+export interface RiskLimits {
+  id: string;
+  user_id: string;
+  account_id: string | null; // Null for the default limits used by accounts without their own
+  max_daily_loss: number | null; // Null limits are switched off
+  max_daily_loss_pct: number | null;
+  max_consecutive_losses: number | null;
+  max_trades_per_day: number | null;
+  max_open_risk: number | null;
+  max_lot_size: number | null;
+  symbol_lot_limits: Record<string, number>; // Keyed by normalized symbol
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RiskLimitsFormData {
+  max_daily_loss: number | null;
+  max_daily_loss_pct: number | null;
+  max_consecutive_losses: number | null;
+  max_trades_per_day: number | null;
+  max_open_risk: number | null;
+  max_lot_size: number | null;
+  symbol_lot_limits: Record<string, number>;
+}
+
+export interface RiskBreach {
+  id: string;
+  user_id: string;
+  account_id: string | null;
+  trade_id: string | null; // Null once the trade has been purged
+  rule: RiskRule;
+  limit_value: number;
+  actual_value: number;
+  symbol: string | null;
+  breach_date: string; // UTC trading day, yyyy-MM-dd
+  source: TradeChangeSource;
+  acknowledged_at: string | null;
+  created_at: string;
+}
+
+export interface PropChallenge {
+  id: string;
+  user_id: string;
+  account_id: string;
+  name: string;
+  template: string | null; // Preset the rules were copied from
+  account_size: number;
+  profit_target_pct: number | null; // Null rules don't apply to the challenge
+  max_daily_drawdown_pct: number | null;
+  max_overall_drawdown_pct: number | null;
+  drawdown_type: DrawdownType;
+  min_trading_days: number | null;
+  consistency_pct: number | null; // Max share of total profit from a single day
+  starts_on: string; // yyyy-MM-dd
+  ends_on: string | null;
+  status: ChallengeStatus;
+  result_note: string | null;
+  closed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PropChallengeFormData {
+  account_id: string;
+  name: string;
+  template?: string | null;
+  account_size: number;
+  profit_target_pct: number | null;
+  max_daily_drawdown_pct: number | null;
+  max_overall_drawdown_pct: number | null;
+  drawdown_type: DrawdownType;
+  min_trading_days: number | null;
+  consistency_pct: number | null;
+  starts_on: string;
+  ends_on: string | null;
+}
+
+export interface TradingAccount {
+  id: string;
+  user_id: string;
+  name: string;
+  broker: string | null;
+  currency: string;
+  starting_balance: number;
+  account_type: AccountType;
+  created_at: string;
+  updated_at: string;
+}
+
+// Server-side totals per account, from the get_trade_summary function
+export interface TradeSummary {
+  account_id: string | null;
+  total_trades: number;
+  open_trades: number;
+  wins: number;
+  losses: number;
+  gross_pl: number;
+  net_pl: number;
+  last_entry_at: string | null;
+}
+
+export interface TradingAccountFormData {
+  name: string;
+  broker?: string;
+  currency: string;
+  starting_balance: number;
+  account_type: AccountType;
+}
+
+export interface Instrument {
+  id: string;
+  user_id: string;
+  symbol: string;
+  aliases: string[];
+  asset_class: AssetClass;
+  pip_size: number;
+  contract_size: number;
+  quote_currency: string;
+  tick_value: number | null; // Value of one pip on one lot; null derives it from the contract
+  created_at: string;
+  updated_at: string;
+}
+
+export interface InstrumentFormData {
+  symbol: string;
+  aliases: string[];
+  asset_class: AssetClass;
+  pip_size: number;
+  contract_size: number;
+  quote_currency: string;
+  tick_value: number | null;
+}
+
+export interface ChecklistRule {
+  id: string;
+  user_id: string;
+  label: string;
+  description: string | null;
+  weight: number; // Relative importance in the checklist score
+  position: number;
+  archived_at: string | null;
+  legacy_field: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ChecklistRuleFormData {
+  label: string;
+  description?: string | null;
+  weight?: number;
+}
+
+export interface Playbook {
+  id: string;
+  user_id: string;
+  name: string;
+  description: string | null;
+  entry_criteria: string | null;
+  exit_criteria: string | null;
+  target_r: number | null;
+  allowed_symbols: string[]; // Empty allows any symbol
+  allowed_sessions: TradingSession[]; // Empty allows any session
+  rule_ids: string[]; // Linked checklist rules; empty uses the full checklist
+  example_trade_ids: string[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PlaybookFormData {
+  name: string;
+  description?: string | null;
+  entry_criteria?: string | null;
+  exit_criteria?: string | null;
+  target_r?: number | null;
+  allowed_symbols?: string[];
+  allowed_sessions?: TradingSession[];
+  rule_ids?: string[];
+  example_trade_ids?: string[];
+}
+
+export interface CashFlow {
+  id: string;
+  user_id: string;
+  account_id: string;
+  flow_type: CashFlowType;
+  amount: number; // Signed: positive = into the account
+  occurred_at: string;
+  transfer_group: string | null;
+  counterparty_account_id: string | null;
+  note: string | null;
+  created_at: string;
+}
+
+export interface CashFlowFormData {
+  account_id: string;
+  flow_type: CashFlowType;
+  amount: number; // Always entered as a positive number except for adjustments
+  occurred_at: Date;
+  to_account_id?: string; // Destination for transfers
+  note?: string;
 }
 
 export interface Profile {
   id: string;
   display_name: string | null;
   avatar_url: string | null;
+  pnl_basis: PnLBasis;
+  result_unit: ResultUnit;
+  timezone: string | null; // IANA zone for time-of-day analytics; null uses the browser's
   created_at: string;
   updated_at: string;
 }
@@ -1,4 +1,7 @@
-import { Trade } from '@/types/trade';
+import { CashFlow, ChecklistRule, PnLBasis, Trade } from '@/types/trade';
+import { getChecklistScore } from './checklist';
+import { summarizeExecutions } from './executions';
+import { getZonedTime } from './timezone';
 
 export interface TradeStats {
   totalTrades: number;
@@ -7,6 +10,11 @@ export interface TradeStats {
   breakevenTrades: number;
   winRate: number;
   totalProfitLoss: number;
+  grossProfitLoss: number;
+  netProfitLoss: number;
+  totalCommission: number;
+  totalSwap: number;
+  totalOtherFees: number;
   averageWin: number;
   averageLoss: number;
   largestWin: number;
@@ -18,6 +26,61 @@ export interface TradeStats {
   totalRiskAmount: number;
   averagePips: number;
   totalPips: number;
+  startingBalance: number;
+  netCashFlow: number;
+  currentBalance: number;
+  percentGain: number;
+  timeWeightedReturn: number;
+  rTrades: number; // Closed trades with a known R multiple; the R stats below only count these
+  totalR: number;
+  averageR: number;
+  averageWinR: number;
+  averageLossR: number; // Positive, like averageLoss
+  largestWinR: number;
+  largestLossR: number;
+  expectancyR: number;
+  sqn: number; // System quality number: sqrt(trades, capped at 100) × mean R / standard deviation of R
+}
+
+export interface AccountLedger {
+  startingBalance: number;
+  cashFlows: CashFlow[];
+}
+
+export interface EquityPoint {
+  date: string;
+  equity: number;
+  balance: number;
+  returnPct: number;
+}
+
+export interface DrawdownPoint {
+  date: string;
+  drawdown: number; // Zero or negative: P&L given back since the last peak
+  drawdownPct: number | null; // Null without a ledger to measure against
+}
+
+export interface DrawdownEpisode {
+  start: string; // When the peak it fell from was set
+  trough: string;
+  recovered: string | null; // Null while still under water
+  depth: number; // Amount given back at the trough, positive
+  depthPct: number | null; // Of the balance at the peak
+  durationDays: number; // Peak to recovery, or to now while still open
+  recoveryDays: number | null; // Trough back to the peak
+  tradeIds: string[]; // Losing trades between the peak and the trough
+}
+
+export interface DrawdownStats {
+  maxDrawdown: number;
+  maxDrawdownPct: number | null;
+  currentDrawdown: number;
+  currentDrawdownPct: number | null;
+  longestDrawdownDays: number;
+  maxDrawdownRecoveryDays: number | null; // Null until the deepest drawdown has recovered
+  averageRecoveryDays: number | null;
+  episodes: DrawdownEpisode[]; // Deepest first
+  underwater: DrawdownPoint[];
 }
 
 export interface StrategyStats {
@@ -28,6 +91,8 @@ export interface StrategyStats {
   winRate: number;
   totalPL: number;
   averageRR: number;
+  totalR: number;
+  averageR: number | null; // Null when none of the strategy's trades has a known R multiple
 }
 
 export interface ExitReasonStats {
@@ -37,150 +102,438 @@ export interface ExitReasonStats {
   totalPL: number;
 }
 
-export function calculateStats(trades: Trade[]): TradeStats {
-  const completedTrades = trades.filter(t => t.status);
-  const wins = completedTrades.filter(t => t.status === 'win');
-  const losses = completedTrades.filter(t => t.status === 'loss');
-  const breakeven = completedTrades.filter(t => t.status === 'breakeven');
+export function isOpenTrade(trade: Trade): boolean {
+  return trade.status === 'open';
+}
+
+// Open positions carry no realised result and are left out of performance stats
+export function isClosedTrade(trade: Trade): boolean {
+  return Boolean(trade.status) && !isOpenTrade(trade);
+}
+
+// Realised P&L before costs. Trades with executions use the sum of their exit legs.
+export function getGrossPL(trade: Trade): number {
+  if (trade.executions?.length) {
+    const { realizedPL } = summarizeExecutions(trade.executions);
+    if (realizedPL !== null) return realizedPL;
+  }
+  return trade.reward_amount !== null
+    ? (trade.status === 'loss' ? -Math.abs(trade.reward_amount) : trade.reward_amount)
+    : (trade.profit_loss || 0);
+}
+
+// Commission and fees are costs; swap is signed as reported, so a credit reduces costs
+export function getTradeCosts(trade: Trade): number {
+  return Number(trade.commission || 0) + Number(trade.other_fees || 0) - Number(trade.swap || 0);
+}
+
+export function getTradePL(trade: Trade, basis: PnLBasis = 'net'): number {
+  const gross = getGrossPL(trade);
+  return basis === 'gross' ? gross : gross - getTradeCosts(trade);
+}
+
+// Realised result in multiples of the recorded risk amount; null without one. Top-level prices can't
+// stand in for it: they ignore scaled legs, costs and the instrument's contract value.
+export function getRMultiple(trade: Trade, basis: PnLBasis = 'net'): number | null {
+  const risk = Number(trade.risk_amount || 0);
+  return risk > 0 ? getTradePL(trade, basis) / risk : null;
+}
+
+export function formatR(value: number, digits = 2): string {
+  return `${value >= 0 ? '+' : '-'}${Math.abs(value).toFixed(digits)}R`;
+}
+
+// Minutes from entry to exit; null while the trade is open or when the exit is logged before the entry
+export function getHoldingMinutes(trade: Trade): number | null {
+  if (!trade.exit_date || !isClosedTrade(trade)) return null;
+  const minutes = (new Date(trade.exit_date).getTime() - new Date(trade.entry_date).getTime()) / 60000;
+  return minutes >= 0 ? minutes : null;
+}
+
+// 45 -> "45m", 200 -> "3h 20m", 3000 -> "2d 2h"
+export function formatDuration(minutes: number): string {
+  const total = Math.floor(minutes);
+  if (total < 1) return '< 1m';
+  if (total < 60) return `${total}m`;
+  const hours = Math.floor(total / 60);
+  if (hours < 24) return total % 60 ? `${hours}h ${total % 60}m` : `${hours}h`;
+  return hours % 24 ? `${Math.floor(hours / 24)}d ${hours % 24}h` : `${Math.floor(hours / 24)}d`;
+}
+
+export function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+// Sums over closed trades that the headline stats and breakdowns are derived from. The database's
+// get_trade_stats returns the same figures, so pages can show them without loading the trades.
+export interface TradeTotals {
+  trades: number;
+  wins: number;
+  losses: number;
+  breakeven: number;
+  totalPL: number;
+  grossPL: number;
+  commission: number;
+  swap: number;
+  otherFees: number;
+  winAmount: number; // Magnitudes, like the largest win and loss
+  lossAmount: number;
+  largestWin: number;
+  largestLoss: number;
+  rrTrades: number; // Trades with a logged risk:reward
+  rrTotal: number;
+  riskTrades: number;
+  riskTotal: number;
+  pipTrades: number;
+  pipTotal: number;
+  rTrades: number; // Trades with a known R multiple
+  rTotal: number;
+  rSquares: number;
+  winRTrades: number;
+  winRTotal: number;
+  lossRTrades: number;
+  lossRTotal: number; // Positive, like averageLossR
+  largestWinR: number;
+  largestLossR: number;
+}
+
+// What breakdowns group closed trades by; months and weekdays are taken in a time zone
+export type TradeGroup = 'strategy' | 'symbol' | 'asset' | 'exit' | 'month' | 'weekday' | 'playbook';
+
+export interface TradeGroupTotals extends TradeTotals {
+  key: string; // Strategy name, symbol, yyyy-MM, weekday 0-6 from Sunday, playbook id, ...
+}
+
+// A closed trade on the equity curve; get_trade_points returns these for a page's filters
+export interface TradePoint {
+  id: string;
+  time: number;
+  pl: number;
+}
 
-  // Calculate profit/loss totals
-  const totalPL = completedTrades.reduce((sum, t) => {
-    if (t.reward_amount !== null) {
-      return sum + (t.status === 'loss' ? -Math.abs(t.reward_amount) : t.reward_amount);
+export const emptyTotals = (): TradeTotals => ({
+  trades: 0, wins: 0, losses: 0, breakeven: 0,
+  totalPL: 0, grossPL: 0, commission: 0, swap: 0, otherFees: 0,
+  winAmount: 0, lossAmount: 0, largestWin: 0, largestLoss: 0,
+  rrTrades: 0, rrTotal: 0, riskTrades: 0, riskTotal: 0, pipTrades: 0, pipTotal: 0,
+  rTrades: 0, rTotal: 0, rSquares: 0, winRTrades: 0, winRTotal: 0, lossRTrades: 0, lossRTotal: 0,
+  largestWinR: 0, largestLossR: 0,
+});
+
+function addTrade(totals: TradeTotals, trade: Trade, basis: PnLBasis) {
+  const pl = getTradePL(trade, basis);
+  const r = getRMultiple(trade, basis);
+  totals.trades++;
+  totals.totalPL += pl;
+  totals.grossPL += getGrossPL(trade);
+  totals.commission += Number(trade.commission || 0);
+  totals.swap += Number(trade.swap || 0);
+  totals.otherFees += Number(trade.other_fees || 0);
+  if (trade.status === 'win') {
+    totals.wins++;
+    totals.winAmount += Math.abs(pl);
+    totals.largestWin = Math.max(totals.largestWin, Math.abs(pl));
+  } else if (trade.status === 'loss') {
+    totals.losses++;
+    totals.lossAmount += Math.abs(pl);
+    totals.largestLoss = Math.max(totals.largestLoss, Math.abs(pl));
+  } else if (trade.status === 'breakeven') {
+    totals.breakeven++;
+  }
+  if (trade.risk_reward_ratio !== null) {
+    totals.rrTrades++;
+    totals.rrTotal += trade.risk_reward_ratio || 0;
+  }
+  if (trade.risk_amount !== null) {
+    totals.riskTrades++;
+    totals.riskTotal += trade.risk_amount || 0;
+  }
+  if (trade.pips !== null) {
+    totals.pipTrades++;
+    totals.pipTotal += trade.pips || 0;
+  }
+  if (r !== null) {
+    totals.rTrades++;
+    totals.rTotal += r;
+    totals.rSquares += r * r;
+    if (r > 0) {
+      totals.winRTrades++;
+      totals.winRTotal += r;
+      totals.largestWinR = Math.max(totals.largestWinR, r);
+    } else if (r < 0) {
+      totals.lossRTrades++;
+      totals.lossRTotal -= r;
+      totals.largestLossR = Math.max(totals.largestLossR, -r);
     }
-    return sum + (t.profit_loss || 0);
-  }, 0);
+  }
+}
 
-  const totalWinAmount = wins.reduce((sum, t) => sum + Math.abs(t.reward_amount || t.profit_loss || 0), 0);
-  const totalLossAmount = losses.reduce((sum, t) => sum + Math.abs(t.reward_amount || t.profit_loss || 0), 0);
+export function summarizeTrades(trades: Trade[], basis: PnLBasis = 'net'): TradeTotals {
+  const totals = emptyTotals();
+  trades.filter(isClosedTrade).forEach(trade => addTrade(totals, trade, basis));
+  return totals;
+}
 
-  const averageWin = wins.length > 0 ? totalWinAmount / wins.length : 0;
-  const averageLoss = losses.length > 0 ? totalLossAmount / losses.length : 0;
+function groupKey(trade: Trade, group: TradeGroup, timeZone?: string): string | null {
+  switch (group) {
+    case 'strategy': return trade.strategy || 'No Strategy';
+    case 'symbol': return trade.symbol;
+    case 'asset': return trade.asset_class;
+    case 'exit': return trade.exit_reason;
+    case 'playbook': return trade.playbook_id;
+    case 'month': {
+      if (!trade.exit_date) return null;
+      const date = new Date(trade.exit_date);
+      return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+    }
+    case 'weekday':
+      return String(timeZone ? getZonedTime(trade.entry_date, timeZone).weekday : new Date(trade.entry_date).getDay());
+  }
+}
 
-  // Largest win/loss
-  const winAmounts = wins.map(t => Math.abs(t.reward_amount || t.profit_loss || 0));
-  const lossAmounts = losses.map(t => -Math.abs(t.reward_amount || t.profit_loss || 0));
+// Same groups as get_trade_stats: months in the browser's zone, weekdays in the given one or the browser's
+export function groupTrades(trades: Trade[], group: TradeGroup, basis: PnLBasis = 'net', timeZone?: string): TradeGroupTotals[] {
+  const groups = new Map<string, TradeGroupTotals>();
+  trades.filter(isClosedTrade).forEach(trade => {
+    const key = groupKey(trade, group, timeZone);
+    if (key === null) return;
+    if (!groups.has(key)) groups.set(key, { key, ...emptyTotals() });
+    addTrade(groups.get(key)!, trade, basis);
+  });
+  return Array.from(groups.values());
+}
+
+export function getTradePoints(trades: Trade[], basis: PnLBasis = 'net'): TradePoint[] {
+  return trades
+    .filter(t => t.exit_date && isClosedTrade(t))
+    .map(t => ({ id: t.id, time: new Date(t.exit_date!).getTime(), pl: getTradePL(t, basis) }));
+}
+
+// Walks closed trades and cash flows in time order. Each trade's return is measured
+// against the balance just before it, so deposits and withdrawals move the balance
+// without counting as performance (time-weighted return).
+function buildLedgerTimeline(trades: TradePoint[], ledger?: AccountLedger) {
+  const events = [
+    ...trades.map(t => ({ time: t.time, pl: t.pl, flow: 0, tradeId: t.id as string | null })),
+    ...(ledger?.cashFlows || []).map(f => ({ time: new Date(f.occurred_at).getTime(), pl: 0, flow: Number(f.amount), tradeId: null })),
+  ].sort((a, b) => a.time - b.time);
+
+  let balance = ledger?.startingBalance || 0;
+  let cumulative = 0;
+  let growth = 1;
+
+  const points = events.map(event => {
+    if (event.flow === 0 && balance > 0) {
+      growth *= 1 + event.pl / balance;
+    }
+    balance += event.pl + event.flow;
+    cumulative += event.pl;
+    return {
+      time: event.time,
+      tradeId: event.tradeId,
+      pl: event.pl,
+      isTrade: event.flow === 0,
+      equity: cumulative,
+      balance,
+      returnPct: (growth - 1) * 100,
+    };
+  });
 
-  const largestWin = winAmounts.length > 0 ? Math.max(...winAmounts) : 0;
-  const largestLoss = lossAmounts.length > 0 ? Math.min(...lossAmounts) : 0;
+  return { points, timeWeightedReturn: (growth - 1) * 100 };
+}
+
+export function getTimeWeightedReturn(points: TradePoint[], ledger?: AccountLedger): number {
+  return buildLedgerTimeline(points, ledger).timeWeightedReturn;
+}
+
+export function statsFromTotals(totals: TradeTotals, ledger?: AccountLedger, timeWeightedReturn = 0): TradeStats {
+  const { trades, wins, losses, winAmount, lossAmount, totalPL, rTrades } = totals;
+  const averageWin = wins > 0 ? winAmount / wins : 0;
+  const averageLoss = losses > 0 ? lossAmount / losses : 0;
 
   // Profit factor
-  const profitFactor = totalLossAmount > 0 ? totalWinAmount / totalLossAmount : totalWinAmount > 0 ? Infinity : 0;
+  const profitFactor = lossAmount > 0 ? winAmount / lossAmount : winAmount > 0 ? Infinity : 0;
 
   // Average R:R from actual logged values
-  const tradesWithRR = completedTrades.filter(t => t.risk_reward_ratio !== null);
-  const averageRR = tradesWithRR.length > 0
-    ? tradesWithRR.reduce((sum, t) => sum + (t.risk_reward_ratio || 0), 0) / tradesWithRR.length
+  const averageRR = totals.rrTrades > 0
+    ? totals.rrTotal / totals.rrTrades
     : averageLoss > 0 ? averageWin / averageLoss : 0;
 
   // Win rate
-  const winRate = completedTrades.length > 0 ? (wins.length / completedTrades.length) * 100 : 0;
+  const winRate = trades > 0 ? (wins / trades) * 100 : 0;
 
   // Expectancy = (Win Rate × Average Win) - (Loss Rate × Average Loss)
-  const lossRate = completedTrades.length > 0 ? losses.length / completedTrades.length : 0;
+  const lossRate = trades > 0 ? losses / trades : 0;
   const expectancy = (winRate / 100 * averageWin) - (lossRate * averageLoss);
 
-  // Risk stats
-  const tradesWithRisk = completedTrades.filter(t => t.risk_amount !== null);
-  const totalRiskAmount = tradesWithRisk.reduce((sum, t) => sum + (t.risk_amount || 0), 0);
-  const averageRiskAmount = tradesWithRisk.length > 0 ? totalRiskAmount / tradesWithRisk.length : 0;
-
-  // Pips stats
-  const tradesWithPips = completedTrades.filter(t => t.pips !== null);
-  const totalPips = tradesWithPips.reduce((sum, t) => sum + (t.pips || 0), 0);
-  const averagePips = tradesWithPips.length > 0 ? totalPips / tradesWithPips.length : 0;
+  // Balance and returns; gain is measured against the capital actually put in
+  const startingBalance = ledger?.startingBalance || 0;
+  const netCashFlow = (ledger?.cashFlows || []).reduce((sum, f) => sum + Number(f.amount), 0);
+  const investedCapital = startingBalance + netCashFlow;
+  const percentGain = investedCapital > 0 ? (totalPL / investedCapital) * 100 : 0;
+
+  // R multiples; the standard deviation comes from the sum of squares so the database can supply it
+  const averageR = rTrades > 0 ? totals.rTotal / rTrades : 0;
+  const averageWinR = totals.winRTrades > 0 ? totals.winRTotal / totals.winRTrades : 0;
+  const averageLossR = totals.lossRTrades > 0 ? totals.lossRTotal / totals.lossRTrades : 0;
+  const expectancyR = rTrades > 0
+    ? (totals.winRTrades / rTrades) * averageWinR - (totals.lossRTrades / rTrades) * averageLossR
+    : 0;
+  const rStdDev = rTrades > 1
+    ? Math.sqrt(Math.max(0, totals.rSquares - rTrades * averageR ** 2) / (rTrades - 1))
+    : 0;
+  const sqn = rStdDev > 0 ? Math.sqrt(Math.min(rTrades, 100)) * averageR / rStdDev : 0;
 
   return {
-    totalTrades: completedTrades.length,
-    winningTrades: wins.length,
-    losingTrades: losses.length,
-    breakevenTrades: breakeven.length,
+    totalTrades: trades,
+    winningTrades: wins,
+    losingTrades: losses,
+    breakevenTrades: totals.breakeven,
     winRate,
     totalProfitLoss: totalPL,
+    grossProfitLoss: totals.grossPL,
+    netProfitLoss: totals.grossPL - totals.commission - totals.otherFees + totals.swap,
+    totalCommission: totals.commission,
+    totalSwap: totals.swap,
+    totalOtherFees: totals.otherFees,
     averageWin,
     averageLoss,
-    largestWin,
-    largestLoss,
+    largestWin: totals.largestWin,
+    largestLoss: totals.largestLoss > 0 ? -totals.largestLoss : 0,
     profitFactor,
     averageRR,
     expectancy,
-    averageRiskAmount,
-    totalRiskAmount,
-    averagePips,
-    totalPips,
+    averageRiskAmount: totals.riskTrades > 0 ? totals.riskTotal / totals.riskTrades : 0,
+    totalRiskAmount: totals.riskTotal,
+    averagePips: totals.pipTrades > 0 ? totals.pipTotal / totals.pipTrades : 0,
+    totalPips: totals.pipTotal,
+    startingBalance,
+    netCashFlow,
+    currentBalance: investedCapital + totalPL,
+    percentGain,
+    timeWeightedReturn,
+    rTrades,
+    totalR: totals.rTotal,
+    averageR,
+    averageWinR,
+    averageLossR,
+    largestWinR: totals.largestWinR,
+    largestLossR: totals.largestLossR > 0 ? -totals.largestLossR : 0,
+    expectancyR,
+    sqn,
   };
 }
 
-export function getEquityCurve(trades: Trade[]): { date: string; equity: number }[] {
-  const sortedTrades = [...trades]
-    .filter(t => t.exit_date && t.status)
-    .sort((a, b) => new Date(a.exit_date!).getTime() - new Date(b.exit_date!).getTime());
+export function calculateStats(trades: Trade[], ledger?: AccountLedger, basis: PnLBasis = 'net'): TradeStats {
+  return statsFromTotals(summarizeTrades(trades, basis), ledger, getTimeWeightedReturn(getTradePoints(trades, basis), ledger));
+}
 
-  let cumulative = 0;
-  return sortedTrades.map(trade => {
-    const pl = trade.reward_amount !== null
-      ? (trade.status === 'loss' ? -Math.abs(trade.reward_amount) : trade.reward_amount)
-      : (trade.profit_loss || 0);
-    cumulative += pl;
-    return {
-      date: new Date(trade.exit_date!).toLocaleDateString(),
-      equity: cumulative,
-    };
-  });
+export function getEquityCurve(trades: TradePoint[], ledger?: AccountLedger): EquityPoint[] {
+  // Without a ledger only trades are plotted; with one, cash flows add balance steps
+  return buildLedgerTimeline(trades, ledger).points
+    .filter(point => ledger || point.isTrade)
+    .map(point => ({
+      date: new Date(point.time).toLocaleDateString(),
+      equity: point.equity,
+      balance: point.balance,
+      returnPct: point.returnPct,
+    }));
 }
 
-export function getTradesByAssetClass(trades: Trade[]): { name: string; value: number; profit: number }[] {
-  const grouped = trades.reduce((acc, trade) => {
-    const key = trade.asset_class;
-    if (!acc[key]) {
-      acc[key] = { count: 0, profit: 0 };
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Drawdowns on cumulative P&L, so deposits and withdrawals never count as one. Percentages are of
+// the balance at the peak, which needs a ledger; without one they're null.
+export function getDrawdowns(trades: TradePoint[], ledger?: AccountLedger, now = Date.now()): DrawdownStats {
+  const points = buildLedgerTimeline(trades, ledger).points.filter(point => point.isTrade);
+  const closed: DrawdownEpisode[] = [];
+  const underwater: DrawdownPoint[] = [];
+
+  let peak = 0;
+  let peakTime: number | null = null;
+  let open: { start: number; trough: number; depth: number; depthPct: number | null; tradeIds: string[]; pending: string[] } | null = null;
+
+  const toEpisode = (episode: NonNullable<typeof open>, recovered: number | null): DrawdownEpisode => ({
+    start: new Date(episode.start).toISOString(),
+    trough: new Date(episode.trough).toISOString(),
+    recovered: recovered === null ? null : new Date(recovered).toISOString(),
+    depth: episode.depth,
+    depthPct: episode.depthPct,
+    durationDays: ((recovered ?? now) - episode.start) / DAY_MS,
+    recoveryDays: recovered === null ? null : (recovered - episode.trough) / DAY_MS,
+    tradeIds: episode.tradeIds,
+  });
+
+  points.forEach(point => {
+    const date = new Date(point.time).toLocaleDateString();
+    if (point.equity >= peak) {
+      if (open) closed.push(toEpisode(open, point.time));
+      open = null;
+      peak = point.equity;
+      peakTime = point.time;
+      underwater.push({ date, drawdown: 0, drawdownPct: ledger ? 0 : null });
+      return;
     }
-    acc[key].count++;
-    const pl = trade.reward_amount !== null
-      ? (trade.status === 'loss' ? -Math.abs(trade.reward_amount) : trade.reward_amount)
-      : (trade.profit_loss || 0);
-    acc[key].profit += pl;
-    return acc;
-  }, {} as Record<string, { count: number; profit: number }>);
 
-  return Object.entries(grouped).map(([name, data]) => ({
-    name: name.charAt(0).toUpperCase() + name.slice(1),
-    value: data.count,
-    profit: data.profit,
-  }));
-}
+    const depth = peak - point.equity;
+    const peakBalance = point.balance + depth;
+    const depthPct = ledger && peakBalance > 0 ? (depth / peakBalance) * 100 : null;
+    if (!open) open = { start: peakTime ?? point.time, trough: point.time, depth: 0, depthPct: null, tradeIds: [], pending: [] };
+    if (point.pl < 0 && point.tradeId) open.pending.push(point.tradeId);
+    // Losses only count toward the episode once the curve makes a new low after them
+    if (depth > open.depth) {
+      open.depth = depth;
+      open.depthPct = depthPct;
+      open.trough = point.time;
+      open.tradeIds = [...open.tradeIds, ...open.pending];
+      open.pending = [];
+    }
+    underwater.push({ date, drawdown: -depth, drawdownPct: depthPct === null ? null : -depthPct });
+  });
 
-export function getMonthlyPerformance(trades: Trade[]): { month: string; profit: number; trades: number; winRate: number }[] {
-  const completedTrades = trades.filter(t => t.exit_date && t.status);
+  const episodes = [...closed, ...(open ? [toEpisode(open, null)] : [])].sort((a, b) => b.depth - a.depth);
+  const recovered = episodes.filter(e => e.recoveryDays !== null);
+  const percents = episodes.map(e => e.depthPct).filter((pct): pct is number => pct !== null);
+  const last = underwater[underwater.length - 1];
 
-  const grouped = completedTrades.reduce((acc, trade) => {
-    const date = new Date(trade.exit_date!);
-    const monthKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+  return {
+    maxDrawdown: episodes[0]?.depth ?? 0,
+    maxDrawdownPct: percents.length > 0 ? Math.max(...percents) : ledger ? 0 : null,
+    currentDrawdown: last ? -last.drawdown : 0,
+    currentDrawdownPct: last?.drawdownPct != null ? -last.drawdownPct : ledger ? 0 : null,
+    longestDrawdownDays: episodes.length > 0 ? Math.max(...episodes.map(e => e.durationDays)) : 0,
+    maxDrawdownRecoveryDays: episodes[0]?.recoveryDays ?? null,
+    averageRecoveryDays: recovered.length > 0
+      ? recovered.reduce((sum, e) => sum + (e.recoveryDays ?? 0), 0) / recovered.length
+      : null,
+    episodes,
+    underwater,
+  };
+}
 
-    if (!acc[monthKey]) {
-      acc[monthKey] = { profit: 0, trades: 0, wins: 0 };
-    }
-    const pl = trade.reward_amount !== null
-      ? (trade.status === 'loss' ? -Math.abs(trade.reward_amount) : trade.reward_amount)
-      : (trade.profit_loss || 0);
-    acc[monthKey].profit += pl;
-    acc[monthKey].trades++;
-    if (trade.status === 'win') acc[monthKey].wins++;
-    return acc;
-  }, {} as Record<string, { profit: number; trades: number; wins: number }>);
-
-  return Object.entries(grouped)
-    .sort(([a], [b]) => a.localeCompare(b))
-    .map(([month, data]) => ({
-      month: new Date(month + '-01').toLocaleDateString('en-US', { month: 'short', year: 'numeric' }),
-      profit: data.profit,
-      trades: data.trades,
-      winRate: data.trades > 0 ? (data.wins / data.trades) * 100 : 0,
+export function getTradesByAssetClass(groups: TradeGroupTotals[]): { name: string; value: number; profit: number }[] {
+  return groups.map(group => ({
+    name: group.key.charAt(0).toUpperCase() + group.key.slice(1),
+    value: group.trades,
+    profit: group.totalPL,
+  }));
+}
+
+export function getMonthlyPerformance(groups: TradeGroupTotals[]): { month: string; profit: number; trades: number; winRate: number }[] {
+  return [...groups]
+    .sort((a, b) => a.key.localeCompare(b.key))
+    .map(group => ({
+      month: new Date(group.key + '-01').toLocaleDateString('en-US', { month: 'short', year: 'numeric' }),
+      profit: group.totalPL,
+      trades: group.trades,
+      winRate: group.trades > 0 ? (group.wins / group.trades) * 100 : 0,
     }));
 }
 
-export function getWinLossDistribution(trades: Trade[]): { name: string; value: number }[] {
-  const stats = calculateStats(trades);
+export function getWinLossDistribution(stats: TradeStats): { name: string; value: number }[] {
   return [
     { name: 'Wins', value: stats.winningTrades },
     { name: 'Losses', value: stats.losingTrades },
@@ -188,97 +541,76 @@ export function getWinLossDistribution(trades: Trade[]): { name: string; value:
   ].filter(d => d.value > 0);
 }
 
-export function getStrategyPerformance(trades: Trade[]): StrategyStats[] {
-  const grouped = trades.reduce((acc, trade) => {
-    const strategy = trade.strategy || 'No Strategy';
-    if (!acc[strategy]) {
-      acc[strategy] = { trades: 0, wins: 0, losses: 0, totalPL: 0, totalRR: 0, rrCount: 0 };
-    }
-    acc[strategy].trades++;
-    if (trade.status === 'win') acc[strategy].wins++;
-    if (trade.status === 'loss') acc[strategy].losses++;
-
-    const pl = trade.reward_amount !== null
-      ? (trade.status === 'loss' ? -Math.abs(trade.reward_amount) : trade.reward_amount)
-      : (trade.profit_loss || 0);
-    acc[strategy].totalPL += pl;
-
-    if (trade.risk_reward_ratio !== null) {
-      acc[strategy].totalRR += trade.risk_reward_ratio;
-      acc[strategy].rrCount++;
-    }
-    return acc;
-  }, {} as Record<string, { trades: number; wins: number; losses: number; totalPL: number; totalRR: number; rrCount: number }>);
+export interface RBucket {
+  label: string;
+  min: number; // Inclusive lower edge; the first and last buckets are open-ended
+  count: number;
+}
 
-  return Object.entries(grouped)
-    .map(([strategy, data]) => ({
-      strategy,
-      trades: data.trades,
-      wins: data.wins,
-      losses: data.losses,
-      winRate: data.trades > 0 ? (data.wins / data.trades) * 100 : 0,
-      totalPL: data.totalPL,
-      averageRR: data.rrCount > 0 ? data.totalRR / data.rrCount : 0,
+// Closed trades per 1R-wide bucket from -3R to +5R, with everything beyond folded into the end buckets
+export function getRDistribution(trades: Trade[], basis: PnLBasis = 'net'): RBucket[] {
+  const buckets: RBucket[] = [];
+  for (let min = -3; min <= 5; min++) {
+    const label = min === -3 ? '< -2R' : min === 5 ? '5R+' : `${min}R to ${min + 1}R`;
+    buckets.push({ label, min, count: 0 });
+  }
+
+  trades.filter(isClosedTrade).forEach(trade => {
+    const r = getRMultiple(trade, basis);
+    if (r === null) return;
+    const index = Math.min(Math.max(Math.floor(r), -3), 5) + 3;
+    buckets[index].count++;
+  });
+
+  return buckets;
+}
+
+export function getStrategyPerformance(groups: TradeGroupTotals[]): StrategyStats[] {
+  return groups
+    .map(group => ({
+      strategy: group.key,
+      trades: group.trades,
+      wins: group.wins,
+      losses: group.losses,
+      winRate: group.trades > 0 ? (group.wins / group.trades) * 100 : 0,
+      totalPL: group.totalPL,
+      averageRR: group.rrTrades > 0 ? group.rrTotal / group.rrTrades : 0,
+      totalR: group.rTotal,
+      averageR: group.rTrades > 0 ? group.rTotal / group.rTrades : null,
     }))
     .sort((a, b) => b.totalPL - a.totalPL);
 }
 
-export function getExitReasonStats(trades: Trade[]): ExitReasonStats[] {
-  const completedTrades = trades.filter(t => t.exit_reason);
-
-  const grouped = completedTrades.reduce((acc, trade) => {
-    const reason = trade.exit_reason || 'unknown';
-    if (!acc[reason]) {
-      acc[reason] = { count: 0, totalPL: 0 };
-    }
-    acc[reason].count++;
-    const pl = trade.reward_amount !== null
-      ? (trade.status === 'loss' ? -Math.abs(trade.reward_amount) : trade.reward_amount)
-      : (trade.profit_loss || 0);
-    acc[reason].totalPL += pl;
-    return acc;
-  }, {} as Record<string, { count: number; totalPL: number }>);
-
-  const total = completedTrades.length;
-  const reasonLabels: Record<string, string> = {
-    tp_hit: 'Take Profit Hit',
-    sl_hit: 'Stop Loss Hit',
-    manual_close: 'Manual Close',
-    breakeven: 'Breakeven Exit',
-  };
-
-  return Object.entries(grouped)
-    .map(([reason, data]) => ({
-      reason: reasonLabels[reason] || reason,
-      count: data.count,
-      percentage: total > 0 ? (data.count / total) * 100 : 0,
-      totalPL: data.totalPL,
+const reasonLabels: Record<string, string> = {
+  tp_hit: 'Take Profit Hit',
+  sl_hit: 'Stop Loss Hit',
+  manual_close: 'Manual Close',
+  breakeven: 'Breakeven Exit',
+};
+
+export function getExitReasonStats(groups: TradeGroupTotals[]): ExitReasonStats[] {
+  const total = groups.reduce((sum, group) => sum + group.trades, 0);
+  return groups
+    .map(group => ({
+      reason: reasonLabels[group.key] || group.key,
+      count: group.trades,
+      percentage: total > 0 ? (group.trades / total) * 100 : 0,
+      totalPL: group.totalPL,
     }))
     .sort((a, b) => b.count - a.count);
 }
 
-export function getDayOfWeekPerformance(trades: Trade[]): { day: string; trades: number; winRate: number; profit: number }[] {
+export function getDayOfWeekPerformance(groups: TradeGroupTotals[]): { day: string; trades: number; winRate: number; profit: number }[] {
   const days = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-  const grouped = trades.reduce((acc, trade) => {
-    const dayIndex = new Date(trade.entry_date).getDay();
-    if (!acc[dayIndex]) {
-      acc[dayIndex] = { trades: 0, wins: 0, profit: 0 };
-    }
-    acc[dayIndex].trades++;
-    if (trade.status === 'win') acc[dayIndex].wins++;
-    const pl = trade.reward_amount !== null
-      ? (trade.status === 'loss' ? -Math.abs(trade.reward_amount) : trade.reward_amount)
-      : (trade.profit_loss || 0);
-    acc[dayIndex].profit += pl;
-    return acc;
-  }, {} as Record<number, { trades: number; wins: number; profit: number }>);
-
-  return days.map((day, index) => ({
-    day: day.slice(0, 3),
-    trades: grouped[index]?.trades || 0,
-    winRate: grouped[index]?.trades > 0 ? (grouped[index].wins / grouped[index].trades) * 100 : 0,
-    profit: grouped[index]?.profit || 0,
-  }));
+  return days.map((day, index) => {
+    const group = groups.find(g => g.key === String(index));
+    return {
+      day: day.slice(0, 3),
+      trades: group?.trades || 0,
+      winRate: group && group.trades > 0 ? (group.wins / group.trades) * 100 : 0,
+      profit: group?.totalPL || 0,
+    };
+  });
 }
 
 export interface PairStats {
@@ -291,74 +623,169 @@ export interface PairStats {
   totalPL: number;
 }
 
-export function getPairPerformance(trades: Trade[]): PairStats[] {
-  const grouped = trades.reduce((acc, trade) => {
-    const symbol = trade.symbol;
-    if (!acc[symbol]) {
-      acc[symbol] = { trades: 0, wins: 0, losses: 0, breakeven: 0, totalPL: 0 };
+export function getPairPerformance(groups: TradeGroupTotals[]): PairStats[] {
+  return groups
+    .map(group => ({
+      symbol: group.key,
+      trades: group.trades,
+      wins: group.wins,
+      losses: group.losses,
+      breakeven: group.breakeven,
+      winRate: group.trades > 0 ? (group.wins / group.trades) * 100 : 0,
+      totalPL: group.totalPL,
+    }))
+    .sort((a, b) => b.trades - a.trades);
+}
+
+export interface TagStats {
+  tag: string;
+  trades: number;
+  wins: number;
+  losses: number;
+  winRate: number;
+  expectancy: number;
+  totalPL: number;
+  averageR: number | null;
+}
+
+function groupByTag(trades: Trade[]) {
+  const grouped = new Map<string, Trade[]>();
+  trades.filter(isClosedTrade).forEach(trade => {
+    new Set(trade.tags || []).forEach(tag => {
+      if (!grouped.has(tag)) grouped.set(tag, []);
+      grouped.get(tag)!.push(trade);
+    });
+  });
+  return grouped;
+}
+
+export function getTagPerformance(trades: Trade[], basis: PnLBasis = 'net'): TagStats[] {
+  return Array.from(groupByTag(trades), ([tag, tagged]) => {
+    const stats = calculateStats(tagged, undefined, basis);
+    const rMultiples = tagged.map(t => getRMultiple(t, basis)).filter((r): r is number => r !== null);
+    return {
+      tag,
+      trades: stats.totalTrades,
+      wins: stats.winningTrades,
+      losses: stats.losingTrades,
+      winRate: stats.winRate,
+      expectancy: stats.expectancy,
+      totalPL: stats.totalProfitLoss,
+      averageR: rMultiples.length > 0 ? rMultiples.reduce((sum, r) => sum + r, 0) / rMultiples.length : null,
+    };
+  }).sort((a, b) => b.trades - a.trades);
+}
+
+export interface TagPairStats {
+  tags: [string, string];
+  trades: number;
+  winRate: number;
+  totalPL: number;
+}
+
+// Closed trades carrying both tags of each pair, most common pairs first
+export function getTagCoOccurrence(trades: Trade[], basis: PnLBasis = 'net'): TagPairStats[] {
+  const pairs = new Map<string, { tags: [string, string]; trades: number; wins: number; totalPL: number }>();
+
+  trades.filter(isClosedTrade).forEach(trade => {
+    const tags = Array.from(new Set(trade.tags || [])).sort();
+    for (let i = 0; i < tags.length; i++) {
+      for (let j = i + 1; j < tags.length; j++) {
+        const key = `${tags[i]}\u0000${tags[j]}`;
+        const pair = pairs.get(key) ?? { tags: [tags[i], tags[j]] as [string, string], trades: 0, wins: 0, totalPL: 0 };
+        pair.trades++;
+        if (trade.status === 'win') pair.wins++;
+        pair.totalPL += getTradePL(trade, basis);
+        pairs.set(key, pair);
+      }
     }
-    acc[symbol].trades++;
-    if (trade.status === 'win') acc[symbol].wins++;
-    if (trade.status === 'loss') acc[symbol].losses++;
-    if (trade.status === 'breakeven') acc[symbol].breakeven++;
-    const pl = trade.reward_amount !== null
-      ? (trade.status === 'loss' ? -Math.abs(trade.reward_amount) : trade.reward_amount)
-      : (trade.profit_loss || 0);
-    acc[symbol].totalPL += pl;
-    return acc;
-  }, {} as Record<string, { trades: number; wins: number; losses: number; breakeven: number; totalPL: number }>);
+  });
 
-  return Object.entries(grouped)
-    .map(([symbol, data]) => ({
-      symbol,
-      trades: data.trades,
-      wins: data.wins,
-      losses: data.losses,
-      breakeven: data.breakeven,
-      winRate: data.trades > 0 ? (data.wins / data.trades) * 100 : 0,
-      totalPL: data.totalPL,
+  return Array.from(pairs.values())
+    .map(pair => ({
+      tags: pair.tags,
+      trades: pair.trades,
+      winRate: (pair.wins / pair.trades) * 100,
+      totalPL: pair.totalPL,
     }))
-    .sort((a, b) => b.trades - a.trades);
+    .sort((a, b) => b.trades - a.trades || b.totalPL - a.totalPL);
 }
 
 export interface RuleStats {
+  ruleId: string;
   rule: string;
+  weight: number;
   trades: number;
   wins: number;
   winRate: number;
   totalPL: number;
+  brokenTrades: number;
+  brokenWinRate: number;
+  brokenPL: number;
 }
 
-export function getRulePerformance(trades: Trade[]): RuleStats[] {
-  const completedTrades = trades.filter(t => t.status);
+export function getRulePerformance(trades: Trade[], rules: ChecklistRule[], basis: PnLBasis = 'net'): RuleStats[] {
+  const completedTrades = trades.filter(isClosedTrade);
 
-  const rules = [
-    { key: 'rule_in_plan', label: 'In Plan' },
-    { key: 'rule_bos', label: 'BOS' },
-    { key: 'rule_liquidity', label: 'Liquidity' },
-    { key: 'rule_trend', label: 'Trend' },
-    { key: 'rule_news', label: 'News Check' },
-    { key: 'rule_rr', label: '1:2 R:R' }
-  ];
+  const summarize = (subset: Trade[]) => {
+    const wins = subset.filter(t => t.status === 'win').length;
+    return {
+      count: subset.length,
+      wins,
+      winRate: subset.length > 0 ? (wins / subset.length) * 100 : 0,
+      totalPL: subset.reduce((sum, t) => sum + getTradePL(t, basis), 0),
+    };
+  };
 
   return rules.map(rule => {
-    // Only count trades where this specific rule was marked "yes"
-    const tradesWithRule = completedTrades.filter(t => (t as any)[rule.key] === 'yes');
-    const wins = tradesWithRule.filter(t => t.status === 'win').length;
-
-    const totalPL = tradesWithRule.reduce((sum, t) => {
-      const pl = t.reward_amount !== null
-        ? (t.status === 'loss' ? -Math.abs(t.reward_amount) : t.reward_amount)
-        : (t.profit_loss || 0);
-      return sum + pl;
-    }, 0);
+    const followed = summarize(completedTrades.filter(t => t.rule_answers?.[rule.id] === 'yes'));
+    const broken = summarize(completedTrades.filter(t => t.rule_answers?.[rule.id] === 'no'));
 
     return {
+      ruleId: rule.id,
       rule: rule.label,
-      trades: tradesWithRule.length,
-      wins,
-      winRate: tradesWithRule.length > 0 ? (wins / tradesWithRule.length) * 100 : 0,
-      totalPL
+      weight: Number(rule.weight),
+      trades: followed.count,
+      wins: followed.wins,
+      winRate: followed.winRate,
+      totalPL: followed.totalPL,
+      brokenTrades: broken.count,
+      brokenWinRate: broken.winRate,
+      brokenPL: broken.totalPL,
+    };
+  }).filter(stat => stat.trades > 0 || stat.brokenTrades > 0);
+}
+
+export interface ChecklistScoreStats {
+  bucket: string;
+  trades: number;
+  winRate: number;
+  expectancy: number;
+}
+
+export function getChecklistScorePerformance(trades: Trade[], rules: ChecklistRule[], basis: PnLBasis = 'net'): ChecklistScoreStats[] {
+  const buckets = [
+    { bucket: '< 50%', min: 0, max: 50 },
+    { bucket: '50–79%', min: 50, max: 80 },
+    { bucket: '80–99%', min: 80, max: 100 },
+    { bucket: '100%', min: 100, max: Infinity },
+  ];
+
+  const scored = trades
+    .filter(isClosedTrade)
+    .map(trade => ({ trade, score: getChecklistScore(trade.rule_answers, rules) }))
+    .filter((s): s is { trade: Trade; score: number } => s.score !== null);
+
+  return buckets.map(({ bucket, min, max }) => {
+    const inBucket = scored.filter(s => s.score >= min && s.score < max).map(s => s.trade);
+    const wins = inBucket.filter(t => t.status === 'win').length;
+    const totalPL = inBucket.reduce((sum, t) => sum + getTradePL(t, basis), 0);
+
+    return {
+      bucket,
+      trades: inBucket.length,
+      winRate: inBucket.length > 0 ? (wins / inBucket.length) * 100 : 0,
+      expectancy: inBucket.length > 0 ? totalPL / inBucket.length : 0,
     };
   }).filter(stat => stat.trades > 0);
 }
@@ -374,53 +801,49 @@ export interface EmotionStats {
   expectancy: number;
 }
 
-export function getEmotionPerformance(trades: Trade[]): EmotionStats[] {
-  const completedTrades = trades.filter(t => t.status);
-
-  const grouped = completedTrades.reduce((acc, trade) => {
-    let rawEmotions: string[] = [];
-
-    // 1. Extract from emotions_array (mapped from 'emotions' column)
-    const stored = trade.emotions_array as any;
-
-    if (Array.isArray(stored)) {
-      rawEmotions = [...stored];
-    } else if (typeof stored === 'string') {
-      const str = (stored as string).trim();
-      if (str.startsWith('[') && str.endsWith(']')) {
-        try { rawEmotions = JSON.parse(str); } catch (e) { rawEmotions = [str]; }
-      } else if (str.startsWith('{') && str.endsWith('}')) {
-        // Handle Postgres text[] format: {FOMO,Revenge}
-        rawEmotions = str.substring(1, str.length - 1).split(',').map(s => s.replace(/"/g, '').trim());
-      } else if (str.includes(',')) {
-        rawEmotions = str.split(',').map(s => s.trim());
-      } else if (str) {
-        rawEmotions = [str];
-      }
+// Emotions stored on a trade, tolerating the older string formats and normalising case
+export function getTradeEmotions(trade: Trade): string[] {
+  let rawEmotions: string[] = [];
+
+  // 1. Extract from emotions_array (mapped from 'emotions' column)
+  const stored = trade.emotions_array as any;
+
+  if (Array.isArray(stored)) {
+    rawEmotions = [...stored];
+  } else if (typeof stored === 'string') {
+    const str = (stored as string).trim();
+    if (str.startsWith('[') && str.endsWith(']')) {
+      try { rawEmotions = JSON.parse(str); } catch (e) { rawEmotions = [str]; }
+    } else if (str.startsWith('{') && str.endsWith('}')) {
+      // Handle Postgres text[] format: {FOMO,Revenge}
+      rawEmotions = str.substring(1, str.length - 1).split(',').map(s => s.replace(/"/g, '').trim());
+    } else if (str.includes(',')) {
+      rawEmotions = str.split(',').map(s => s.trim());
+    } else if (str) {
+      rawEmotions = [str];
     }
+  }
+
+  // 2. Normalize & Deduplicate
+  // We trim, capitalize properly, and filter out junk data (like single-char remnants)
+  return Array.from(new Set(
+    rawEmotions
+      .map(e => String(e).trim())
+      .filter(e => e.length > 1) // Ignore junk like 'C' 'o' '[' ','
+      .map(e => {
+        // Special Case for common acronyms
+        if (e.toUpperCase() === 'FOMO') return 'FOMO';
+        // General Title Case: "anxious" -> "Anxious"
+        return e.charAt(0).toUpperCase() + e.slice(1).toLowerCase();
+      })
+  ));
+}
 
-    // 2. Add rule_emotions if present (from confluence checklist)
-    if (trade.rule_emotions === 'yes') {
-      rawEmotions.push('Calm');
-    } else if (trade.rule_emotions === 'no') {
-      rawEmotions.push('Anxious');
-    }
+export function getEmotionPerformance(trades: Trade[], basis: PnLBasis = 'net'): EmotionStats[] {
+  const completedTrades = trades.filter(isClosedTrade);
 
-    // 3. Normalize & Deduplicate
-    // We trim, capitalize properly, and filter out junk data (like single-char remnants)
-    const normalizedEmotions = Array.from(new Set(
-      rawEmotions
-        .map(e => String(e).trim())
-        .filter(e => e.length > 1) // Ignore junk like 'C' 'o' '[' ','
-        .map(e => {
-          // Special Case for common acronyms
-          if (e.toUpperCase() === 'FOMO') return 'FOMO';
-          // General Title Case: "anxious" -> "Anxious"
-          return e.charAt(0).toUpperCase() + e.slice(1).toLowerCase();
-        })
-    ));
-
-    normalizedEmotions.forEach(emotion => {
+  const grouped = completedTrades.reduce((acc, trade) => {
+    getTradeEmotions(trade).forEach(emotion => {
       if (!acc[emotion]) {
         acc[emotion] = {
           count: 0,
@@ -433,9 +856,7 @@ export function getEmotionPerformance(trades: Trade[]): EmotionStats[] {
       }
       acc[emotion].count++;
 
-      const pl = trade.reward_amount !== null
-        ? (trade.status === 'loss' ? -Math.abs(trade.reward_amount) : trade.reward_amount)
-        : (trade.profit_loss || 0);
+      const pl = getTradePL(trade, basis);
 
       acc[emotion].totalPL += pl;
 
@@ -481,8 +902,8 @@ export interface SetupQualityStats {
   expectancy: number;
 }
 
-export function getSetupQualityStats(trades: Trade[]): SetupQualityStats[] {
-  const completedTrades = trades.filter(t => t.status && t.setup_type);
+export function getSetupQualityStats(trades: Trade[], basis: PnLBasis = 'net'): SetupQualityStats[] {
+  const completedTrades = trades.filter(t => isClosedTrade(t) && t.setup_type);
 
   const grouped = completedTrades.reduce((acc, trade) => {
     const quality = trade.setup_type!;
@@ -490,9 +911,7 @@ export function getSetupQualityStats(trades: Trade[]): SetupQualityStats[] {
 
     acc[quality].trades.push(trade);
 
-    const pl = trade.reward_amount !== null
-      ? (trade.status === 'loss' ? -Math.abs(trade.reward_amount) : trade.reward_amount)
-      : (trade.profit_loss || 0);
+    const pl = getTradePL(trade, basis);
 
     acc[quality].totalPL += pl;
 
@@ -530,3 +949,44 @@ export function getSetupQualityStats(trades: Trade[]): SetupQualityStats[] {
     return (order[b.quality] || 0) - (order[a.quality] || 0);
   });
 }
+
+export interface OpenExposure {
+  positions: number;
+  totalLots: number;
+  totalRisk: number;
+  floatingPL: number;
+  bySymbol: { symbol: string; direction: 'buy' | 'sell' | 'mixed'; lots: number; risk: number; floatingPL: number }[];
+}
+
+export function getOpenExposure(trades: Trade[]): OpenExposure {
+  const openTrades = trades.filter(isOpenTrade);
+
+  const grouped = openTrades.reduce((acc, trade) => {
+    if (!acc[trade.symbol]) {
+      acc[trade.symbol] = { directions: new Set<string>(), lots: 0, risk: 0, floatingPL: 0 };
+    }
+    acc[trade.symbol].directions.add(trade.direction);
+    acc[trade.symbol].lots += Number(trade.lot_size) || 0;
+    acc[trade.symbol].risk += trade.risk_amount || 0;
+    acc[trade.symbol].floatingPL += trade.floating_pl || 0;
+    return acc;
+  }, {} as Record<string, { directions: Set<string>; lots: number; risk: number; floatingPL: number }>);
+
+  const bySymbol = Object.entries(grouped)
+    .map(([symbol, data]) => ({
+      symbol,
+      direction: (data.directions.size > 1 ? 'mixed' : [...data.directions][0]) as 'buy' | 'sell' | 'mixed',
+      lots: data.lots,
+      risk: data.risk,
+      floatingPL: data.floatingPL,
+    }))
+    .sort((a, b) => b.lots - a.lots);
+
+  return {
+    positions: openTrades.length,
+    totalLots: bySymbol.reduce((sum, s) => sum + s.lots, 0),
+    totalRisk: bySymbol.reduce((sum, s) => sum + s.risk, 0),
+    floatingPL: bySymbol.reduce((sum, s) => sum + s.floatingPL, 0),
+    bySymbol,
+  };
+}
@@ -0,0 +1,116 @@
+import { BulkTradeEdit, Playbook, Trade, TradingAccount } from '@/types/trade';
+
+export type BulkTradeFields = Partial<Pick<Trade, 'strategy' | 'playbook_id' | 'setup_type' | 'tags' | 'needs_review' | 'account_id'>>;
+
+export interface BulkTradeChange {
+  id: string;
+  patch: BulkTradeFields;
+  previous: BulkTradeFields; // The same fields as they were, for undo
+}
+
+export function isEmptyBulkEdit(edit: BulkTradeEdit): boolean {
+  return edit.strategy === undefined
+    && edit.setup_type === undefined
+    && !edit.add_tags?.length
+    && !edit.remove_tags?.length
+    && edit.needs_review === undefined
+    && edit.account_id === undefined;
+}
+
+// Works out what actually changes on each trade; trades the edit leaves as they are are skipped
+export function planBulkEdit(trades: Trade[], edit: BulkTradeEdit, playbooks: Playbook[]): BulkTradeChange[] {
+  // Linked trades carry the playbook name as their strategy, so a strategy matching a playbook links to it
+  const playbook = edit.strategy ? playbooks.find(p => p.name === edit.strategy) : undefined;
+  const removeTags = new Set(edit.remove_tags || []);
+
+  return trades.flatMap(trade => {
+    const next: BulkTradeFields = {};
+    if (edit.strategy !== undefined) {
+      next.strategy = edit.strategy;
+      next.playbook_id = playbook?.id ?? null;
+    }
+    if (edit.setup_type !== undefined) next.setup_type = edit.setup_type;
+    if (edit.needs_review !== undefined) next.needs_review = edit.needs_review;
+    if (edit.account_id !== undefined) next.account_id = edit.account_id;
+    if (edit.add_tags?.length || removeTags.size > 0) {
+      const tags = (trade.tags || []).filter(tag => !removeTags.has(tag));
+      (edit.add_tags || []).forEach(tag => {
+        if (!tags.includes(tag)) tags.push(tag);
+      });
+      next.tags = tags;
+    }
+
+    const patch: BulkTradeFields = {};
+    const previous: BulkTradeFields = {};
+    (Object.keys(next) as (keyof BulkTradeFields)[]).forEach(field => {
+      const before = field === 'tags' ? trade.tags || [] : trade[field] ?? null;
+      if (JSON.stringify(before) === JSON.stringify(next[field])) return;
+      Object.assign(patch, { [field]: next[field] });
+      Object.assign(previous, { [field]: trade[field] ?? null });
+    });
+
+    return Object.keys(patch).length > 0 ? [{ id: trade.id, patch, previous }] : [];
+  });
+}
+
+// Trades getting identical values share one update request
+export function groupPatches(rows: { id: string; patch: BulkTradeFields }[]): { ids: string[]; patch: BulkTradeFields }[] {
+  const groups = new Map<string, { ids: string[]; patch: BulkTradeFields }>();
+  rows.forEach(({ id, patch }) => {
+    const key = JSON.stringify(Object.entries(patch).sort(([a], [b]) => a.localeCompare(b)));
+    const group = groups.get(key);
+    if (group) group.ids.push(id);
+    else groups.set(key, { ids: [id], patch });
+  });
+  return Array.from(groups.values());
+}
+
+// Ids per request; a long id list in the query string runs past gateway URL limits
+export const ID_BATCH_SIZE = 200;
+
+// Runs a write for one batch of ids at a time and stops at the first failure, so done holds exactly the ids written
+export async function runInBatches<E>(
+  ids: string[],
+  write: (batch: string[]) => PromiseLike<{ error: E | null }>,
+): Promise<{ done: string[]; error: E | null }> {
+  const done: string[] = [];
+  for (let i = 0; i < ids.length; i += ID_BATCH_SIZE) {
+    const batch = ids.slice(i, i + ID_BATCH_SIZE);
+    const { error } = await write(batch);
+    if (error) return { done, error };
+    done.push(...batch);
+  }
+  return { done, error: null };
+}
+
+// One line per field the edit touches, with how many of the trades it actually changes
+export function describeBulkEdit(edit: BulkTradeEdit, changes: BulkTradeChange[], accounts: TradingAccount[]): string[] {
+  const count = (field: keyof BulkTradeFields) => {
+    const n = changes.filter(c => field in c.patch).length;
+    return `${n} ${n === 1 ? 'trade' : 'trades'}`;
+  };
+  const lines: string[] = [];
+
+  if (edit.strategy !== undefined) {
+    lines.push(edit.strategy ? `Set strategy to "${edit.strategy}" on ${count('strategy')}` : `Clear strategy on ${count('strategy')}`);
+  }
+  if (edit.setup_type !== undefined) {
+    lines.push(edit.setup_type ? `Set setup type to ${edit.setup_type} on ${count('setup_type')}` : `Clear setup type on ${count('setup_type')}`);
+  }
+  if (edit.add_tags?.length || edit.remove_tags?.length) {
+    const parts = [
+      edit.add_tags?.length ? `add ${edit.add_tags.join(', ')}` : '',
+      edit.remove_tags?.length ? `remove ${edit.remove_tags.join(', ')}` : '',
+    ].filter(Boolean);
+    lines.push(`Tags: ${parts.join('; ')} on ${count('tags')}`);
+  }
+  if (edit.needs_review !== undefined) {
+    lines.push(`Mark ${count('needs_review')} as ${edit.needs_review ? 'needing review' : 'reviewed'}`);
+  }
+  if (edit.account_id !== undefined) {
+    const account = accounts.find(a => a.id === edit.account_id);
+    lines.push(`Move ${count('account_id')} to ${account ? account.name : 'no account'}`);
+  }
+
+  return lines;
+}
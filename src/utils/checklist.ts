@@ -0,0 +1,24 @@
+import { ChecklistRule, RuleAnswer } from '@/types/trade';
+
+// Weighted share of answered rules marked "yes" (n/a is ignored); null when nothing was answered
+export function getChecklistScore(answers: Record<string, string> | undefined, rules: ChecklistRule[]): number | null {
+  let total = 0;
+  let met = 0;
+
+  for (const rule of rules) {
+    const answer = answers?.[rule.id];
+    if (answer !== 'yes' && answer !== 'no') continue;
+    const weight = Number(rule.weight);
+    total += weight;
+    if (answer === 'yes') met += weight;
+  }
+
+  return total > 0 ? (met / total) * 100 : null;
+}
+
+// Drops unanswered rules so checklist values can be saved on a trade
+export function toRuleAnswers(answers?: Record<string, RuleAnswer | ''>): Record<string, RuleAnswer> {
+  return Object.fromEntries(
+    Object.entries(answers || {}).filter((entry): entry is [string, RuleAnswer] => !!entry[1])
+  );
+}
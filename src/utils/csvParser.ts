@@ -1,4 +1,5 @@
-import { TradeFormData, AssetClass, TradeDirection, TradeStatus, ExitReason } from '@/types/trade';
+import { TradeFormData, TradeDirection, TradeStatus, ExitReason, Instrument } from '@/types/trade';
+import { calculatePips, calculateRiskAmount, detectAssetClass, findInstrument } from './instruments';
 
 interface MT5HistoryRow {
   'Open Time'?: string;
@@ -11,6 +12,9 @@ interface MT5HistoryRow {
   'S/L'?: string;
   'T/P'?: string;
   Profit?: string;
+  Commission?: string;
+  Swap?: string;
+  Fee?: string;
   [key: string]: string | undefined;
 }
 
@@ -35,29 +39,6 @@ export function parseCSV(csvText: string): Record<string, string>[] {
   return rows;
 }
 
-function detectAssetClass(symbol: string): AssetClass {
-  const sym = symbol.toUpperCase();
-  
-  // Forex pairs
-  if (/^[A-Z]{6}$/.test(sym) && 
-      ['USD', 'EUR', 'GBP', 'JPY', 'AUD', 'NZD', 'CAD', 'CHF'].some(c => sym.includes(c))) {
-    return 'forex';
-  }
-  
-  // Crypto
-  if (['BTC', 'ETH', 'XRP', 'LTC', 'ADA', 'SOL', 'DOGE', 'BNB'].some(c => sym.includes(c))) {
-    return 'crypto';
-  }
-  
-  // Commodities
-  if (['XAU', 'XAG', 'GOLD', 'SILVER', 'OIL', 'WTI', 'BRENT', 'GAS'].some(c => sym.includes(c))) {
-    return 'commodities';
-  }
-  
-  // Default to stocks/indices
-  return 'stocks';
-}
-
 function parseDirection(type: string): TradeDirection | null {
   const t = type.toLowerCase();
   if (t.includes('buy') || t === 'long') return 'buy';
@@ -106,7 +87,7 @@ function determineExitReason(profit: string | undefined, stopLoss: number | unde
   return 'manual_close';
 }
 
-export function parseMT5History(rows: MT5HistoryRow[]): TradeFormData[] {
+export function parseMT5History(rows: MT5HistoryRow[], instruments: Instrument[] = []): TradeFormData[] {
   const trades: TradeFormData[] = [];
   
   for (const row of rows) {
@@ -127,16 +108,20 @@ export function parseMT5History(rows: MT5HistoryRow[]): TradeFormData[] {
     const stopLoss = parseFloat(row['S/L'] || '0') || undefined;
     const takeProfit = parseFloat(row['T/P'] || '0') || undefined;
     const profit = row.Profit;
+    const commission = Math.abs(parseFloat(row.Commission || '0')) || 0;
+    const swap = parseFloat(row.Swap || '0') || 0;
+    const otherFees = Math.abs(parseFloat(row.Fee || '0')) || 0;
     
     if (entryPrice <= 0) continue;
     
     const status = determineStatus(profit);
     const exitReason = determineExitReason(profit, stopLoss, takeProfit);
     const rewardAmount = profit ? Math.abs(parseFloat(profit)) : undefined;
+    const instrument = findInstrument(instruments, symbol);
     
     trades.push({
       symbol,
-      asset_class: detectAssetClass(symbol),
+      asset_class: detectAssetClass(symbol, instruments),
       direction,
       entry_date: entryDate,
       exit_date: exitDate || undefined,
@@ -148,13 +133,19 @@ export function parseMT5History(rows: MT5HistoryRow[]): TradeFormData[] {
       status,
       exit_reason: exitReason,
       reward_amount: rewardAmount,
+      pips: instrument && exitPrice ? calculatePips(instrument, direction, entryPrice, exitPrice) : undefined,
+      // Gives imported trades an R multiple; null when the instrument's pip value isn't known
+      risk_amount: instrument && stopLoss ? calculateRiskAmount(instrument, entryPrice, stopLoss, lotSize) ?? undefined : undefined,
+      commission,
+      swap,
+      other_fees: otherFees,
     });
   }
   
   return trades;
 }
 
-export function validateAndParseMT5CSV(csvText: string): {
+export function validateAndParseMT5CSV(csvText: string, instruments: Instrument[] = []): {
   trades: TradeFormData[];
   errors: string[];
 } {
@@ -168,7 +159,7 @@ export function validateAndParseMT5CSV(csvText: string): {
       return { trades: [], errors };
     }
     
-    const trades = parseMT5History(rows as MT5HistoryRow[]);
+    const trades = parseMT5History(rows as MT5HistoryRow[], instruments);
     
     if (trades.length === 0) {
       errors.push('Could not parse any valid trades from the CSV. Please ensure it\'s an MT5 history export.');
@@ -0,0 +1,56 @@
+import { TradingAccount } from '@/types/trade';
+
+export interface CurrencyScope {
+  currency: string | null; // Null when the accounts in view don't share one
+  currencies: string[]; // Every currency in view, for telling the user which ones are mixed
+}
+
+export interface CurrencyFormatOptions {
+  digits?: number;
+  signed?: boolean; // "+" in front of gains as well as "-" in front of losses
+}
+
+// Matches the trading_accounts.currency default, for users without accounts yet
+export const DEFAULT_CURRENCY = 'USD';
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+function getFormatter(currency: string | null, digits: number, signed: boolean): Intl.NumberFormat {
+  const key = `${currency ?? ''}|${digits}|${signed}`;
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    const options: Intl.NumberFormatOptions = {
+      minimumFractionDigits: digits,
+      maximumFractionDigits: digits,
+      signDisplay: signed ? 'exceptZero' : 'auto',
+    };
+    try {
+      formatter = new Intl.NumberFormat(undefined, currency ? { ...options, style: 'currency', currency } : options);
+    } catch {
+      // Not an ISO 4217 code; the code is appended to a plain number instead
+      formatter = new Intl.NumberFormat(undefined, options);
+    }
+    formatters.set(key, formatter);
+  }
+  return formatter;
+}
+
+// 1234.5 in USD -> "$1,234.50", in EUR -> "€1,234.50"; without a currency the number alone
+export function formatCurrency(value: number, currency: string | null, { digits = 2, signed = false }: CurrencyFormatOptions = {}): string {
+  const formatter = getFormatter(currency, digits, signed);
+  const formatted = formatter.format(value);
+  return currency && formatter.resolvedOptions().style !== 'currency' ? `${formatted} ${currency}` : formatted;
+}
+
+// "$" for USD, "€" for EUR; the generic currency sign when there is no one currency
+export function getCurrencySymbol(currency: string | null): string {
+  if (!currency) return '¤';
+  const parts = getFormatter(currency, 0, false).formatToParts(0);
+  return parts.find(p => p.type === 'currency')?.value ?? currency;
+}
+
+// The one currency the given accounts share, if they do
+export function getCurrencyScope(accounts: TradingAccount[]): CurrencyScope {
+  const currencies = Array.from(new Set(accounts.map(a => a.currency.toUpperCase()))).sort();
+  return { currency: currencies.length > 1 ? null : currencies[0] ?? DEFAULT_CURRENCY, currencies };
+}
@@ -0,0 +1,50 @@
+import { ExecutionSide } from '@/types/trade';
+
+interface ExecutionLike {
+  side: ExecutionSide;
+  price: number;
+  volume: number;
+  executed_at: string | Date;
+  profit_loss?: number | null;
+}
+
+export interface ExecutionSummary {
+  averageEntry: number | null;
+  averageExit: number | null;
+  entryVolume: number;
+  exitVolume: number;
+  openVolume: number;
+  firstEntryAt: Date | null;
+  lastExitAt: Date | null;
+  realizedPL: number | null; // null until every exit leg has a P&L
+}
+
+function weightedAverage(fills: ExecutionLike[]): number | null {
+  const volume = fills.reduce((sum, f) => sum + Number(f.volume), 0);
+  if (volume <= 0) return null;
+  return fills.reduce((sum, f) => sum + Number(f.price) * Number(f.volume), 0) / volume;
+}
+
+export function summarizeExecutions(executions: ExecutionLike[]): ExecutionSummary {
+  const entries = executions.filter(e => e.side === 'entry');
+  const exits = executions.filter(e => e.side === 'exit');
+
+  const entryVolume = entries.reduce((sum, e) => sum + Number(e.volume), 0);
+  const exitVolume = exits.reduce((sum, e) => sum + Number(e.volume), 0);
+
+  const entryTimes = entries.map(e => new Date(e.executed_at).getTime());
+  const exitTimes = exits.map(e => new Date(e.executed_at).getTime());
+
+  const hasAllLegPL = exits.length > 0 && exits.every(e => e.profit_loss !== null && e.profit_loss !== undefined);
+
+  return {
+    averageEntry: weightedAverage(entries),
+    averageExit: weightedAverage(exits),
+    entryVolume,
+    exitVolume,
+    openVolume: Math.max(entryVolume - exitVolume, 0),
+    firstEntryAt: entryTimes.length > 0 ? new Date(Math.min(...entryTimes)) : null,
+    lastExitAt: exitTimes.length > 0 ? new Date(Math.max(...exitTimes)) : null,
+    realizedPL: hasAllLegPL ? exits.reduce((sum, e) => sum + Number(e.profit_loss), 0) : null,
+  };
+}
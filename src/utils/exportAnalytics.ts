@@ -1,4 +1,4 @@
-import { Trade } from '@/types/trade';
+import { PnLBasis, Trade } from '@/types/trade';
 import { 
   calculateStats, 
   getMonthlyPerformance, 
@@ -6,6 +6,9 @@ import {
   getExitReasonStats, 
   getDayOfWeekPerformance,
   getTradesByAssetClass,
+  groupTrades,
+  getGrossPL,
+  getTradePL,
 } from '@/utils/analytics';
 
 function escapeCsv(value: string | number | null | undefined): string {
@@ -39,7 +42,7 @@ export function exportTradeLog(trades: Trade[]) {
   const headers = [
     'Date', 'Symbol', 'Asset Class', 'Direction', 'Status', 'Exit Reason',
     'Entry Price', 'Exit Price', 'Lot Size', 'Stop Loss', 'Take Profit',
-    'P&L ($)', 'Pips', 'Risk ($)', 'Reward ($)', 'R:R Ratio',
+    'Gross P&L ($)', 'Commission ($)', 'Swap ($)', 'Other Fees ($)', 'Net P&L ($)', 'Pips', 'Risk ($)', 'Reward ($)', 'R:R Ratio',
     'Strategy', 'Reasoning', 'Emotions', 'Lessons',
   ];
 
@@ -55,27 +58,31 @@ export function exportTradeLog(trades: Trade[]) {
     t.lot_size,
     t.stop_loss,
     t.take_profit,
-    t.profit_loss,
+    t.status === 'open' ? null : getGrossPL(t).toFixed(2),
+    t.commission,
+    t.swap,
+    t.other_fees,
+    t.status === 'open' ? null : getTradePL(t, 'net').toFixed(2),
     t.pips,
     t.risk_amount,
     t.reward_amount,
     t.risk_reward_ratio,
     t.strategy,
     t.reasoning,
-    t.emotions,
+    t.emotions_array?.join('; '),
     t.lessons,
   ]);
 
   downloadFile(arrayToCsv(headers, rows), `trade-log-${new Date().toISOString().slice(0, 10)}.csv`, 'text/csv');
 }
 
-export function exportAnalyticsReport(trades: Trade[]) {
-  const stats = calculateStats(trades);
-  const monthly = getMonthlyPerformance(trades);
-  const strategies = getStrategyPerformance(trades);
-  const exitReasons = getExitReasonStats(trades);
-  const dayPerf = getDayOfWeekPerformance(trades);
-  const assetPerf = getTradesByAssetClass(trades);
+export function exportAnalyticsReport(trades: Trade[], basis: PnLBasis = 'net', timeZone?: string) {
+  const stats = calculateStats(trades, undefined, basis);
+  const monthly = getMonthlyPerformance(groupTrades(trades, 'month', basis));
+  const strategies = getStrategyPerformance(groupTrades(trades, 'strategy', basis));
+  const exitReasons = getExitReasonStats(groupTrades(trades, 'exit', basis));
+  const dayPerf = getDayOfWeekPerformance(groupTrades(trades, 'weekday', basis, timeZone));
+  const assetPerf = getTradesByAssetClass(groupTrades(trades, 'asset', basis));
 
   const sections: string[] = [];
 
@@ -86,7 +93,12 @@ export function exportAnalyticsReport(trades: Trade[]) {
     [
       ['Total Trades', stats.totalTrades],
       ['Win Rate (%)', stats.winRate.toFixed(1)],
-      ['Total P&L ($)', stats.totalProfitLoss.toFixed(2)],
+      ['P&L Basis', basis === 'net' ? 'Net of costs' : 'Gross'],
+      ['Gross P&L ($)', stats.grossProfitLoss.toFixed(2)],
+      ['Commission ($)', stats.totalCommission.toFixed(2)],
+      ['Swap ($)', stats.totalSwap.toFixed(2)],
+      ['Other Fees ($)', stats.totalOtherFees.toFixed(2)],
+      ['Net P&L ($)', stats.netProfitLoss.toFixed(2)],
       ['Profit Factor', stats.profitFactor === Infinity ? 'Infinity' : stats.profitFactor.toFixed(2)],
       ['Expectancy ($)', stats.expectancy.toFixed(2)],
       ['Average Win ($)', stats.averageWin.toFixed(2)],
@@ -0,0 +1,186 @@
+import {
+  addMonths,
+  addQuarters,
+  addWeeks,
+  endOfMonth,
+  endOfQuarter,
+  endOfWeek,
+  format,
+  startOfMonth,
+  startOfQuarter,
+  startOfWeek,
+} from 'date-fns';
+import { ChecklistRule, Goal, GoalMetric, GoalPeriod, PnLBasis, Trade } from '@/types/trade';
+import { getTradePL, isClosedTrade } from './analytics';
+import { getChecklistScore } from './checklist';
+import { formatCurrency } from './currency';
+import { toDayKey } from './journal';
+
+interface GoalMetricInfo {
+  label: string;
+  unit: 'currency' | 'percent' | 'count';
+  direction: 'at_least' | 'at_most';
+  behavioural: boolean; // Checked day by day and marked on the calendar when breached
+}
+
+export const GOAL_METRICS: Record<GoalMetric, GoalMetricInfo> = {
+  net_pl: { label: 'P&L', unit: 'currency', direction: 'at_least', behavioural: false },
+  win_rate: { label: 'Win rate', unit: 'percent', direction: 'at_least', behavioural: false },
+  max_trades_per_day: { label: 'Max trades per day', unit: 'count', direction: 'at_most', behavioural: true },
+  rule_adherence: { label: 'Rule adherence', unit: 'percent', direction: 'at_least', behavioural: false },
+};
+
+export const GOAL_PERIOD_LABELS: Record<GoalPeriod, string> = {
+  week: 'Weekly',
+  month: 'Monthly',
+  quarter: 'Quarterly',
+};
+
+export interface GoalResult {
+  start: Date;
+  end: Date;
+  current: number | null; // Null when there is nothing to measure yet
+  progress: number; // 0-100, how much of the target has been reached (or used, for caps)
+  achieved: boolean;
+  complete: boolean; // The period has ended
+  breachDays: string[];
+}
+
+export function getPeriodRange(period: GoalPeriod, date: Date) {
+  if (period === 'week') {
+    return { start: startOfWeek(date, { weekStartsOn: 1 }), end: endOfWeek(date, { weekStartsOn: 1 }) };
+  }
+  if (period === 'month') {
+    return { start: startOfMonth(date), end: endOfMonth(date) };
+  }
+  return { start: startOfQuarter(date), end: endOfQuarter(date) };
+}
+
+function shiftPeriod(period: GoalPeriod, date: Date, amount: number): Date {
+  if (period === 'week') return addWeeks(date, amount);
+  if (period === 'month') return addMonths(date, amount);
+  return addQuarters(date, amount);
+}
+
+export function formatPeriod(period: GoalPeriod, start: Date): string {
+  if (period === 'week') return `Week of ${format(start, 'MMM d')}`;
+  if (period === 'month') return format(start, 'MMM yyyy');
+  return `Q${Math.floor(start.getMonth() / 3) + 1} ${format(start, 'yyyy')}`;
+}
+
+export function formatGoalValue(metric: GoalMetric, value: number, currency: string | null): string {
+  const unit = GOAL_METRICS[metric].unit;
+  if (unit === 'currency') return formatCurrency(value, currency);
+  if (unit === 'percent') return `${value.toFixed(1)}%`;
+  return String(Math.round(value));
+}
+
+function countTradesByDay(trades: Trade[], start: Date, end: Date) {
+  const counts: Record<string, number> = {};
+  trades.forEach(t => {
+    const entry = new Date(t.entry_date);
+    if (entry < start || entry > end) return;
+    const day = toDayKey(entry);
+    counts[day] = (counts[day] || 0) + 1;
+  });
+  return counts;
+}
+
+export function evaluateGoal(
+  goal: Goal,
+  trades: Trade[],
+  rules: ChecklistRule[],
+  basis: PnLBasis,
+  date = new Date(),
+  now = new Date()
+): GoalResult {
+  const { start, end } = getPeriodRange(goal.period, date);
+  const target = Number(goal.target);
+  const inPeriod = (value: string) => {
+    const time = new Date(value);
+    return time >= start && time <= end;
+  };
+  const closed = trades.filter(t => isClosedTrade(t) && inPeriod(t.exit_date || t.entry_date));
+
+  let current: number | null = null;
+  let breachDays: string[] = [];
+
+  if (goal.metric === 'net_pl') {
+    current = closed.reduce((sum, t) => sum + getTradePL(t, basis), 0);
+  } else if (goal.metric === 'win_rate') {
+    current = closed.length > 0 ? (closed.filter(t => t.status === 'win').length / closed.length) * 100 : null;
+  } else if (goal.metric === 'rule_adherence') {
+    const scores = trades
+      .filter(t => inPeriod(t.entry_date))
+      .map(t => getChecklistScore(t.rule_answers, rules))
+      .filter((score): score is number => score !== null);
+    current = scores.length > 0 ? scores.reduce((sum, s) => sum + s, 0) / scores.length : null;
+  } else {
+    const counts = countTradesByDay(trades, start, end);
+    current = Math.max(0, ...Object.values(counts));
+    breachDays = Object.keys(counts).filter(day => counts[day] > target).sort();
+  }
+
+  const atMost = GOAL_METRICS[goal.metric].direction === 'at_most';
+  const achieved = atMost
+    ? breachDays.length === 0
+    : current !== null && current >= target;
+  const ratio = target > 0 ? (current ?? 0) / target : achieved ? 1 : 0;
+
+  return {
+    start,
+    end,
+    current,
+    progress: Math.min(100, Math.max(0, ratio * 100)),
+    achieved,
+    complete: end < now,
+    breachDays,
+  };
+}
+
+// Most recent period first, going back no further than the goal's start
+export function getGoalHistory(
+  goal: Goal,
+  trades: Trade[],
+  rules: ChecklistRule[],
+  basis: PnLBasis,
+  limit = 12,
+  now = new Date()
+): GoalResult[] {
+  const firstStart = getPeriodRange(goal.period, new Date(`${goal.starts_on}T00:00:00`)).start;
+  const results: GoalResult[] = [];
+  let cursor = getPeriodRange(goal.period, now).start;
+
+  while (cursor >= firstStart && results.length < limit) {
+    results.push(evaluateGoal(goal, trades, rules, basis, cursor, now));
+    cursor = shiftPeriod(goal.period, cursor, -1);
+  }
+  return results;
+}
+
+export function getAttainmentRate(history: GoalResult[]): number | null {
+  const complete = history.filter(r => r.complete);
+  return complete.length > 0 ? (complete.filter(r => r.achieved).length / complete.length) * 100 : null;
+}
+
+// Calendar days that broke a behavioural goal, with a short note for each breach
+export function getGoalBreaches(goals: Goal[], trades: Trade[]): Record<string, string[]> {
+  const breaches: Record<string, string[]> = {};
+
+  goals
+    .filter(g => !g.archived_at && GOAL_METRICS[g.metric].behavioural)
+    .forEach(goal => {
+      const counts: Record<string, number> = {};
+      trades.forEach(t => {
+        const day = toDayKey(t.entry_date);
+        if (day >= goal.starts_on) counts[day] = (counts[day] || 0) + 1;
+      });
+      Object.entries(counts).forEach(([day, count]) => {
+        if (count > Number(goal.target)) {
+          (breaches[day] ||= []).push(`${count} trades (max ${goal.target})`);
+        }
+      });
+    });
+
+  return breaches;
+}
@@ -0,0 +1,84 @@
+import { AssetClass, Instrument, TradeDirection } from '@/types/trade';
+
+const FX_CURRENCIES = ['USD', 'EUR', 'GBP', 'JPY', 'AUD', 'NZD', 'CAD', 'CHF'];
+const CRYPTO_CODES = ['BTC', 'ETH', 'XRP', 'LTC', 'ADA', 'SOL', 'DOGE', 'BNB', 'DOT'];
+const COMMODITY_PREFIXES = ['XAU', 'XAG', 'XPT', 'XPD', 'XTI', 'XBR', 'XNG', 'GOLD', 'SILVER', 'USOIL', 'UKOIL', 'WTI', 'BRENT', 'NATGAS', 'NGAS'];
+
+// Strips broker decorations such as "#", ".m", "-ECN" or "_i"
+export function normalizeSymbol(symbol: string): string {
+  return symbol.trim().toUpperCase().replace(/^#/, '').replace(/[._\-+].*$/, '');
+}
+
+// Exact symbol or alias match first, then the longest entry the symbol starts with
+// (covers suffixes glued on without a separator, e.g. "EURUSDm").
+export function findInstrument(instruments: Instrument[], symbol: string): Instrument | null {
+  const normalized = normalizeSymbol(symbol);
+  if (!normalized) return null;
+
+  const namesOf = (instrument: Instrument) => [instrument.symbol, ...(instrument.aliases || [])].map(normalizeSymbol);
+
+  const exact = instruments.find(i => namesOf(i).includes(normalized));
+  if (exact) return exact;
+
+  let best: { instrument: Instrument; length: number } | null = null;
+  for (const instrument of instruments) {
+    for (const name of namesOf(instrument)) {
+      if (name.length >= 3 && normalized.startsWith(name) && normalized.length - name.length <= 4) {
+        if (!best || name.length > best.length) best = { instrument, length: name.length };
+      }
+    }
+  }
+  return best?.instrument ?? null;
+}
+
+// Fallback for symbols missing from the registry
+export function guessAssetClass(symbol: string): AssetClass {
+  const sym = normalizeSymbol(symbol);
+
+  if (COMMODITY_PREFIXES.some(c => sym.startsWith(c))) return 'commodities';
+  if (CRYPTO_CODES.some(c => sym.startsWith(c))) return 'crypto';
+  if (/^[A-Z]{6}$/.test(sym) && FX_CURRENCIES.includes(sym.slice(0, 3)) && FX_CURRENCIES.includes(sym.slice(3))) {
+    return 'forex';
+  }
+  return 'stocks';
+}
+
+export function detectAssetClass(symbol: string, instruments: Instrument[] = []): AssetClass {
+  return findInstrument(instruments, symbol)?.asset_class ?? guessAssetClass(symbol);
+}
+
+// Value of a one-pip move on one lot. Quotes in another currency need a tick value,
+// except USD-based pairs which can be converted with the trade price.
+export function getPipValue(instrument: Instrument, price?: number): number | null {
+  if (instrument.tick_value) return Number(instrument.tick_value);
+  const perLot = Number(instrument.pip_size) * Number(instrument.contract_size);
+  if (instrument.quote_currency === 'USD') return perLot;
+  if (normalizeSymbol(instrument.symbol).startsWith('USD') && price && price > 0) return perLot / price;
+  return null;
+}
+
+export function calculatePips(instrument: Instrument, direction: TradeDirection, entry: number, exit: number): number {
+  const move = direction === 'buy' ? exit - entry : entry - exit;
+  return Number((move / Number(instrument.pip_size)).toFixed(1));
+}
+
+export function calculateRiskAmount(instrument: Instrument, entry: number, stopLoss: number, lots: number): number | null {
+  const pipValue = getPipValue(instrument, entry);
+  if (pipValue === null) return null;
+  const stopPips = Math.abs(entry - stopLoss) / Number(instrument.pip_size);
+  return Number((stopPips * pipValue * lots).toFixed(2));
+}
+
+// Planned reward over risk; null when the target is not on the profitable side
+export function calculateRiskReward(direction: TradeDirection, entry: number, stopLoss: number, target: number): number | null {
+  const risk = Math.abs(entry - stopLoss);
+  const reward = direction === 'buy' ? target - entry : entry - target;
+  if (risk === 0 || reward <= 0) return null;
+  return Number((reward / risk).toFixed(2));
+}
+
+// Lot size that loses riskAmount if price moves stopPips against the position
+export function calculateLotSize(riskAmount: number, stopPips: number, pipValue: number): number {
+  if (stopPips <= 0 || pipValue <= 0) return 0;
+  return Number((riskAmount / (stopPips * pipValue)).toFixed(2));
+}
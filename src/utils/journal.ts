@@ -0,0 +1,30 @@
+import { format } from 'date-fns';
+import { MarketBias, Trade } from '@/types/trade';
+
+export const MARKET_BIAS_LABELS: Record<MarketBias, string> = {
+  bullish: 'Bullish',
+  bearish: 'Bearish',
+  neutral: 'Neutral',
+};
+
+export const RATING_FIELDS = [
+  { key: 'mood', label: 'Mood', low: 'Low', high: 'Great' },
+  { key: 'energy', label: 'Energy', low: 'Drained', high: 'Sharp' },
+  { key: 'sleep', label: 'Sleep', low: 'Poor', high: 'Rested' },
+] as const;
+
+export function toDayKey(date: Date | string): string {
+  return format(new Date(date), 'yyyy-MM-dd');
+}
+
+// The calendar books a trade on the day it closed, falling back to its entry day
+export function getTradeDayKey(trade: Trade): string {
+  return toDayKey(trade.exit_date || trade.entry_date);
+}
+
+// Trades opened or closed on the given day
+export function getTradesForDay(trades: Trade[], day: string): Trade[] {
+  return trades.filter(t =>
+    toDayKey(t.entry_date) === day || (t.exit_date && toDayKey(t.exit_date) === day)
+  );
+}
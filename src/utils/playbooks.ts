@@ -0,0 +1,93 @@
+import { PnLBasis, Playbook, Trade, TradingSession } from '@/types/trade';
+import { calculateStats, getRMultiple, isClosedTrade, TradeStats } from './analytics';
+import { normalizeSymbol } from './instruments';
+import { getZonedTime } from './timezone';
+
+export const SESSION_LABELS: Record<TradingSession, string> = {
+  sydney: 'Sydney',
+  tokyo: 'Tokyo',
+  london: 'London',
+  new_york: 'New York',
+};
+
+// Opening hours in each market's own time, so they follow its daylight saving changes.
+// Sessions overlap, so a time can fall in more than one.
+const SESSION_HOURS: Record<TradingSession, { timeZone: string; open: number; close: number }> = {
+  sydney: { timeZone: 'Australia/Sydney', open: 7, close: 16 },
+  tokyo: { timeZone: 'Asia/Tokyo', open: 9, close: 18 },
+  london: { timeZone: 'Europe/London', open: 8, close: 17 },
+  new_york: { timeZone: 'America/New_York', open: 8, close: 17 },
+};
+
+export function getTradeSessions(date: Date | string): TradingSession[] {
+  return (Object.keys(SESSION_HOURS) as TradingSession[]).filter(session => {
+    const { timeZone, open, close } = SESSION_HOURS[session];
+    const { hour } = getZonedTime(date, timeZone);
+    return hour >= open && hour < close;
+  });
+}
+
+// Reasons a trade falls outside the playbook's allowed symbols or sessions
+export function getPlaybookViolations(playbook: Playbook, symbol: string, entryDate: Date | string): string[] {
+  const violations: string[] = [];
+
+  if (playbook.allowed_symbols.length > 0 && symbol) {
+    const allowed = playbook.allowed_symbols.map(normalizeSymbol);
+    if (!allowed.includes(normalizeSymbol(symbol))) {
+      violations.push(`${symbol.toUpperCase()} is not on this playbook's symbol list`);
+    }
+  }
+
+  if (playbook.allowed_sessions.length > 0) {
+    const sessions = getTradeSessions(entryDate);
+    if (!sessions.some(s => playbook.allowed_sessions.includes(s))) {
+      violations.push(`Entry is outside ${playbook.allowed_sessions.map(s => SESSION_LABELS[s]).join(' / ')}`);
+    }
+  }
+
+  return violations;
+}
+
+export interface PlaybookStats extends TradeStats {
+  averageR: number | null;
+  targetHitRate: number | null; // Share of trades reaching the playbook's target R
+  offPlanTrades: number;
+}
+
+export function getPlaybookStats(playbook: Playbook, trades: Trade[], basis: PnLBasis = 'net'): PlaybookStats {
+  const playbookTrades = trades.filter(t => t.playbook_id === playbook.id);
+  const completed = playbookTrades.filter(isClosedTrade);
+
+  const rMultiples = completed
+    .map(t => getRMultiple(t, basis))
+    .filter((r): r is number => r !== null);
+
+  return {
+    ...calculateStats(playbookTrades, undefined, basis),
+    averageR: rMultiples.length > 0 ? rMultiples.reduce((sum, r) => sum + r, 0) / rMultiples.length : null,
+    targetHitRate: playbook.target_r && rMultiples.length > 0
+      ? (rMultiples.filter(r => r >= Number(playbook.target_r)).length / rMultiples.length) * 100
+      : null,
+    offPlanTrades: playbookTrades.filter(t => getPlaybookViolations(playbook, t.symbol, t.entry_date).length > 0).length,
+  };
+}
+
+export interface StrategyNameUsage {
+  name: string;
+  trades: number;
+}
+
+// Set by the MT5 webhook to find trades awaiting review, so never merged into a playbook
+export const MT5_SYNC_STRATEGY = 'MT5 Auto-Sync';
+
+// Free-text strategy names on trades not yet linked to a playbook
+export function getUnlinkedStrategyNames(trades: Trade[]): StrategyNameUsage[] {
+  const counts = new Map<string, number>();
+  for (const trade of trades) {
+    const name = trade.strategy;
+    if (!name?.trim() || trade.playbook_id || name === MT5_SYNC_STRATEGY) continue;
+    counts.set(name, (counts.get(name) || 0) + 1);
+  }
+  return Array.from(counts, ([name, count]) => ({ name, trades: count }))
+    .sort((a, b) => b.trades - a.trades);
+}
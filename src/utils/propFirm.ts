@@ -0,0 +1,259 @@
+import { DrawdownType, PnLBasis, PropChallenge, Trade } from '@/types/trade';
+import { calculateStats, getTradePL, isClosedTrade, isOpenTrade } from './analytics';
+import { formatCurrency } from './currency';
+import { toUtcDayKey } from './risk';
+
+export interface ChallengeTemplate {
+  id: string;
+  label: string;
+  profit_target_pct: number | null;
+  max_daily_drawdown_pct: number | null;
+  max_overall_drawdown_pct: number | null;
+  drawdown_type: DrawdownType;
+  min_trading_days: number | null;
+  consistency_pct: number | null;
+}
+
+// Common rule sets as starting points; every value can be changed after picking one
+export const CHALLENGE_TEMPLATES: ChallengeTemplate[] = [
+  { id: 'two_step_1', label: 'Two-step, phase 1', profit_target_pct: 10, max_daily_drawdown_pct: 5, max_overall_drawdown_pct: 10, drawdown_type: 'static', min_trading_days: 4, consistency_pct: null },
+  { id: 'two_step_2', label: 'Two-step, phase 2', profit_target_pct: 5, max_daily_drawdown_pct: 5, max_overall_drawdown_pct: 10, drawdown_type: 'static', min_trading_days: 4, consistency_pct: null },
+  { id: 'one_step', label: 'One-step', profit_target_pct: 10, max_daily_drawdown_pct: 4, max_overall_drawdown_pct: 6, drawdown_type: 'trailing', min_trading_days: 3, consistency_pct: null },
+  { id: 'trailing_evaluation', label: 'Trailing evaluation', profit_target_pct: 6, max_daily_drawdown_pct: 2, max_overall_drawdown_pct: 4, drawdown_type: 'trailing', min_trading_days: 5, consistency_pct: 50 },
+  { id: 'funded', label: 'Funded account', profit_target_pct: null, max_daily_drawdown_pct: 5, max_overall_drawdown_pct: 10, drawdown_type: 'static', min_trading_days: null, consistency_pct: 30 },
+];
+
+export const DRAWDOWN_TYPE_LABELS: Record<DrawdownType, string> = {
+  static: 'Static',
+  trailing: 'Trailing',
+};
+
+export type ChallengeRuleKey = 'profit_target' | 'daily_drawdown' | 'overall_drawdown' | 'trading_days' | 'consistency' | 'time_limit';
+export type ChallengeRuleState = 'ok' | 'warning' | 'violated' | 'met';
+export type ChallengeOutcome = 'in_progress' | 'passed' | 'failed';
+
+export interface ChallengeRuleResult {
+  key: ChallengeRuleKey;
+  label: string;
+  state: ChallengeRuleState;
+  value: string;
+  limit: string;
+  room: string | null; // What is left before the rule breaks, or still needed to meet it
+  progress: number; // 0-100; for drawdowns, how much of the allowance is used
+}
+
+export interface ChallengeEvaluation {
+  outcome: ChallengeOutcome;
+  failureReason: string | null;
+  balance: number;
+  equity: number; // Balance plus floating P&L of open positions
+  profit: number;
+  tradingDays: number;
+  trades: Trade[];
+  rules: ChallengeRuleResult[];
+  projectedDays: number | null; // Trading days to the target at the current expectancy
+}
+
+// Share of an allowance left before a drawdown rule is flagged
+const DRAWDOWN_WARNING_ROOM = 0.25;
+
+const closeTime = (trade: Trade) => new Date(trade.exit_date || trade.entry_date).getTime();
+
+// Trailing drawdown follows the balance high-water mark until the floor reaches the starting size
+function getDrawdownFloor(type: DrawdownType, size: number, peak: number, allowance: number): number {
+  return type === 'static' ? size - allowance : Math.min(peak - allowance, size);
+}
+
+function drawdownState(room: number, allowance: number): ChallengeRuleState {
+  if (room < 0) return 'violated';
+  return room < allowance * DRAWDOWN_WARNING_ROOM ? 'warning' : 'ok';
+}
+
+// Challenge days are UTC days, as with the risk limits
+export function getChallengeTrades(challenge: PropChallenge, trades: Trade[]): Trade[] {
+  const start = Date.parse(`${challenge.starts_on}T00:00:00Z`);
+  const end = challenge.ends_on ? Date.parse(`${challenge.ends_on}T23:59:59.999Z`) : Infinity;
+  return trades.filter(t => {
+    const entry = new Date(t.entry_date).getTime();
+    return t.account_id === challenge.account_id && entry >= start && entry <= end;
+  });
+}
+
+export function evaluateChallenge(
+  challenge: PropChallenge,
+  trades: Trade[],
+  currency: string | null,
+  basis: PnLBasis = 'net',
+  now = new Date()
+): ChallengeEvaluation {
+  const formatMoney = (value: number) => formatCurrency(value, currency);
+  const size = Number(challenge.account_size);
+  const challengeTrades = getChallengeTrades(challenge, trades);
+  const closed = challengeTrades.filter(isClosedTrade).sort((a, b) => closeTime(a) - closeTime(b));
+  const dailyAllowance = challenge.max_daily_drawdown_pct ? size * Number(challenge.max_daily_drawdown_pct) / 100 : null;
+  const overallAllowance = challenge.max_overall_drawdown_pct ? size * Number(challenge.max_overall_drawdown_pct) / 100 : null;
+
+  // Replay closed trades to find the first day a drawdown rule was broken
+  let balance = size;
+  let peak = size;
+  let currentDay: string | null = null;
+  let dayStart = size;
+  let dailyBreach: string | null = null;
+  let overallBreach: string | null = null;
+  const dayProfit: Record<string, number> = {};
+
+  for (const trade of closed) {
+    const day = toUtcDayKey(new Date(closeTime(trade)));
+    if (day !== currentDay) {
+      currentDay = day;
+      dayStart = balance;
+    }
+    const pl = getTradePL(trade, basis);
+    balance += pl;
+    dayProfit[day] = (dayProfit[day] || 0) + pl;
+
+    if (dailyAllowance !== null && !dailyBreach && dayStart - balance > dailyAllowance) dailyBreach = day;
+    if (overallAllowance !== null && !overallBreach && balance < getDrawdownFloor(challenge.drawdown_type, size, peak, overallAllowance)) {
+      overallBreach = day;
+    }
+    peak = Math.max(peak, balance);
+  }
+
+  const today = toUtcDayKey(now);
+  const todayStart = currentDay === today ? dayStart : balance;
+  const floating = challengeTrades.filter(isOpenTrade).reduce((sum, t) => sum + Number(t.floating_pl || 0), 0);
+  const equity = balance + floating;
+  const profit = balance - size;
+  const tradingDays = new Set(challengeTrades.map(t => toUtcDayKey(t.entry_date))).size;
+  const rules: ChallengeRuleResult[] = [];
+
+  const target = challenge.profit_target_pct ? size * Number(challenge.profit_target_pct) / 100 : null;
+  if (target !== null) {
+    rules.push({
+      key: 'profit_target',
+      label: 'Profit target',
+      state: profit >= target ? 'met' : 'ok',
+      value: formatMoney(profit),
+      limit: `${formatMoney(target)} (${Number(challenge.profit_target_pct)}%)`,
+      room: profit >= target ? null : `${formatMoney(target - profit)} to go`,
+      progress: Math.min(100, Math.max(0, (profit / target) * 100)),
+    });
+  }
+
+  if (dailyAllowance !== null) {
+    const room = equity - (todayStart - dailyAllowance);
+    rules.push({
+      key: 'daily_drawdown',
+      label: 'Daily drawdown',
+      state: dailyBreach ? 'violated' : drawdownState(room, dailyAllowance),
+      value: formatMoney(Math.max(0, todayStart - equity)),
+      limit: `${formatMoney(dailyAllowance)} (${Number(challenge.max_daily_drawdown_pct)}%)`,
+      room: dailyBreach ? `Broken on ${dailyBreach}` : `${formatMoney(Math.max(0, room))} left today`,
+      progress: Math.min(100, Math.max(0, ((dailyAllowance - room) / dailyAllowance) * 100)),
+    });
+  }
+
+  if (overallAllowance !== null) {
+    const floor = getDrawdownFloor(challenge.drawdown_type, size, peak, overallAllowance);
+    const room = equity - floor;
+    rules.push({
+      key: 'overall_drawdown',
+      label: `Max drawdown (${DRAWDOWN_TYPE_LABELS[challenge.drawdown_type].toLowerCase()})`,
+      state: overallBreach ? 'violated' : drawdownState(room, overallAllowance),
+      value: `Floor ${formatMoney(floor)}`,
+      limit: `${formatMoney(overallAllowance)} (${Number(challenge.max_overall_drawdown_pct)}%)`,
+      room: overallBreach ? `Broken on ${overallBreach}` : `${formatMoney(Math.max(0, room))} above the floor`,
+      progress: Math.min(100, Math.max(0, ((overallAllowance - room) / overallAllowance) * 100)),
+    });
+  }
+
+  if (challenge.min_trading_days) {
+    const required = Number(challenge.min_trading_days);
+    rules.push({
+      key: 'trading_days',
+      label: 'Minimum trading days',
+      state: tradingDays >= required ? 'met' : 'ok',
+      value: String(tradingDays),
+      limit: String(required),
+      room: tradingDays >= required ? null : `${required - tradingDays} more day${required - tradingDays === 1 ? '' : 's'}`,
+      progress: Math.min(100, (tradingDays / required) * 100),
+    });
+  }
+
+  // A lopsided best day doesn't fail the challenge, but it has to be diluted before it can pass
+  if (challenge.consistency_pct) {
+    const maxShare = Number(challenge.consistency_pct);
+    const bestDay = Math.max(0, ...Object.values(dayProfit));
+    const share = profit > 0 ? (bestDay / profit) * 100 : 0;
+    const needed = bestDay / (maxShare / 100) - profit;
+    rules.push({
+      key: 'consistency',
+      label: 'Consistency',
+      state: profit > 0 && share > maxShare ? 'warning' : 'ok',
+      value: profit > 0 ? `Best day ${share.toFixed(0)}% of profit` : 'No profit yet',
+      limit: `${maxShare}% max from one day`,
+      room: profit > 0 && share > maxShare ? `${formatMoney(needed)} more profit on other days` : null,
+      progress: Math.min(100, (share / maxShare) * 100),
+    });
+  }
+
+  let expired = false;
+  if (challenge.ends_on) {
+    const end = Date.parse(`${challenge.ends_on}T23:59:59.999Z`);
+    const start = Date.parse(`${challenge.starts_on}T00:00:00Z`);
+    const daysLeft = Math.ceil((end - now.getTime()) / 86400000);
+    expired = daysLeft <= 0;
+    rules.push({
+      key: 'time_limit',
+      label: 'Time limit',
+      state: expired ? 'violated' : daysLeft <= 3 ? 'warning' : 'ok',
+      value: expired ? 'Ended' : `${daysLeft} day${daysLeft === 1 ? '' : 's'} left`,
+      limit: `Ends ${challenge.ends_on}`,
+      room: null,
+      progress: Math.min(100, Math.max(0, ((now.getTime() - start) / (end - start)) * 100)),
+    });
+  }
+
+  const stateOf = (key: ChallengeRuleKey) => rules.find(r => r.key === key)?.state;
+  const liveViolation = rules.find(r => (r.key === 'daily_drawdown' || r.key === 'overall_drawdown') && r.state === 'violated');
+  const passed = target !== null
+    && profit >= target
+    && !liveViolation
+    && (!challenge.min_trading_days || stateOf('trading_days') === 'met')
+    && stateOf('consistency') !== 'warning';
+
+  let failureReason: string | null = null;
+  if (liveViolation) failureReason = `${liveViolation.label} broken`;
+  else if (expired && !passed) failureReason = 'Time limit reached before the target';
+
+  return {
+    outcome: failureReason ? 'failed' : passed ? 'passed' : 'in_progress',
+    failureReason,
+    balance,
+    equity,
+    profit,
+    tradingDays,
+    trades: challengeTrades,
+    rules,
+    projectedDays: target !== null ? projectDaysToTarget(challengeTrades, target - profit, challenge.min_trading_days, tradingDays, basis) : null,
+  };
+}
+
+// Expectancy per trade times the usual number of trades per day gives the expected daily gain
+function projectDaysToTarget(
+  trades: Trade[],
+  remaining: number,
+  minDays: number | null,
+  tradingDays: number,
+  basis: PnLBasis
+): number | null {
+  const daysForMinimum = Math.max(0, Number(minDays || 0) - tradingDays);
+  if (remaining <= 0) return daysForMinimum;
+
+  const stats = calculateStats(trades, undefined, basis);
+  const activeDays = new Set(trades.filter(isClosedTrade).map(t => toUtcDayKey(t.exit_date || t.entry_date))).size;
+  if (stats.totalTrades === 0 || activeDays === 0 || stats.expectancy <= 0) return null;
+
+  const dailyExpectancy = stats.expectancy * (stats.totalTrades / activeDays);
+  return Math.max(Math.ceil(remaining / dailyExpectancy), daysForMinimum);
+}
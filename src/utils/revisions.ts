@@ -0,0 +1,106 @@
+import { TradeChangeSource, TradeRevision } from '@/types/trade';
+
+// Read by the record_trade_revision trigger to tag where a change came from
+export const CHANGE_SOURCE_HEADER = 'x-change-source';
+
+export const CHANGE_SOURCE_LABELS: Record<TradeChangeSource, string> = {
+  manual: 'Manual edit',
+  csv_import: 'CSV import',
+  mt5_webhook: 'MT5 webhook',
+  restore: 'Restored',
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  account_id: 'Account',
+  asset_class: 'Asset class',
+  commission: 'Commission',
+  deleted_at: 'Moved to trash',
+  direction: 'Direction',
+  emotions: 'Emotions',
+  entry_date: 'Entry date',
+  entry_price: 'Entry price',
+  exit_date: 'Exit date',
+  exit_price: 'Exit price',
+  exit_reason: 'Exit reason',
+  lessons: 'Lessons',
+  lessons_learned: 'Lessons learned',
+  lot_size: 'Lot size',
+  needs_review: 'Needs review',
+  other_fees: 'Other fees',
+  pips: 'Pips',
+  playbook_id: 'Playbook',
+  probability: 'Probability',
+  profit_loss: 'P&L',
+  reasoning: 'Reasoning',
+  reward_amount: 'Reward amount',
+  risk_amount: 'Risk amount',
+  risk_reward_ratio: 'R:R',
+  screenshot_url: 'External chart link',
+  setup_type: 'Setup type',
+  status: 'Status',
+  stop_loss: 'Stop loss',
+  strategy: 'Strategy',
+  swap: 'Swap',
+  symbol: 'Symbol',
+  tags: 'Tags',
+  take_profit: 'Take profit',
+};
+
+// Identity, ownership, trash state and broker-managed columns are never rolled back
+const NON_RESTORABLE_FIELDS = ['id', 'user_id', 'created_at', 'updated_at', 'deleted_at', 'mt5_ticket', 'floating_pl', 'floating_updated_at'];
+
+// Columns pointing at rows the user can delete; a restore can't bring those rows back
+export const REFERENCE_FIELDS = {
+  account_id: 'trading_accounts',
+  playbook_id: 'playbooks',
+} as const;
+
+export interface RevisionChange {
+  field: string;
+  label: string;
+  from: string;
+  to: string;
+}
+
+export function formatRevisionValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T/.test(value)) {
+    return new Date(value).toLocaleString();
+  }
+  return String(value);
+}
+
+export function getRevisionChanges(revision: TradeRevision): RevisionChange[] {
+  const fields = revision.operation === 'insert'
+    ? Object.keys(FIELD_LABELS).filter(field => {
+        const value = revision.snapshot[field];
+        return value !== null && value !== undefined && value !== '' && !(Array.isArray(value) && value.length === 0);
+      })
+    : revision.changed_fields;
+
+  return fields.map(field => ({
+    field,
+    label: getFieldLabel(field),
+    from: formatRevisionValue(revision.previous?.[field]),
+    to: formatRevisionValue(revision.snapshot[field]),
+  }));
+}
+
+export function getRestorableValues(row: Record<string, unknown>) {
+  return Object.fromEntries(
+    Object.entries(row).filter(([field]) => !NON_RESTORABLE_FIELDS.includes(field))
+  );
+}
+
+export function getFieldLabel(field: string): string {
+  return FIELD_LABELS[field] || field;
+}
+
+// Labels of the fields a restore would change, compared with the trade as it is now
+export function getRestoreChanges(current: Record<string, unknown>, row: Record<string, unknown>): string[] {
+  return Object.entries(getRestorableValues(row))
+    .filter(([field, value]) => JSON.stringify(value ?? null) !== JSON.stringify(current[field] ?? null))
+    .map(([field]) => getFieldLabel(field));
+}
@@ -0,0 +1,197 @@
+import { CashFlow, RiskLimits, RiskRule, Trade, TradingAccount } from '@/types/trade';
+import { AccountLedger, getTradePL, isClosedTrade, isOpenTrade } from './analytics';
+import { formatCurrency } from './currency';
+import { normalizeSymbol } from './instruments';
+
+export const RISK_RULE_LABELS: Record<RiskRule, string> = {
+  daily_loss: 'Daily loss',
+  daily_loss_pct: 'Daily loss %',
+  consecutive_losses: 'Consecutive losses',
+  trades_per_day: 'Trades per day',
+  open_risk: 'Open risk',
+  lot_size: 'Lot size',
+};
+
+// Share of a limit at which it is flagged before it is actually reached
+const WARNING_THRESHOLD = 0.8;
+
+export type RiskLevel = 'ok' | 'warning' | 'locked';
+
+export interface RiskStatus {
+  rule: RiskRule;
+  current: number;
+  limit: number;
+  level: RiskLevel;
+}
+
+export interface RiskDraft {
+  symbol: string;
+  lot_size: number;
+  status: string;
+  risk_amount?: number | null;
+  entry_date: Date | string;
+}
+
+// Limits are counted per UTC day, the same way the database trigger does
+export function toUtcDayKey(date: Date | string): string {
+  return new Date(date).toISOString().slice(0, 10);
+}
+
+export function formatRiskValue(rule: RiskRule, value: number, currency: string | null): string {
+  if (rule === 'daily_loss' || rule === 'open_risk') return formatCurrency(Number(value), currency);
+  if (rule === 'daily_loss_pct') return `${Number(value).toFixed(2)}%`;
+  if (rule === 'lot_size') return `${Number(value)} lots`;
+  return String(Number(value));
+}
+
+// An account's own limits win over the default row
+export function resolveRiskLimits(limits: RiskLimits[], accountId: string | null): RiskLimits | null {
+  return (accountId ? limits.find(l => l.account_id === accountId) : undefined)
+    ?? limits.find(l => l.account_id === null)
+    ?? null;
+}
+
+export function getSymbolLotLimit(limits: RiskLimits, symbol: string): number | null {
+  const symbolLimit = limits.symbol_lot_limits?.[normalizeSymbol(symbol)];
+  return symbolLimit !== undefined ? Number(symbolLimit) : limits.max_lot_size !== null ? Number(limits.max_lot_size) : null;
+}
+
+function closedOn(trade: Trade, day: string) {
+  return isClosedTrade(trade) && toUtcDayKey(trade.exit_date || trade.entry_date) === day;
+}
+
+// Percent limits need a single account's balance to measure against
+export function getAccountLedger(account: TradingAccount | undefined, cashFlows: CashFlow[]): AccountLedger | null {
+  if (!account) return null;
+  return {
+    startingBalance: Number(account.starting_balance || 0),
+    cashFlows: cashFlows.filter(f => f.account_id === account.id),
+  };
+}
+
+export function getStartOfDayBalance(ledger: AccountLedger, trades: Trade[], day: string): number {
+  const flows = ledger.cashFlows
+    .filter(f => toUtcDayKey(f.occurred_at) < day)
+    .reduce((sum, f) => sum + Number(f.amount), 0);
+  const realised = trades
+    .filter(t => isClosedTrade(t) && toUtcDayKey(t.exit_date || t.entry_date) < day)
+    .reduce((sum, t) => sum + getTradePL(t, 'net'), 0);
+  return ledger.startingBalance + flows + realised;
+}
+
+// Losses in a row, counting back from the most recently closed trade
+export function getLossStreak(trades: Trade[]): number {
+  const closed = trades
+    .filter(isClosedTrade)
+    .sort((a, b) => new Date(b.exit_date || b.entry_date).getTime() - new Date(a.exit_date || a.entry_date).getTime());
+  let streak = 0;
+  for (const trade of closed) {
+    if (trade.status !== 'loss') break;
+    streak++;
+  }
+  return streak;
+}
+
+function toStatus(rule: RiskRule, current: number, limit: number | null): RiskStatus | null {
+  if (limit === null) return null;
+  const max = Number(limit);
+  const level: RiskLevel = current >= max ? 'locked' : current >= max * WARNING_THRESHOLD ? 'warning' : 'ok';
+  return { rule, current, limit: max, level };
+}
+
+// Where each daily limit stands for one account's trades on the given UTC day.
+// Daily loss is measured on the net basis so it matches the breach log.
+export function getRiskStatus(
+  limits: RiskLimits,
+  trades: Trade[],
+  ledger: AccountLedger | null,
+  day = toUtcDayKey(new Date())
+): RiskStatus[] {
+  const dayLoss = -trades.filter(t => closedOn(t, day)).reduce((sum, t) => sum + getTradePL(t, 'net'), 0);
+  const balance = ledger ? getStartOfDayBalance(ledger, trades, day) : 0;
+  const openRisk = trades.filter(isOpenTrade).reduce((sum, t) => sum + Number(t.risk_amount || 0), 0);
+
+  return [
+    toStatus('daily_loss', Math.max(0, dayLoss), limits.max_daily_loss),
+    balance > 0 ? toStatus('daily_loss_pct', Math.max(0, (dayLoss / balance) * 100), limits.max_daily_loss_pct) : null,
+    toStatus('consecutive_losses', getLossStreak(trades.filter(t => toUtcDayKey(t.exit_date || t.entry_date) <= day)), limits.max_consecutive_losses),
+    toStatus('trades_per_day', trades.filter(t => toUtcDayKey(t.entry_date) === day).length, limits.max_trades_per_day),
+    toStatus('open_risk', openRisk, limits.max_open_risk),
+  ].filter((status): status is RiskStatus => status !== null);
+}
+
+// Warnings for a trade about to be saved, given the account's other trades
+export function getTradeRiskWarnings(
+  limits: RiskLimits,
+  trades: Trade[],
+  ledger: AccountLedger | null,
+  draft: RiskDraft,
+  currency: string | null
+): string[] {
+  const warnings: string[] = [];
+  const entry = new Date(draft.entry_date);
+  const day = toUtcDayKey(isNaN(entry.getTime()) ? new Date() : entry);
+  const statuses = getRiskStatus(limits, trades, ledger, day);
+  const statusOf = (rule: RiskRule) => statuses.find(s => s.rule === rule);
+
+  const dailyLoss = statusOf('daily_loss');
+  if (dailyLoss?.level === 'locked') {
+    warnings.push(`Daily loss limit reached: down ${formatRiskValue('daily_loss', dailyLoss.current, currency)} against ${formatRiskValue('daily_loss', dailyLoss.limit, currency)}`);
+  }
+  const dailyLossPct = statusOf('daily_loss_pct');
+  if (dailyLossPct?.level === 'locked') {
+    warnings.push(`Daily loss limit reached: down ${formatRiskValue('daily_loss_pct', dailyLossPct.current, currency)} of the day's starting balance`);
+  }
+  const streak = statusOf('consecutive_losses');
+  if (streak?.level === 'locked') {
+    warnings.push(`${streak.current} losses in a row. Your limit is ${streak.limit}, so step away before taking another trade`);
+  }
+
+  const tradesPerDay = statusOf('trades_per_day');
+  if (tradesPerDay && tradesPerDay.current + 1 > tradesPerDay.limit) {
+    warnings.push(`This would be trade ${tradesPerDay.current + 1} of the day, over your limit of ${tradesPerDay.limit}`);
+  }
+
+  const openRisk = statusOf('open_risk');
+  if (openRisk && draft.status === 'open' && draft.risk_amount) {
+    const total = openRisk.current + Number(draft.risk_amount);
+    if (total > openRisk.limit) {
+      warnings.push(`Open risk would be ${formatRiskValue('open_risk', total, currency)}, over your limit of ${formatRiskValue('open_risk', openRisk.limit, currency)}`);
+    }
+  }
+
+  const lotLimit = draft.symbol ? getSymbolLotLimit(limits, draft.symbol) : null;
+  if (lotLimit !== null && Number(draft.lot_size) > lotLimit) {
+    warnings.push(`${draft.lot_size} lots is over your ${lotLimit} lot limit for ${normalizeSymbol(draft.symbol)}`);
+  }
+
+  return warnings;
+}
+
+export function describeBreach(
+  breach: { rule: RiskRule; actual_value: number; limit_value: number; symbol: string | null },
+  currency: string | null
+): string {
+  const actual = formatRiskValue(breach.rule, breach.actual_value, currency);
+  const limit = formatRiskValue(breach.rule, breach.limit_value, currency);
+  if (breach.rule === 'lot_size') return `${actual} on ${breach.symbol ?? 'a trade'} (max ${limit})`;
+  if (breach.rule === 'consecutive_losses') return `${actual} losses in a row (max ${limit})`;
+  if (breach.rule === 'trades_per_day') return `${actual} trades in a day (max ${limit})`;
+  if (breach.rule === 'open_risk') return `${actual} open risk (max ${limit})`;
+  return `Down ${actual} on the day (max ${limit})`;
+}
+
+// "EURUSD: 2, XAUUSD: 0.5" <-> { EURUSD: 2, XAUUSD: 0.5 }
+export function parseSymbolLotLimits(value: string): Record<string, number> | null {
+  const limits: Record<string, number> = {};
+  for (const part of value.split(/[,\n]/).map(p => p.trim()).filter(Boolean)) {
+    const match = part.match(/^([^:=\s]+)\s*[:=]?\s*(\d+(?:\.\d+)?)$/);
+    if (!match || Number(match[2]) <= 0) return null;
+    limits[normalizeSymbol(match[1])] = Number(match[2]);
+  }
+  return limits;
+}
+
+export function formatSymbolLotLimits(limits: Record<string, number>): string {
+  return Object.entries(limits).map(([symbol, lots]) => `${symbol}: ${lots}`).join(', ');
+}
@@ -0,0 +1,29 @@
+import { ScreenshotPhase } from '@/types/trade';
+
+export const SCREENSHOT_PHASES: ScreenshotPhase[] = ['before', 'during', 'after'];
+
+export const PHASE_LABELS: Record<ScreenshotPhase, string> = {
+  before: 'Before',
+  during: 'During',
+  after: 'After',
+};
+
+// Mirrors the bucket's file_size_limit and allowed_mime_types
+export const MAX_SCREENSHOT_BYTES = 10 * 1024 * 1024;
+const ACCEPTED_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif'];
+export const SCREENSHOT_ACCEPT = ACCEPTED_TYPES.join(',');
+
+export function splitScreenshotFiles(files: Iterable<File>) {
+  const accepted: File[] = [];
+  const rejected: string[] = [];
+  for (const file of files) {
+    if (!ACCEPTED_TYPES.includes(file.type)) {
+      rejected.push(`${file.name || 'Pasted file'} is not a PNG, JPEG, WebP or GIF image`);
+    } else if (file.size > MAX_SCREENSHOT_BYTES) {
+      rejected.push(`${file.name || 'Pasted image'} is larger than 10 MB`);
+    } else {
+      accepted.push(file);
+    }
+  }
+  return { accepted, rejected };
+}
@@ -0,0 +1,204 @@
+import { PnLBasis, Trade } from '@/types/trade';
+import { getTradeEmotions, getTradePL, isClosedTrade, median } from './analytics';
+
+export type StreakKind = 'win' | 'loss';
+export type RevengeSignal = 'size' | 'frequency' | 'emotion';
+
+export interface Streak {
+  kind: StreakKind;
+  length: number;
+  tradeIds: string[];
+}
+
+export interface StreakLengthCount {
+  length: string;
+  wins: number; // Winning streaks of this length
+  losses: number;
+}
+
+export interface StreakStats {
+  longestWin: Streak | null;
+  longestLoss: Streak | null;
+  current: Streak | null; // Null when the last closed trade broke even
+  distribution: StreakLengthCount[];
+}
+
+export interface AfterLossStats {
+  label: string;
+  priorLosses: number; // Losses in a row just before the trade; the last row also holds longer runs
+  trades: number;
+  winRate: number;
+  expectancy: number;
+  averageLotSize: number;
+  sizeChangePct: number; // Average lot size against the usual (median) one
+}
+
+export interface RevengeTrade {
+  trade: Trade;
+  afterLoss: Trade | null; // The loss it followed, if it came within the window
+  minutesAfterLoss: number | null;
+  signals: RevengeSignal[];
+}
+
+export interface RevengeStats {
+  flagged: RevengeTrade[]; // Newest first
+  trades: number;
+  winRate: number;
+  totalPL: number;
+  otherWinRate: number; // Every other closed trade, to compare against
+}
+
+// A trade entered this soon after a loss closed counts as a reaction to it
+export const REVENGE_WINDOW_MINUTES = 60;
+// Lot size at least this multiple of the losing trade's
+export const REVENGE_SIZE_MULTIPLE = 1.5;
+// This many trades opened inside the window counts as a burst
+export const REVENGE_BURST_TRADES = 3;
+
+const MAX_STREAK_BUCKET = 5;
+const MAX_PRIOR_LOSSES = 3;
+
+const closeTime = (trade: Trade) => new Date(trade.exit_date || trade.entry_date).getTime();
+const entryTime = (trade: Trade) => new Date(trade.entry_date).getTime();
+
+const byClose = (trades: Trade[]) => trades.filter(isClosedTrade).sort((a, b) => closeTime(a) - closeTime(b));
+
+// Runs of wins or losses in the order trades closed; a breakeven ends a run, like the risk rule's loss streak
+export function getStreaks(trades: Trade[]): Streak[] {
+  const streaks: Streak[] = [];
+  let run: Streak | null = null;
+
+  for (const trade of byClose(trades)) {
+    const kind = trade.status === 'win' || trade.status === 'loss' ? trade.status : null;
+    if (run && run.kind === kind) {
+      run.length++;
+      run.tradeIds.push(trade.id);
+      continue;
+    }
+    if (run) streaks.push(run);
+    run = kind ? { kind, length: 1, tradeIds: [trade.id] } : null;
+  }
+  if (run) streaks.push(run);
+
+  return streaks;
+}
+
+export function getStreakStats(trades: Trade[]): StreakStats {
+  const streaks = getStreaks(trades);
+  const longest = (kind: StreakKind) => streaks
+    .filter(s => s.kind === kind)
+    .reduce<Streak | null>((best, s) => (!best || s.length > best.length ? s : best), null);
+
+  const closed = byClose(trades);
+  const last = closed[closed.length - 1];
+  const lastStreak = streaks[streaks.length - 1];
+  const current = last && lastStreak?.tradeIds.includes(last.id) ? lastStreak : null;
+
+  const distribution = Array.from({ length: MAX_STREAK_BUCKET }, (_, i) => {
+    const length = i + 1;
+    const inBucket = streaks.filter(s => (length === MAX_STREAK_BUCKET ? s.length >= length : s.length === length));
+    return {
+      length: length === MAX_STREAK_BUCKET ? `${length}+` : String(length),
+      wins: inBucket.filter(s => s.kind === 'win').length,
+      losses: inBucket.filter(s => s.kind === 'loss').length,
+    };
+  });
+
+  return { longestWin: longest('win'), longestLoss: longest('loss'), current, distribution };
+}
+
+// How the next trade goes after a run of losses. A trade's run is counted from the trades that had
+// already closed when it was opened, so overlapping trades don't count as reactions to each other.
+export function getAfterLossStats(trades: Trade[], basis: PnLBasis = 'net'): AfterLossStats[] {
+  const closed = byClose(trades);
+  const byEntry = [...closed].sort((a, b) => entryTime(a) - entryTime(b));
+  const usualLot = median(closed.map(t => Number(t.lot_size)).filter(lot => lot > 0));
+
+  const groups = Array.from({ length: MAX_PRIOR_LOSSES + 1 }, () => [] as Trade[]);
+  let next = 0;
+  let lossRun = 0;
+  byEntry.forEach(trade => {
+    while (next < closed.length && closeTime(closed[next]) <= entryTime(trade)) {
+      lossRun = closed[next].status === 'loss' ? lossRun + 1 : 0;
+      next++;
+    }
+    if (next > 0) groups[Math.min(lossRun, MAX_PRIOR_LOSSES)].push(trade);
+  });
+
+  return groups.map((group, priorLosses) => {
+    const wins = group.filter(t => t.status === 'win').length;
+    const totalPL = group.reduce((sum, t) => sum + getTradePL(t, basis), 0);
+    const averageLotSize = group.length > 0 ? group.reduce((sum, t) => sum + Number(t.lot_size), 0) / group.length : 0;
+    const plural = priorLosses === 1 ? 'loss' : 'losses';
+
+    return {
+      label: priorLosses === 0
+        ? 'After a win or breakeven'
+        : `After ${priorLosses}${priorLosses === MAX_PRIOR_LOSSES ? '+' : ''} ${plural}`,
+      priorLosses,
+      trades: group.length,
+      winRate: group.length > 0 ? (wins / group.length) * 100 : 0,
+      expectancy: group.length > 0 ? totalPL / group.length : 0,
+      averageLotSize,
+      sizeChangePct: usualLot > 0 && group.length > 0 ? ((averageLotSize - usualLot) / usualLot) * 100 : 0,
+    };
+  });
+}
+
+// Trades that look like revenge: sized up after a loss, part of a burst of trades right after one,
+// or tagged "Revenge" by the trader. Open trades are checked too, so a spike shows up while it's live.
+export function getRevengeTrades(trades: Trade[], basis: PnLBasis = 'net'): RevengeStats {
+  const losses = byClose(trades).filter(t => t.status === 'loss');
+  const windowMs = REVENGE_WINDOW_MINUTES * 60 * 1000;
+  const byEntry = [...trades].sort((a, b) => entryTime(a) - entryTime(b));
+
+  // Trades opened within the window after each loss closed, walking both lists in time order
+  const burstSize = new Map<string, number>();
+  let first = 0;
+  let last = 0;
+  losses.forEach(loss => {
+    const closed = closeTime(loss);
+    while (first < byEntry.length && entryTime(byEntry[first]) < closed) first++;
+    last = Math.max(last, first);
+    while (last < byEntry.length && entryTime(byEntry[last]) - closed <= windowMs) last++;
+    burstSize.set(loss.id, last - first);
+  });
+
+  let closedLosses = 0;
+  const flagged = byEntry.flatMap(trade => {
+    const entered = entryTime(trade);
+    while (closedLosses < losses.length && closeTime(losses[closedLosses]) <= entered) closedLosses++;
+    // The most recent loss that closed within the window before this trade was opened
+    let latest = closedLosses - 1;
+    if (latest >= 0 && losses[latest].id === trade.id) latest--;
+    const afterLoss = latest >= 0 && entered - closeTime(losses[latest]) <= windowMs ? losses[latest] : null;
+
+    const signals: RevengeSignal[] = [];
+    if (afterLoss) {
+      if (Number(trade.lot_size) >= Number(afterLoss.lot_size) * REVENGE_SIZE_MULTIPLE) signals.push('size');
+      if ((burstSize.get(afterLoss.id) ?? 0) >= REVENGE_BURST_TRADES) signals.push('frequency');
+    }
+    if (getTradeEmotions(trade).includes('Revenge')) signals.push('emotion');
+
+    if (signals.length === 0) return [];
+    return [{
+      trade,
+      afterLoss,
+      minutesAfterLoss: afterLoss ? Math.round((entered - closeTime(afterLoss)) / 60000) : null,
+      signals,
+    }];
+  });
+
+  const flaggedIds = new Set(flagged.map(f => f.trade.id));
+  const flaggedClosed = trades.filter(t => isClosedTrade(t) && flaggedIds.has(t.id));
+  const others = trades.filter(t => isClosedTrade(t) && !flaggedIds.has(t.id));
+  const winRate = (list: Trade[]) => list.length > 0 ? (list.filter(t => t.status === 'win').length / list.length) * 100 : 0;
+
+  return {
+    flagged: flagged.reverse(),
+    trades: flaggedClosed.length,
+    winRate: winRate(flaggedClosed),
+    totalPL: flaggedClosed.reduce((sum, t) => sum + getTradePL(t, basis), 0),
+    otherWinRate: winRate(others),
+  };
+}
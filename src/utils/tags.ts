@@ -0,0 +1,41 @@
+import { TagColor, TradeTag } from '@/types/trade';
+
+export const TAG_COLORS: Record<TagColor, { label: string; badge: string; swatch: string }> = {
+  slate: { label: 'Slate', badge: 'bg-slate-500/15 text-slate-400 border-slate-500/30', swatch: 'bg-slate-500' },
+  red: { label: 'Red', badge: 'bg-red-500/15 text-red-500 border-red-500/30', swatch: 'bg-red-500' },
+  orange: { label: 'Orange', badge: 'bg-orange-500/15 text-orange-500 border-orange-500/30', swatch: 'bg-orange-500' },
+  amber: { label: 'Amber', badge: 'bg-amber-500/15 text-amber-500 border-amber-500/30', swatch: 'bg-amber-500' },
+  green: { label: 'Green', badge: 'bg-green-500/15 text-green-500 border-green-500/30', swatch: 'bg-green-500' },
+  teal: { label: 'Teal', badge: 'bg-teal-500/15 text-teal-500 border-teal-500/30', swatch: 'bg-teal-500' },
+  blue: { label: 'Blue', badge: 'bg-blue-500/15 text-blue-500 border-blue-500/30', swatch: 'bg-blue-500' },
+  violet: { label: 'Violet', badge: 'bg-violet-500/15 text-violet-500 border-violet-500/30', swatch: 'bg-violet-500' },
+  pink: { label: 'Pink', badge: 'bg-pink-500/15 text-pink-500 border-pink-500/30', swatch: 'bg-pink-500' },
+};
+
+export const DEFAULT_TAG_COLOR: TagColor = 'slate';
+
+export interface TagUsage {
+  name: string;
+  trades: number;
+  color: TagColor;
+}
+
+// "trend, Breakout ,trend" -> ["trend", "Breakout"]
+export function parseTags(value: string): string[] {
+  return Array.from(new Set(value.split(',').map(tag => tag.trim()).filter(Boolean)));
+}
+
+// Every tag in use or with saved settings, most used first
+export function getTagUsage(tagLists: (string[] | null)[], settings: TradeTag[]): TagUsage[] {
+  const counts = new Map<string, number>();
+  tagLists.forEach(tags => {
+    new Set(tags || []).forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1));
+  });
+  settings.forEach(s => {
+    if (!counts.has(s.name)) counts.set(s.name, 0);
+  });
+
+  const colorOf = new Map(settings.map(s => [s.name, s.color]));
+  return Array.from(counts, ([name, trades]) => ({ name, trades, color: colorOf.get(name) ?? DEFAULT_TAG_COLOR }))
+    .sort((a, b) => b.trades - a.trades || a.name.localeCompare(b.name));
+}
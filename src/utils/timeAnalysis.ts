@@ -0,0 +1,160 @@
+import { PnLBasis, Trade, TradingSession } from '@/types/trade';
+import { getHoldingMinutes, getRMultiple, getTradePL, isClosedTrade, median } from './analytics';
+import { SESSION_LABELS, getTradeSessions } from './playbooks';
+import { formatHour, getZonedTime } from './timezone';
+
+export interface TimeBucketStats {
+  key: string;
+  label: string;
+  trades: number;
+  wins: number;
+  winRate: number;
+  totalPL: number;
+  expectancy: number;
+}
+
+export interface HeatmapCell extends TimeBucketStats {
+  weekday: number; // 0 = Sunday
+  hour: number;
+}
+
+export interface HoldingTimeStats {
+  trades: number; // Closed trades with a usable exit time
+  averageMinutes: number | null;
+  averageWinMinutes: number | null;
+  averageLossMinutes: number | null;
+  medianWinMinutes: number | null;
+  medianLossMinutes: number | null;
+}
+
+export interface DurationBucketStats extends TimeBucketStats {
+  description: string;
+  averageR: number | null;
+}
+
+export interface DurationPoint {
+  id: string;
+  symbol: string;
+  minutes: number;
+  r: number;
+  status: Trade['status'];
+}
+
+// Upper bounds in minutes; each bucket starts where the previous one ends
+export const DURATION_BUCKETS = [
+  { key: 'scalp', label: 'Scalp', description: 'Under 15 minutes', max: 15 },
+  { key: 'intraday', label: 'Intraday', description: '15 minutes to a day', max: 24 * 60 },
+  { key: 'swing', label: 'Swing', description: 'A day or longer', max: Infinity },
+];
+
+const SESSION_ORDER = Object.keys(SESSION_LABELS) as TradingSession[];
+const OFF_HOURS = 'off_hours';
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+function summarize(key: string, label: string, trades: Trade[], basis: PnLBasis): TimeBucketStats {
+  const wins = trades.filter(t => t.status === 'win').length;
+  const totalPL = trades.reduce((sum, t) => sum + getTradePL(t, basis), 0);
+  return {
+    key,
+    label,
+    trades: trades.length,
+    wins,
+    winRate: trades.length > 0 ? (wins / trades.length) * 100 : 0,
+    totalPL,
+    expectancy: trades.length > 0 ? totalPL / trades.length : 0,
+  };
+}
+
+// Each trade lands in exactly one row: a single session, an overlap such as "London / New York",
+// or off hours. Session times follow each market's own clock, so they don't depend on the user's zone.
+export function getSessionPerformance(trades: Trade[], basis: PnLBasis = 'net'): TimeBucketStats[] {
+  const groups = new Map<string, { sessions: TradingSession[]; trades: Trade[] }>();
+  trades.filter(isClosedTrade).forEach(trade => {
+    const sessions = getTradeSessions(trade.entry_date)
+      .sort((a, b) => SESSION_ORDER.indexOf(a) - SESSION_ORDER.indexOf(b));
+    const key = sessions.length > 0 ? sessions.join('+') : OFF_HOURS;
+    const group = groups.get(key) ?? { sessions, trades: [] };
+    group.trades.push(trade);
+    groups.set(key, group);
+  });
+
+  // Follows the trading day round the globe: Sydney, Sydney / Tokyo, Tokyo, Tokyo / London, ...
+  const position = (sessions: TradingSession[]) => sessions.length === 0
+    ? SESSION_ORDER.length * 2
+    : SESSION_ORDER.indexOf(sessions[0]) * 2 + (sessions.length > 1 ? 1 : 0);
+
+  return Array.from(groups, ([key, group]) => ({ key, group }))
+    .sort((a, b) => position(a.group.sessions) - position(b.group.sessions))
+    .map(({ key, group }) => summarize(
+      key,
+      group.sessions.length > 0 ? group.sessions.map(s => SESSION_LABELS[s]).join(' / ') : 'Off hours',
+      group.trades,
+      basis,
+    ));
+}
+
+// Every hour of the day by entry time in the given zone, including hours without trades
+export function getHourPerformance(trades: Trade[], timeZone: string, basis: PnLBasis = 'net'): TimeBucketStats[] {
+  const byHour = Array.from({ length: 24 }, () => [] as Trade[]);
+  trades.filter(isClosedTrade).forEach(trade => {
+    byHour[getZonedTime(trade.entry_date, timeZone).hour].push(trade);
+  });
+  return byHour.map((group, hour) => summarize(String(hour), formatHour(hour), group, basis));
+}
+
+// Day of week × hour of entry, Monday first, as 7 rows of 24 cells
+export function getWeekdayHourHeatmap(trades: Trade[], timeZone: string, basis: PnLBasis = 'net'): HeatmapCell[][] {
+  const cells = Array.from({ length: 7 }, () => Array.from({ length: 24 }, () => [] as Trade[]));
+  trades.filter(isClosedTrade).forEach(trade => {
+    const { weekday, hour } = getZonedTime(trade.entry_date, timeZone);
+    cells[weekday][hour].push(trade);
+  });
+
+  return [1, 2, 3, 4, 5, 6, 0].map(weekday => cells[weekday].map((group, hour) => ({
+    ...summarize(`${weekday}-${hour}`, `${WEEKDAY_LABELS[weekday]} ${formatHour(hour)}`, group, basis),
+    weekday,
+    hour,
+  })));
+}
+
+const average = (values: number[]) => values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+
+function getTimedTrades(trades: Trade[]) {
+  return trades
+    .map(trade => ({ trade, minutes: getHoldingMinutes(trade) }))
+    .filter((t): t is { trade: Trade; minutes: number } => t.minutes !== null);
+}
+
+export function getHoldingTimeStats(trades: Trade[]): HoldingTimeStats {
+  const timed = getTimedTrades(trades);
+  const winMinutes = timed.filter(t => t.trade.status === 'win').map(t => t.minutes);
+  const lossMinutes = timed.filter(t => t.trade.status === 'loss').map(t => t.minutes);
+
+  return {
+    trades: timed.length,
+    averageMinutes: average(timed.map(t => t.minutes)),
+    averageWinMinutes: average(winMinutes),
+    averageLossMinutes: average(lossMinutes),
+    medianWinMinutes: winMinutes.length > 0 ? median(winMinutes) : null,
+    medianLossMinutes: lossMinutes.length > 0 ? median(lossMinutes) : null,
+  };
+}
+
+export function getDurationPerformance(trades: Trade[], basis: PnLBasis = 'net'): DurationBucketStats[] {
+  const timed = getTimedTrades(trades);
+
+  return DURATION_BUCKETS.map(({ key, label, description, max }, index) => {
+    const min = index > 0 ? DURATION_BUCKETS[index - 1].max : 0;
+    const inBucket = timed.filter(t => t.minutes >= min && t.minutes < max).map(t => t.trade);
+    const rValues = inBucket.map(t => getRMultiple(t, basis)).filter((r): r is number => r !== null);
+    return { ...summarize(key, label, inBucket, basis), description, averageR: average(rValues) };
+  });
+}
+
+// Closed trades with both a duration and an R multiple, for plotting one against the other
+export function getDurationVsR(trades: Trade[], basis: PnLBasis = 'net'): DurationPoint[] {
+  return getTimedTrades(trades).flatMap(({ trade, minutes }) => {
+    const r = getRMultiple(trade, basis);
+    return r === null ? [] : [{ id: trade.id, symbol: trade.symbol, minutes, r, status: trade.status }];
+  });
+}
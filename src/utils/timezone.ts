@@ -0,0 +1,66 @@
+import { format } from 'date-fns';
+
+// Used where the runtime can't list its time zones
+const COMMON_TIME_ZONES = [
+  'UTC',
+  'Europe/London',
+  'Europe/Berlin',
+  'Europe/Moscow',
+  'Africa/Johannesburg',
+  'Asia/Dubai',
+  'Asia/Kolkata',
+  'Asia/Singapore',
+  'Asia/Hong_Kong',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+  'Pacific/Auckland',
+  'America/Sao_Paulo',
+  'America/New_York',
+  'America/Chicago',
+  'America/Denver',
+  'America/Los_Angeles',
+];
+
+export function getBrowserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+// Value for a datetime-local input, which shows and reads back the browser's local time
+export function toDateTimeInput(date: Date | string): string {
+  return format(new Date(date), "yyyy-MM-dd'T'HH:mm");
+}
+
+export function getTimeZoneOptions(): string[] {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: 'timeZone') => string[] };
+  const zones = intl.supportedValuesOf?.('timeZone') ?? COMMON_TIME_ZONES;
+  return Array.from(new Set(['UTC', getBrowserTimeZone(), ...zones]));
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Day of week (0 = Sunday) and hour (0-23) of a moment as seen in the given zone, DST included
+export function getZonedTime(date: Date | string, timeZone: string): { weekday: number; hour: number } {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', { timeZone, weekday: 'short', hour: 'numeric', hourCycle: 'h23' });
+    formatters.set(timeZone, formatter);
+  }
+  const parts = formatter.formatToParts(new Date(date));
+  const weekday = WEEKDAYS.indexOf(parts.find(p => p.type === 'weekday')?.value ?? '');
+  const hour = Number(parts.find(p => p.type === 'hour')?.value ?? 0) % 24;
+  return { weekday, hour };
+}
+
+export function formatHour(hour: number): string {
+  return `${String(hour).padStart(2, '0')}:00`;
+}
@@ -0,0 +1,90 @@
+import { Trade } from '@/types/trade';
+
+const DB_NAME = 'trade-journal-cache';
+const DB_VERSION = 1;
+const STORE = 'trades';
+
+export interface TradeCacheEntry {
+  cursor: string | null; // Latest updated_at seen from the server
+  trades: Trade[]; // Every live trade of the user, across accounts
+}
+
+// Resolves to null where IndexedDB isn't available (private windows, old browsers); the app then just refetches
+function openDb(): Promise<IDBDatabase | null> {
+  return new Promise(resolve => {
+    if (typeof indexedDB === 'undefined') return resolve(null);
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => resolve(null);
+  });
+}
+
+export async function readTradeCache(userId: string): Promise<TradeCacheEntry | null> {
+  const db = await openDb();
+  if (!db) return null;
+  return new Promise(resolve => {
+    const request = db.transaction(STORE, 'readonly').objectStore(STORE).get(userId);
+    request.onsuccess = () => resolve((request.result as TradeCacheEntry | undefined) ?? null);
+    request.onerror = () => resolve(null);
+  });
+}
+
+// Syncs and realtime bursts publish many times a second, so only the last entry per user is written once they settle
+const WRITE_DELAY_MS = 1000;
+const pendingWrites = new Map<string, TradeCacheEntry>();
+let writeTimer: ReturnType<typeof setTimeout> | undefined;
+
+async function putEntries(entries: [string, TradeCacheEntry][]): Promise<void> {
+  const db = await openDb();
+  if (!db) return;
+  return new Promise(resolve => {
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    entries.forEach(([userId, entry]) => store.put(entry, userId));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => resolve();
+  });
+}
+
+export function writeTradeCache(userId: string, entry: TradeCacheEntry): void {
+  pendingWrites.set(userId, entry);
+  clearTimeout(writeTimer);
+  writeTimer = setTimeout(() => {
+    const entries = Array.from(pendingWrites);
+    pendingWrites.clear();
+    putEntries(entries);
+  }, WRITE_DELAY_MS);
+}
+
+// Called on sign out so a shared device doesn't keep someone's journal around
+export async function clearTradeCache(): Promise<void> {
+  clearTimeout(writeTimer);
+  pendingWrites.clear();
+  const db = await openDb();
+  if (!db) return;
+  return new Promise(resolve => {
+    const tx = db.transaction(STORE, 'readwrite');
+    tx.objectStore(STORE).clear();
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => resolve();
+  });
+}
+
+// Applies changed rows on top of the cached ones; trashed trades drop out. Newest entry first, like the old query.
+export function mergeTrades(current: Trade[], changed: Trade[]): Trade[] {
+  const byId = new Map(current.map(t => [t.id, t]));
+  changed.forEach(t => {
+    if (t.deleted_at) byId.delete(t.id);
+    else byId.set(t.id, t);
+  });
+  return Array.from(byId.values())
+    .sort((a, b) => new Date(b.entry_date).getTime() - new Date(a.entry_date).getTime());
+}
+
+export function getSyncCursor(changed: Trade[], previous: string | null): string | null {
+  return changed.reduce<string | null>(
+    (latest, t) => (!latest || t.updated_at > latest ? t.updated_at : latest),
+    previous,
+  );
+}
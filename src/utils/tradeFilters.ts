@@ -0,0 +1,305 @@
+import {
+  AssetClass,
+  ChecklistRule,
+  ExitReason,
+  PnLBasis,
+  ReviewState,
+  RuleAnswer,
+  Trade,
+  TradeDirection,
+  TradeFilterNode,
+  TradeFilters,
+  TradeSort,
+  TradeSortKey,
+  TradeStatus,
+} from '@/types/trade';
+import { getHoldingMinutes, getRMultiple, getTradeEmotions, getTradePL, isClosedTrade } from './analytics';
+import { matchesNode, parseTradeQuery } from './tradeQuery';
+
+export const ASSET_CLASS_LABELS: Record<AssetClass, string> = {
+  forex: 'Forex',
+  crypto: 'Crypto',
+  commodities: 'Commodities',
+  stocks: 'Stocks',
+};
+
+export const DIRECTION_LABELS: Record<TradeDirection, string> = {
+  buy: 'Buy',
+  sell: 'Sell',
+};
+
+export const STATUS_LABELS: Record<TradeStatus, string> = {
+  open: 'Open',
+  win: 'Win',
+  loss: 'Loss',
+  breakeven: 'Breakeven',
+};
+
+export const EXIT_REASON_LABELS: Record<ExitReason, string> = {
+  tp_hit: 'TP Hit',
+  sl_hit: 'SL Hit',
+  manual_close: 'Manual',
+  breakeven: 'BE',
+};
+
+export const REVIEW_STATE_LABELS: Record<ReviewState, string> = {
+  needs_review: 'Needs review',
+  reviewed: 'Reviewed',
+};
+
+export const RULE_ANSWER_LABELS: Record<RuleAnswer, string> = {
+  yes: 'Followed',
+  no: 'Broken',
+  'n/a': 'N/A',
+};
+
+// Search param names for each list filter; values repeat, e.g. ?symbol=EURUSD&symbol=GBPUSD
+const LIST_PARAMS = {
+  symbols: 'symbol',
+  asset_classes: 'asset',
+  directions: 'direction',
+  statuses: 'status',
+  strategies: 'strategy',
+  setup_types: 'setup',
+  probabilities: 'probability',
+  tags: 'tag',
+  emotions: 'emotion',
+  exit_reasons: 'exit',
+} as const;
+
+type ListFilterKey = keyof typeof LIST_PARAMS;
+
+const NUMBER_PARAMS = ['min_pl', 'max_pl', 'min_r', 'max_r'] as const;
+
+const SORT_KEYS: TradeSortKey[] = [
+  'entry_date', 'symbol', 'asset_class', 'direction', 'exit_reason', 'risk_reward_ratio', 'pl', 'r_multiple', 'duration', 'status', 'strategy',
+];
+
+export function filtersFromSearchParams(params: URLSearchParams): TradeFilters {
+  const filters: TradeFilters = {};
+  const search = params.get('q');
+  if (search) filters.search = search;
+
+  const from = params.get('from');
+  const to = params.get('to');
+  if (from && /^\d{4}-\d{2}-\d{2}$/.test(from)) filters.from = from;
+  if (to && /^\d{4}-\d{2}-\d{2}$/.test(to)) filters.to = to;
+
+  (Object.keys(LIST_PARAMS) as ListFilterKey[]).forEach(key => {
+    const values = params.getAll(LIST_PARAMS[key]).filter(Boolean);
+    // Values come from the URL, so the narrower list types are trusted as-is
+    if (values.length > 0) (filters as Record<ListFilterKey, string[]>)[key] = values;
+  });
+
+  NUMBER_PARAMS.forEach(key => {
+    const raw = params.get(key);
+    if (raw !== null && raw !== '' && !isNaN(Number(raw))) filters[key] = Number(raw);
+  });
+
+  const rules: Record<string, RuleAnswer> = {};
+  params.getAll('rule').forEach(value => {
+    const [id, answer] = value.split(':');
+    if (id && (answer === 'yes' || answer === 'no' || answer === 'n/a')) rules[id] = answer;
+  });
+  if (Object.keys(rules).length > 0) filters.rules = rules;
+
+  const review = params.get('review');
+  if (review === 'needs_review' || review === 'reviewed') filters.review = review;
+
+  return filters;
+}
+
+export function sortFromSearchParams(params: URLSearchParams): TradeSort | null {
+  const [key, direction] = (params.get('sort') || '').split(':');
+  if (!SORT_KEYS.includes(key as TradeSortKey)) return null;
+  return { key: key as TradeSortKey, direction: direction === 'asc' ? 'asc' : 'desc' };
+}
+
+export function toSearchParams(filters: TradeFilters, sort?: TradeSort | null, viewId?: string | null): URLSearchParams {
+  const params = new URLSearchParams();
+  if (viewId) params.set('view', viewId);
+  if (filters.search) params.set('q', filters.search);
+  if (filters.from) params.set('from', filters.from);
+  if (filters.to) params.set('to', filters.to);
+
+  (Object.keys(LIST_PARAMS) as ListFilterKey[]).forEach(key => {
+    filters[key]?.forEach(value => params.append(LIST_PARAMS[key], value));
+  });
+  NUMBER_PARAMS.forEach(key => {
+    if (filters[key] !== undefined) params.set(key, String(filters[key]));
+  });
+  Object.entries(filters.rules || {})
+    .sort(([a], [b]) => a.localeCompare(b))
+    .forEach(([id, answer]) => params.append('rule', `${id}:${answer}`));
+  if (filters.review) params.set('review', filters.review);
+  if (sort) params.set('sort', `${sort.key}:${sort.direction}`);
+
+  return params;
+}
+
+// Drops empty lists and blank values so saved views and URLs stay minimal
+export function cleanFilters(filters: TradeFilters): TradeFilters {
+  return filtersFromSearchParams(toSearchParams(filters));
+}
+
+export function countActiveFilters(filters: TradeFilters): number {
+  return Object.keys(cleanFilters(filters)).filter(key => key !== 'search').length;
+}
+
+// One tree for the filters and the search box, for matchesNode here and search_trades on the server.
+// A search that doesn't parse is ignored rather than hiding every trade; the search box shows the error.
+export function filtersToNode(filters: TradeFilters): TradeFilterNode | null {
+  const nodes: TradeFilterNode[] = [];
+  const range = (field: string, min: number | string | undefined, max: number | string | undefined) => {
+    if (min !== undefined || max !== undefined) nodes.push({ op: 'range', field, min, max });
+  };
+  const list = (field: string, values: string[] | undefined) => {
+    if (values?.length) nodes.push({ op: 'in', field, values });
+  };
+
+  range('date', filters.from, filters.to);
+  list('symbol', filters.symbols);
+  list('asset', filters.asset_classes);
+  list('direction', filters.directions);
+  list('status', filters.statuses);
+  list('strategy', filters.strategies);
+  list('setup', filters.setup_types);
+  list('probability', filters.probabilities);
+  list('exit', filters.exit_reasons);
+  list('tag', filters.tags);
+  list('emotion', filters.emotions);
+  Object.entries(filters.rules || {}).forEach(([ruleId, answer]) => nodes.push({ op: 'rule', rule_id: ruleId, answer }));
+  // Only closed trades have a P&L or R, so ranges leave open ones out
+  range('pl', filters.min_pl, filters.max_pl);
+  range('r', filters.min_r, filters.max_r);
+  if (filters.review) nodes.push({ op: 'is', field: 'review', value: filters.review === 'needs_review' });
+
+  const { node: search } = parseTradeQuery(filters.search ?? '');
+  if (search) nodes.push(search);
+
+  return nodes.length === 0 ? null : nodes.length === 1 ? nodes[0] : { op: 'and', nodes };
+}
+
+export function filterTrades(trades: Trade[], filters: TradeFilters, basis: PnLBasis = 'net'): Trade[] {
+  const node = filtersToNode(filters);
+  return node ? trades.filter(trade => matchesNode(trade, node, basis)) : trades;
+}
+
+function sortValue(trade: Trade, key: TradeSortKey, basis: PnLBasis): string | number | null {
+  switch (key) {
+    case 'entry_date': return new Date(trade.entry_date).getTime();
+    case 'pl': return isClosedTrade(trade) ? getTradePL(trade, basis) : null;
+    case 'r_multiple': return isClosedTrade(trade) ? getRMultiple(trade, basis) : null;
+    case 'duration': return getHoldingMinutes(trade);
+    case 'risk_reward_ratio': return trade.risk_reward_ratio;
+    default: return trade[key] ?? null;
+  }
+}
+
+// Trades without a value for the column always sort last
+export function sortTrades(trades: Trade[], sort: TradeSort | null, basis: PnLBasis = 'net'): Trade[] {
+  if (!sort) return trades;
+  const factor = sort.direction === 'asc' ? 1 : -1;
+  return [...trades].sort((a, b) => {
+    const x = sortValue(a, sort.key, basis);
+    const y = sortValue(b, sort.key, basis);
+    if (x === null || y === null) return x === y ? 0 : x === null ? 1 : -1;
+    if (typeof x === 'number' && typeof y === 'number') return (x - y) * factor;
+    return String(x).localeCompare(String(y)) * factor;
+  });
+}
+
+export interface FilterChip {
+  key: string;
+  label: string;
+  without: TradeFilters;
+}
+
+// One removable chip per active filter, for showing what a view or URL is filtering on
+export function getFilterChips(filters: TradeFilters, rules: ChecklistRule[] = []): FilterChip[] {
+  const chips: FilterChip[] = [];
+  const omit = (key: keyof TradeFilters): TradeFilters => {
+    const next = { ...filters };
+    delete next[key];
+    return next;
+  };
+  const list = (key: ListFilterKey, label: string, format: (value: string) => string = v => v) => {
+    const values = filters[key];
+    if (values?.length) chips.push({ key, label: `${label}: ${(values as string[]).map(format).join(', ')}`, without: omit(key) });
+  };
+  const range = (min: number | undefined, max: number | undefined, unit: (v: number) => string) =>
+    min !== undefined && max !== undefined ? `${unit(min)} to ${unit(max)}` : min !== undefined ? `≥ ${unit(min)}` : `≤ ${unit(max!)}`;
+
+  if (filters.from || filters.to) {
+    const next = omit('from');
+    delete next.to;
+    const label = filters.from && filters.to ? `${filters.from} – ${filters.to}` : filters.from ? `From ${filters.from}` : `Until ${filters.to}`;
+    chips.push({ key: 'dates', label, without: next });
+  }
+  list('symbols', 'Symbol');
+  list('asset_classes', 'Asset', v => ASSET_CLASS_LABELS[v as AssetClass] ?? v);
+  list('directions', 'Direction', v => DIRECTION_LABELS[v as TradeDirection] ?? v);
+  list('statuses', 'Outcome', v => STATUS_LABELS[v as TradeStatus] ?? v);
+  list('strategies', 'Strategy');
+  list('setup_types', 'Setup');
+  list('probabilities', 'Probability');
+  list('tags', 'Tag');
+  list('emotions', 'Emotion');
+  list('exit_reasons', 'Exit', v => EXIT_REASON_LABELS[v as ExitReason] ?? v);
+
+  Object.entries(filters.rules || {}).forEach(([id, answer]) => {
+    const remaining = { ...filters.rules };
+    delete remaining[id];
+    const name = rules.find(r => r.id === id)?.label ?? 'Deleted rule';
+    chips.push({
+      key: `rule-${id}`,
+      label: `${name}: ${RULE_ANSWER_LABELS[answer]}`,
+      without: { ...filters, rules: Object.keys(remaining).length > 0 ? remaining : undefined },
+    });
+  });
+
+  if (filters.min_pl !== undefined || filters.max_pl !== undefined) {
+    const next = omit('min_pl');
+    delete next.max_pl;
+    // Compared with each trade's amount in its own account's currency, so no symbol
+    chips.push({ key: 'pl', label: `P&L ${range(filters.min_pl, filters.max_pl, String)}`, without: next });
+  }
+  if (filters.min_r !== undefined || filters.max_r !== undefined) {
+    const next = omit('min_r');
+    delete next.max_r;
+    chips.push({ key: 'r', label: `R ${range(filters.min_r, filters.max_r, v => `${v}R`)}`, without: next });
+  }
+  if (filters.review) {
+    chips.push({ key: 'review', label: REVIEW_STATE_LABELS[filters.review], without: omit('review') });
+  }
+
+  return chips;
+}
+
+export function isSameFilters(a: TradeFilters, b: TradeFilters): boolean {
+  return toSearchParams(cleanFilters(a)).toString() === toSearchParams(cleanFilters(b)).toString();
+}
+
+export interface FilterOptions {
+  symbols: string[];
+  strategies: string[];
+  setupTypes: string[];
+  probabilities: string[];
+  tags: string[];
+  emotions: string[];
+}
+
+// Values present on the given trades, for the filter builder's pickers
+export function getFilterOptions(trades: Trade[]): FilterOptions {
+  const collect = (values: (string | null | undefined)[]) =>
+    Array.from(new Set(values.filter((v): v is string => !!v && v.trim() !== ''))).sort((a, b) => a.localeCompare(b));
+
+  return {
+    symbols: collect(trades.map(t => t.symbol)),
+    strategies: collect(trades.map(t => t.strategy)),
+    setupTypes: collect(trades.map(t => t.setup_type)),
+    probabilities: collect(trades.map(t => t.probability)),
+    tags: collect(trades.flatMap(t => t.tags || [])),
+    emotions: collect(trades.flatMap(getTradeEmotions)),
+  };
+}
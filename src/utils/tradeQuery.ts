@@ -0,0 +1,487 @@
+import { PnLBasis, Trade, TradeFilterNode } from '@/types/trade';
+import { getRMultiple, getTradeEmotions, getTradePL, isClosedTrade } from './analytics';
+import { toDayKey } from './journal';
+import { FilterOptions } from './tradeFilters';
+
+// A small search language for the Trades page, e.g.
+//   symbol:XAUUSD strategy:"London Breakout" r>=2 date:2026-09..2026-10 -tag:news (setup:"Type 1" OR setup:"Type 2")
+// Terms are ANDed, OR joins its neighbours, "-" negates a term or group, and bare words search symbol, strategy and tags.
+
+type FieldKind = 'text' | 'contains' | 'enum' | 'number' | 'date' | 'boolean';
+type Operator = ':' | '=' | '>' | '>=' | '<' | '<=';
+
+interface FieldDef {
+  kind: FieldKind;
+  description: string;
+  values?: Record<string, string>; // Accepted input -> stored value, for enum fields
+  get: (trade: Trade, basis: PnLBasis) => string | number | boolean | string[] | null;
+}
+
+export const QUERY_FIELDS: Record<string, FieldDef> = {
+  symbol: { kind: 'text', description: 'Symbol, e.g. symbol:XAUUSD or symbol:EUR*', get: t => t.symbol },
+  asset: {
+    kind: 'enum',
+    description: 'Asset class',
+    values: { forex: 'forex', crypto: 'crypto', commodities: 'commodities', stocks: 'stocks' },
+    get: t => t.asset_class,
+  },
+  direction: {
+    kind: 'enum',
+    description: 'buy or sell (long and short work too)',
+    values: { buy: 'buy', sell: 'sell', long: 'buy', short: 'sell' },
+    get: t => t.direction,
+  },
+  status: {
+    kind: 'enum',
+    description: 'Outcome: open, win, loss or breakeven',
+    values: { open: 'open', win: 'win', loss: 'loss', breakeven: 'breakeven', be: 'breakeven' },
+    get: t => t.status,
+  },
+  strategy: { kind: 'text', description: 'Strategy name; quote names with spaces', get: t => t.strategy },
+  setup: { kind: 'text', description: 'Setup type', get: t => t.setup_type },
+  probability: { kind: 'text', description: 'Probability', get: t => t.probability },
+  tag: { kind: 'text', description: 'Any of the trade\'s tags', get: t => t.tags || [] },
+  emotion: { kind: 'text', description: 'Any recorded emotion', get: t => getTradeEmotions(t) },
+  exit: {
+    kind: 'enum',
+    description: 'Exit reason: tp, sl, manual or be',
+    values: { tp: 'tp_hit', tp_hit: 'tp_hit', sl: 'sl_hit', sl_hit: 'sl_hit', manual: 'manual_close', manual_close: 'manual_close', be: 'breakeven', breakeven: 'breakeven' },
+    get: t => t.exit_reason,
+  },
+  pl: { kind: 'number', description: 'P&L of closed trades, e.g. pl>0', get: (t, basis) => isClosedTrade(t) ? getTradePL(t, basis) : null },
+  r: { kind: 'number', description: 'R multiple of closed trades, e.g. r>=2', get: (t, basis) => isClosedTrade(t) ? getRMultiple(t, basis) : null },
+  rr: { kind: 'number', description: 'Planned risk:reward', get: t => t.risk_reward_ratio },
+  lots: { kind: 'number', description: 'Lot size', get: t => Number(t.lot_size) },
+  pips: { kind: 'number', description: 'Pips', get: t => t.pips },
+  date: { kind: 'date', description: 'Entry date, e.g. date:2026-09 or date:2026-09..2026-10', get: t => toDayKey(t.entry_date) },
+  closed: { kind: 'date', description: 'Exit date', get: t => t.exit_date ? toDayKey(t.exit_date) : null },
+  review: { kind: 'boolean', description: 'Waiting for review: yes or no', get: t => !!t.needs_review },
+  note: {
+    kind: 'contains',
+    description: 'Words in the reasoning or lessons',
+    get: t => [t.reasoning, t.lessons, t.lessons_learned].filter(Boolean).join('\n'),
+  },
+};
+
+const FIELD_ALIASES: Record<string, string> = {
+  side: 'direction',
+  outcome: 'status',
+  pnl: 'pl',
+  lot: 'lots',
+  tags: 'tag',
+  emotions: 'emotion',
+  entry: 'date',
+  exited: 'closed',
+  notes: 'note',
+};
+
+export type QueryTokenKind = 'field' | 'operator' | 'value' | 'text' | 'keyword' | 'paren' | 'negation';
+
+export interface QueryToken {
+  kind: QueryTokenKind;
+  start: number;
+  end: number;
+}
+
+export interface QueryError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+export interface ParsedQuery {
+  node: TradeFilterNode | null; // Null for an empty query
+  tokens: QueryToken[];
+  error: QueryError | null;
+}
+
+class QuerySyntaxError extends Error {
+  constructor(message: string, public start: number, public end: number) {
+    super(message);
+  }
+}
+
+interface Term {
+  kind: 'term';
+  negated: boolean;
+  start: number;
+  end: number;
+  field?: string; // As typed, before aliases are resolved
+  fieldEnd?: number;
+  operator?: Operator;
+  value: string;
+  valueStart: number;
+}
+
+type Lexeme = Term | { kind: '(' | ')' | 'OR'; negated: boolean; start: number; end: number };
+
+// Splits the input into terms, parentheses and OR keywords
+function lex(input: string): Lexeme[] {
+  const lexemes: Lexeme[] = [];
+  let i = 0;
+
+  const readValue = (from: number): { value: string; end: number } => {
+    if (input[from] === '"') {
+      let value = '';
+      let j = from + 1;
+      while (j < input.length && input[j] !== '"') {
+        if (input[j] === '\\' && j + 1 < input.length) j++;
+        value += input[j++];
+      }
+      if (j >= input.length) throw new QuerySyntaxError('Missing closing quote', from, input.length);
+      return { value, end: j + 1 };
+    }
+    let j = from;
+    while (j < input.length && !/[\s()]/.test(input[j])) j++;
+    return { value: input.slice(from, j), end: j };
+  };
+
+  while (i < input.length) {
+    const char = input[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    let negated = false;
+    const start = i;
+    if (char === '-' && i + 1 < input.length && !/\s/.test(input[i + 1])) {
+      negated = true;
+      i++;
+    }
+
+    if (input[i] === '(' || input[i] === ')') {
+      if (negated && input[i] === ')') throw new QuerySyntaxError('"-" needs a term or group after it', start, i + 1);
+      lexemes.push({ kind: input[i] as '(' | ')', negated, start, end: i + 1 });
+      i++;
+      continue;
+    }
+
+    const word = input.slice(i).match(/^OR(?=[\s()]|$)/);
+    if (word && !negated) {
+      lexemes.push({ kind: 'OR', negated, start, end: i + 2 });
+      i += 2;
+      continue;
+    }
+
+    const field = input.slice(i).match(/^([a-zA-Z_]+)(>=|<=|:|=|>|<)/);
+    if (field) {
+      const operator = field[2] as Operator;
+      const fieldEnd = i + field[1].length;
+      const valueStart = fieldEnd + operator.length;
+      const { value, end } = readValue(valueStart);
+      lexemes.push({ kind: 'term', negated, start, end, field: field[1], fieldEnd, operator, value, valueStart });
+      i = end;
+      continue;
+    }
+
+    const { value, end } = readValue(i);
+    lexemes.push({ kind: 'term', negated, start, end, value, valueStart: i });
+    i = end;
+  }
+
+  return lexemes;
+}
+
+function tokensFor(lexemes: Lexeme[]): QueryToken[] {
+  const tokens: QueryToken[] = [];
+  lexemes.forEach(lexeme => {
+    let start = lexeme.start;
+    if (lexeme.negated) {
+      tokens.push({ kind: 'negation', start, end: start + 1 });
+      start++;
+    }
+    if (lexeme.kind === 'OR') tokens.push({ kind: 'keyword', start, end: lexeme.end });
+    else if (lexeme.kind !== 'term') tokens.push({ kind: 'paren', start, end: lexeme.end });
+    else if (!lexeme.field) tokens.push({ kind: 'text', start, end: lexeme.end });
+    else {
+      tokens.push({ kind: 'field', start, end: lexeme.fieldEnd! });
+      tokens.push({ kind: 'operator', start: lexeme.fieldEnd!, end: lexeme.valueStart });
+      if (lexeme.end > lexeme.valueStart) tokens.push({ kind: 'value', start: lexeme.valueStart, end: lexeme.end });
+    }
+  });
+  return tokens;
+}
+
+export function resolveField(name: string): string | null {
+  const lower = name.toLowerCase();
+  const resolved = FIELD_ALIASES[lower] ?? lower;
+  return QUERY_FIELDS[resolved] ? resolved : null;
+}
+
+// "2026" -> 2026-01-01..2026-12-31, "2026-09" -> the month, "2026-09-15" -> the day, as day keys
+function parsePeriod(value: string): [string, string] | null {
+  const match = value.match(/^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?$/);
+  if (!match) return null;
+  const [, year, month, day] = match;
+  if (month && (Number(month) < 1 || Number(month) > 12)) return null;
+  if (day && (Number(day) < 1 || Number(day) > 31)) return null;
+  if (day) return [value, value];
+  // Day keys compare as strings, so "-31" safely ends any month
+  if (month) return [`${year}-${month}-01`, `${year}-${month}-31`];
+  return [`${year}-01-01`, `${year}-12-31`];
+}
+
+// Recently used patterns, oldest first; typing a query compiles one per keystroke, so only a few are kept
+const MAX_MATCHERS = 100;
+const matchers = new Map<string, (value: string) => boolean>();
+
+function wildcardMatcher(pattern: string) {
+  const lower = pattern.toLowerCase();
+  let matcher = matchers.get(lower);
+  if (matcher) matchers.delete(lower);
+  else if (!lower.includes('*')) matcher = (value: string) => value.toLowerCase() === lower;
+  else {
+    const regex = new RegExp(`^${lower.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`);
+    matcher = (value: string) => regex.test(value.toLowerCase());
+  }
+  matchers.set(lower, matcher);
+  if (matchers.size > MAX_MATCHERS) matchers.delete(matchers.keys().next().value!);
+  return matcher;
+}
+
+function compileTerm(term: Term): TradeFilterNode {
+  const node = compileCondition(term);
+  return term.negated ? { op: 'not', node } : node;
+}
+
+function compileCondition(term: Term): TradeFilterNode {
+  const fail = (message: string, start = term.valueStart, end = term.end): never => {
+    throw new QuerySyntaxError(message, start, Math.max(end, start + 1));
+  };
+
+  if (!term.field) return { op: 'search', value: term.value };
+
+  const fieldStart = term.start + (term.negated ? 1 : 0);
+  const name = resolveField(term.field);
+  if (!name) {
+    return fail(`Unknown field "${term.field}". Try ${Object.keys(QUERY_FIELDS).join(', ')}`, fieldStart, term.fieldEnd);
+  }
+  const def = QUERY_FIELDS[name];
+  const operator = term.operator!;
+  if (term.value === '') return fail(`${name}${operator} needs a value`, fieldStart, term.valueStart);
+
+  const isComparison = operator !== ':' && operator !== '=';
+  if (isComparison && def.kind !== 'number' && def.kind !== 'date') {
+    return fail(`${name} can't be compared with ${operator}; use ${name}:value`, term.fieldEnd, term.valueStart);
+  }
+
+  if (def.kind === 'text') return { op: 'match', field: name, pattern: term.value };
+  if (def.kind === 'contains') return { op: 'contains', field: name, value: term.value };
+
+  if (def.kind === 'enum') {
+    const expected = def.values![term.value.toLowerCase()];
+    if (!expected) return fail(`${name} must be one of ${Array.from(new Set(Object.keys(def.values!))).join(', ')}`);
+    return { op: 'in', field: name, values: [expected] };
+  }
+
+  if (def.kind === 'boolean') {
+    const lower = term.value.toLowerCase();
+    if (!['yes', 'no', 'true', 'false'].includes(lower)) return fail(`${name} must be yes or no`);
+    return { op: 'is', field: name, value: lower === 'yes' || lower === 'true' };
+  }
+
+  // Numbers and dates: a single value, a comparison or an inclusive range "a..b" (either end optional)
+  const parseBound = (raw: string): [number, number] | [string, string] | null => {
+    if (def.kind === 'date') return parsePeriod(raw);
+    const number = Number(raw.replace(/^\$/, '').replace(/r$/i, ''));
+    return raw !== '' && !isNaN(number) ? [number, number] : null;
+  };
+  const expectation = def.kind === 'date' ? 'a date like 2026-09 or 2026-09-15' : 'a number';
+
+  if (term.value.includes('..')) {
+    if (isComparison) return fail(`Use either a range or ${operator}, not both`);
+    const [from, to] = term.value.split('..');
+    const fromBound = from ? parseBound(from) : null;
+    const toBound = to ? parseBound(to) : null;
+    if ((from && !fromBound) || (to && !toBound) || (!from && !to)) {
+      return fail(`${name} range expects ${expectation} on each side of ..`);
+    }
+    return { op: 'range', field: name, min: fromBound?.[0], max: toBound?.[1] };
+  }
+
+  const bound = parseBound(term.value);
+  if (!bound) return fail(`${name} expects ${expectation}, got "${term.value}"`);
+  const [start, end] = bound;
+  if (operator === '>') return { op: 'range', field: name, min: end, min_exclusive: true };
+  if (operator === '>=') return { op: 'range', field: name, min: start };
+  if (operator === '<') return { op: 'range', field: name, max: start, max_exclusive: true };
+  if (operator === '<=') return { op: 'range', field: name, max: end };
+  return { op: 'range', field: name, min: start, max: end };
+}
+
+// Evaluates a filter tree in the app, the same way trade_filter_sql does in the database
+export function matchesNode(trade: Trade, node: TradeFilterNode, basis: PnLBasis = 'net'): boolean {
+  switch (node.op) {
+    case 'and': return node.nodes.every(child => matchesNode(trade, child, basis));
+    case 'or': return node.nodes.some(child => matchesNode(trade, child, basis));
+    case 'not': return !matchesNode(trade, node.node, basis);
+    case 'rule': return trade.rule_answers?.[node.rule_id] === node.answer;
+    case 'search': {
+      const search = node.value.toLowerCase();
+      return [trade.symbol, trade.strategy, ...(trade.tags || [])].some(value => value?.toLowerCase().includes(search));
+    }
+  }
+
+  const value = QUERY_FIELDS[node.field]?.get(trade, basis) ?? null;
+  switch (node.op) {
+    case 'match': {
+      const matches = wildcardMatcher(node.pattern);
+      return Array.isArray(value) ? value.some(matches) : typeof value === 'string' && matches(value);
+    }
+    case 'in':
+      return Array.isArray(value) ? value.some(v => node.values.includes(v)) : typeof value === 'string' && node.values.includes(value);
+    case 'contains':
+      return String(value ?? '').toLowerCase().includes(node.value.toLowerCase());
+    case 'is':
+      return value === node.value;
+    case 'range': {
+      if (value === null || typeof value === 'boolean' || Array.isArray(value)) return false;
+      const { min, max } = node;
+      if (min !== undefined && (node.min_exclusive ? value <= min : value < min)) return false;
+      if (max !== undefined && (node.max_exclusive ? value >= max : value > max)) return false;
+      return true;
+    }
+  }
+}
+
+// Recursive descent over the lexemes: or := and ("OR" and)*, and := unary+, unary := term | ["-"] "(" or ")"
+function buildNode(lexemes: Lexeme[]): TradeFilterNode {
+  let position = 0;
+
+  const parseOr = (): TradeFilterNode => {
+    const options = [parseAnd()];
+    while (lexemes[position]?.kind === 'OR') {
+      const or = lexemes[position++];
+      if (position >= lexemes.length || lexemes[position].kind === ')' || lexemes[position].kind === 'OR') {
+        throw new QuerySyntaxError('OR needs a condition on both sides', or.start, or.end);
+      }
+      options.push(parseAnd());
+    }
+    return options.length === 1 ? options[0] : { op: 'or', nodes: options };
+  };
+
+  const parseAnd = (): TradeFilterNode => {
+    const parts: TradeFilterNode[] = [];
+    while (position < lexemes.length && lexemes[position].kind !== 'OR' && lexemes[position].kind !== ')') {
+      parts.push(parseUnary());
+    }
+    if (parts.length === 0) {
+      const next = lexemes[position];
+      throw new QuerySyntaxError(
+        next?.kind === 'OR' ? 'OR needs a condition on both sides' : 'Expected a condition',
+        next?.start ?? 0,
+        next?.end ?? 0,
+      );
+    }
+    return parts.length === 1 ? parts[0] : { op: 'and', nodes: parts };
+  };
+
+  const parseUnary = (): TradeFilterNode => {
+    const lexeme = lexemes[position++];
+    if (lexeme.kind === 'term') return compileTerm(lexeme);
+    if (lexeme.kind === '(') {
+      if (lexemes[position]?.kind === ')') {
+        throw new QuerySyntaxError('Empty group', lexeme.start, lexemes[position].end);
+      }
+      const inner = parseOr();
+      if (lexemes[position]?.kind !== ')') {
+        throw new QuerySyntaxError('Missing ) to close this group', lexeme.start, lexeme.end);
+      }
+      position++;
+      return lexeme.negated ? { op: 'not', node: inner } : inner;
+    }
+    throw new QuerySyntaxError('Unexpected )', lexeme.start, lexeme.end);
+  };
+
+  const node = parseOr();
+  if (position < lexemes.length) {
+    const extra = lexemes[position];
+    throw new QuerySyntaxError(extra.kind === ')' ? 'Unexpected )' : 'Unexpected input', extra.start, extra.end);
+  }
+  return node;
+}
+
+export function parseTradeQuery(input: string): ParsedQuery {
+  let lexemes: Lexeme[];
+  try {
+    lexemes = lex(input);
+  } catch (e) {
+    const error = e as QuerySyntaxError;
+    return { node: null, tokens: [], error: { message: error.message, start: error.start, end: error.end } };
+  }
+
+  const tokens = tokensFor(lexemes);
+  if (lexemes.length === 0) return { node: null, tokens, error: null };
+
+  try {
+    return { node: buildNode(lexemes), tokens, error: null };
+  } catch (e) {
+    if (!(e instanceof QuerySyntaxError)) throw e;
+    return { node: null, tokens, error: { message: e.message, start: e.start, end: e.end } };
+  }
+}
+
+export interface QuerySuggestion {
+  label: string;
+  detail?: string;
+  insert: string;
+}
+
+export interface QuerySuggestions {
+  start: number; // Range of the input the chosen suggestion replaces
+  end: number;
+  items: QuerySuggestion[];
+}
+
+const quote = (value: string) => (/[\s()"]/.test(value) ? `"${value.replace(/"/g, '\\"')}"` : value);
+
+// Field names while a field is being typed, then values for that field once it has an operator
+export function getQuerySuggestions(input: string, cursor: number, options: FilterOptions): QuerySuggestions | null {
+  const before = input.slice(0, cursor);
+  // Inside an unclosed quote the term started before it, spaces and all
+  const openQuote = (before.match(/"/g) || []).length % 2 === 1 ? before.lastIndexOf('"') : cursor;
+  let start = openQuote;
+  while (start > 0 && !/[\s()]/.test(input[start - 1])) start--;
+  let end = cursor;
+  while (end < input.length && !/[\s()]/.test(input[end])) end++;
+
+  let fragment = input.slice(start, cursor);
+  let prefix = '';
+  if (fragment.startsWith('-')) {
+    prefix = '-';
+    fragment = fragment.slice(1);
+  }
+
+  const withValue = fragment.match(/^([a-zA-Z_]+)(>=|<=|:|=|>|<)"?(.*)$/);
+  if (withValue) {
+    const name = resolveField(withValue[1]);
+    if (!name) return null;
+    const def = QUERY_FIELDS[name];
+    const typed = withValue[3].toLowerCase();
+    const head = `${prefix}${withValue[1]}${withValue[2]}`;
+
+    let values: string[] = [];
+    if (def.kind === 'enum') values = Object.keys(def.values!);
+    else if (def.kind === 'boolean') values = ['yes', 'no'];
+    else if (name === 'symbol') values = options.symbols;
+    else if (name === 'strategy') values = options.strategies;
+    else if (name === 'setup') values = options.setupTypes;
+    else if (name === 'probability') values = options.probabilities;
+    else if (name === 'tag') values = options.tags;
+    else if (name === 'emotion') values = options.emotions;
+
+    const items = values
+      .filter(v => v.toLowerCase().startsWith(typed) && v.toLowerCase() !== typed)
+      .slice(0, 8)
+      .map(v => ({ label: v, insert: `${head}${quote(v)} ` }));
+    return items.length > 0 ? { start, end, items } : null;
+  }
+
+  if (!/^[a-zA-Z_]+$/.test(fragment)) return null;
+  const typed = fragment.toLowerCase();
+  const items = Object.entries(QUERY_FIELDS)
+    .filter(([name]) => name.startsWith(typed) && name !== typed)
+    .map(([name, def]) => ({ label: `${name}:`, detail: def.description, insert: `${prefix}${name}:` }));
+  return items.length > 0 ? { start, end, items } : null;
+}
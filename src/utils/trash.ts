@@ -0,0 +1,9 @@
+import { differenceInCalendarDays, addDays } from 'date-fns';
+
+// Keep in step with the default retention of purge_deleted_trades()
+export const TRASH_RETENTION_DAYS = 30;
+
+export function getDaysUntilPurge(deletedAt: string, now = new Date()): number {
+  const purgeAt = addDays(new Date(deletedAt), TRASH_RETENTION_DAYS);
+  return Math.max(0, differenceInCalendarDays(purgeAt, now));
+}
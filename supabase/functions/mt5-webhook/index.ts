@@ -14,17 +14,181 @@ async function hashApiKey(key: string): Promise<string> {
   return hashArray.map(b => b.toString(16).padStart(2, '0')).join('')
 }
 
-function detectAssetClass(symbol: string): string {
-  const forex = /^(EUR|USD|GBP|JPY|AUD|NZD|CAD|CHF){6}$/i
-  const crypto = /(BTC|ETH|LTC|XRP|ADA|DOT|SOL|DOGE|BNB)/i
-  const commodities = /^(XAUUSD|XAGUSD|GOLD|SILVER|OIL|BRENT|WTI|USOIL|UKOIL)/i
-
-  if (commodities.test(symbol)) return 'commodities'
-  if (crypto.test(symbol)) return 'crypto'
-  if (forex.test(symbol)) return 'forex'
+interface InstrumentRow {
+  symbol: string
+  aliases: string[]
+  asset_class: string
+  pip_size: number
+  contract_size: number
+  tick_value: number | null
+  quote_currency: string | null
+}
+
+// Keep in step with src/utils/instruments.ts
+const FX_CURRENCIES = ['USD', 'EUR', 'GBP', 'JPY', 'AUD', 'NZD', 'CAD', 'CHF']
+const CRYPTO_CODES = ['BTC', 'ETH', 'XRP', 'LTC', 'ADA', 'SOL', 'DOGE', 'BNB', 'DOT']
+const COMMODITY_PREFIXES = ['XAU', 'XAG', 'XPT', 'XPD', 'XTI', 'XBR', 'XNG', 'GOLD', 'SILVER', 'USOIL', 'UKOIL', 'WTI', 'BRENT', 'NATGAS', 'NGAS']
+
+function normalizeSymbol(symbol: string): string {
+  return symbol.trim().toUpperCase().replace(/^#/, '').replace(/[._\-+].*$/, '')
+}
+
+function findInstrument(instruments: InstrumentRow[], symbol: string): InstrumentRow | null {
+  const normalized = normalizeSymbol(symbol)
+  const namesOf = (instrument: InstrumentRow) => [instrument.symbol, ...(instrument.aliases || [])].map(normalizeSymbol)
+
+  const exact = instruments.find(i => namesOf(i).includes(normalized))
+  if (exact) return exact
+
+  let best: { instrument: InstrumentRow; length: number } | null = null
+  for (const instrument of instruments) {
+    for (const name of namesOf(instrument)) {
+      if (name.length >= 3 && normalized.startsWith(name) && normalized.length - name.length <= 4) {
+        if (!best || name.length > best.length) best = { instrument, length: name.length }
+      }
+    }
+  }
+  return best?.instrument ?? null
+}
+
+function guessAssetClass(symbol: string): string {
+  const sym = normalizeSymbol(symbol)
+
+  if (COMMODITY_PREFIXES.some(c => sym.startsWith(c))) return 'commodities'
+  if (CRYPTO_CODES.some(c => sym.startsWith(c))) return 'crypto'
+  if (/^[A-Z]{6}$/.test(sym) && FX_CURRENCIES.includes(sym.slice(0, 3)) && FX_CURRENCIES.includes(sym.slice(3))) {
+    return 'forex'
+  }
   return 'stocks'
 }
 
+function pipsBetween(pipSize: number, direction: string, entry: number, exit: number): number {
+  const move = direction === 'buy' ? exit - entry : entry - exit
+  return Number((move / Number(pipSize)).toFixed(1))
+}
+
+function pipValueOf(instrument: InstrumentRow, price: number): number | null {
+  if (instrument.tick_value) return Number(instrument.tick_value)
+  const perLot = Number(instrument.pip_size) * Number(instrument.contract_size)
+  if (instrument.quote_currency === 'USD') return perLot
+  if (normalizeSymbol(instrument.symbol).startsWith('USD') && price > 0) return perLot / price
+  return null
+}
+
+// Amount lost if the opening size hits the stop, so synced trades get an R multiple like logged ones
+function riskAmountFor(instrument: InstrumentRow | null, entry: number, stopLoss: number | null, lots: number): number | null {
+  if (!instrument || !stopLoss || entry === stopLoss) return null
+  const pipValue = pipValueOf(instrument, entry)
+  if (pipValue === null) return null
+  const stopPips = Math.abs(entry - stopLoss) / Number(instrument.pip_size)
+  return Number((stopPips * pipValue * lots).toFixed(2))
+}
+
+interface ExecutionRow {
+  side: 'entry' | 'exit'
+  price: number
+  volume: number
+  executed_at: string
+  profit_loss: number | null
+  commission: number
+  swap: number
+}
+
+// Recomputes a position's averaged prices, size and realised P&L from its deals
+async function syncTradeFromExecutions(
+  supabase: ReturnType<typeof createClient>,
+  tradeId: string,
+  direction: string,
+  pipSize: number | null,
+) {
+  const { data } = await supabase
+    .from('trade_executions')
+    .select('side, price, volume, executed_at, profit_loss, commission, swap')
+    .eq('trade_id', tradeId)
+    .order('executed_at', { ascending: true })
+
+  const executions = (data || []) as ExecutionRow[]
+  if (executions.length === 0) return
+
+  const entries = executions.filter(e => e.side === 'entry')
+  const exits = executions.filter(e => e.side === 'exit')
+  const volumeOf = (fills: ExecutionRow[]) => fills.reduce((sum, f) => sum + Number(f.volume), 0)
+  const averageOf = (fills: ExecutionRow[]) => {
+    const volume = volumeOf(fills)
+    return volume > 0 ? fills.reduce((sum, f) => sum + Number(f.price) * Number(f.volume), 0) / volume : null
+  }
+
+  const entryVolume = volumeOf(entries)
+  const exitVolume = volumeOf(exits)
+  const realised = exits.reduce((sum, e) => sum + Number(e.profit_loss || 0), 0)
+  const isClosed = exits.length > 0 && exitVolume >= entryVolume
+
+  const update: Record<string, string | number | null> = {
+    commission: executions.reduce((sum, e) => sum + Number(e.commission || 0), 0),
+    swap: executions.reduce((sum, e) => sum + Number(e.swap || 0), 0),
+  }
+  if (entries.length > 0) {
+    update.entry_price = averageOf(entries)
+    update.lot_size = entryVolume
+    update.entry_date = entries[0].executed_at
+  }
+  if (exits.length > 0) {
+    update.exit_price = averageOf(exits)
+    update.exit_date = exits[exits.length - 1].executed_at
+    update.profit_loss = realised
+  }
+  if (isClosed) {
+    update.status = realised > 0 ? 'win' : realised < 0 ? 'loss' : 'breakeven'
+    update.floating_pl = null
+    if (pipSize && typeof update.entry_price === 'number' && typeof update.exit_price === 'number') {
+      update.pips = pipsBetween(pipSize, direction, update.entry_price, update.exit_price)
+    }
+  } else {
+    update.status = 'open'
+  }
+
+  await supabase.from('trades').update(update).eq('id', tradeId)
+}
+
+interface TicketTrade {
+  id: string
+  direction: string
+  status: string
+  deleted_at: string | null
+}
+
+// The trade recorded for an MT5 position, trashed ones included so they aren't recreated. Tickets are
+// only unique per broker account, so a key that isn't linked to an account can match several trades;
+// that is reported instead of picking one or inserting another.
+async function findTradeByTicket(
+  supabase: ReturnType<typeof createClient>,
+  key: { user_id: string; account_id: string | null },
+  ticket: string,
+): Promise<{ trade: TicketTrade | null; failure: { status: number; message: string } | null }> {
+  let query = supabase
+    .from('trades')
+    .select('id, direction, status, deleted_at')
+    .eq('mt5_ticket', ticket)
+    .eq('user_id', key.user_id)
+
+  if (key.account_id) {
+    query = query.eq('account_id', key.account_id)
+  }
+
+  const { data, error } = await query.limit(2)
+  if (error) {
+    console.error('Ticket lookup error:', error)
+    return { trade: null, failure: { status: 500, message: 'Failed to look up position' } }
+  }
+  if (data && data.length > 1) {
+    return {
+      trade: null,
+      failure: { status: 409, message: 'Ticket matches trades in more than one account; link this API key to an account' },
+    }
+  }
+  return { trade: (data?.[0] as TicketTrade | undefined) ?? null, failure: null }
+}
+
 Deno.serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders })
@@ -46,16 +210,18 @@ Deno.serve(async (req) => {
       })
     }
 
+    // The header tags every trade write from here in the trade_revisions history
     const supabase = createClient(
       Deno.env.get('SUPABASE_URL')!,
-      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+      { global: { headers: { 'x-change-source': 'mt5_webhook' } } }
     )
 
     // Hash the provided key and look it up
     const keyHash = await hashApiKey(apiKey)
     const { data: keyRecord, error: keyError } = await supabase
       .from('webhook_api_keys')
-      .select('id, user_id, is_active')
+      .select('id, user_id, account_id, is_active')
       .eq('api_key_hash', keyHash)
       .maybeSingle()
 
@@ -79,9 +245,14 @@ Deno.serve(async (req) => {
       .update({ last_used_at: new Date().toISOString() })
       .eq('id', keyRecord.id)
 
+    const { data: instrumentRows } = await supabase
+      .from('instruments')
+      .select('symbol, aliases, asset_class, pip_size, contract_size, tick_value, quote_currency')
+      .eq('user_id', keyRecord.user_id)
+
     const body = await req.json()
     const {
-      ticket,
+      ticket, // position id
       symbol,
       type, // 0=buy, 1=sell
       volume,
@@ -90,10 +261,125 @@ Deno.serve(async (req) => {
       sl,
       tp,
       profit,
+      commission, // charged by the broker, sign is ignored
+      swap, // signed as reported; negative is a charge
+      fee,
       open_time,
       close_time,
+      deal, // deal ticket; present when the EA streams individual fills
+      entry, // 0/'in' = opens or adds, 1/'out' = reduces or closes
+      price,
+      time,
     } = body
 
+    const instrument = symbol ? findInstrument((instrumentRows || []) as InstrumentRow[], symbol) : null
+    const assetClass = instrument?.asset_class ?? guessAssetClass(symbol || '')
+
+    // Deal mode: every fill is appended to the trade for its position
+    if (deal !== undefined) {
+      if (!ticket || !symbol || price === undefined) {
+        return new Response(JSON.stringify({ error: 'Missing required fields: ticket, symbol, deal, price' }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        })
+      }
+
+      const side = entry === 0 || entry === 'in' ? 'entry' : 'exit'
+      const dealDirection = type === 0 || type === 'buy' ? 'buy' : 'sell'
+      const executedAt = time || new Date().toISOString()
+
+      const { trade: position, failure } = await findTradeByTicket(supabase, keyRecord, String(ticket))
+      if (failure) {
+        return new Response(JSON.stringify({ error: failure.message }), {
+          status: failure.status,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        })
+      }
+
+      // A trashed trade stays as the user left it; restoring it lets later deals sync again
+      if (position?.deleted_at) {
+        return new Response(JSON.stringify({ message: 'Trade is in the trash', trade_id: position.id }), {
+          status: 200,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        })
+      }
+
+      let tradeId = position?.id
+      // A closing deal arriving first means the position was opened in the other direction
+      const positionDirection = position?.direction
+        ?? (side === 'entry' ? dealDirection : dealDirection === 'buy' ? 'sell' : 'buy')
+
+      if (!tradeId) {
+        const { data: created, error: createError } = await supabase
+          .from('trades')
+          .insert({
+            user_id: keyRecord.user_id,
+            account_id: keyRecord.account_id ?? null,
+            symbol: symbol.toUpperCase(),
+            asset_class: assetClass,
+            direction: positionDirection,
+            entry_date: executedAt,
+            exit_date: null,
+            entry_price: price,
+            lot_size: volume || 0.01,
+            stop_loss: sl || null,
+            take_profit: tp || null,
+            risk_amount: side === 'entry' ? riskAmountFor(instrument, price, sl || null, volume || 0.01) : null,
+            status: 'open',
+            strategy: 'MT5 Auto-Sync',
+            mt5_ticket: String(ticket),
+            needs_review: true,
+          })
+          .select('id')
+          .single()
+
+        if (createError) {
+          console.error('Insert error:', createError)
+          return new Response(JSON.stringify({ error: 'Failed to insert trade' }), {
+            status: 500,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          })
+        }
+        tradeId = created.id
+      }
+
+      const { error: executionError } = await supabase
+        .from('trade_executions')
+        .insert({
+          trade_id: tradeId,
+          user_id: keyRecord.user_id,
+          side,
+          price,
+          volume: volume || 0.01,
+          executed_at: executedAt,
+          profit_loss: side === 'exit' ? (profit ?? 0) : null,
+          commission: Math.abs(commission || 0),
+          swap: swap || 0,
+          mt5_deal: String(deal),
+        })
+
+      if (executionError) {
+        if (executionError.code === '23505') {
+          return new Response(JSON.stringify({ message: 'Deal already recorded', trade_id: tradeId }), {
+            status: 200,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          })
+        }
+        console.error('Execution insert error:', executionError)
+        return new Response(JSON.stringify({ error: 'Failed to record deal' }), {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        })
+      }
+
+      await syncTradeFromExecutions(supabase, tradeId, positionDirection, instrument?.pip_size ?? null)
+
+      return new Response(JSON.stringify({ success: true, trade_id: tradeId }), {
+        status: position ? 200 : 201,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      })
+    }
+
     if (!ticket || !symbol || open_price === undefined) {
       return new Response(JSON.stringify({ error: 'Missing required fields: ticket, symbol, open_price' }), {
         status: 400,
@@ -101,39 +387,100 @@ Deno.serve(async (req) => {
       })
     }
 
-    // Check for duplicate
-    const { data: existing } = await supabase
-      .from('trades')
-      .select('id')
-      .eq('mt5_ticket', String(ticket))
-      .eq('user_id', keyRecord.user_id)
-      .maybeSingle()
+    // Check for duplicate (tickets are only unique per broker account)
+    const { trade: existing, failure } = await findTradeByTicket(supabase, keyRecord, String(ticket))
+    if (failure) {
+      return new Response(JSON.stringify({ error: failure.message }), {
+        status: failure.status,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      })
+    }
 
-    if (existing) {
-      return new Response(JSON.stringify({ message: 'Trade already exists', trade_id: existing.id }), {
+    if (existing?.deleted_at) {
+      return new Response(JSON.stringify({ message: 'Trade is in the trash', trade_id: existing.id }), {
         status: 200,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       })
     }
 
+    // Without a close price the EA is reporting a position that is still running
+    const isClosed = close_price !== undefined && close_price !== null
     const direction = type === 0 || type === 'buy' ? 'buy' : 'sell'
-    const pl = profit ?? (close_price ? (direction === 'buy' ? close_price - open_price : open_price - close_price) * (volume || 1) : null)
-    const status = pl === null ? null : pl > 0 ? 'win' : pl < 0 ? 'loss' : 'breakeven'
+    const pl = isClosed
+      ? profit ?? (direction === 'buy' ? close_price - open_price : open_price - close_price) * (volume || 1)
+      : null
+    const status = !isClosed ? 'open' : pl > 0 ? 'win' : pl < 0 ? 'loss' : 'breakeven'
+    const pips = isClosed && instrument ? pipsBetween(instrument.pip_size, direction, open_price, close_price) : null
+    const costs = {
+      commission: Math.abs(commission || 0),
+      swap: swap || 0,
+      other_fees: Math.abs(fee || 0),
+    }
+
+    if (existing?.status === 'open') {
+      const positionUpdate = isClosed
+        ? {
+            exit_date: close_time || new Date().toISOString(),
+            exit_price: close_price,
+            profit_loss: pl,
+            pips,
+            status,
+            floating_pl: null,
+            ...costs,
+          }
+        : {
+            stop_loss: sl || null,
+            take_profit: tp || null,
+            floating_pl: profit ?? null,
+            floating_updated_at: new Date().toISOString(),
+          }
+
+      const { error: updateError } = await supabase
+        .from('trades')
+        .update(positionUpdate)
+        .eq('id', existing.id)
+
+      if (updateError) {
+        console.error('Update error:', updateError)
+        return new Response(JSON.stringify({ error: 'Failed to update position' }), {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        })
+      }
+
+      return new Response(JSON.stringify({ message: isClosed ? 'Position closed' : 'Position updated', trade_id: existing.id }), {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      })
+    }
+
+    if (existing) {
+      return new Response(JSON.stringify({ message: 'Trade already exists', trade_id: existing.id }), {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      })
+    }
 
     const tradeData = {
       user_id: keyRecord.user_id,
+      account_id: keyRecord.account_id ?? null,
       symbol: symbol.toUpperCase(),
-      asset_class: detectAssetClass(symbol),
+      asset_class: assetClass,
       direction,
       entry_date: open_time || new Date().toISOString(),
-      exit_date: close_time || new Date().toISOString(),
+      exit_date: isClosed ? close_time || new Date().toISOString() : null,
       entry_price: open_price,
-      exit_price: close_price ?? null,
+      exit_price: isClosed ? close_price : null,
       lot_size: volume || 0.01,
       stop_loss: sl || null,
       take_profit: tp || null,
+      risk_amount: riskAmountFor(instrument, open_price, sl || null, volume || 0.01),
       profit_loss: pl,
+      pips,
+      ...costs,
       status,
+      floating_pl: isClosed ? null : profit ?? null,
+      floating_updated_at: isClosed ? null : new Date().toISOString(),
       strategy: 'MT5 Auto-Sync',
       mt5_ticket: String(ticket),
       needs_review: true,
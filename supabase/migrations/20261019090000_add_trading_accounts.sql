@@ -0,0 +1,86 @@
+-- Trading accounts so demo, live and prop-firm results stay separate
+CREATE TABLE public.trading_accounts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  broker TEXT,
+  currency TEXT NOT NULL DEFAULT 'USD',
+  starting_balance NUMERIC NOT NULL DEFAULT 0,
+  account_type TEXT NOT NULL DEFAULT 'live' CHECK (account_type IN ('demo', 'live', 'prop')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.trading_accounts ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies
+CREATE POLICY "Users can view their own accounts"
+  ON public.trading_accounts FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own accounts"
+  ON public.trading_accounts FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own accounts"
+  ON public.trading_accounts FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own accounts"
+  ON public.trading_accounts FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_trading_accounts_updated_at
+  BEFORE UPDATE ON public.trading_accounts
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Link trades and webhook keys to an account
+ALTER TABLE public.trades
+ADD COLUMN IF NOT EXISTS account_id UUID REFERENCES public.trading_accounts(id) ON DELETE SET NULL;
+
+ALTER TABLE public.webhook_api_keys
+ADD COLUMN IF NOT EXISTS account_id UUID REFERENCES public.trading_accounts(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_trades_account_id ON public.trades (account_id);
+
+COMMENT ON COLUMN public.trades.account_id IS 'Trading account the trade belongs to (NULL = unassigned)';
+COMMENT ON COLUMN public.webhook_api_keys.account_id IS 'Account that MT5 trades synced with this key are filed under';
+
+-- Only allow trades to reference accounts owned by the same user
+DROP POLICY IF EXISTS "Users can insert their own trades" ON public.trades;
+DROP POLICY IF EXISTS "Users can update their own trades" ON public.trades;
+
+CREATE POLICY "Users can insert their own trades"
+  ON public.trades FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (account_id IS NULL OR EXISTS (
+      SELECT 1 FROM public.trading_accounts a WHERE a.id = account_id AND a.user_id = auth.uid()
+    ))
+  );
+
+CREATE POLICY "Users can update their own trades"
+  ON public.trades FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (account_id IS NULL OR EXISTS (
+      SELECT 1 FROM public.trading_accounts a WHERE a.id = account_id AND a.user_id = auth.uid()
+    ))
+  );
+
+-- Backfill: give every existing trader a default account and file their history under it
+INSERT INTO public.trading_accounts (user_id, name, account_type)
+SELECT DISTINCT user_id, 'Main Account', 'live'
+FROM public.trades;
+
+UPDATE public.trades t
+SET account_id = a.id
+FROM public.trading_accounts a
+WHERE a.user_id = t.user_id AND t.account_id IS NULL;
+
+UPDATE public.webhook_api_keys k
+SET account_id = a.id
+FROM public.trading_accounts a
+WHERE a.user_id = k.user_id AND k.account_id IS NULL;
@@ -0,0 +1,49 @@
+-- Cash-flow ledger per trading account (deposits, withdrawals, transfers, adjustments)
+CREATE TABLE public.account_cash_flows (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  account_id UUID NOT NULL REFERENCES public.trading_accounts(id) ON DELETE CASCADE,
+  flow_type TEXT NOT NULL CHECK (flow_type IN ('deposit', 'withdrawal', 'transfer', 'adjustment')),
+  amount NUMERIC NOT NULL,
+  occurred_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  transfer_group UUID,
+  counterparty_account_id UUID REFERENCES public.trading_accounts(id) ON DELETE SET NULL,
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  -- Amounts are signed: money into the account is positive, money out is negative
+  CONSTRAINT account_cash_flows_sign_check CHECK (
+    (flow_type = 'deposit' AND amount > 0)
+    OR (flow_type = 'withdrawal' AND amount < 0)
+    OR (flow_type IN ('transfer', 'adjustment') AND amount <> 0)
+  )
+);
+
+COMMENT ON COLUMN public.account_cash_flows.amount IS 'Signed amount in account currency: positive = into the account, negative = out';
+COMMENT ON COLUMN public.account_cash_flows.transfer_group IS 'Shared by the two legs of an account-to-account transfer';
+
+-- Enable RLS
+ALTER TABLE public.account_cash_flows ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies
+CREATE POLICY "Users can view their own cash flows"
+  ON public.account_cash_flows FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own cash flows"
+  ON public.account_cash_flows FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.trading_accounts a WHERE a.id = account_id AND a.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update their own cash flows"
+  ON public.account_cash_flows FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own cash flows"
+  ON public.account_cash_flows FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_account_cash_flows_account ON public.account_cash_flows (account_id, occurred_at);
@@ -0,0 +1,47 @@
+-- Individual fills (scale-ins and partial closes) belonging to a trade
+CREATE TABLE public.trade_executions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  trade_id UUID NOT NULL REFERENCES public.trades(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  side TEXT NOT NULL CHECK (side IN ('entry', 'exit')),
+  price NUMERIC NOT NULL CHECK (price >= 0),
+  volume NUMERIC NOT NULL CHECK (volume > 0),
+  executed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  profit_loss NUMERIC,
+  mt5_deal TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.trade_executions.profit_loss IS 'Realised P&L of an exit leg in account currency';
+
+-- Enable RLS
+ALTER TABLE public.trade_executions ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies
+CREATE POLICY "Users can view their own executions"
+  ON public.trade_executions FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own executions"
+  ON public.trade_executions FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.trades t WHERE t.id = trade_id AND t.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update their own executions"
+  ON public.trade_executions FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own executions"
+  ON public.trade_executions FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_trade_executions_trade ON public.trade_executions (trade_id, executed_at);
+
+-- MT5 deals are only ever recorded once per position
+CREATE UNIQUE INDEX IF NOT EXISTS idx_trade_executions_mt5_deal
+  ON public.trade_executions (trade_id, mt5_deal)
+  WHERE mt5_deal IS NOT NULL;
@@ -0,0 +1,11 @@
+-- Open positions: unrealised P&L reported by the platform while a trade is still running
+ALTER TABLE public.trades
+ADD COLUMN IF NOT EXISTS floating_pl NUMERIC,
+ADD COLUMN IF NOT EXISTS floating_updated_at TIMESTAMP WITH TIME ZONE;
+
+-- Trades synced deal-by-deal before this change were left without a status while open
+UPDATE public.trades
+SET status = 'open'
+WHERE status IS NULL AND exit_date IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_trades_open ON public.trades (user_id) WHERE status = 'open';
@@ -0,0 +1,14 @@
+-- Trading costs. Commission and other fees are stored as positive costs;
+-- swap keeps the broker's sign (positive = credited to the account).
+ALTER TABLE public.trades
+ADD COLUMN IF NOT EXISTS commission NUMERIC NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS swap NUMERIC NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS other_fees NUMERIC NOT NULL DEFAULT 0;
+
+ALTER TABLE public.trade_executions
+ADD COLUMN IF NOT EXISTS commission NUMERIC NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS swap NUMERIC NOT NULL DEFAULT 0;
+
+-- Which P&L drives headline numbers in the app
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS pnl_basis TEXT NOT NULL DEFAULT 'net' CHECK (pnl_basis IN ('gross', 'net'));
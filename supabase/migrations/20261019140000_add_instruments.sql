@@ -0,0 +1,100 @@
+-- Per-user instrument specifications used for pip, value and asset-class calculations
+CREATE TABLE public.instruments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  symbol TEXT NOT NULL,
+  aliases TEXT[] NOT NULL DEFAULT '{}',
+  asset_class TEXT NOT NULL CHECK (asset_class IN ('forex', 'crypto', 'commodities', 'stocks')),
+  pip_size NUMERIC NOT NULL CHECK (pip_size > 0),
+  contract_size NUMERIC NOT NULL DEFAULT 1 CHECK (contract_size > 0),
+  quote_currency TEXT NOT NULL DEFAULT 'USD',
+  tick_value NUMERIC CHECK (tick_value > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, symbol)
+);
+
+COMMENT ON COLUMN public.instruments.aliases IS 'Other names brokers use for the symbol, e.g. GOLD for XAUUSD';
+COMMENT ON COLUMN public.instruments.pip_size IS 'Price move counted as one pip (or point for indices and crypto)';
+COMMENT ON COLUMN public.instruments.tick_value IS 'Account-currency value of a one-pip move on one lot; NULL derives it from pip and contract size';
+
+-- Enable RLS
+ALTER TABLE public.instruments ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies
+CREATE POLICY "Users can view their own instruments"
+  ON public.instruments FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own instruments"
+  ON public.instruments FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own instruments"
+  ON public.instruments FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own instruments"
+  ON public.instruments FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_instruments_updated_at
+  BEFORE UPDATE ON public.instruments
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Common FX, metals, energies, indices and crypto; users can edit these to match their broker
+CREATE OR REPLACE FUNCTION public.seed_default_instruments(p_user_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.instruments (user_id, symbol, aliases, asset_class, pip_size, contract_size, quote_currency, tick_value)
+  VALUES
+    (p_user_id, 'EURUSD', '{}', 'forex', 0.0001, 100000, 'USD', 10),
+    (p_user_id, 'GBPUSD', '{}', 'forex', 0.0001, 100000, 'USD', 10),
+    (p_user_id, 'AUDUSD', '{}', 'forex', 0.0001, 100000, 'USD', 10),
+    (p_user_id, 'NZDUSD', '{}', 'forex', 0.0001, 100000, 'USD', 10),
+    (p_user_id, 'USDJPY', '{}', 'forex', 0.01, 100000, 'JPY', NULL),
+    (p_user_id, 'USDCHF', '{}', 'forex', 0.0001, 100000, 'CHF', NULL),
+    (p_user_id, 'USDCAD', '{}', 'forex', 0.0001, 100000, 'CAD', NULL),
+    (p_user_id, 'EURJPY', '{}', 'forex', 0.01, 100000, 'JPY', NULL),
+    (p_user_id, 'GBPJPY', '{}', 'forex', 0.01, 100000, 'JPY', NULL),
+    (p_user_id, 'EURGBP', '{}', 'forex', 0.0001, 100000, 'GBP', NULL),
+    (p_user_id, 'XAUUSD', '{GOLD}', 'commodities', 0.1, 100, 'USD', 10),
+    (p_user_id, 'XAGUSD', '{SILVER}', 'commodities', 0.01, 5000, 'USD', 50),
+    (p_user_id, 'USOIL', '{WTI,XTIUSD,CL}', 'commodities', 0.01, 1000, 'USD', 10),
+    (p_user_id, 'UKOIL', '{BRENT,XBRUSD}', 'commodities', 0.01, 1000, 'USD', 10),
+    (p_user_id, 'XNGUSD', '{NATGAS,NGAS}', 'commodities', 0.001, 10000, 'USD', 10),
+    (p_user_id, 'US30', '{DJ30,WS30,DJI}', 'stocks', 1, 1, 'USD', 1),
+    (p_user_id, 'NAS100', '{US100,USTEC,NDX}', 'stocks', 1, 1, 'USD', 1),
+    (p_user_id, 'US500', '{SPX500,SP500}', 'stocks', 1, 1, 'USD', 1),
+    (p_user_id, 'GER40', '{DE40,GER30,DAX}', 'stocks', 1, 1, 'EUR', NULL),
+    (p_user_id, 'UK100', '{FTSE}', 'stocks', 1, 1, 'GBP', NULL),
+    (p_user_id, 'JP225', '{NIKKEI,JPN225}', 'stocks', 1, 1, 'JPY', NULL),
+    (p_user_id, 'BTCUSD', '{BTCUSDT}', 'crypto', 1, 1, 'USD', 1),
+    (p_user_id, 'ETHUSD', '{ETHUSDT}', 'crypto', 0.1, 1, 'USD', 0.1),
+    (p_user_id, 'SOLUSD', '{SOLUSDT}', 'crypto', 0.01, 1, 'USD', 0.01),
+    (p_user_id, 'XRPUSD', '{XRPUSDT}', 'crypto', 0.0001, 1, 'USD', 0.0001)
+  ON CONFLICT (user_id, symbol) DO NOTHING;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.seed_default_instruments(UUID) FROM PUBLIC, anon, authenticated;
+
+-- New users start with the default registry
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.profiles (id, display_name)
+  VALUES (NEW.id, NEW.raw_user_meta_data ->> 'display_name');
+  PERFORM public.seed_default_instruments(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+-- Backfill existing users
+SELECT public.seed_default_instruments(id) FROM public.profiles;
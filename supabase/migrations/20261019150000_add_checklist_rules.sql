@@ -0,0 +1,150 @@
+-- User-defined pre-trade checklist rules, replacing the fixed rule_* columns on trades
+CREATE TABLE public.checklist_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  label TEXT NOT NULL,
+  description TEXT,
+  weight NUMERIC NOT NULL DEFAULT 1 CHECK (weight >= 0),
+  position INTEGER NOT NULL DEFAULT 0,
+  archived_at TIMESTAMP WITH TIME ZONE,
+  legacy_field TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.checklist_rules.weight IS 'Relative importance used for the weighted checklist score';
+COMMENT ON COLUMN public.checklist_rules.archived_at IS 'Archived rules are hidden from the checklist but keep their history';
+COMMENT ON COLUMN public.checklist_rules.legacy_field IS 'trades column this rule was migrated from, if any';
+
+CREATE TABLE public.trade_rule_answers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  trade_id UUID NOT NULL REFERENCES public.trades(id) ON DELETE CASCADE,
+  rule_id UUID NOT NULL REFERENCES public.checklist_rules(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  answer TEXT NOT NULL CHECK (answer IN ('yes', 'no', 'n/a')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (trade_id, rule_id)
+);
+
+-- Enable RLS
+ALTER TABLE public.checklist_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.trade_rule_answers ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies
+CREATE POLICY "Users can view their own checklist rules"
+  ON public.checklist_rules FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own checklist rules"
+  ON public.checklist_rules FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own checklist rules"
+  ON public.checklist_rules FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own checklist rules"
+  ON public.checklist_rules FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own rule answers"
+  ON public.trade_rule_answers FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own rule answers"
+  ON public.trade_rule_answers FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.trades t WHERE t.id = trade_id AND t.user_id = auth.uid()
+    )
+    AND EXISTS (
+      SELECT 1 FROM public.checklist_rules r WHERE r.id = rule_id AND r.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update their own rule answers"
+  ON public.trade_rule_answers FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own rule answers"
+  ON public.trade_rule_answers FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_checklist_rules_user ON public.checklist_rules (user_id, position);
+CREATE INDEX IF NOT EXISTS idx_trade_rule_answers_rule ON public.trade_rule_answers (rule_id);
+
+CREATE TRIGGER update_checklist_rules_updated_at
+  BEFORE UPDATE ON public.checklist_rules
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The checklist that used to be hardcoded; users can edit, archive or replace these
+CREATE OR REPLACE FUNCTION public.seed_default_checklist_rules(p_user_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.checklist_rules WHERE user_id = p_user_id) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.checklist_rules (user_id, label, description, position, legacy_field)
+  VALUES
+    (p_user_id, 'In trading plan?', 'Is this setup clearly defined in your trading plan?', 0, 'rule_in_plan'),
+    (p_user_id, 'BoS confirmed?', 'Has market structure clearly broken in your trade direction?', 1, 'rule_bos'),
+    (p_user_id, 'Liquidity identified?', 'Have you identified key liquidity pools and levels?', 2, 'rule_liquidity'),
+    (p_user_id, 'With the trend?', 'Are you trading in line with the higher-timeframe trend?', 3, 'rule_trend'),
+    (p_user_id, 'Checked news?', 'Have you checked the calendar for high-impact news?', 4, 'rule_news'),
+    (p_user_id, 'R:R ≥ 1:2?', 'Is the minimum risk-to-reward ratio at least 1:2?', 5, 'rule_rr'),
+    (p_user_id, 'Emotionally calm?', 'Are you calm, focused and not trading from FOMO or revenge?', 6, 'rule_emotions'),
+    (p_user_id, 'Correct lot size?', 'Is your position size correct for your planned risk?', 7, 'rule_lot_size');
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.seed_default_checklist_rules(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.profiles (id, display_name)
+  VALUES (NEW.id, NEW.raw_user_meta_data ->> 'display_name');
+  PERFORM public.seed_default_instruments(NEW.id);
+  PERFORM public.seed_default_checklist_rules(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+-- Backfill existing users and carry their answers over
+SELECT public.seed_default_checklist_rules(id) FROM public.profiles;
+
+INSERT INTO public.trade_rule_answers (trade_id, rule_id, user_id, answer)
+SELECT t.id, r.id, t.user_id, legacy.answer
+FROM public.trades t
+CROSS JOIN LATERAL (
+  VALUES
+    ('rule_in_plan', t.rule_in_plan),
+    ('rule_bos', t.rule_bos),
+    ('rule_liquidity', t.rule_liquidity),
+    ('rule_trend', t.rule_trend),
+    ('rule_news', t.rule_news),
+    ('rule_rr', t.rule_rr),
+    ('rule_emotions', t.rule_emotions),
+    ('rule_lot_size', t.rule_lot_size)
+) AS legacy(field, answer)
+JOIN public.checklist_rules r ON r.user_id = t.user_id AND r.legacy_field = legacy.field
+WHERE legacy.answer IN ('yes', 'no', 'n/a')
+ON CONFLICT (trade_id, rule_id) DO NOTHING;
+
+ALTER TABLE public.trades
+  DROP COLUMN rule_in_plan,
+  DROP COLUMN rule_bos,
+  DROP COLUMN rule_liquidity,
+  DROP COLUMN rule_trend,
+  DROP COLUMN rule_news,
+  DROP COLUMN rule_rr,
+  DROP COLUMN rule_emotions,
+  DROP COLUMN rule_lot_size;
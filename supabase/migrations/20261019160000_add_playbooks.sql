@@ -0,0 +1,51 @@
+-- Documented strategies that trades are linked to, replacing free-text strategy names
+CREATE TABLE public.playbooks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  entry_criteria TEXT,
+  exit_criteria TEXT,
+  target_r NUMERIC CHECK (target_r > 0),
+  allowed_symbols TEXT[] NOT NULL DEFAULT '{}',
+  allowed_sessions TEXT[] NOT NULL DEFAULT '{}',
+  rule_ids UUID[] NOT NULL DEFAULT '{}',
+  example_trade_ids UUID[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+COMMENT ON COLUMN public.playbooks.allowed_symbols IS 'Symbols the setup is traded on; empty allows any';
+COMMENT ON COLUMN public.playbooks.allowed_sessions IS 'Trading sessions (sydney, tokyo, london, new_york); empty allows any';
+COMMENT ON COLUMN public.playbooks.rule_ids IS 'Checklist rules that apply to this setup; empty uses the full checklist';
+
+-- Enable RLS
+ALTER TABLE public.playbooks ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies
+CREATE POLICY "Users can view their own playbooks"
+  ON public.playbooks FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own playbooks"
+  ON public.playbooks FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own playbooks"
+  ON public.playbooks FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own playbooks"
+  ON public.playbooks FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_playbooks_updated_at
+  BEFORE UPDATE ON public.playbooks
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Trades keep their strategy text (set to the playbook name) for exports and older clients
+ALTER TABLE public.trades
+  ADD COLUMN IF NOT EXISTS playbook_id UUID REFERENCES public.playbooks(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_trades_playbook ON public.trades (playbook_id);
@@ -0,0 +1,68 @@
+-- Private bucket for chart screenshots; objects live under <user_id>/<trade_id>/
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('trade-screenshots', 'trade-screenshots', false, 10485760, ARRAY['image/png', 'image/jpeg', 'image/webp', 'image/gif'])
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can view their own screenshot files"
+  ON storage.objects FOR SELECT
+  USING (bucket_id = 'trade-screenshots' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can upload their own screenshot files"
+  ON storage.objects FOR INSERT
+  WITH CHECK (bucket_id = 'trade-screenshots' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can update their own screenshot files"
+  ON storage.objects FOR UPDATE
+  USING (bucket_id = 'trade-screenshots' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can delete their own screenshot files"
+  ON storage.objects FOR DELETE
+  USING (bucket_id = 'trade-screenshots' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+-- Uploaded images attached to a trade, with their annotation layer
+CREATE TABLE public.trade_screenshots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  trade_id UUID NOT NULL REFERENCES public.trades(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  storage_path TEXT NOT NULL,
+  phase TEXT NOT NULL DEFAULT 'before' CHECK (phase IN ('before', 'during', 'after')),
+  caption TEXT,
+  annotations JSONB NOT NULL DEFAULT '[]'::jsonb,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.trade_screenshots.storage_path IS 'Object path in the trade-screenshots bucket';
+COMMENT ON COLUMN public.trade_screenshots.annotations IS 'Lines, boxes and text drawn over the image, in coordinates relative to its size (0-1)';
+
+-- Enable RLS
+ALTER TABLE public.trade_screenshots ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies
+CREATE POLICY "Users can view their own screenshots"
+  ON public.trade_screenshots FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own screenshots"
+  ON public.trade_screenshots FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.trades t WHERE t.id = trade_id AND t.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update their own screenshots"
+  ON public.trade_screenshots FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own screenshots"
+  ON public.trade_screenshots FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_trade_screenshots_trade ON public.trade_screenshots (trade_id, position);
+
+CREATE TRIGGER update_trade_screenshots_updated_at
+  BEFORE UPDATE ON public.trade_screenshots
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
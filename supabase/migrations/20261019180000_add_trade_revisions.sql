@@ -0,0 +1,69 @@
+-- Append-only history of every change to a trade, written by trigger so no code path can skip it
+CREATE TABLE public.trade_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  trade_id UUID NOT NULL REFERENCES public.trades(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  operation TEXT NOT NULL CHECK (operation IN ('insert', 'update')),
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'csv_import', 'mt5_webhook', 'restore')),
+  changed_fields TEXT[] NOT NULL DEFAULT '{}',
+  previous JSONB,
+  snapshot JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.trade_revisions.source IS 'Taken from the x-change-source request header; manual when absent';
+COMMENT ON COLUMN public.trade_revisions.previous IS 'Row before the change (null for inserts)';
+COMMENT ON COLUMN public.trade_revisions.snapshot IS 'Row after the change';
+
+-- Enable RLS
+ALTER TABLE public.trade_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Revisions are read-only for users; only the trigger writes them
+CREATE POLICY "Users can view their own trade revisions"
+  ON public.trade_revisions FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_trade_revisions_trade ON public.trade_revisions (trade_id, created_at DESC);
+
+CREATE OR REPLACE FUNCTION public.record_trade_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_source TEXT;
+  v_changed TEXT[];
+BEGIN
+  v_source := COALESCE(current_setting('request.headers', true)::json ->> 'x-change-source', 'manual');
+  IF v_source NOT IN ('manual', 'csv_import', 'mt5_webhook', 'restore') THEN
+    v_source := 'manual';
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.trade_revisions (trade_id, user_id, operation, source, snapshot)
+    VALUES (NEW.id, NEW.user_id, 'insert', v_source, to_jsonb(NEW));
+    RETURN NEW;
+  END IF;
+
+  -- Floating P&L ticks from open positions are not edits worth keeping
+  SELECT COALESCE(array_agg(n.key ORDER BY n.key), '{}')
+  INTO v_changed
+  FROM jsonb_each(to_jsonb(NEW)) n
+  WHERE n.value IS DISTINCT FROM to_jsonb(OLD) -> n.key
+    AND n.key NOT IN ('updated_at', 'floating_pl', 'floating_updated_at');
+
+  IF array_length(v_changed, 1) IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.trade_revisions (trade_id, user_id, operation, source, changed_fields, previous, snapshot)
+  VALUES (NEW.id, NEW.user_id, 'update', v_source, v_changed, to_jsonb(OLD), to_jsonb(NEW));
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_trade_revision() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER record_trade_revision
+  AFTER INSERT OR UPDATE ON public.trades
+  FOR EACH ROW EXECUTE FUNCTION public.record_trade_revision();
@@ -0,0 +1,46 @@
+-- Soft delete for trades: deleted rows sit in the trash until restored or purged
+ALTER TABLE public.trades
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN public.trades.deleted_at IS 'Set when the trade is moved to the trash; null for live trades';
+
+CREATE INDEX IF NOT EXISTS idx_trades_user_deleted ON public.trades (user_id, deleted_at);
+
+-- Permanently removes trades that have been in the trash longer than the retention period
+CREATE OR REPLACE FUNCTION public.purge_deleted_trades(p_retention INTERVAL DEFAULT INTERVAL '30 days')
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  DELETE FROM public.trades
+  WHERE deleted_at IS NOT NULL
+    AND deleted_at < now() - p_retention;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.purge_deleted_trades(INTERVAL) FROM PUBLIC, anon, authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+
+SELECT cron.schedule(
+  'purge-deleted-trades',
+  '15 3 * * *',
+  $$SELECT public.purge_deleted_trades()$$
+);
+
+-- Other tabs follow updates and deletes over realtime, not just inserts
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'trades'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.trades;
+  END IF;
+END;
+$$;
@@ -0,0 +1,47 @@
+-- Daily journal: pre-market plan and end-of-day reflection, independent of any trade
+CREATE TABLE public.journal_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  account_id UUID REFERENCES public.trading_accounts(id) ON DELETE CASCADE,
+  entry_date DATE NOT NULL,
+  premarket_plan TEXT,
+  reflection TEXT,
+  mood SMALLINT CHECK (mood BETWEEN 1 AND 5),
+  energy SMALLINT CHECK (energy BETWEEN 1 AND 5),
+  sleep SMALLINT CHECK (sleep BETWEEN 1 AND 5),
+  market_bias TEXT CHECK (market_bias IN ('bullish', 'bearish', 'neutral')),
+  key_levels TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE NULLS NOT DISTINCT (user_id, account_id, entry_date)
+);
+
+COMMENT ON COLUMN public.journal_entries.account_id IS 'Null for entries written with all accounts selected';
+COMMENT ON COLUMN public.journal_entries.premarket_plan IS 'Markdown';
+COMMENT ON COLUMN public.journal_entries.reflection IS 'Markdown';
+
+-- Enable RLS
+ALTER TABLE public.journal_entries ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies
+CREATE POLICY "Users can view their own journal entries"
+  ON public.journal_entries FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own journal entries"
+  ON public.journal_entries FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own journal entries"
+  ON public.journal_entries FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own journal entries"
+  ON public.journal_entries FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_journal_entries_user_date ON public.journal_entries (user_id, entry_date DESC);
+
+CREATE TRIGGER update_journal_entries_updated_at
+  BEFORE UPDATE ON public.journal_entries
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
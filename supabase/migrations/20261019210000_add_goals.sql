@@ -0,0 +1,42 @@
+-- Recurring targets, evaluated for every week, month or quarter from starts_on onwards
+CREATE TABLE public.goals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  account_id UUID REFERENCES public.trading_accounts(id) ON DELETE CASCADE,
+  metric TEXT NOT NULL CHECK (metric IN ('net_pl', 'win_rate', 'max_trades_per_day', 'rule_adherence')),
+  period TEXT NOT NULL CHECK (period IN ('week', 'month', 'quarter')),
+  target NUMERIC NOT NULL CHECK (target >= 0),
+  starts_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  archived_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.goals.account_id IS 'Null for goals set with all accounts selected';
+COMMENT ON COLUMN public.goals.target IS 'P&L in account currency, win rate and adherence in percent, or a trade count';
+
+-- Enable RLS
+ALTER TABLE public.goals ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies
+CREATE POLICY "Users can view their own goals"
+  ON public.goals FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own goals"
+  ON public.goals FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own goals"
+  ON public.goals FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own goals"
+  ON public.goals FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_goals_user ON public.goals (user_id, archived_at);
+
+CREATE TRIGGER update_goals_updated_at
+  BEFORE UPDATE ON public.goals
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,257 @@
+-- Risk limits per account. The row without an account is the default for accounts that have none of their own.
+CREATE TABLE public.risk_limits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  account_id UUID REFERENCES public.trading_accounts(id) ON DELETE CASCADE,
+  max_daily_loss NUMERIC CHECK (max_daily_loss > 0),
+  max_daily_loss_pct NUMERIC CHECK (max_daily_loss_pct > 0 AND max_daily_loss_pct <= 100),
+  max_consecutive_losses INTEGER CHECK (max_consecutive_losses > 0),
+  max_trades_per_day INTEGER CHECK (max_trades_per_day > 0),
+  max_open_risk NUMERIC CHECK (max_open_risk > 0),
+  max_lot_size NUMERIC CHECK (max_lot_size > 0),
+  symbol_lot_limits JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE NULLS NOT DISTINCT (user_id, account_id)
+);
+
+COMMENT ON TABLE public.risk_limits IS 'Null limits are switched off';
+COMMENT ON COLUMN public.risk_limits.symbol_lot_limits IS 'Max lots keyed by normalized symbol, overriding max_lot_size';
+
+-- Every limit a trade pushed past, logged for review
+CREATE TABLE public.risk_breaches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  account_id UUID REFERENCES public.trading_accounts(id) ON DELETE CASCADE,
+  trade_id UUID REFERENCES public.trades(id) ON DELETE SET NULL,
+  rule TEXT NOT NULL CHECK (rule IN ('daily_loss', 'daily_loss_pct', 'consecutive_losses', 'trades_per_day', 'open_risk', 'lot_size')),
+  limit_value NUMERIC NOT NULL,
+  actual_value NUMERIC NOT NULL,
+  symbol TEXT,
+  breach_date DATE NOT NULL,
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'csv_import', 'mt5_webhook', 'restore')),
+  acknowledged_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (trade_id, rule)
+);
+
+COMMENT ON COLUMN public.risk_breaches.breach_date IS 'UTC trading day the breach counts against';
+
+-- Enable RLS
+ALTER TABLE public.risk_limits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.risk_breaches ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies
+CREATE POLICY "Users can view their own risk limits"
+  ON public.risk_limits FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own risk limits"
+  ON public.risk_limits FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own risk limits"
+  ON public.risk_limits FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own risk limits"
+  ON public.risk_limits FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Breaches are written by trigger; users can only read and acknowledge them
+CREATE POLICY "Users can view their own risk breaches"
+  ON public.risk_breaches FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own risk breaches"
+  ON public.risk_breaches FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_risk_breaches_user_date ON public.risk_breaches (user_id, breach_date DESC);
+
+CREATE TRIGGER update_risk_limits_updated_at
+  BEFORE UPDATE ON public.risk_limits
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Net realised P&L, matching getTradePL in the app for trades without executions
+CREATE OR REPLACE FUNCTION public.trade_net_pl(t public.trades)
+RETURNS NUMERIC
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+      WHEN t.reward_amount IS NOT NULL THEN
+        CASE WHEN t.status = 'loss' THEN -abs(t.reward_amount) ELSE t.reward_amount END
+      ELSE COALESCE(t.profit_loss, 0)
+    END
+    - COALESCE(t.commission, 0) - COALESCE(t.other_fees, 0) + COALESCE(t.swap, 0);
+$$;
+
+-- Checks a trade against its account's limits whenever it is added or its outcome changes.
+-- Trading days are UTC days so every writer (form, CSV import, MT5 webhook) agrees on them.
+CREATE OR REPLACE FUNCTION public.check_trade_risk()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_limits public.risk_limits;
+  v_source TEXT;
+  v_symbol TEXT;
+  v_lot_limit NUMERIC;
+  v_entry_day DATE;
+  v_exit_day DATE;
+  v_count INTEGER;
+  v_amount NUMERIC;
+  v_balance NUMERIC;
+BEGIN
+  IF NEW.deleted_at IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_limits
+  FROM public.risk_limits
+  WHERE user_id = NEW.user_id
+    AND (account_id = NEW.account_id OR account_id IS NULL)
+  ORDER BY account_id NULLS LAST
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  v_source := COALESCE(current_setting('request.headers', true)::json ->> 'x-change-source', 'manual');
+  IF v_source NOT IN ('manual', 'csv_import', 'mt5_webhook', 'restore') THEN
+    v_source := 'manual';
+  END IF;
+
+  v_symbol := upper(regexp_replace(regexp_replace(trim(NEW.symbol), '^#', ''), '[._\-+].*$', ''));
+  v_entry_day := (NEW.entry_date AT TIME ZONE 'UTC')::date;
+  v_exit_day := (COALESCE(NEW.exit_date, NEW.entry_date) AT TIME ZONE 'UTC')::date;
+
+  -- Lot size, per symbol when the symbol has its own cap
+  v_lot_limit := COALESCE((v_limits.symbol_lot_limits ->> v_symbol)::numeric, v_limits.max_lot_size);
+  IF v_lot_limit IS NOT NULL AND NEW.lot_size > v_lot_limit THEN
+    INSERT INTO public.risk_breaches (user_id, account_id, trade_id, rule, limit_value, actual_value, symbol, breach_date, source)
+    VALUES (NEW.user_id, NEW.account_id, NEW.id, 'lot_size', v_lot_limit, NEW.lot_size, v_symbol, v_entry_day, v_source)
+    ON CONFLICT (trade_id, rule) DO NOTHING;
+  END IF;
+
+  IF v_limits.max_trades_per_day IS NOT NULL THEN
+    SELECT count(*) INTO v_count
+    FROM public.trades
+    WHERE user_id = NEW.user_id
+      AND account_id IS NOT DISTINCT FROM NEW.account_id
+      AND deleted_at IS NULL
+      AND (entry_date AT TIME ZONE 'UTC')::date = v_entry_day;
+
+    IF v_count > v_limits.max_trades_per_day THEN
+      INSERT INTO public.risk_breaches (user_id, account_id, trade_id, rule, limit_value, actual_value, symbol, breach_date, source)
+      VALUES (NEW.user_id, NEW.account_id, NEW.id, 'trades_per_day', v_limits.max_trades_per_day, v_count, v_symbol, v_entry_day, v_source)
+      ON CONFLICT (trade_id, rule) DO NOTHING;
+    END IF;
+  END IF;
+
+  IF NEW.status = 'open' AND v_limits.max_open_risk IS NOT NULL THEN
+    SELECT COALESCE(sum(risk_amount), 0) INTO v_amount
+    FROM public.trades
+    WHERE user_id = NEW.user_id
+      AND account_id IS NOT DISTINCT FROM NEW.account_id
+      AND deleted_at IS NULL
+      AND status = 'open';
+
+    IF v_amount > v_limits.max_open_risk THEN
+      INSERT INTO public.risk_breaches (user_id, account_id, trade_id, rule, limit_value, actual_value, symbol, breach_date, source)
+      VALUES (NEW.user_id, NEW.account_id, NEW.id, 'open_risk', v_limits.max_open_risk, v_amount, v_symbol, v_entry_day, v_source)
+      ON CONFLICT (trade_id, rule) DO NOTHING;
+    END IF;
+  END IF;
+
+  IF NEW.status IS NULL OR NEW.status = 'open' THEN
+    RETURN NEW;
+  END IF;
+
+  -- Losses are booked on the day the trade closed
+  IF v_limits.max_daily_loss IS NOT NULL OR v_limits.max_daily_loss_pct IS NOT NULL THEN
+    SELECT -COALESCE(sum(public.trade_net_pl(t)), 0) INTO v_amount
+    FROM public.trades t
+    WHERE t.user_id = NEW.user_id
+      AND t.account_id IS NOT DISTINCT FROM NEW.account_id
+      AND t.deleted_at IS NULL
+      AND t.status IS NOT NULL AND t.status <> 'open'
+      AND (COALESCE(t.exit_date, t.entry_date) AT TIME ZONE 'UTC')::date = v_exit_day;
+
+    IF v_limits.max_daily_loss IS NOT NULL AND v_amount > v_limits.max_daily_loss THEN
+      INSERT INTO public.risk_breaches (user_id, account_id, trade_id, rule, limit_value, actual_value, symbol, breach_date, source)
+      VALUES (NEW.user_id, NEW.account_id, NEW.id, 'daily_loss', v_limits.max_daily_loss, v_amount, v_symbol, v_exit_day, v_source)
+      ON CONFLICT (trade_id, rule) DO NOTHING;
+    END IF;
+
+    -- Percent of the balance at the start of the day, which needs an account to measure against
+    IF v_limits.max_daily_loss_pct IS NOT NULL AND NEW.account_id IS NOT NULL AND v_amount > 0 THEN
+      SELECT a.starting_balance
+        + COALESCE((
+            SELECT sum(f.amount) FROM public.account_cash_flows f
+            WHERE f.account_id = a.id AND (f.occurred_at AT TIME ZONE 'UTC')::date < v_exit_day
+          ), 0)
+        + COALESCE((
+            SELECT sum(public.trade_net_pl(t)) FROM public.trades t
+            WHERE t.account_id = a.id
+              AND t.deleted_at IS NULL
+              AND t.status IS NOT NULL AND t.status <> 'open'
+              AND (COALESCE(t.exit_date, t.entry_date) AT TIME ZONE 'UTC')::date < v_exit_day
+          ), 0)
+      INTO v_balance
+      FROM public.trading_accounts a
+      WHERE a.id = NEW.account_id;
+
+      IF v_balance > 0 AND v_amount / v_balance * 100 > v_limits.max_daily_loss_pct THEN
+        INSERT INTO public.risk_breaches (user_id, account_id, trade_id, rule, limit_value, actual_value, symbol, breach_date, source)
+        VALUES (NEW.user_id, NEW.account_id, NEW.id, 'daily_loss_pct', v_limits.max_daily_loss_pct,
+                round(v_amount / v_balance * 100, 2), v_symbol, v_exit_day, v_source)
+        ON CONFLICT (trade_id, rule) DO NOTHING;
+      END IF;
+    END IF;
+  END IF;
+
+  -- Losses in a row up to and including this trade
+  IF NEW.status = 'loss' AND v_limits.max_consecutive_losses IS NOT NULL THEN
+    SELECT count(*) INTO v_count
+    FROM public.trades t
+    WHERE t.user_id = NEW.user_id
+      AND t.account_id IS NOT DISTINCT FROM NEW.account_id
+      AND t.deleted_at IS NULL
+      AND t.status = 'loss'
+      AND COALESCE(t.exit_date, t.entry_date) <= COALESCE(NEW.exit_date, NEW.entry_date)
+      AND COALESCE(t.exit_date, t.entry_date) > COALESCE((
+        SELECT max(COALESCE(w.exit_date, w.entry_date))
+        FROM public.trades w
+        WHERE w.user_id = NEW.user_id
+          AND w.account_id IS NOT DISTINCT FROM NEW.account_id
+          AND w.deleted_at IS NULL
+          AND w.status IN ('win', 'breakeven')
+          AND COALESCE(w.exit_date, w.entry_date) <= COALESCE(NEW.exit_date, NEW.entry_date)
+      ), '-infinity'::timestamptz);
+
+    IF v_count > v_limits.max_consecutive_losses THEN
+      INSERT INTO public.risk_breaches (user_id, account_id, trade_id, rule, limit_value, actual_value, symbol, breach_date, source)
+      VALUES (NEW.user_id, NEW.account_id, NEW.id, 'consecutive_losses', v_limits.max_consecutive_losses, v_count, v_symbol, v_exit_day, v_source)
+      ON CONFLICT (trade_id, rule) DO NOTHING;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.check_trade_risk() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER check_trade_risk_on_insert
+  AFTER INSERT ON public.trades
+  FOR EACH ROW EXECUTE FUNCTION public.check_trade_risk();
+
+-- Closing a position or correcting its size can break a limit long after the insert
+CREATE TRIGGER check_trade_risk_on_update
+  AFTER UPDATE OF status, exit_date, profit_loss, reward_amount, commission, swap, other_fees, lot_size, risk_amount ON public.trades
+  FOR EACH ROW EXECUTE FUNCTION public.check_trade_risk();
@@ -0,0 +1,60 @@
+-- Funded-account challenges: the rules a prop firm sets for an account, and how each attempt ended
+CREATE TABLE public.prop_challenges (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  account_id UUID NOT NULL REFERENCES public.trading_accounts(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  template TEXT,
+  account_size NUMERIC NOT NULL CHECK (account_size > 0),
+  profit_target_pct NUMERIC CHECK (profit_target_pct > 0),
+  max_daily_drawdown_pct NUMERIC CHECK (max_daily_drawdown_pct > 0 AND max_daily_drawdown_pct <= 100),
+  max_overall_drawdown_pct NUMERIC CHECK (max_overall_drawdown_pct > 0 AND max_overall_drawdown_pct <= 100),
+  drawdown_type TEXT NOT NULL DEFAULT 'static' CHECK (drawdown_type IN ('static', 'trailing')),
+  min_trading_days INTEGER CHECK (min_trading_days > 0),
+  consistency_pct NUMERIC CHECK (consistency_pct > 0 AND consistency_pct <= 100),
+  starts_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  ends_on DATE,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'passed', 'failed')),
+  result_note TEXT,
+  closed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (ends_on IS NULL OR ends_on >= starts_on)
+);
+
+COMMENT ON COLUMN public.prop_challenges.template IS 'Preset the rules were copied from, if any';
+COMMENT ON COLUMN public.prop_challenges.consistency_pct IS 'Largest share of total profit a single day may contribute';
+COMMENT ON COLUMN public.prop_challenges.ends_on IS 'Last day of the challenge; null when there is no time limit';
+
+-- Enable RLS
+ALTER TABLE public.prop_challenges ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies
+CREATE POLICY "Users can view their own prop challenges"
+  ON public.prop_challenges FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own prop challenges"
+  ON public.prop_challenges FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.trading_accounts
+      WHERE trading_accounts.id = account_id
+        AND trading_accounts.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update their own prop challenges"
+  ON public.prop_challenges FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own prop challenges"
+  ON public.prop_challenges FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_prop_challenges_account ON public.prop_challenges (account_id, starts_on DESC);
+
+CREATE TRIGGER update_prop_challenges_updated_at
+  BEFORE UPDATE ON public.prop_challenges
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
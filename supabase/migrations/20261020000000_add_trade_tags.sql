@@ -0,0 +1,103 @@
+-- Per-user tag settings; the tags themselves stay on trades.tags
+CREATE TABLE public.trade_tags (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  color TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+COMMENT ON COLUMN public.trade_tags.color IS 'Palette key used when the tag is shown as a badge';
+
+-- Enable RLS
+ALTER TABLE public.trade_tags ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies
+CREATE POLICY "Users can view their own trade tags"
+  ON public.trade_tags FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own trade tags"
+  ON public.trade_tags FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own trade tags"
+  ON public.trade_tags FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own trade tags"
+  ON public.trade_tags FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_trade_tags_updated_at
+  BEFORE UPDATE ON public.trade_tags
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Renames or merges tags across all of the caller's trades, trashed ones included.
+-- Every tag in p_from becomes p_to (duplicates collapse, order is kept); a null p_to removes them.
+-- Runs as the caller, so RLS still limits it to their own rows.
+CREATE OR REPLACE FUNCTION public.rewrite_trade_tags(p_from TEXT[], p_to TEXT DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_to TEXT := NULLIF(trim(p_to), '');
+  v_color TEXT;
+  v_count INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  UPDATE public.trades
+  SET tags = (
+    SELECT COALESCE(array_agg(tag ORDER BY pos), '{}')
+    FROM (
+      SELECT DISTINCT ON (tag) tag, pos
+      FROM (
+        SELECT CASE WHEN t = ANY(p_from) THEN v_to ELSE t END AS tag, pos
+        FROM unnest(trades.tags) WITH ORDINALITY AS u(t, pos)
+      ) mapped
+      WHERE tag IS NOT NULL
+      ORDER BY tag, pos
+    ) deduped
+  )
+  WHERE user_id = v_user_id
+    AND tags && p_from;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  IF v_to IS NOT NULL THEN
+    -- The target keeps its own colour, otherwise it inherits the first merged tag's
+    SELECT color INTO v_color
+    FROM public.trade_tags
+    WHERE user_id = v_user_id
+      AND (name = v_to OR name = ANY(p_from))
+    ORDER BY name = v_to DESC, array_position(p_from, name)
+    LIMIT 1;
+
+    DELETE FROM public.trade_tags
+    WHERE user_id = v_user_id
+      AND name = ANY(p_from)
+      AND name <> v_to;
+
+    IF v_color IS NOT NULL THEN
+      INSERT INTO public.trade_tags (user_id, name, color)
+      VALUES (v_user_id, v_to, v_color)
+      ON CONFLICT (user_id, name) DO UPDATE SET color = EXCLUDED.color;
+    END IF;
+  ELSE
+    DELETE FROM public.trade_tags
+    WHERE user_id = v_user_id
+      AND name = ANY(p_from);
+  END IF;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.rewrite_trade_tags(TEXT[], TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.rewrite_trade_tags(TEXT[], TEXT) TO authenticated;
@@ -0,0 +1,38 @@
+-- Named trade filters a user can reapply on the Trades and Analytics pages
+CREATE TABLE public.saved_views (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  filters JSONB NOT NULL DEFAULT '{}'::jsonb,
+  sort JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+COMMENT ON COLUMN public.saved_views.filters IS 'Filter state in the same shape the Trades page keeps in its URL';
+COMMENT ON COLUMN public.saved_views.sort IS 'Column and direction for the Trades table; null keeps the default newest-first order';
+
+-- Enable RLS
+ALTER TABLE public.saved_views ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies
+CREATE POLICY "Users can view their own saved views"
+  ON public.saved_views FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own saved views"
+  ON public.saved_views FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own saved views"
+  ON public.saved_views FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own saved views"
+  ON public.saved_views FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_saved_views_updated_at
+  BEFORE UPDATE ON public.saved_views
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
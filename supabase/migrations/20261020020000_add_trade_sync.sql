@@ -0,0 +1,89 @@
+-- Clients keep a cache of their trades and only fetch rows changed since their last sync
+CREATE INDEX IF NOT EXISTS idx_trades_user_updated ON public.trades (user_id, updated_at);
+
+-- Fills and checklist answers are cached with their trade, so changing them has to count as a change to the trade.
+-- Only updated_at moves, which the revision and risk triggers both ignore.
+CREATE OR REPLACE FUNCTION public.touch_parent_trade()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.trades
+  SET updated_at = now()
+  WHERE id = COALESCE(NEW.trade_id, OLD.trade_id);
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.touch_parent_trade() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER touch_trade_on_execution_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.trade_executions
+  FOR EACH ROW EXECUTE FUNCTION public.touch_parent_trade();
+
+CREATE TRIGGER touch_trade_on_rule_answer_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.trade_rule_answers
+  FOR EACH ROW EXECUTE FUNCTION public.touch_parent_trade();
+
+-- Headline numbers per account without loading every trade. P&L follows getTradePL in the app:
+-- the exit legs' P&L when every exit has one, otherwise the trade's own result, less costs.
+-- Runs as the caller, so RLS still limits it to their own rows.
+CREATE OR REPLACE FUNCTION public.get_trade_summary()
+RETURNS TABLE (
+  account_id UUID,
+  total_trades BIGINT,
+  open_trades BIGINT,
+  wins BIGINT,
+  losses BIGINT,
+  gross_pl NUMERIC,
+  net_pl NUMERIC,
+  last_entry_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH legs AS (
+    SELECT e.trade_id, sum(e.profit_loss) AS realized
+    FROM public.trade_executions e
+    WHERE e.side = 'exit'
+    GROUP BY e.trade_id
+    HAVING bool_and(e.profit_loss IS NOT NULL)
+  ),
+  results AS (
+    SELECT
+      t.account_id,
+      t.status,
+      t.entry_date,
+      CASE WHEN t.status IS NOT NULL AND t.status <> 'open' THEN
+        COALESCE(
+          legs.realized,
+          CASE
+            WHEN t.reward_amount IS NOT NULL THEN
+              CASE WHEN t.status = 'loss' THEN -abs(t.reward_amount) ELSE t.reward_amount END
+            ELSE COALESCE(t.profit_loss, 0)
+          END
+        )
+      END AS gross,
+      COALESCE(t.commission, 0) + COALESCE(t.other_fees, 0) - COALESCE(t.swap, 0) AS costs
+    FROM public.trades t
+    LEFT JOIN legs ON legs.trade_id = t.id
+    WHERE t.user_id = auth.uid()
+      AND t.deleted_at IS NULL
+  )
+  SELECT
+    account_id,
+    count(*),
+    count(*) FILTER (WHERE status = 'open'),
+    count(*) FILTER (WHERE status = 'win'),
+    count(*) FILTER (WHERE status = 'loss'),
+    COALESCE(sum(gross), 0),
+    COALESCE(sum(gross - costs), 0),
+    max(entry_date)
+  FROM results
+  GROUP BY account_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_trade_summary() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_trade_summary() TO authenticated;
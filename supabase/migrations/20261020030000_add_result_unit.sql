@@ -0,0 +1,3 @@
+-- Whether results are shown in the account currency or in R multiples
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS result_unit TEXT NOT NULL DEFAULT 'currency' CHECK (result_unit IN ('currency', 'r'));
@@ -0,0 +1,3 @@
+-- IANA zone used for hour-of-day and day-of-week analytics; null means the browser's own zone
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS timezone TEXT;
@@ -0,0 +1,31 @@
+-- Webhook keys may only be linked to accounts owned by the same user; the MT5 webhook files trades
+-- under the key's account with the service role, so RLS on trades doesn't catch a foreign account
+DROP POLICY IF EXISTS "Users can insert their own keys" ON public.webhook_api_keys;
+DROP POLICY IF EXISTS "Users can update their own keys" ON public.webhook_api_keys;
+
+CREATE POLICY "Users can insert their own keys"
+  ON public.webhook_api_keys FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (account_id IS NULL OR EXISTS (
+      SELECT 1 FROM public.trading_accounts a WHERE a.id = account_id AND a.user_id = auth.uid()
+    ))
+  );
+
+CREATE POLICY "Users can update their own keys"
+  ON public.webhook_api_keys FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (account_id IS NULL OR EXISTS (
+      SELECT 1 FROM public.trading_accounts a WHERE a.id = account_id AND a.user_id = auth.uid()
+    ))
+  );
+
+-- Keys already linked to someone else's account lose the link
+UPDATE public.webhook_api_keys k
+SET account_id = NULL
+WHERE k.account_id IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM public.trading_accounts a WHERE a.id = k.account_id AND a.user_id = k.user_id
+  );
@@ -0,0 +1,64 @@
+-- Realised P&L before costs, matching getGrossPL in the app: the exit legs' P&L when every exit
+-- has one, otherwise the trade's own result
+CREATE OR REPLACE FUNCTION public.trade_gross_pl(t public.trades)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT sum(e.profit_loss)
+      FROM public.trade_executions e
+      WHERE e.trade_id = t.id AND e.side = 'exit'
+      HAVING bool_and(e.profit_loss IS NOT NULL)
+    ),
+    CASE
+      WHEN t.reward_amount IS NOT NULL THEN
+        CASE WHEN t.status = 'loss' THEN -abs(t.reward_amount) ELSE t.reward_amount END
+      ELSE COALESCE(t.profit_loss, 0)
+    END
+  );
+$$;
+
+-- Net realised P&L, matching getTradePL in the app; reads the trade's executions, so no longer immutable
+CREATE OR REPLACE FUNCTION public.trade_net_pl(t public.trades)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT public.trade_gross_pl(t)
+    - COALESCE(t.commission, 0) - COALESCE(t.other_fees, 0) + COALESCE(t.swap, 0);
+$$;
+
+-- Same numbers as before, with the P&L rule kept in one place
+CREATE OR REPLACE FUNCTION public.get_trade_summary()
+RETURNS TABLE (
+  account_id UUID,
+  total_trades BIGINT,
+  open_trades BIGINT,
+  wins BIGINT,
+  losses BIGINT,
+  gross_pl NUMERIC,
+  net_pl NUMERIC,
+  last_entry_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    t.account_id,
+    count(*),
+    count(*) FILTER (WHERE t.status = 'open'),
+    count(*) FILTER (WHERE t.status = 'win'),
+    count(*) FILTER (WHERE t.status = 'loss'),
+    COALESCE(sum(public.trade_gross_pl(t)) FILTER (WHERE t.status IS NOT NULL AND t.status <> 'open'), 0),
+    COALESCE(sum(public.trade_net_pl(t)) FILTER (WHERE t.status IS NOT NULL AND t.status <> 'open'), 0),
+    max(t.entry_date)
+  FROM public.trades t
+  WHERE t.user_id = auth.uid()
+    AND t.deleted_at IS NULL
+  GROUP BY t.account_id;
+$$;
@@ -0,0 +1,75 @@
+-- Writes a trade with its executions and checklist answers in one transaction, so a failure part way
+-- leaves nothing half saved. p_trade holds trades columns; a null p_trade_id inserts a new trade.
+-- Null p_executions / p_rule_answers leave those rows as they are; arrays and objects replace them.
+-- Runs as the caller, so RLS applies to every write.
+CREATE OR REPLACE FUNCTION public.save_trade(
+  p_trade JSONB,
+  p_trade_id UUID DEFAULT NULL,
+  p_executions JSONB DEFAULT NULL,
+  p_rule_answers JSONB DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID := p_trade_id;
+  v_columns TEXT;
+BEGIN
+  SELECT string_agg(quote_ident(k), ', ')
+  INTO v_columns
+  FROM jsonb_object_keys(COALESCE(p_trade, '{}'::jsonb)) k
+  WHERE k NOT IN ('id', 'user_id', 'created_at', 'updated_at');
+
+  IF v_id IS NULL THEN
+    EXECUTE format(
+      'INSERT INTO public.trades (user_id, %1$s) SELECT auth.uid(), %1$s FROM jsonb_populate_record(NULL::public.trades, $1) RETURNING id',
+      v_columns
+    ) INTO v_id USING p_trade;
+  ELSIF v_columns IS NOT NULL THEN
+    EXECUTE format(
+      'UPDATE public.trades SET (%1$s) = (SELECT %1$s FROM jsonb_populate_record(NULL::public.trades, $1)) WHERE id = $2 AND user_id = auth.uid() AND deleted_at IS NULL',
+      v_columns
+    ) USING p_trade, v_id;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.trades WHERE id = v_id AND user_id = auth.uid() AND deleted_at IS NULL) THEN
+    RAISE EXCEPTION 'Trade not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_executions IS NOT NULL THEN
+    DELETE FROM public.trade_executions WHERE trade_id = v_id;
+    INSERT INTO public.trade_executions (trade_id, user_id, side, price, volume, executed_at, profit_loss)
+    SELECT v_id, auth.uid(), e.side, e.price, e.volume, e.executed_at, e.profit_loss
+    FROM jsonb_to_recordset(p_executions)
+      AS e(side TEXT, price NUMERIC, volume NUMERIC, executed_at TIMESTAMP WITH TIME ZONE, profit_loss NUMERIC);
+  END IF;
+
+  IF p_rule_answers IS NOT NULL THEN
+    DELETE FROM public.trade_rule_answers WHERE trade_id = v_id;
+    INSERT INTO public.trade_rule_answers (trade_id, rule_id, user_id, answer)
+    SELECT v_id, a.key::uuid, auth.uid(), a.value
+    FROM jsonb_each_text(p_rule_answers) a
+    WHERE COALESCE(a.value, '') <> '';
+  END IF;
+
+  RETURN v_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.save_trade(JSONB, UUID, JSONB, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.save_trade(JSONB, UUID, JSONB, JSONB) TO authenticated;
+
+-- Risk checks wait for the end of the transaction, so a trade saved with its executions is checked with them
+DROP TRIGGER IF EXISTS check_trade_risk_on_insert ON public.trades;
+DROP TRIGGER IF EXISTS check_trade_risk_on_update ON public.trades;
+
+CREATE CONSTRAINT TRIGGER check_trade_risk_on_insert
+  AFTER INSERT ON public.trades
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW EXECUTE FUNCTION public.check_trade_risk();
+
+CREATE CONSTRAINT TRIGGER check_trade_risk_on_update
+  AFTER UPDATE OF status, exit_date, profit_loss, reward_amount, commission, swap, other_fees, lot_size, risk_amount ON public.trades
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW EXECUTE FUNCTION public.check_trade_risk();
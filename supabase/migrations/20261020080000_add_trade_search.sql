@@ -0,0 +1,198 @@
+-- The Trades page filters, sorts and pages on the server. These computed fields follow the app's
+-- getTradePL, getRMultiple and getHoldingMinutes, and are NULL while a trade is open, like its columns.
+CREATE OR REPLACE FUNCTION public.trade_result_net(t public.trades)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE WHEN t.status IS NOT NULL AND t.status <> 'open' THEN public.trade_net_pl(t) END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.trade_result_gross(t public.trades)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE WHEN t.status IS NOT NULL AND t.status <> 'open' THEN public.trade_gross_pl(t) END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.trade_r_net(t public.trades)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE WHEN t.risk_amount > 0 THEN public.trade_result_net(t) / t.risk_amount END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.trade_r_gross(t public.trades)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE WHEN t.risk_amount > 0 THEN public.trade_result_gross(t) / t.risk_amount END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.trade_holding_minutes(t public.trades)
+RETURNS NUMERIC
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN t.status IS NOT NULL AND t.status <> 'open' AND t.exit_date >= t.entry_date
+      THEN extract(epoch FROM t.exit_date - t.entry_date) / 60
+  END;
+$$;
+
+-- The emotions column holds JSON arrays, Postgres arrays or plain lists; normalised like getTradeEmotions
+CREATE OR REPLACE FUNCTION public.trade_emotions(t public.trades)
+RETURNS TEXT[]
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(array_agg(DISTINCT CASE WHEN upper(e) = 'FOMO' THEN 'FOMO' ELSE upper(left(e, 1)) || lower(substr(e, 2)) END), '{}')
+  FROM unnest(string_to_array(regexp_replace(btrim(COALESCE(t.emotions::text, '')), '^[\[{]|[\]}]$', '', 'g'), ',')) AS raw(value)
+  CROSS JOIN LATERAL (SELECT btrim(replace(raw.value, '"', ''))) AS clean(e)
+  WHERE length(e) > 1;
+$$;
+
+-- Turns a filter tree from the app (TradeFilterNode) into a condition on "t". Values are always quoted
+-- and fields come from a fixed list, so nothing from the caller reaches the SQL unescaped.
+-- Each condition is COALESCEd, so one on a missing value is false and its NOT is true, as in the app.
+CREATE OR REPLACE FUNCTION public.trade_filter_sql(p_filter JSONB, p_basis TEXT, p_time_zone TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_op TEXT := p_filter->>'op';
+  v_field TEXT := p_filter->>'field';
+  v_expr TEXT;
+  v_type TEXT;
+  v_parts TEXT[] := '{}';
+BEGIN
+  IF p_filter IS NULL OR jsonb_typeof(p_filter) = 'null' THEN
+    RETURN 'true';
+  END IF;
+
+  IF v_op IN ('and', 'or') THEN
+    SELECT COALESCE(array_agg(public.trade_filter_sql(node, p_basis, p_time_zone)), '{}')
+    INTO v_parts
+    FROM jsonb_array_elements(p_filter->'nodes') AS node;
+    IF cardinality(v_parts) = 0 THEN
+      RETURN CASE v_op WHEN 'and' THEN 'true' ELSE 'false' END;
+    END IF;
+    RETURN '(' || array_to_string(v_parts, CASE v_op WHEN 'and' THEN ' AND ' ELSE ' OR ' END) || ')';
+  END IF;
+
+  IF v_op = 'not' THEN
+    RETURN '(NOT ' || public.trade_filter_sql(p_filter->'node', p_basis, p_time_zone) || ')';
+  END IF;
+
+  IF v_op = 'rule' THEN
+    v_expr := format(
+      'EXISTS (SELECT 1 FROM public.trade_rule_answers a WHERE a.trade_id = t.id AND a.rule_id::text = %L AND a.answer = %L)',
+      p_filter->>'rule_id', p_filter->>'answer'
+    );
+  ELSIF v_op = 'search' THEN
+    v_expr := format(
+      'EXISTS (SELECT 1 FROM unnest(ARRAY[t.symbol, t.strategy] || COALESCE(t.tags, ''{}'')) v WHERE strpos(lower(v), lower(%L)) > 0)',
+      p_filter->>'value'
+    );
+  ELSIF v_op IN ('match', 'in') THEN
+    v_expr := CASE v_field
+      WHEN 'symbol' THEN 'ARRAY[t.symbol]'
+      WHEN 'strategy' THEN 'ARRAY[t.strategy]'
+      WHEN 'setup' THEN 'ARRAY[t.setup_type]'
+      WHEN 'probability' THEN 'ARRAY[t.probability]'
+      WHEN 'tag' THEN 'COALESCE(t.tags, ''{}'')'
+      WHEN 'emotion' THEN 'public.trade_emotions(t)'
+      WHEN 'asset' THEN 'ARRAY[t.asset_class::text]'
+      WHEN 'direction' THEN 'ARRAY[t.direction::text]'
+      WHEN 'status' THEN 'ARRAY[t.status::text]'
+      WHEN 'exit' THEN 'ARRAY[t.exit_reason::text]'
+    END;
+    IF v_op = 'in' AND v_expr IS NOT NULL THEN
+      v_expr := format('%s && %L::text[]', v_expr, ARRAY(SELECT jsonb_array_elements_text(p_filter->'values')));
+    ELSIF v_expr IS NOT NULL THEN
+      -- "*" is the only wildcard; LIKE's own wildcards are matched literally
+      v_expr := format(
+        'EXISTS (SELECT 1 FROM unnest(%s) v WHERE lower(v) LIKE %L)',
+        v_expr,
+        replace(replace(replace(replace(lower(p_filter->>'pattern'), '\', '\\'), '%', '\%'), '_', '\_'), '*', '%')
+      );
+    END IF;
+  ELSIF v_op = 'contains' AND v_field = 'note' THEN
+    v_expr := format(
+      'strpos(lower(concat_ws(E''\n'', t.reasoning, t.lessons, t.lessons_learned)), lower(%L)) > 0',
+      p_filter->>'value'
+    );
+  ELSIF v_op = 'is' AND v_field = 'review' THEN
+    v_expr := format('COALESCE(t.needs_review, false) = %L::boolean', p_filter->>'value');
+  ELSIF v_op = 'range' THEN
+    -- Dates compare as day keys in the caller's time zone, like toDayKey in the browser
+    v_expr := CASE v_field
+      WHEN 'pl' THEN CASE p_basis WHEN 'gross' THEN 'public.trade_result_gross(t)' ELSE 'public.trade_result_net(t)' END
+      WHEN 'r' THEN CASE p_basis WHEN 'gross' THEN 'public.trade_r_gross(t)' ELSE 'public.trade_r_net(t)' END
+      WHEN 'rr' THEN 't.risk_reward_ratio'
+      WHEN 'lots' THEN 't.lot_size'
+      WHEN 'pips' THEN 't.pips'
+      WHEN 'date' THEN format('to_char(t.entry_date AT TIME ZONE %L, ''YYYY-MM-DD'')', p_time_zone)
+      WHEN 'closed' THEN format('to_char(t.exit_date AT TIME ZONE %L, ''YYYY-MM-DD'')', p_time_zone)
+    END;
+    v_type := CASE WHEN v_field IN ('date', 'closed') THEN 'text' ELSE 'numeric' END;
+    IF p_filter->>'min' IS NOT NULL THEN
+      v_parts := v_parts || format('%s %s %L::%s', v_expr,
+        CASE WHEN (p_filter->>'min_exclusive')::boolean THEN '>' ELSE '>=' END, p_filter->>'min', v_type);
+    END IF;
+    IF p_filter->>'max' IS NOT NULL THEN
+      v_parts := v_parts || format('%s %s %L::%s', v_expr,
+        CASE WHEN (p_filter->>'max_exclusive')::boolean THEN '<' ELSE '<=' END, p_filter->>'max', v_type);
+    END IF;
+    IF v_expr IS NOT NULL THEN
+      v_expr := CASE WHEN cardinality(v_parts) = 0 THEN v_expr || ' IS NOT NULL' ELSE array_to_string(v_parts, ' AND ') END;
+    END IF;
+  END IF;
+
+  IF v_expr IS NULL THEN
+    RAISE EXCEPTION 'Unsupported trade filter: %', p_filter USING ERRCODE = '22023';
+  END IF;
+  RETURN format('COALESCE((%s), false)', v_expr);
+END;
+$$;
+
+-- The caller's live trades matching a filter tree. Returns trade rows, so PostgREST can embed fills
+-- and answers, sort by columns or the computed fields above, page with range and count the matches.
+-- Runs as the caller, so RLS still limits it to their own rows.
+CREATE OR REPLACE FUNCTION public.search_trades(
+  p_filter JSONB DEFAULT NULL,
+  p_basis TEXT DEFAULT 'net',
+  p_time_zone TEXT DEFAULT 'UTC',
+  p_account_id UUID DEFAULT NULL
+)
+RETURNS SETOF public.trades
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF p_basis NOT IN ('net', 'gross') THEN
+    RAISE EXCEPTION 'Unknown P&L basis: %', p_basis USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY EXECUTE format(
+    'SELECT t.* FROM public.trades t
+     WHERE t.user_id = auth.uid() AND t.deleted_at IS NULL AND ($1 IS NULL OR t.account_id = $1) AND %s',
+    public.trade_filter_sql(p_filter, p_basis, p_time_zone)
+  ) USING p_account_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.search_trades(JSONB, TEXT, TEXT, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.search_trades(JSONB, TEXT, TEXT, UUID) TO authenticated;
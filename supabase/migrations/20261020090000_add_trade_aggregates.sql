@@ -0,0 +1,157 @@
+-- Totals over the caller's closed trades matching a filter tree (see search_trades), optionally per
+-- group. The app's statsFromTotals and breakdowns turn these into the figures the pages show, the
+-- same way summarizeTrades and groupTrades do for trades already in the browser.
+CREATE OR REPLACE FUNCTION public.get_trade_stats(
+  p_filter JSONB DEFAULT NULL,
+  p_basis TEXT DEFAULT 'net',
+  p_time_zone TEXT DEFAULT 'UTC',
+  p_account_id UUID DEFAULT NULL,
+  p_group TEXT DEFAULT NULL,
+  p_group_time_zone TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  group_key TEXT,
+  trades BIGINT,
+  wins BIGINT,
+  losses BIGINT,
+  breakeven BIGINT,
+  total_pl NUMERIC,
+  gross_pl NUMERIC,
+  commission NUMERIC,
+  swap NUMERIC,
+  other_fees NUMERIC,
+  win_amount NUMERIC,
+  loss_amount NUMERIC,
+  largest_win NUMERIC,
+  largest_loss NUMERIC,
+  rr_trades BIGINT,
+  rr_total NUMERIC,
+  risk_trades BIGINT,
+  risk_total NUMERIC,
+  pip_trades BIGINT,
+  pip_total NUMERIC,
+  r_trades BIGINT,
+  r_total NUMERIC,
+  r_squares NUMERIC,
+  win_r_trades BIGINT,
+  win_r_total NUMERIC,
+  loss_r_trades BIGINT,
+  loss_r_total NUMERIC,
+  largest_win_r NUMERIC,
+  largest_loss_r NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  -- Months and weekdays can be taken in another zone than the filter's dates, like the profile's
+  v_zone TEXT := COALESCE(p_group_time_zone, p_time_zone);
+  v_key TEXT;
+BEGIN
+  IF p_basis NOT IN ('net', 'gross') THEN
+    RAISE EXCEPTION 'Unknown P&L basis: %', p_basis USING ERRCODE = '22023';
+  END IF;
+
+  v_key := CASE p_group
+    WHEN 'strategy' THEN 'COALESCE(NULLIF(t.strategy, ''''), ''No Strategy'')'
+    WHEN 'symbol' THEN 't.symbol'
+    WHEN 'asset' THEN 't.asset_class'
+    WHEN 'exit' THEN 't.exit_reason'
+    WHEN 'playbook' THEN 't.playbook_id::text'
+    WHEN 'month' THEN format('to_char(t.exit_date AT TIME ZONE %L, ''YYYY-MM'')', v_zone)
+    WHEN 'weekday' THEN format('extract(dow FROM t.entry_date AT TIME ZONE %L)::int::text', v_zone)
+  END;
+  IF p_group IS NOT NULL AND v_key IS NULL THEN
+    RAISE EXCEPTION 'Unknown trade group: %', p_group USING ERRCODE = '22023';
+  END IF;
+
+  -- Ungrouped, the aggregate returns its one row even when nothing matches
+  RETURN QUERY EXECUTE format(
+    'SELECT
+       s.key,
+       count(*),
+       count(*) FILTER (WHERE s.status = ''win''),
+       count(*) FILTER (WHERE s.status = ''loss''),
+       count(*) FILTER (WHERE s.status = ''breakeven''),
+       COALESCE(sum(s.pl), 0),
+       COALESCE(sum(s.gross), 0),
+       COALESCE(sum(s.commission), 0),
+       COALESCE(sum(s.swap), 0),
+       COALESCE(sum(s.other_fees), 0),
+       COALESCE(sum(abs(s.pl)) FILTER (WHERE s.status = ''win''), 0),
+       COALESCE(sum(abs(s.pl)) FILTER (WHERE s.status = ''loss''), 0),
+       COALESCE(max(abs(s.pl)) FILTER (WHERE s.status = ''win''), 0),
+       COALESCE(max(abs(s.pl)) FILTER (WHERE s.status = ''loss''), 0),
+       count(s.risk_reward_ratio),
+       COALESCE(sum(s.risk_reward_ratio), 0),
+       count(s.risk_amount),
+       COALESCE(sum(s.risk_amount), 0),
+       count(s.pips),
+       COALESCE(sum(s.pips), 0),
+       count(s.r),
+       COALESCE(sum(s.r), 0),
+       COALESCE(sum(s.r * s.r), 0),
+       count(*) FILTER (WHERE s.r > 0),
+       COALESCE(sum(s.r) FILTER (WHERE s.r > 0), 0),
+       count(*) FILTER (WHERE s.r < 0),
+       COALESCE(-sum(s.r) FILTER (WHERE s.r < 0), 0),
+       COALESCE(max(s.r) FILTER (WHERE s.r > 0), 0),
+       COALESCE(-min(s.r) FILTER (WHERE s.r < 0), 0)
+     FROM (
+       SELECT
+         %s AS key, t.status, t.commission, t.swap, t.other_fees, t.risk_reward_ratio, t.risk_amount, t.pips,
+         p.pl, p.gross, CASE WHEN t.risk_amount > 0 THEN p.pl / t.risk_amount END AS r
+       FROM public.trades t
+       CROSS JOIN LATERAL (
+         SELECT
+           CASE $2 WHEN ''gross'' THEN public.trade_gross_pl(t) ELSE public.trade_net_pl(t) END AS pl,
+           public.trade_gross_pl(t) AS gross
+       ) p
+       WHERE t.user_id = auth.uid() AND t.deleted_at IS NULL AND t.status IS NOT NULL AND t.status <> ''open''
+         AND ($1 IS NULL OR t.account_id = $1) AND %s
+     ) s
+     %s',
+    COALESCE(v_key, 'NULL::text'),
+    public.trade_filter_sql(p_filter, p_basis, p_time_zone),
+    CASE WHEN v_key IS NULL THEN '' ELSE 'WHERE s.key IS NOT NULL GROUP BY s.key' END
+  ) USING p_account_id, p_basis;
+END;
+$$;
+
+-- Each matching closed trade's exit time and result, oldest first, for equity curves and drawdowns
+CREATE OR REPLACE FUNCTION public.get_trade_points(
+  p_filter JSONB DEFAULT NULL,
+  p_basis TEXT DEFAULT 'net',
+  p_time_zone TEXT DEFAULT 'UTC',
+  p_account_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  exit_date TIMESTAMP WITH TIME ZONE,
+  pl NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF p_basis NOT IN ('net', 'gross') THEN
+    RAISE EXCEPTION 'Unknown P&L basis: %', p_basis USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY EXECUTE format(
+    'SELECT t.id, t.exit_date, CASE $2 WHEN ''gross'' THEN public.trade_gross_pl(t) ELSE public.trade_net_pl(t) END
+     FROM public.trades t
+     WHERE t.user_id = auth.uid() AND t.deleted_at IS NULL AND t.status IS NOT NULL AND t.status <> ''open''
+       AND t.exit_date IS NOT NULL AND ($1 IS NULL OR t.account_id = $1) AND %s
+     ORDER BY t.exit_date, t.id',
+    public.trade_filter_sql(p_filter, p_basis, p_time_zone)
+  ) USING p_account_id, p_basis;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_trade_stats(JSONB, TEXT, TEXT, UUID, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_trade_stats(JSONB, TEXT, TEXT, UUID, TEXT, TEXT) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_trade_points(JSONB, TEXT, TEXT, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_trade_points(JSONB, TEXT, TEXT, UUID) TO authenticated;
@@ -0,0 +1,58 @@
+-- A trade deleted outright leaves no row for an updated_at sync to find, so the delete leaves a
+-- tombstone that clients read to drop it from their cache
+CREATE TABLE IF NOT EXISTS public.trade_tombstones (
+  trade_id UUID PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  deleted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.trade_tombstones ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for users; only the trigger writes them
+CREATE POLICY "Users can view their own trade tombstones"
+  ON public.trade_tombstones FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_trade_tombstones_user_deleted ON public.trade_tombstones (user_id, deleted_at);
+
+CREATE OR REPLACE FUNCTION public.record_trade_tombstone()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.trade_tombstones (trade_id, user_id)
+  VALUES (OLD.id, OLD.user_id)
+  ON CONFLICT (trade_id) DO UPDATE SET user_id = EXCLUDED.user_id, deleted_at = now();
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_trade_tombstone() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER record_trade_tombstone
+  AFTER DELETE ON public.trades
+  FOR EACH ROW EXECUTE FUNCTION public.record_trade_tombstone();
+
+-- Caches older than the retention period sync from scratch, so tombstones are only kept that long
+CREATE OR REPLACE FUNCTION public.purge_deleted_trades(p_retention INTERVAL DEFAULT INTERVAL '30 days')
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  DELETE FROM public.trades
+  WHERE deleted_at IS NOT NULL
+    AND deleted_at < now() - p_retention;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  DELETE FROM public.trade_tombstones
+  WHERE deleted_at < now() - p_retention;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.purge_deleted_trades(INTERVAL) FROM PUBLIC, anon, authenticated;
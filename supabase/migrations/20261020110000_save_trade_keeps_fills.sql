@@ -0,0 +1,74 @@
+-- Saving a trade used to replace all of its executions, which dropped the MT5 deal number and the
+-- fill's own commission and swap, so the EA's next resend of a deal added it again. Fills sent with
+-- an id are now updated in place, keeping the columns the form doesn't edit; fills left out are
+-- removed and fills without an id are added. Null p_executions still leaves them untouched.
+CREATE OR REPLACE FUNCTION public.save_trade(
+  p_trade JSONB,
+  p_trade_id UUID DEFAULT NULL,
+  p_executions JSONB DEFAULT NULL,
+  p_rule_answers JSONB DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID := p_trade_id;
+  v_columns TEXT;
+BEGIN
+  SELECT string_agg(quote_ident(k), ', ')
+  INTO v_columns
+  FROM jsonb_object_keys(COALESCE(p_trade, '{}'::jsonb)) k
+  WHERE k NOT IN ('id', 'user_id', 'created_at', 'updated_at');
+
+  IF v_id IS NULL THEN
+    EXECUTE format(
+      'INSERT INTO public.trades (user_id, %1$s) SELECT auth.uid(), %1$s FROM jsonb_populate_record(NULL::public.trades, $1) RETURNING id',
+      v_columns
+    ) INTO v_id USING p_trade;
+  ELSIF v_columns IS NOT NULL THEN
+    EXECUTE format(
+      'UPDATE public.trades SET (%1$s) = (SELECT %1$s FROM jsonb_populate_record(NULL::public.trades, $1)) WHERE id = $2 AND user_id = auth.uid() AND deleted_at IS NULL',
+      v_columns
+    ) USING p_trade, v_id;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.trades WHERE id = v_id AND user_id = auth.uid() AND deleted_at IS NULL) THEN
+    RAISE EXCEPTION 'Trade not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_executions IS NOT NULL THEN
+    DELETE FROM public.trade_executions x
+    WHERE x.trade_id = v_id
+      AND x.id NOT IN (
+        SELECT (e->>'id')::uuid FROM jsonb_array_elements(p_executions) e WHERE e->>'id' IS NOT NULL
+      );
+
+    UPDATE public.trade_executions x
+    SET side = e.side, price = e.price, volume = e.volume, executed_at = e.executed_at, profit_loss = e.profit_loss
+    FROM jsonb_to_recordset(p_executions)
+      AS e(id UUID, side TEXT, price NUMERIC, volume NUMERIC, executed_at TIMESTAMP WITH TIME ZONE, profit_loss NUMERIC)
+    WHERE x.id = e.id AND x.trade_id = v_id;
+
+    INSERT INTO public.trade_executions (trade_id, user_id, side, price, volume, executed_at, profit_loss)
+    SELECT v_id, auth.uid(), e.side, e.price, e.volume, e.executed_at, e.profit_loss
+    FROM jsonb_to_recordset(p_executions)
+      AS e(id UUID, side TEXT, price NUMERIC, volume NUMERIC, executed_at TIMESTAMP WITH TIME ZONE, profit_loss NUMERIC)
+    WHERE e.id IS NULL
+      OR NOT EXISTS (SELECT 1 FROM public.trade_executions x WHERE x.id = e.id AND x.trade_id = v_id);
+  END IF;
+
+  IF p_rule_answers IS NOT NULL THEN
+    DELETE FROM public.trade_rule_answers WHERE trade_id = v_id;
+    INSERT INTO public.trade_rule_answers (trade_id, rule_id, user_id, answer)
+    SELECT v_id, a.key::uuid, auth.uid(), a.value
+    FROM jsonb_each_text(p_rule_answers) a
+    WHERE COALESCE(a.value, '') <> '';
+  END IF;
+
+  RETURN v_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.save_trade(JSONB, UUID, JSONB, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.save_trade(JSONB, UUID, JSONB, JSONB) TO authenticated;
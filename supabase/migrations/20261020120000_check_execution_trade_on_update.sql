@@ -0,0 +1,13 @@
+-- Updates were only checked against the row's old owner, so a fill could be moved onto another
+-- user's trade by changing its trade_id; the new row now has to pass the same check as an insert
+DROP POLICY IF EXISTS "Users can update their own executions" ON public.trade_executions;
+
+CREATE POLICY "Users can update their own executions"
+  ON public.trade_executions FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.trades t WHERE t.id = trade_id AND t.user_id = auth.uid()
+    )
+  );
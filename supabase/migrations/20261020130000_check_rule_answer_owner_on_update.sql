@@ -0,0 +1,16 @@
+-- Like executions, an answer could be moved onto another user's trade or rule by an update; the new
+-- row now has to pass the same check as an insert
+DROP POLICY IF EXISTS "Users can update their own rule answers" ON public.trade_rule_answers;
+
+CREATE POLICY "Users can update their own rule answers"
+  ON public.trade_rule_answers FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.trades t WHERE t.id = trade_id AND t.user_id = auth.uid()
+    )
+    AND EXISTS (
+      SELECT 1 FROM public.checklist_rules r WHERE r.id = rule_id AND r.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,34 @@
+-- The scheduled purge removed trades and, by cascade, their screenshot rows but left the image files
+-- in the bucket. It now deletes the files first, as purgeTrades in the app does.
+CREATE OR REPLACE FUNCTION public.purge_deleted_trades(p_retention INTERVAL DEFAULT INTERVAL '30 days')
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  -- Storage refuses direct deletes from its tables unless this is set for the transaction
+  PERFORM set_config('storage.allow_delete_query', 'true', true);
+
+  DELETE FROM storage.objects o
+  USING public.trade_screenshots s, public.trades t
+  WHERE o.bucket_id = 'trade-screenshots'
+    AND o.name = s.storage_path
+    AND s.trade_id = t.id
+    AND t.deleted_at IS NOT NULL
+    AND t.deleted_at < now() - p_retention;
+
+  DELETE FROM public.trades
+  WHERE deleted_at IS NOT NULL
+    AND deleted_at < now() - p_retention;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  DELETE FROM public.trade_tombstones
+  WHERE deleted_at < now() - p_retention;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.purge_deleted_trades(INTERVAL) FROM PUBLIC, anon, authenticated;